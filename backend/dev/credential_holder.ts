@@ -0,0 +1,87 @@
+// Holder-side helper for selective-disclosure credentials. The holder key and owner secret stay
+// on this machine.
+//
+//   bun run dev/credential_holder.ts keygen > holder.json
+//       creates the holder key pair the credential is bound to
+//   bun run dev/credential_holder.ts request <deviceId> <ownerSecret> <holder.json> <claimTypes> [trustThreshold]
+//       prints the body for POST /credentials; claimTypes is a comma-separated list of
+//       ownership, clean_status and trust_threshold
+//   bun run dev/credential_holder.ts present <holder.json> <sdJwtFile> <audience> <nonce> [claim...]
+//       prints the body for POST /credentials/verify, disclosing only the named claims
+//   bun run dev/credential_holder.ts revoke <deviceId> <ownerSecret> <credentialId>
+//       prints the body for POST /credentials/revoke
+import { createPrivateKey, createPublicKey, generateKeyPairSync } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { deriveOwnerKey, proveKnowledge } from "../verification/schnorr";
+import { Ed25519PublicJwk, jwkThumbprint, presentSdJwt } from "../verification/sd_jwt";
+
+interface HolderKeyFile {
+  privateKeyPem: string;
+  publicKeyJwk: Ed25519PublicJwk;
+}
+
+function usage(): never {
+  console.error("usage: credential_holder.ts keygen");
+  console.error("       credential_holder.ts request <deviceId> <ownerSecret> <holder.json> <claimTypes> [trustThreshold]");
+  console.error("       credential_holder.ts present <holder.json> <sdJwtFile> <audience> <nonce> [claim...]");
+  console.error("       credential_holder.ts revoke <deviceId> <ownerSecret> <credentialId>");
+  process.exit(1);
+}
+
+function readHolderKey(path: string): HolderKeyFile {
+  return JSON.parse(readFileSync(path, "utf8"));
+}
+
+const [command, ...args] = process.argv.slice(2);
+
+if (command === "keygen") {
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+  const { kty, crv, x } = publicKey.export({ format: "jwk" });
+  console.log(JSON.stringify({
+    privateKeyPem: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    publicKeyJwk: { kty, crv, x },
+  }, null, 2));
+} else if (command === "request") {
+  const [deviceIdArg, ownerSecret, holderFile, claimTypes, trustThreshold] = args;
+  const deviceId = Number(deviceIdArg);
+  if (!Number.isInteger(deviceId) || !ownerSecret || !holderFile || !claimTypes) {
+    usage();
+  }
+  const { publicKeyJwk } = readHolderKey(holderFile);
+  const ownerKey = deriveOwnerKey(ownerSecret, deviceId);
+  console.log(JSON.stringify({
+    deviceId,
+    claimTypes: claimTypes.split(","),
+    trustThreshold: trustThreshold !== undefined ? Number(trustThreshold) : undefined,
+    holderPublicKey: publicKeyJwk,
+    proof: proveKnowledge(ownerKey, { deviceId, claimType: `credential:${jwkThumbprint(publicKeyJwk)}` }),
+  }, null, 2));
+} else if (command === "present") {
+  const [holderFile, sdJwtFile, audience, nonce, ...claims] = args;
+  if (!holderFile || !sdJwtFile || !audience || !nonce) {
+    usage();
+  }
+  const { privateKeyPem, publicKeyJwk } = readHolderKey(holderFile);
+  const privateKey = createPrivateKey(privateKeyPem);
+  if (createPublicKey(privateKey).export({ format: "jwk" }).x !== publicKeyJwk.x) {
+    console.error("holder key file is inconsistent");
+    process.exit(1);
+  }
+  console.log(JSON.stringify({
+    presentation: presentSdJwt(readFileSync(sdJwtFile, "utf8").trim(), claims, { privateKey, audience, nonce }),
+    audience,
+    nonce,
+  }, null, 2));
+} else if (command === "revoke") {
+  const [deviceIdArg, ownerSecret, credentialId] = args;
+  const deviceId = Number(deviceIdArg);
+  if (!Number.isInteger(deviceId) || !ownerSecret || !credentialId) {
+    usage();
+  }
+  console.log(JSON.stringify({
+    credentialId,
+    proof: proveKnowledge(deriveOwnerKey(ownerSecret, deviceId), { deviceId, claimType: `revoke-credential:${credentialId}` }),
+  }, null, 2));
+} else {
+  usage();
+}
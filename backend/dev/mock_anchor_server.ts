@@ -0,0 +1,255 @@
+// Stand-in for the ledger anchor target so anchoring can be exercised offline. One process
+// serves both backends:
+//
+//   MOCK_ANCHOR_PORT=4201 bun run dev/mock_anchor_server.ts
+//
+//   POST /tsa  RFC 3161 timestamp authority (LedgerAnchorBackend=rfc3161,
+//              LedgerAnchorURL=http://localhost:4201/tsa)
+//   POST /rpc  EVM JSON-RPC node with an unlocked account (LedgerAnchorBackend=evm,
+//              LedgerAnchorURL=http://localhost:4201/rpc)
+//
+// Timestamp tokens are signed with the key in MOCK_ANCHOR_TSA_KEY. Create it and its certificate,
+// which goes in the LedgerAnchorTSACertificate secret, with:
+//
+//   openssl req -x509 -newkey ec -pkeyopt ec_paramgen_curve:P-256 -nodes -days 365 \
+//     -subj /CN=mock-tsa -keyout tsa-key.pem -out tsa-cert.pem
+//
+// Environment:
+//   MOCK_ANCHOR_PORT        port to listen on (default 4201)
+//   MOCK_ANCHOR_TSA_KEY     PEM private key the TSA signs tokens with (required for /tsa)
+//   MOCK_ANCHOR_MINE_MS     delay before a sent transaction is mined (default 0)
+//   MOCK_ANCHOR_TSA_STATUS  PKIStatus returned by the TSA, 2 to simulate rejection (default 0)
+//   MOCK_ANCHOR_REVERT      "true" to mine every transaction with a failed status
+import { createHash, createPrivateKey, createPublicKey, KeyObject, sign } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+
+const port = Number(process.env.MOCK_ANCHOR_PORT ?? 4201);
+const mineMs = Number(process.env.MOCK_ANCHOR_MINE_MS ?? 0);
+const tsaStatus = Number(process.env.MOCK_ANCHOR_TSA_STATUS ?? 0);
+const revert = process.env.MOCK_ANCHOR_REVERT === "true";
+const tsaKey: KeyObject | null = process.env.MOCK_ANCHOR_TSA_KEY
+  ? createPrivateKey(readFileSync(process.env.MOCK_ANCHOR_TSA_KEY, "utf8"))
+  : null;
+
+const SHA256_ALGORITHM = [0x60, 0x86, 0x48, 0x01, 0x65, 0x03, 0x04, 0x02, 0x01];
+const TST_INFO_OID = [0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x09, 0x10, 0x01, 0x04];
+// ecdsa-with-SHA256 and sha256WithRSAEncryption
+const ECDSA_SHA256_OID = [0x2a, 0x86, 0x48, 0xce, 0x3d, 0x04, 0x03, 0x02];
+const RSA_SHA256_OID = [0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x0b];
+
+interface MockTransaction {
+  hash: string;
+  from: string;
+  to: string;
+  input: string;
+  sentAt: number;
+  blockNumber?: number;
+}
+
+const transactions = new Map<string, MockTransaction>();
+let chainHeight = 1000;
+let tsaSerial = 1;
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+function der(tag: number, ...contents: Buffer[]): Buffer {
+  const body = Buffer.concat(contents);
+  const length = body.length < 0x80
+    ? Buffer.from([body.length])
+    : body.length < 0x100
+      ? Buffer.from([0x81, body.length])
+      : Buffer.from([0x82, body.length >> 8, body.length & 0xff]);
+  return Buffer.concat([Buffer.from([tag]), length, body]);
+}
+
+function derInteger(value: number): Buffer {
+  const bytes: number[] = [];
+  for (let remaining = value; remaining > 0; remaining = Math.floor(remaining / 256)) {
+    bytes.unshift(remaining & 0xff);
+  }
+  if (bytes.length === 0 || bytes[0] & 0x80) {
+    bytes.unshift(0);
+  }
+  return der(0x02, Buffer.from(bytes));
+}
+
+// Walks the top level of a DER SEQUENCE and returns its children.
+function derChildren(buffer: Buffer): Buffer[] {
+  const children: Buffer[] = [];
+  let offset = buffer[1] & 0x80 ? 2 + (buffer[1] & 0x7f) : 2;
+  while (offset < buffer.length) {
+    let length = buffer[offset + 1];
+    let header = 2;
+    if (length & 0x80) {
+      const byteCount = length & 0x7f;
+      length = 0;
+      for (let i = 0; i < byteCount; i++) {
+        length = (length << 8) | buffer[offset + 2 + i];
+      }
+      header += byteCount;
+    }
+    children.push(buffer.subarray(offset, offset + header + length));
+    offset += header + length;
+  }
+  return children;
+}
+
+// TimeStampReq is { version, messageImprint, nonce?, certReq? }; the token echoes the imprint and nonce.
+function timestamp(request: Buffer, key: KeyObject): Buffer {
+  if (tsaStatus > 1) {
+    return der(0x30, der(0x30, derInteger(tsaStatus)));
+  }
+
+  const [, messageImprint, nonce] = derChildren(request);
+  const genTime = new Date().toISOString().replace(/[-:T]/g, "").replace(/\.\d+Z$/, "Z");
+  const tstInfo = der(0x30,
+    derInteger(1),
+    der(0x06, Buffer.from([0x2a, 0x03, 0x04, 0x01])),
+    messageImprint,
+    derInteger(tsaSerial++),
+    der(0x18, Buffer.from(genTime, "ascii")),
+    ...(nonce?.[0] === 0x02 ? [nonce] : [])
+  );
+  const sha256 = der(0x30, der(0x06, Buffer.from(SHA256_ALGORITHM)), der(0x05));
+  // Signed attributes: contentType and messageDigest over the TSTInfo
+  const attributes = Buffer.concat([
+    der(0x30, der(0x06, Buffer.from([0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x09, 0x03])), der(0x31, der(0x06, Buffer.from(TST_INFO_OID)))),
+    der(0x30, der(0x06, Buffer.from([0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x09, 0x04])),
+      der(0x31, der(0x04, createHash("sha256").update(tstInfo).digest()))),
+  ]);
+  const signerInfo = der(0x30,
+    derInteger(3),
+    der(0x80, createHash("sha1").update(createPublicKey(key).export({ type: "spki", format: "der" })).digest()),
+    sha256,
+    der(0xa0, attributes),
+    der(0x30, der(0x06, Buffer.from(key.asymmetricKeyType === "rsa" ? RSA_SHA256_OID : ECDSA_SHA256_OID))),
+    der(0x04, sign("sha256", der(0x31, attributes), key))
+  );
+  // ContentInfo { id-signedData, [0] SignedData { version, digestAlgorithms, encapContentInfo, signerInfos } }
+  const token = der(0x30,
+    der(0x06, Buffer.from([0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x07, 0x02])),
+    der(0xa0, der(0x30,
+      derInteger(3),
+      der(0x31, sha256),
+      der(0x30, der(0x06, Buffer.from(TST_INFO_OID)), der(0xa0, der(0x04, tstInfo))),
+      der(0x31, signerInfo)
+    ))
+  );
+  return der(0x30, der(0x30, derInteger(tsaStatus)), token);
+}
+
+function mine(transaction: MockTransaction): MockTransaction {
+  if (transaction.blockNumber === undefined && Date.now() - transaction.sentAt >= mineMs) {
+    transaction.blockNumber = ++chainHeight;
+  }
+  return transaction;
+}
+
+function blockHash(blockNumber: number): string {
+  return `0x${createHash("sha256").update(`block:${blockNumber}`).digest("hex")}`;
+}
+
+function rpc(method: string, params: unknown[]): unknown {
+  switch (method) {
+    case "eth_chainId":
+      return "0x539";
+    case "eth_blockNumber":
+      return `0x${chainHeight.toString(16)}`;
+    case "eth_sendTransaction": {
+      const { from, to, data } = params[0] as { from: string; to: string; data: string };
+      const hash = `0x${createHash("sha256").update(`${from}:${data}:${transactions.size}`).digest("hex")}`;
+      transactions.set(hash, { hash, from, to, input: data, sentAt: Date.now() });
+      return hash;
+    }
+    case "eth_getTransactionReceipt": {
+      const transaction = transactions.get(params[0] as string);
+      if (!transaction || mine(transaction).blockNumber === undefined) {
+        return null;
+      }
+      return {
+        transactionHash: transaction.hash,
+        blockNumber: `0x${transaction.blockNumber!.toString(16)}`,
+        blockHash: blockHash(transaction.blockNumber!),
+        status: revert ? "0x0" : "0x1",
+      };
+    }
+    case "eth_getTransactionByHash": {
+      const transaction = transactions.get(params[0] as string);
+      if (!transaction) {
+        return null;
+      }
+      mine(transaction);
+      return {
+        hash: transaction.hash,
+        from: transaction.from,
+        to: transaction.to,
+        input: transaction.input,
+        blockNumber: transaction.blockNumber !== undefined ? `0x${transaction.blockNumber.toString(16)}` : null,
+      };
+    }
+    default:
+      throw new Error(`Method ${method} not supported`);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === "GET" && req.url === "/health") {
+    sendJson(res, 200, { status: "ok" });
+    return;
+  }
+
+  if (req.method === "POST" && req.url === "/tsa") {
+    if (!tsaKey) {
+      sendJson(res, 503, { error: "MOCK_ANCHOR_TSA_KEY is not set" });
+      return;
+    }
+    try {
+      const reply = timestamp(await readBody(req), tsaKey);
+      res.writeHead(200, { "Content-Type": "application/timestamp-reply" });
+      res.end(reply);
+    } catch {
+      sendJson(res, 400, { error: "malformed timestamp request" });
+    }
+    return;
+  }
+
+  if (req.method === "POST" && req.url === "/rpc") {
+    let request: { id?: unknown; method?: string; params?: unknown[] };
+    try {
+      request = JSON.parse((await readBody(req)).toString("utf8"));
+    } catch {
+      sendJson(res, 400, { jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } });
+      return;
+    }
+
+    try {
+      const result = rpc(request.method ?? "", request.params ?? []);
+      sendJson(res, 200, { jsonrpc: "2.0", id: request.id ?? null, result });
+    } catch (error) {
+      sendJson(res, 200, {
+        jsonrpc: "2.0",
+        id: request.id ?? null,
+        error: { code: -32601, message: error instanceof Error ? error.message : String(error) },
+      });
+    }
+    return;
+  }
+
+  sendJson(res, 404, { error: "not found" });
+});
+
+server.listen(port, () => {
+  console.log(`Mock anchor server listening on http://localhost:${port} (TSA at /tsa, JSON-RPC at /rpc)`);
+});
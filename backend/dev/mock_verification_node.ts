@@ -0,0 +1,85 @@
+// Stand-in for a federation node (stolen registry, police, insurer or manufacturer) so the
+// federation layer can be exercised offline. Run one process per node:
+//
+//   MOCK_NODE_PORT=4101 MOCK_STOLEN=IMEI123 bun run dev/mock_verification_node.ts
+//
+// and register http://localhost:4101/lookup in verification_nodes.
+//
+// Environment:
+//   MOCK_NODE_PORT          port to listen on (default 4101)
+//   MOCK_NODE_NAME          name reported in responses (default "mock-node")
+//   MOCK_STOLEN             comma-separated identifiers to report as stolen
+//   MOCK_FLAGGED            comma-separated identifiers to report as flagged
+//   MOCK_UNKNOWN_BY_DEFAULT "true" to answer "unknown" instead of "clean" for other identifiers
+//   MOCK_LATENCY_MS         delay before answering, to exercise timeouts (default 0)
+//   MOCK_FAILURE_RATE       share of lookups answered with HTTP 503, 0-1 (default 0)
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+
+const port = Number(process.env.MOCK_NODE_PORT ?? 4101);
+const nodeName = process.env.MOCK_NODE_NAME ?? "mock-node";
+const stolen = new Set((process.env.MOCK_STOLEN ?? "").split(",").filter(Boolean));
+const flagged = new Set((process.env.MOCK_FLAGGED ?? "").split(",").filter(Boolean));
+const unknownByDefault = process.env.MOCK_UNKNOWN_BY_DEFAULT === "true";
+const latencyMs = Number(process.env.MOCK_LATENCY_MS ?? 0);
+const failureRate = Number(process.env.MOCK_FAILURE_RATE ?? 0);
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === "GET" && req.url === "/health") {
+    send(res, 200, { status: "ok", node: nodeName });
+    return;
+  }
+
+  if (req.method !== "POST" || req.url !== "/lookup") {
+    send(res, 404, { error: "not found" });
+    return;
+  }
+
+  let lookup: { identifier?: string; identifierType?: string };
+  try {
+    lookup = JSON.parse(await readBody(req));
+  } catch {
+    send(res, 400, { error: "invalid JSON" });
+    return;
+  }
+  if (!lookup.identifier) {
+    send(res, 400, { error: "identifier is required" });
+    return;
+  }
+
+  if (latencyMs > 0) {
+    await new Promise(resolve => setTimeout(resolve, latencyMs));
+  }
+  if (Math.random() < failureRate) {
+    send(res, 503, { error: "simulated outage" });
+    return;
+  }
+
+  const requestId = req.headers["x-verification-request-id"];
+  const reference = `${nodeName}-${Date.now()}`;
+  console.log(`[${nodeName}] lookup ${lookup.identifierType}:${lookup.identifier} (request ${requestId})`);
+
+  if (stolen.has(lookup.identifier)) {
+    send(res, 200, { verdict: "stolen", details: `Reported stolen to ${nodeName}`, reference });
+  } else if (flagged.has(lookup.identifier)) {
+    send(res, 200, { verdict: "flagged", details: `Flagged by ${nodeName}`, reference });
+  } else {
+    send(res, 200, { verdict: unknownByDefault ? "unknown" : "clean", reference });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Mock verification node "${nodeName}" listening on http://localhost:${port}`);
+});
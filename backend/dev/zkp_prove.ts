@@ -0,0 +1,66 @@
+// Owner-side helper for zero-knowledge ownership proofs. The owner secret stays on this
+// machine; only the commitment and proofs are sent to the service.
+//
+//   bun run dev/zkp_prove.ts commitment <deviceId> <ownerSecret>
+//       prints the body for POST /zkp/commitments (commitment plus proof of possession)
+//   bun run dev/zkp_prove.ts prove <deviceId> <ownerSecret> <ownership|authenticity|location>
+//       prints the body for POST /zkp/generate-proof
+//   bun run dev/zkp_prove.ts revoke <deviceId> <ownerSecret> <verificationHash>
+//       prints the body for POST /zkp/proofs/<verificationHash>/revoke
+//   bun run dev/zkp_prove.ts dispute <deviceId> <ownerSecret> <reportId>
+//       prints the proof for POST /reports/<reportId>/dispute
+//   bun run dev/zkp_prove.ts evidence <deviceId> <ownerSecret> <reportId>
+//       prints the proof for POST /reports/<reportId>/evidence, for reports the owner filed
+//   bun run dev/zkp_prove.ts recover <deviceId> <ownerSecret> <reportId>
+//       prints the proof for POST /device/<deviceId>/recover
+//
+// Proofs are only accepted for a few minutes after they are generated.
+import { deriveOwnerKey, ownerCommitmentFor, proveKnowledge } from "../verification/schnorr";
+
+const [command, deviceIdArg, ownerSecret, claimTypeOrHash] = process.argv.slice(2);
+const deviceId = Number(deviceIdArg);
+
+if (!Number.isInteger(deviceId) || !ownerSecret || (command !== "commitment" && !claimTypeOrHash)) {
+  console.error("usage: zkp_prove.ts commitment <deviceId> <ownerSecret>");
+  console.error("       zkp_prove.ts prove <deviceId> <ownerSecret> <claimType>");
+  console.error("       zkp_prove.ts revoke <deviceId> <ownerSecret> <verificationHash>");
+  console.error("       zkp_prove.ts dispute <deviceId> <ownerSecret> <reportId>");
+  console.error("       zkp_prove.ts evidence <deviceId> <ownerSecret> <reportId>");
+  console.error("       zkp_prove.ts recover <deviceId> <ownerSecret> <reportId>");
+  process.exit(1);
+}
+
+const ownerKey = deriveOwnerKey(ownerSecret, deviceId);
+
+if (command === "commitment") {
+  console.log(JSON.stringify({
+    deviceId,
+    ownerCommitment: ownerCommitmentFor(ownerKey),
+    proof: proveKnowledge(ownerKey, { deviceId, claimType: "registration" }),
+  }, null, 2));
+} else if (command === "prove") {
+  console.log(JSON.stringify({
+    deviceId,
+    claimType: claimTypeOrHash,
+    proof: proveKnowledge(ownerKey, { deviceId, claimType: claimTypeOrHash }),
+  }, null, 2));
+} else if (command === "revoke") {
+  // Must match revocationClaim in verification/zkp_verification.ts
+  console.log(JSON.stringify({
+    proof: proveKnowledge(ownerKey, { deviceId, claimType: `revoke:${claimTypeOrHash}` }),
+  }, null, 2));
+} else if (command === "dispute" || command === "evidence" || command === "recover") {
+  // Must match the claims checked in verification/report_moderation.ts and verification/recovery.ts
+  const claims: Record<string, string> = {
+    dispute: `dispute-report:${claimTypeOrHash}`,
+    evidence: `report-evidence:${claimTypeOrHash}`,
+    recover: `recover-device:${claimTypeOrHash}`,
+  };
+  const claimType = claims[command];
+  console.log(JSON.stringify({
+    proof: proveKnowledge(ownerKey, { deviceId, claimType }),
+  }, null, 2));
+} else {
+  console.error(`unknown command "${command}"`);
+  process.exit(1);
+}
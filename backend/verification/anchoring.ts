@@ -0,0 +1,481 @@
+import { api, APIError, Query } from "encore.dev/api";
+import { secret } from "encore.dev/config";
+import { CronJob } from "encore.dev/cron";
+import * as crypto from "crypto";
+import { verificationDB } from "./db";
+import { getLedgerBlock, getLedgerHead, verifyChainFrom } from "./ledger";
+import { decodeTimeStampResponse, encodeTimeStampRequest, verifyTimeStampToken } from "./timestamp_token";
+import { validateEnum, ValidationError } from "./validation";
+
+// Credential presented to the anchor backend (TSA or JSON-RPC provider).
+const blockchainApiKey = secret("BlockchainAPIKey");
+// "rfc3161" or "evm".
+const ledgerAnchorBackend = secret("LedgerAnchorBackend");
+// TSA URL for rfc3161, JSON-RPC URL for evm.
+const ledgerAnchorURL = secret("LedgerAnchorURL");
+// Unlocked account the RPC node sends anchor transactions from (evm only).
+const ledgerAnchorEvmAccount = secret("LedgerAnchorEvmAccount");
+// PEM certificate of the TSA whose tokens are accepted (rfc3161 only).
+const ledgerAnchorTsaCertificate = secret("LedgerAnchorTSACertificate");
+
+export const ANCHOR_BACKENDS = ["rfc3161", "evm"] as const;
+export type AnchorBackendName = typeof ANCHOR_BACKENDS[number];
+export const ANCHOR_STATUSES = ["pending", "confirmed", "failed"] as const;
+export type AnchorStatus = typeof ANCHOR_STATUSES[number];
+
+const ANCHOR_TIMEOUT_MS = 10_000;
+// Submissions that have not confirmed by then are marked failed and the head is anchored again.
+const PENDING_ANCHOR_EXPIRY_MS = 60 * 60 * 1000;
+
+export interface LedgerAnchor {
+  id: number;
+  blockNumber: number;
+  blockHash: string;
+  backend: AnchorBackendName;
+  status: AnchorStatus;
+  // Hash of the TSA token, or the EVM transaction hash.
+  reference?: string;
+  receipt: Record<string, unknown>;
+  error?: string;
+  submittedAt: Date;
+  confirmedAt?: Date;
+}
+
+export interface AnchorCoverage {
+  // A confirmed anchor at or after the record's block still matches the ledger.
+  anchored: boolean;
+  anchor?: LedgerAnchor;
+  // The anchored block hash no longer matches the ledger: the ledger was rewritten.
+  mismatch: boolean;
+  reason?: string;
+}
+
+interface AnchorSubmission {
+  reference?: string;
+  confirmed: boolean;
+  receipt: Record<string, unknown>;
+}
+
+interface AnchorConfirmation {
+  status: AnchorStatus;
+  receipt: Record<string, unknown>;
+  error?: string;
+}
+
+interface ReceiptCheck {
+  // The external receipt attests the given block hash.
+  matches: boolean;
+  reason?: string;
+}
+
+// A place ledger digests are published to. Backends that settle asynchronously implement
+// confirm, which is polled on every anchoring run until the submission confirms or fails.
+// checkReceipt goes back to the external evidence, so a rewritten ledger_anchors row can't vouch
+// for a rewritten ledger.
+interface AnchorBackend {
+  name: AnchorBackendName;
+  submit(digest: string): Promise<AnchorSubmission>;
+  confirm?(anchor: LedgerAnchor): Promise<AnchorConfirmation>;
+  checkReceipt(anchor: LedgerAnchor, blockHash: string): Promise<ReceiptCheck>;
+}
+
+interface LedgerAnchorRow {
+  id: number;
+  block_number: number;
+  block_hash: string;
+  backend: AnchorBackendName;
+  status: AnchorStatus;
+  reference: string | null;
+  receipt: Record<string, unknown>;
+  error: string | null;
+  submitted_at: Date;
+  confirmed_at: Date | null;
+}
+
+let tsaPublicKey: crypto.KeyObject | null = null;
+
+function getTsaPublicKey(): crypto.KeyObject {
+  if (!tsaPublicKey) {
+    tsaPublicKey = new crypto.X509Certificate(ledgerAnchorTsaCertificate()).publicKey;
+  }
+  return tsaPublicKey;
+}
+
+// RFC 3161 timestamp authority. The token is stored as returned so it can be checked with
+// standard tooling (e.g. `openssl ts -verify`); here we check that the configured TSA signed it
+// and that its message imprint is our digest and its nonce our request's.
+const rfc3161Backend: AnchorBackend = {
+  name: "rfc3161",
+  async submit(digest) {
+    const nonce = crypto.randomBytes(8);
+    nonce[0] = (nonce[0] & 0x7f) | 0x40;
+
+    const response = await fetch(ledgerAnchorURL(), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/timestamp-query",
+        "Authorization": `Bearer ${blockchainApiKey()}`,
+      },
+      body: encodeTimeStampRequest(Buffer.from(digest, "hex"), nonce),
+      signal: AbortSignal.timeout(ANCHOR_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`TSA responded with HTTP ${response.status}`);
+    }
+
+    const { status, token } = decodeTimeStampResponse(Buffer.from(await response.arrayBuffer()));
+    // 0 = granted, 1 = granted with modifications
+    if (status > 1 || !token) {
+      throw new Error(`TSA rejected the request with status ${status}`);
+    }
+    const verification = verifyTimeStampToken(token, { digest: Buffer.from(digest, "hex"), nonce, tsaPublicKey: getTsaPublicKey() });
+    if (!verification.valid) {
+      throw new Error(`TSA token rejected: ${verification.reason}`);
+    }
+
+    return {
+      reference: crypto.createHash("sha256").update(token).digest("hex"),
+      confirmed: true,
+      receipt: {
+        tsaUrl: ledgerAnchorURL(),
+        nonce: nonce.toString("hex"),
+        timeStampToken: token.toString("base64"),
+        genTime: verification.genTime!.toISOString(),
+      },
+    };
+  },
+  async checkReceipt(anchor, blockHash) {
+    const token = anchor.receipt.timeStampToken;
+    if (typeof token !== "string") {
+      return { matches: false, reason: "Anchor receipt has no timestamp token" };
+    }
+    const verification = verifyTimeStampToken(Buffer.from(token, "base64"), {
+      digest: Buffer.from(blockHash, "hex"),
+      tsaPublicKey: getTsaPublicKey(),
+    });
+    return { matches: verification.valid, reason: verification.reason };
+  },
+};
+
+// EVM chain via JSON-RPC: the digest is the data of a zero-value self-transaction, confirmed
+// once it is mined successfully.
+const evmBackend: AnchorBackend = {
+  name: "evm",
+  async submit(digest) {
+    const account = ledgerAnchorEvmAccount();
+    const chainId = await jsonRpc<string>("eth_chainId", []);
+    const transactionHash = await jsonRpc<string>("eth_sendTransaction", [{
+      from: account,
+      to: account,
+      value: "0x0",
+      data: `0x${digest}`,
+    }]);
+
+    return {
+      reference: transactionHash,
+      confirmed: false,
+      receipt: { chainId, account, transactionHash },
+    };
+  },
+  async confirm(anchor) {
+    const transactionHash = anchor.reference!;
+    const receipt = await jsonRpc<{ status: string; blockNumber: string; blockHash: string } | null>(
+      "eth_getTransactionReceipt", [transactionHash]
+    );
+    if (!receipt) {
+      return { status: "pending", receipt: anchor.receipt };
+    }
+    if (receipt.status !== "0x1") {
+      return { status: "failed", receipt: anchor.receipt, error: "Anchor transaction reverted" };
+    }
+
+    const check = await this.checkReceipt(anchor, anchor.blockHash);
+    if (!check.matches) {
+      return { status: "failed", receipt: anchor.receipt, error: check.reason };
+    }
+
+    return {
+      status: "confirmed",
+      receipt: {
+        ...anchor.receipt,
+        chainBlockNumber: parseInt(receipt.blockNumber, 16),
+        chainBlockHash: receipt.blockHash,
+      },
+    };
+  },
+  // Re-reads the transaction from the chain: it must have been sent from our anchor account,
+  // succeeded, and carry the block hash as its data.
+  async checkReceipt(anchor, blockHash) {
+    if (!anchor.reference) {
+      return { matches: false, reason: "Anchor has no transaction hash" };
+    }
+    const transaction = await jsonRpc<{ from: string; input: string } | null>("eth_getTransactionByHash", [anchor.reference]);
+    if (!transaction) {
+      return { matches: false, reason: "Anchor transaction is not on chain" };
+    }
+    if (transaction.from?.toLowerCase() !== ledgerAnchorEvmAccount().toLowerCase()) {
+      return { matches: false, reason: "Anchor transaction was not sent from the anchor account" };
+    }
+    if (transaction.input?.toLowerCase() !== `0x${blockHash}`) {
+      return { matches: false, reason: "Anchor transaction does not carry the block hash" };
+    }
+    const receipt = await jsonRpc<{ status: string } | null>("eth_getTransactionReceipt", [anchor.reference]);
+    if (receipt?.status !== "0x1") {
+      return { matches: false, reason: "Anchor transaction did not succeed" };
+    }
+    return { matches: true };
+  },
+};
+
+const ANCHOR_BACKEND_IMPLEMENTATIONS: Record<AnchorBackendName, AnchorBackend> = {
+  rfc3161: rfc3161Backend,
+  evm: evmBackend,
+};
+
+function configuredBackend(): AnchorBackend {
+  const name = ledgerAnchorBackend() as AnchorBackendName;
+  const backend = ANCHOR_BACKEND_IMPLEMENTATIONS[name];
+  if (!backend) {
+    throw new Error(`Unknown ledger anchor backend "${name}"; expected one of: ${ANCHOR_BACKENDS.join(", ")}`);
+  }
+  return backend;
+}
+
+let rpcRequestId = 0;
+
+async function jsonRpc<T>(method: string, params: unknown[]): Promise<T> {
+  const response = await fetch(ledgerAnchorURL(), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${blockchainApiKey()}`,
+    },
+    body: JSON.stringify({ jsonrpc: "2.0", id: ++rpcRequestId, method, params }),
+    signal: AbortSignal.timeout(ANCHOR_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`JSON-RPC ${method} responded with HTTP ${response.status}`);
+  }
+
+  const body = await response.json() as { result?: T; error?: { message: string } };
+  if (body.error) {
+    throw new Error(`JSON-RPC ${method} failed: ${body.error.message}`);
+  }
+  return body.result as T;
+}
+
+export interface AnchorLedgerResponse {
+  anchored: boolean;
+  confirmed: number;
+  failed: number;
+  anchor?: LedgerAnchor;
+  reason?: string;
+}
+
+// Settles outstanding submissions, then anchors the ledger head if it has moved past the last
+// anchor. The chain is re-verified first so a rewritten ledger is never anchored.
+export const anchorLedger = api<void, AnchorLedgerResponse>(
+  { expose: false, method: "POST", path: "/internal/blockchain/anchor" },
+  async () => {
+    const backend = configuredBackend();
+    const { confirmed, failed } = await settlePendingAnchors();
+
+    const head = await getLedgerHead();
+    if (!head) {
+      return { anchored: false, confirmed, failed, reason: "Ledger has no blocks yet" };
+    }
+
+    const latest = await verificationDB.queryRow<LedgerAnchorRow>`
+      SELECT id, block_number, block_hash, backend, status, reference, receipt, error, submitted_at, confirmed_at
+      FROM ledger_anchors
+      WHERE status IN ('pending', 'confirmed')
+      ORDER BY block_number DESC
+      LIMIT 1
+    `;
+    if (latest && Number(latest.block_number) >= head.blockNumber) {
+      return { anchored: false, confirmed, failed, reason: "Ledger head is already anchored" };
+    }
+
+    const chain = await verifyChainFrom(latest ? Number(latest.block_number) : 1);
+    const anchoredBlock = latest ? await getLedgerBlock(Number(latest.block_number)) : null;
+    if (!chain.valid || (latest && anchoredBlock?.blockHash !== latest.block_hash)) {
+      const reason = chain.reason ?? `Block ${latest!.block_number} no longer matches its anchor`;
+      console.error("Refusing to anchor the ledger:", reason);
+      return { anchored: false, confirmed, failed, reason };
+    }
+
+    let row: LedgerAnchorRow | null;
+    try {
+      const submission = await backend.submit(head.blockHash);
+      row = await verificationDB.queryRow<LedgerAnchorRow>`
+        INSERT INTO ledger_anchors (block_number, block_hash, backend, status, reference, receipt, confirmed_at)
+        VALUES (${head.blockNumber}, ${head.blockHash}, ${backend.name},
+                ${submission.confirmed ? "confirmed" : "pending"}, ${submission.reference ?? null},
+                ${JSON.stringify(submission.receipt)}, ${submission.confirmed ? new Date() : null})
+        RETURNING id, block_number, block_hash, backend, status, reference, receipt, error, submitted_at, confirmed_at
+      `;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      row = await verificationDB.queryRow<LedgerAnchorRow>`
+        INSERT INTO ledger_anchors (block_number, block_hash, backend, status, error)
+        VALUES (${head.blockNumber}, ${head.blockHash}, ${backend.name}, 'failed', ${message})
+        RETURNING id, block_number, block_hash, backend, status, reference, receipt, error, submitted_at, confirmed_at
+      `;
+    }
+
+    const anchor = toLedgerAnchor(row!);
+    return {
+      anchored: anchor.status !== "failed",
+      confirmed: confirmed + (anchor.status === "confirmed" ? 1 : 0),
+      failed: failed + (anchor.status === "failed" ? 1 : 0),
+      anchor,
+      reason: anchor.error,
+    };
+  }
+);
+
+const _ = new CronJob("anchor-ledger", {
+  title: "Anchor the ledger head to the external timestamping target",
+  every: "10m",
+  endpoint: anchorLedger,
+});
+
+export interface ListLedgerAnchorsRequest {
+  limit?: Query<number>;
+  status?: Query<string>;
+}
+
+export interface ListLedgerAnchorsResponse {
+  anchors: LedgerAnchor[];
+}
+
+// Lists anchor submissions and their receipts, newest first.
+export const listLedgerAnchors = api<ListLedgerAnchorsRequest, ListLedgerAnchorsResponse>(
+  { expose: true, method: "GET", path: "/blockchain/anchors" },
+  async (req) => {
+    const limit = Math.min(Math.max(req.limit ?? 20, 1), 100);
+    try {
+      if (req.status !== undefined) {
+        validateEnum(req.status as AnchorStatus, "Status", ANCHOR_STATUSES);
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    const rows = await verificationDB.queryAll<LedgerAnchorRow>`
+      SELECT id, block_number, block_hash, backend, status, reference, receipt, error, submitted_at, confirmed_at
+      FROM ledger_anchors
+      WHERE ${req.status ?? null}::text IS NULL OR status = ${req.status ?? null}
+      ORDER BY submitted_at DESC
+      LIMIT ${limit}
+    `;
+
+    return { anchors: rows.map(toLedgerAnchor) };
+  }
+);
+
+// Finds the earliest confirmed anchor covering a block and checks its external receipt (the TSA
+// token, or the transaction on chain) against the block as the ledger has it now.
+export async function getAnchorCoverage(blockNumber: number): Promise<AnchorCoverage> {
+  const row = await verificationDB.queryRow<LedgerAnchorRow>`
+    SELECT id, block_number, block_hash, backend, status, reference, receipt, error, submitted_at, confirmed_at
+    FROM ledger_anchors
+    WHERE status = 'confirmed' AND block_number >= ${blockNumber}
+    ORDER BY block_number ASC
+    LIMIT 1
+  `;
+  if (!row) {
+    return { anchored: false, mismatch: false, reason: "No anchor covers this block yet" };
+  }
+
+  const anchor = toLedgerAnchor(row);
+  const block = await getLedgerBlock(anchor.blockNumber);
+  if (!block) {
+    return { anchored: false, anchor, mismatch: true, reason: `Block ${anchor.blockNumber} is missing from the ledger` };
+  }
+
+  let check: ReceiptCheck;
+  try {
+    check = await ANCHOR_BACKEND_IMPLEMENTATIONS[anchor.backend].checkReceipt(anchor, block.blockHash);
+  } catch (error) {
+    console.error(`Failed to check ledger anchor ${anchor.id}:`, error);
+    return { anchored: false, anchor, mismatch: false, reason: "The anchor's receipt could not be checked right now" };
+  }
+  if (!check.matches) {
+    return {
+      anchored: false,
+      anchor,
+      mismatch: true,
+      reason: `Block ${anchor.blockNumber} does not match its anchor receipt: ${check.reason}`,
+    };
+  }
+
+  return { anchored: true, anchor, mismatch: false };
+}
+
+async function settlePendingAnchors(): Promise<{ confirmed: number; failed: number }> {
+  const pending = await verificationDB.queryAll<LedgerAnchorRow>`
+    SELECT id, block_number, block_hash, backend, status, reference, receipt, error, submitted_at, confirmed_at
+    FROM ledger_anchors
+    WHERE status = 'pending'
+    ORDER BY submitted_at ASC
+  `;
+
+  let confirmed = 0;
+  let failed = 0;
+  for (const row of pending) {
+    const anchor = toLedgerAnchor(row);
+    const backend = ANCHOR_BACKEND_IMPLEMENTATIONS[anchor.backend];
+
+    let result: AnchorConfirmation;
+    try {
+      result = backend?.confirm
+        ? await backend.confirm(anchor)
+        : { status: "failed", receipt: anchor.receipt, error: `Backend "${anchor.backend}" cannot confirm submissions` };
+    } catch (error) {
+      console.error(`Failed to confirm ledger anchor ${anchor.id}:`, error);
+      result = { status: "pending", receipt: anchor.receipt };
+    }
+
+    if (result.status === "pending" && Date.now() - anchor.submittedAt.getTime() > PENDING_ANCHOR_EXPIRY_MS) {
+      result = { status: "failed", receipt: anchor.receipt, error: "Anchor was not confirmed in time" };
+    }
+    if (result.status === "pending") {
+      continue;
+    }
+
+    await verificationDB.exec`
+      UPDATE ledger_anchors
+      SET status = ${result.status},
+          receipt = ${JSON.stringify(result.receipt)},
+          error = ${result.error ?? null},
+          confirmed_at = ${result.status === "confirmed" ? new Date() : null}
+      WHERE id = ${anchor.id}
+    `;
+    if (result.status === "confirmed") {
+      confirmed++;
+    } else {
+      failed++;
+    }
+  }
+
+  return { confirmed, failed };
+}
+
+function toLedgerAnchor(row: LedgerAnchorRow): LedgerAnchor {
+  return {
+    id: row.id,
+    blockNumber: Number(row.block_number),
+    blockHash: row.block_hash,
+    backend: row.backend,
+    status: row.status,
+    reference: row.reference ?? undefined,
+    receipt: row.receipt,
+    error: row.error ?? undefined,
+    submittedAt: row.submitted_at,
+    confirmedAt: row.confirmed_at ?? undefined,
+  };
+}
@@ -0,0 +1,570 @@
+import { api, APIError } from "encore.dev/api";
+import { currentRequest } from "encore.dev";
+import { CronJob } from "encore.dev/cron";
+import { getAuthData } from "~encore/auth";
+import { isIP } from "net";
+import { requireScope } from "./auth";
+import { verificationDB } from "./db";
+import { notifyWatchers } from "./device_watchers";
+import { getDeviceById } from "./devices";
+import { publishDeviceChanged } from "./domain_events";
+import { getClientIp } from "./rate_limit_policy";
+import { anomalyReasonCode } from "./trust_score_rules";
+import { validateEnum, validatePagination, validateString, ValidationError } from "./validation";
+
+export const ANOMALY_TYPES = [
+  "lookup_burst", "country_hopping", "multi_seller_listing", "fingerprint_mismatch",
+] as const;
+export type AnomalyType = typeof ANOMALY_TYPES[number];
+export type AnomalySeverity = "medium" | "high";
+
+export const ANOMALY_ALERT_STATUSES = ["open", "acknowledged", "resolved", "cleared"] as const;
+export type AnomalyAlertStatus = typeof ANOMALY_ALERT_STATUSES[number];
+
+// Fingerprint similarity scores below this count as a mismatch with the stored fingerprint.
+export const FINGERPRINT_MISMATCH_BELOW = 40;
+
+// Sliding windows and thresholds for each signal. A signal is detected once its count reaches
+// the threshold within the lookback period, and becomes high severity at twice the threshold.
+const ANOMALY_RULES = {
+  // Distinct client IPs looking up the device within any one window
+  lookup_burst: { lookbackDays: 7, windowMinutes: 60, threshold: 5 },
+  // Transfers into a different country within maxGapDays of the previous transfer
+  country_hopping: { lookbackDays: 90, maxGapDays: 7, threshold: 1 },
+  // Distinct sellers listing the device's IMEI
+  multi_seller_listing: { lookbackDays: 30, threshold: 2 },
+  // Distinct partners whose fingerprint checks did not match the stored fingerprint
+  fingerprint_mismatch: { lookbackDays: 30, threshold: 2 },
+};
+
+// How far back the scan looks for activity that may have produced a new signal. Longer than the
+// cron interval so a slow run does not miss anything.
+const SCAN_ACTIVITY_MINUTES = 20;
+
+export interface AnomalySignal {
+  type: AnomalyType;
+  severity: AnomalySeverity;
+  count: number;
+  threshold: number;
+  description: string;
+  details: Record<string, any>;
+}
+
+export interface AnomalyAlert {
+  id: number;
+  deviceId: number;
+  deviceName?: string;
+  anomalyType: AnomalyType;
+  severity: AnomalySeverity;
+  details: Record<string, any>;
+  status: AnomalyAlertStatus;
+  acknowledgedBy?: string;
+  acknowledgedAt?: Date;
+  resolvedBy?: string;
+  resolutionNote?: string;
+  resolvedAt?: Date;
+  detectedAt: Date;
+  lastSeenAt: Date;
+}
+
+interface AnomalyAlertRow {
+  id: number;
+  device_id: number;
+  device_name: string | null;
+  anomaly_type: AnomalyType;
+  severity: AnomalySeverity;
+  details: Record<string, any>;
+  status: AnomalyAlertStatus;
+  acknowledged_by: string | null;
+  acknowledged_at: Date | null;
+  resolved_by: string | null;
+  resolution_note: string | null;
+  resolved_at: Date | null;
+  detected_at: Date;
+  last_seen_at: Date;
+}
+
+function severityFor(count: number, threshold: number): AnomalySeverity {
+  return count >= threshold * 2 ? "high" : "medium";
+}
+
+// Computes every behavioral red flag currently present for a device.
+export async function detectDeviceAnomalies(deviceId: number): Promise<AnomalySignal[]> {
+  const signals: AnomalySignal[] = [];
+
+  // Busiest window of lookups, measured from each lookup in the lookback period
+  const burstRule = ANOMALY_RULES.lookup_burst;
+  const burst = await verificationDB.queryRow<{ ips: number; lookups: number; window_start: Date }>`
+    SELECT w.ips, w.lookups, w.window_start
+    FROM (
+      SELECT l.created_at AS window_start,
+             COUNT(DISTINCT l2.ip_address)::int AS ips,
+             COUNT(l2.id)::int AS lookups
+      FROM verification_logs l
+      JOIN verification_logs l2
+        ON l2.device_id = l.device_id
+       AND l2.created_at >= l.created_at
+       AND l2.created_at < l.created_at + ${`${burstRule.windowMinutes} minutes`}::interval
+       AND l2.ip_address IS NOT NULL
+      WHERE l.device_id = ${deviceId}
+        AND l.created_at >= CURRENT_TIMESTAMP - ${`${burstRule.lookbackDays} days`}::interval
+      GROUP BY l.id, l.created_at
+    ) w
+    ORDER BY w.ips DESC, w.window_start DESC
+    LIMIT 1
+  `;
+  if (burst && burst.ips >= burstRule.threshold) {
+    signals.push({
+      type: "lookup_burst",
+      severity: severityFor(burst.ips, burstRule.threshold),
+      count: burst.ips,
+      threshold: burstRule.threshold,
+      description: `${burst.lookups} lookups from ${burst.ips} IP addresses within ${burstRule.windowMinutes} minutes`,
+      details: { distinctIps: burst.ips, lookups: burst.lookups, windowStart: burst.window_start },
+    });
+  }
+
+  const hopRule = ANOMALY_RULES.country_hopping;
+  const hops = await verificationDB.queryAll<{
+    from_country: string;
+    to_country: string;
+    transfer_date: Date;
+    gap_days: number;
+  }>`
+    SELECT from_country, to_country, transfer_date,
+           EXTRACT(EPOCH FROM (transfer_date - previous_date)) / 86400 AS gap_days
+    FROM (
+      SELECT location_country AS to_country, transfer_date,
+             LAG(location_country) OVER (ORDER BY transfer_date, id) AS from_country,
+             LAG(transfer_date) OVER (ORDER BY transfer_date, id) AS previous_date
+      FROM ownership_history
+      WHERE device_id = ${deviceId}
+    ) t
+    WHERE from_country IS NOT NULL
+      AND to_country IS NOT NULL
+      AND from_country <> to_country
+      AND transfer_date >= CURRENT_TIMESTAMP - ${`${hopRule.lookbackDays} days`}::interval
+      AND transfer_date - previous_date <= ${`${hopRule.maxGapDays} days`}::interval
+    ORDER BY transfer_date
+  `;
+  if (hops.length >= hopRule.threshold) {
+    signals.push({
+      type: "country_hopping",
+      severity: severityFor(hops.length, hopRule.threshold),
+      count: hops.length,
+      threshold: hopRule.threshold,
+      description: `${hops.length} cross-border transfer${hops.length === 1 ? "" : "s"} within ${hopRule.maxGapDays} days of the previous owner`,
+      details: {
+        hops: hops.map(hop => ({
+          from: hop.from_country,
+          to: hop.to_country,
+          transferDate: hop.transfer_date,
+          gapDays: Math.round(Number(hop.gap_days) * 10) / 10,
+        })),
+      },
+    });
+  }
+
+  const sellerRule = ANOMALY_RULES.multi_seller_listing;
+  const sellers = await verificationDB.queryRow<{ sellers: number; seller_ids: string[]; marketplaces: string[] }>`
+    SELECT COUNT(DISTINCT ml.seller_id)::int AS sellers,
+           COALESCE(ARRAY_AGG(DISTINCT ml.seller_id), '{}') AS seller_ids,
+           COALESCE(ARRAY_AGG(DISTINCT ml.marketplace), '{}') AS marketplaces
+    FROM devices d
+    JOIN marketplace_listings ml ON ml.device_imei = d.imei
+    WHERE d.id = ${deviceId}
+      AND ml.created_at >= NOW() - ${`${sellerRule.lookbackDays} days`}::interval
+  `;
+  if (sellers && sellers.sellers >= sellerRule.threshold) {
+    signals.push({
+      type: "multi_seller_listing",
+      severity: severityFor(sellers.sellers, sellerRule.threshold),
+      count: sellers.sellers,
+      threshold: sellerRule.threshold,
+      description: `IMEI listed by ${sellers.sellers} different sellers in the last ${sellerRule.lookbackDays} days`,
+      details: { sellerIds: sellers.seller_ids, marketplaces: sellers.marketplaces },
+    });
+  }
+
+  const mismatchRule = ANOMALY_RULES.fingerprint_mismatch;
+  // Repeated checks by one partner count once, so no single caller can raise the signal
+  const mismatches = await verificationDB.queryRow<{ partners: number; mismatches: number; lowest_score: number | null }>`
+    SELECT COUNT(DISTINCT partner_id)::int AS partners, COUNT(*)::int AS mismatches,
+           MIN(match_score) AS lowest_score
+    FROM fingerprint_checks
+    WHERE device_id = ${deviceId}
+      AND is_mismatch = true
+      AND partner_id IS NOT NULL
+      AND created_at >= CURRENT_TIMESTAMP - ${`${mismatchRule.lookbackDays} days`}::interval
+  `;
+  if (mismatches && mismatches.partners >= mismatchRule.threshold) {
+    signals.push({
+      type: "fingerprint_mismatch",
+      severity: severityFor(mismatches.partners, mismatchRule.threshold),
+      count: mismatches.partners,
+      threshold: mismatchRule.threshold,
+      description: `Fingerprint checks by ${mismatches.partners} partners did not match the registered device`,
+      details: {
+        partners: mismatches.partners,
+        mismatches: mismatches.mismatches,
+        lowestMatchScore: mismatches.lowest_score,
+      },
+    });
+  }
+
+  return signals;
+}
+
+// Records the outcome of comparing submitted fingerprint data with a device's stored fingerprint.
+// Only checks by authenticated partners are recorded: anyone can submit made-up fingerprint data,
+// and anonymous mismatches would let them raise alerts and penalties against any device.
+export async function recordFingerprintCheck(deviceId: number, matchScore: number): Promise<void> {
+  const authData = getAuthData();
+  if (!authData) {
+    return;
+  }
+
+  const meta = currentRequest();
+  const clientIp = getClientIp(meta?.type === "api-call" ? meta.headers : {});
+
+  await verificationDB.exec`
+    INSERT INTO fingerprint_checks (device_id, match_score, is_mismatch, ip_address, partner_id)
+    VALUES (
+      ${deviceId}, ${matchScore}, ${matchScore < FINGERPRINT_MISMATCH_BELOW},
+      ${clientIp && isIP(clientIp) ? clientIp : null}::inet, ${authData.partnerId}
+    )
+  `;
+}
+
+export interface ScanDeviceAnomaliesResponse {
+  devicesScanned: number;
+  alertsRaised: number;
+  alertsCleared: number;
+}
+
+// Re-evaluates devices with recent activity or active anomalies, raising alerts for new signals,
+// clearing alerts whose signal has left its window and queueing a re-score when either happens.
+export const scanDeviceAnomalies = api<void, ScanDeviceAnomaliesResponse>(
+  { expose: false, method: "POST", path: "/internal/anomalies/scan" },
+  async () => {
+    const since = `${SCAN_ACTIVITY_MINUTES} minutes`;
+
+    const devices = await verificationDB.queryAll<{ device_id: number }>`
+      SELECT device_id FROM verification_logs
+      WHERE device_id IS NOT NULL AND created_at >= CURRENT_TIMESTAMP - ${since}::interval
+      UNION
+      SELECT device_id FROM ownership_history
+      WHERE device_id IS NOT NULL AND transfer_date >= CURRENT_TIMESTAMP - ${since}::interval
+      UNION
+      SELECT d.id FROM marketplace_listings ml JOIN devices d ON d.imei = ml.device_imei
+      WHERE ml.created_at >= NOW() - ${since}::interval
+      UNION
+      SELECT device_id FROM fingerprint_checks
+      WHERE is_mismatch = true AND created_at >= CURRENT_TIMESTAMP - ${since}::interval
+      UNION
+      SELECT device_id FROM anomaly_alerts WHERE status IN ('open', 'acknowledged')
+      UNION
+      SELECT device_id FROM trust_scores WHERE anomaly_penalty < 0
+    `;
+
+    let alertsRaised = 0;
+    let alertsCleared = 0;
+
+    for (const { device_id: deviceId } of devices) {
+      const result = await syncAnomalyAlerts(deviceId);
+      alertsRaised += result.raised;
+      alertsCleared += result.cleared;
+      if (result.changed) {
+        await publishDeviceChanged(deviceId, "anomaly");
+      }
+    }
+
+    return { devicesScanned: devices.length, alertsRaised, alertsCleared };
+  }
+);
+
+const _ = new CronJob("scan-device-anomalies", {
+  title: "Detect behavioral anomalies and raise alerts",
+  every: "15m",
+  endpoint: scanDeviceAnomalies,
+});
+
+async function syncAnomalyAlerts(deviceId: number): Promise<{ raised: number; cleared: number; changed: boolean }> {
+  const signals = await detectDeviceAnomalies(deviceId);
+
+  const active = await verificationDB.queryAll<{ anomaly_type: AnomalyType; severity: AnomalySeverity }>`
+    SELECT anomaly_type, severity FROM anomaly_alerts
+    WHERE device_id = ${deviceId} AND status IN ('open', 'acknowledged')
+  `;
+
+  // The stored score is stale when it was calculated from a different set of signals
+  const scored = await verificationDB.queryRow<{ reasons: { code: string }[] }>`
+    SELECT reasons FROM trust_scores WHERE device_id = ${deviceId}
+  `;
+  const scoredCodes = (scored?.reasons ?? [])
+    .map(reason => reason.code)
+    .filter(code => code.startsWith("ANOMALY_"))
+    .sort();
+  const detectedCodes = signals.map(anomalyReasonCode).sort();
+  const changed = scoredCodes.join(",") !== detectedCodes.join(",");
+
+  let raised = 0;
+
+  for (const signal of signals) {
+    const existing = active.find(alert => alert.anomaly_type === signal.type);
+    if (existing) {
+      await verificationDB.exec`
+        UPDATE anomaly_alerts
+        SET severity = ${signal.severity}, details = ${JSON.stringify(signal.details)},
+            last_seen_at = CURRENT_TIMESTAMP
+        WHERE device_id = ${deviceId} AND anomaly_type = ${signal.type}
+          AND status IN ('open', 'acknowledged')
+      `;
+      continue;
+    }
+
+    // A moderator already resolved this signal; don't reopen it for the same evidence
+    const recentlyResolved = await verificationDB.queryRow<{ id: number }>`
+      SELECT id FROM anomaly_alerts
+      WHERE device_id = ${deviceId} AND anomaly_type = ${signal.type} AND status = 'resolved'
+        AND resolved_at >= CURRENT_TIMESTAMP - ${`${ANOMALY_RULES[signal.type].lookbackDays} days`}::interval
+      LIMIT 1
+    `;
+    if (recentlyResolved) {
+      continue;
+    }
+
+    await verificationDB.exec`
+      INSERT INTO anomaly_alerts (device_id, anomaly_type, severity, details)
+      VALUES (${deviceId}, ${signal.type}, ${signal.severity}, ${JSON.stringify(signal.details)})
+      ON CONFLICT (device_id, anomaly_type) WHERE status IN ('open', 'acknowledged') DO NOTHING
+    `;
+    raised++;
+
+    if (signal.severity === "high") {
+      const device = await getDeviceById(deviceId);
+      await notifyWatchers(
+        deviceId,
+        "anomaly",
+        `ALERT: unusual activity on "${device?.deviceName ?? `Device ${deviceId}`}": ${signal.description}.`
+      );
+    }
+  }
+
+  const detected = signals.map(signal => signal.type);
+  const stale = active.filter(alert => !detected.includes(alert.anomaly_type));
+  if (stale.length > 0) {
+    await verificationDB.exec`
+      UPDATE anomaly_alerts
+      SET status = 'cleared', resolved_at = CURRENT_TIMESTAMP
+      WHERE device_id = ${deviceId}
+        AND anomaly_type = ANY(${stale.map(alert => alert.anomaly_type)})
+        AND status IN ('open', 'acknowledged')
+    `;
+  }
+
+  return { raised, cleared: stale.length, changed };
+}
+
+export interface GetDeviceAnomaliesRequest {
+  deviceId: number;
+}
+
+export interface GetDeviceAnomaliesResponse {
+  deviceId: number;
+  signals: AnomalySignal[];
+  alerts: AnomalyAlert[];
+}
+
+// Gets the anomaly signals currently present for a device and its active alerts.
+export const getDeviceAnomalies = api<GetDeviceAnomaliesRequest, GetDeviceAnomaliesResponse>(
+  { expose: true, method: "GET", path: "/device/:deviceId/anomalies", auth: true },
+  async (req) => {
+    requireScope(getAuthData()!, "read");
+
+    if (!(await getDeviceById(req.deviceId))) {
+      throw APIError.notFound("Device not found");
+    }
+
+    const rows = await verificationDB.queryAll<AnomalyAlertRow>`
+      SELECT a.*, d.device_name
+      FROM anomaly_alerts a
+      JOIN devices d ON d.id = a.device_id
+      WHERE a.device_id = ${req.deviceId} AND a.status IN ('open', 'acknowledged')
+      ORDER BY a.detected_at DESC
+    `;
+
+    return {
+      deviceId: req.deviceId,
+      signals: await detectDeviceAnomalies(req.deviceId),
+      alerts: rows.map(toAnomalyAlert),
+    };
+  }
+);
+
+export interface ListAnomalyAlertsRequest {
+  status?: AnomalyAlertStatus;
+  anomalyType?: AnomalyType;
+  page?: number;
+  limit?: number;
+}
+
+export interface ListAnomalyAlertsResponse {
+  alerts: AnomalyAlert[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// Lists anomaly alerts, newest first. Defaults to open alerts.
+export const listAnomalyAlerts = api<ListAnomalyAlertsRequest, ListAnomalyAlertsResponse>(
+  { expose: true, method: "GET", path: "/anomalies/alerts", auth: true },
+  async (req) => {
+    requireScope(getAuthData()!, "admin");
+
+    const status = req.status ?? "open";
+    try {
+      validateEnum(status, "Status", ANOMALY_ALERT_STATUSES);
+      if (req.anomalyType) {
+        validateEnum(req.anomalyType, "Anomaly type", ANOMALY_TYPES);
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    const { page, limit } = validatePagination(req.page, req.limit);
+    const anomalyType = req.anomalyType ?? null;
+
+    const count = await verificationDB.queryRow<{ total: number }>`
+      SELECT COUNT(*)::int AS total
+      FROM anomaly_alerts
+      WHERE status = ${status} AND (${anomalyType}::text IS NULL OR anomaly_type = ${anomalyType})
+    `;
+
+    const rows = await verificationDB.queryAll<AnomalyAlertRow>`
+      SELECT a.*, d.device_name
+      FROM anomaly_alerts a
+      JOIN devices d ON d.id = a.device_id
+      WHERE a.status = ${status} AND (${anomalyType}::text IS NULL OR a.anomaly_type = ${anomalyType})
+      ORDER BY a.detected_at DESC, a.id DESC
+      LIMIT ${limit} OFFSET ${(page - 1) * limit}
+    `;
+
+    return {
+      alerts: rows.map(toAnomalyAlert),
+      total: count?.total ?? 0,
+      page,
+      limit,
+    };
+  }
+);
+
+export interface AcknowledgeAnomalyAlertRequest {
+  alertId: number;
+}
+
+// Marks an open anomaly alert as being looked at.
+export const acknowledgeAnomalyAlert = api<AcknowledgeAnomalyAlertRequest, AnomalyAlert>(
+  { expose: true, method: "POST", path: "/anomalies/alerts/:alertId/acknowledge", auth: true },
+  async (req) => {
+    const authData = getAuthData()!;
+    requireScope(authData, "admin");
+
+    const row = await verificationDB.queryRow<{ id: number }>`
+      UPDATE anomaly_alerts
+      SET status = 'acknowledged', acknowledged_by = ${authData.userID}, acknowledged_at = CURRENT_TIMESTAMP
+      WHERE id = ${req.alertId} AND status = 'open'
+      RETURNING id
+    `;
+    if (!row) {
+      await assertAlertExists(req.alertId);
+      throw APIError.failedPrecondition("Only open alerts can be acknowledged");
+    }
+
+    return getAnomalyAlert(req.alertId);
+  }
+);
+
+export interface ResolveAnomalyAlertRequest {
+  alertId: number;
+  note?: string;
+}
+
+// Closes an anomaly alert. The signal keeps counting towards the trust score until it leaves
+// its detection window, but no new alert is raised for it in the meantime.
+export const resolveAnomalyAlert = api<ResolveAnomalyAlertRequest, AnomalyAlert>(
+  { expose: true, method: "POST", path: "/anomalies/alerts/:alertId/resolve", auth: true },
+  async (req) => {
+    const authData = getAuthData()!;
+    requireScope(authData, "admin");
+
+    try {
+      if (req.note) {
+        validateString(req.note, "Note", 0, 2000);
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    const row = await verificationDB.queryRow<{ id: number }>`
+      UPDATE anomaly_alerts
+      SET status = 'resolved', resolved_by = ${authData.userID}, resolution_note = ${req.note ?? null},
+          resolved_at = CURRENT_TIMESTAMP
+      WHERE id = ${req.alertId} AND status IN ('open', 'acknowledged')
+      RETURNING id
+    `;
+    if (!row) {
+      await assertAlertExists(req.alertId);
+      throw APIError.failedPrecondition("Alert is already closed");
+    }
+
+    return getAnomalyAlert(req.alertId);
+  }
+);
+
+async function assertAlertExists(alertId: number): Promise<void> {
+  const row = await verificationDB.queryRow<{ id: number }>`
+    SELECT id FROM anomaly_alerts WHERE id = ${alertId}
+  `;
+  if (!row) {
+    throw APIError.notFound("Alert not found");
+  }
+}
+
+async function getAnomalyAlert(alertId: number): Promise<AnomalyAlert> {
+  const row = await verificationDB.queryRow<AnomalyAlertRow>`
+    SELECT a.*, d.device_name
+    FROM anomaly_alerts a
+    JOIN devices d ON d.id = a.device_id
+    WHERE a.id = ${alertId}
+  `;
+  if (!row) {
+    throw APIError.notFound("Alert not found");
+  }
+  return toAnomalyAlert(row);
+}
+
+function toAnomalyAlert(row: AnomalyAlertRow): AnomalyAlert {
+  return {
+    id: row.id,
+    deviceId: row.device_id,
+    deviceName: row.device_name ?? undefined,
+    anomalyType: row.anomaly_type,
+    severity: row.severity,
+    details: row.details,
+    status: row.status,
+    acknowledgedBy: row.acknowledged_by ?? undefined,
+    acknowledgedAt: row.acknowledged_at ?? undefined,
+    resolvedBy: row.resolved_by ?? undefined,
+    resolutionNote: row.resolution_note ?? undefined,
+    resolvedAt: row.resolved_at ?? undefined,
+    detectedAt: row.detected_at,
+    lastSeenAt: row.last_seen_at,
+  };
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { generateApiKey, hashApiKey, hasScope, parseBearerToken } from "./api_key_tokens";
+
+describe("parseBearerToken", () => {
+  it("strips the Bearer scheme case-insensitively", () => {
+    expect(parseBearerToken("Bearer sk_live_abc")).toBe("sk_live_abc");
+    expect(parseBearerToken("bearer   sk_live_abc  ")).toBe("sk_live_abc");
+  });
+
+  it("accepts a bare key", () => {
+    expect(parseBearerToken("sk_live_abc")).toBe("sk_live_abc");
+  });
+
+  it("returns undefined for a missing or empty header", () => {
+    expect(parseBearerToken(undefined)).toBeUndefined();
+    expect(parseBearerToken("")).toBeUndefined();
+    expect(parseBearerToken("Bearer   ")).toBeUndefined();
+  });
+});
+
+describe("generateApiKey", () => {
+  it("creates a distinct sk_live_ key with a 12-character display prefix", () => {
+    const first = generateApiKey();
+    const second = generateApiKey();
+
+    expect(first.apiKey).toMatch(/^sk_live_[A-Za-z0-9_-]{32}$/);
+    expect(first.keyPrefix).toBe(first.apiKey.slice(0, 12));
+    expect(second.apiKey).not.toBe(first.apiKey);
+  });
+});
+
+describe("hashApiKey", () => {
+  it("is the hex SHA-256 of the raw key", () => {
+    expect(hashApiKey("abc")).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+  });
+});
+
+describe("hasScope", () => {
+  it("grants only the listed scopes", () => {
+    expect(hasScope(["read"], "read")).toBe(true);
+    expect(hasScope(["read"], "write")).toBe(false);
+    expect(hasScope(["read", "write"], "admin")).toBe(false);
+  });
+
+  it("treats admin as every scope", () => {
+    expect(hasScope(["admin"], "read")).toBe(true);
+    expect(hasScope(["admin"], "write")).toBe(true);
+  });
+});
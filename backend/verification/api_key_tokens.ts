@@ -0,0 +1,33 @@
+import { createHash, randomBytes } from "crypto";
+
+export type ApiKeyScope = "read" | "write" | "admin";
+
+// Platform-wide roles assigned to a partner by the operators, separate from the scopes a partner
+// grants its own keys. Operators moderate reports and run platform configuration.
+export type PlatformRole = "operator" | "law_enforcement";
+
+const API_KEY_PREFIX = "sk_live_";
+// Stored in clear so partners can tell their keys apart in the dashboard.
+const KEY_PREFIX_LENGTH = 12;
+
+// Creates a new raw partner API key. Only its hash and short prefix are stored.
+export function generateApiKey(): { apiKey: string; keyPrefix: string } {
+  const apiKey = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  return { apiKey, keyPrefix: apiKey.substring(0, KEY_PREFIX_LENGTH) };
+}
+
+// Hashes a raw partner API key the same way it is stored in partner_api_keys.
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+// Extracts the raw key from an "Authorization: Bearer <key>" header. A bare key is accepted too.
+export function parseBearerToken(authorization: string | undefined): string | undefined {
+  const apiKey = authorization?.replace(/^Bearer\s+/i, "").trim();
+  return apiKey || undefined;
+}
+
+// Whether a key with these scopes may act with the given one. Admin implies every scope.
+export function hasScope(scopes: ApiKeyScope[], scope: ApiKeyScope): boolean {
+  return scopes.includes(scope) || scopes.includes("admin");
+}
@@ -0,0 +1,282 @@
+import { api, APIError, Query } from "encore.dev/api";
+import { SQLDatabase, Transaction } from "encore.dev/storage/sqldb";
+import { getAuthData } from "~encore/auth";
+import { verificationDB } from "./db";
+import { ApiKeyScope, requireScope } from "./auth";
+import { generateApiKey, hashApiKey } from "./api_key_tokens";
+import { validateString, validateArray, validateEnum, validateNumber, ValidationError } from "./validation";
+
+const API_KEY_SCOPES = ["read", "write", "admin"] as const;
+
+export interface ApiKeyInfo {
+  id: number;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  createdAt: Date;
+  expiresAt?: Date;
+  lastUsed?: Date;
+  revokedAt?: Date;
+  isActive: boolean;
+}
+
+interface ApiKeyRow {
+  id: number;
+  name: string;
+  key_prefix: string | null;
+  scopes: ApiKeyScope[];
+  created_at: Date;
+  expires_at: Date | null;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiryDays?: number;
+}
+
+export interface CreateApiKeyResponse {
+  // The raw key is only ever returned here; only its hash is stored.
+  apiKey: string;
+  key: ApiKeyInfo;
+}
+
+// Issues a new API key for the authenticated partner.
+export const createApiKey = api<CreateApiKeyRequest, CreateApiKeyResponse>(
+  { expose: true, method: "POST", path: "/partner/api-keys", auth: true },
+  async (req) => {
+    const authData = getAuthData()!;
+    requireScope(authData, "admin");
+
+    try {
+      validateString(req.name, "Key name", 2, 100);
+      validateScopes(req.scopes);
+      if (req.expiryDays !== undefined) {
+        validateNumber(req.expiryDays, "Expiry days", 1, 3650);
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    const expiresAt = req.expiryDays
+      ? new Date(Date.now() + (req.expiryDays * 24 * 60 * 60 * 1000))
+      : null;
+
+    return issueApiKey(verificationDB, authData.partnerId, req.name.trim(), req.scopes, expiresAt);
+  }
+);
+
+export interface ListApiKeysRequest {
+  includeRevoked?: Query<boolean>;
+}
+
+export interface ListApiKeysResponse {
+  keys: ApiKeyInfo[];
+}
+
+// Lists the authenticated partner's API keys without revealing the keys themselves.
+export const listApiKeys = api<ListApiKeysRequest, ListApiKeysResponse>(
+  { expose: true, method: "GET", path: "/partner/api-keys", auth: true },
+  async (req) => {
+    const authData = getAuthData()!;
+    requireScope(authData, "admin");
+
+    const includeRevoked = req.includeRevoked ?? false;
+
+    const keys = await verificationDB.queryAll<ApiKeyRow>`
+      SELECT id, name, key_prefix, scopes, created_at, expires_at, last_used_at, revoked_at
+      FROM partner_api_keys
+      WHERE partner_id = ${authData.partnerId}
+        AND (revoked_at IS NULL OR ${includeRevoked})
+      ORDER BY created_at DESC
+    `;
+
+    return { keys: keys.map(toApiKeyInfo) };
+  }
+);
+
+export interface RotateApiKeyRequest {
+  keyId: number;
+}
+
+// Replaces an API key with a fresh one carrying the same name, scopes and expiry, and revokes the old key.
+// Expired keys can't be rotated, so the copied expiry is always in the future.
+export const rotateApiKey = api<RotateApiKeyRequest, CreateApiKeyResponse>(
+  { expose: true, method: "POST", path: "/partner/api-keys/:keyId/rotate", auth: true },
+  async (req) => {
+    const authData = getAuthData()!;
+    requireScope(authData, "admin");
+
+    const existing = await getActiveKey(authData.partnerId, req.keyId);
+
+    // Revoked and reissued together, so a failed insert can't leave the partner without a key
+    const tx = await verificationDB.begin();
+    let response: CreateApiKeyResponse;
+    try {
+      await tx.exec`
+        UPDATE partner_api_keys SET revoked_at = CURRENT_TIMESTAMP WHERE id = ${existing.id}
+      `;
+      response = await issueApiKey(tx, authData.partnerId, existing.name, existing.scopes, existing.expires_at, existing.id);
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+
+    return response;
+  }
+);
+
+export interface UpdateApiKeyRequest {
+  keyId: number;
+  name?: string;
+  scopes?: ApiKeyScope[];
+  expiresAt?: Date | null;
+}
+
+export interface UpdateApiKeyResponse {
+  key: ApiKeyInfo;
+}
+
+// Changes the name, scopes or expiry of an API key.
+export const updateApiKey = api<UpdateApiKeyRequest, UpdateApiKeyResponse>(
+  { expose: true, method: "PATCH", path: "/partner/api-keys/:keyId", auth: true },
+  async (req) => {
+    const authData = getAuthData()!;
+    requireScope(authData, "admin");
+
+    try {
+      if (req.name !== undefined) {
+        validateString(req.name, "Key name", 2, 100);
+      }
+      if (req.scopes !== undefined) {
+        validateScopes(req.scopes);
+      }
+      if (req.expiresAt && new Date(req.expiresAt).getTime() <= Date.now()) {
+        throw new ValidationError("Expiry must be in the future");
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    if (req.keyId === authData.apiKeyId && req.scopes && !req.scopes.includes("admin")) {
+      throw APIError.failedPrecondition("Cannot remove the admin scope from the key used for this request");
+    }
+
+    const existing = await getActiveKey(authData.partnerId, req.keyId);
+
+    const name = req.name?.trim() ?? existing.name;
+    const scopes = req.scopes ?? existing.scopes;
+    const expiresAt = req.expiresAt !== undefined ? req.expiresAt : existing.expires_at;
+
+    const updated = await verificationDB.queryRow<ApiKeyRow>`
+      UPDATE partner_api_keys
+      SET name = ${name}, scopes = ${scopes}, expires_at = ${expiresAt}
+      WHERE id = ${existing.id}
+      RETURNING id, name, key_prefix, scopes, created_at, expires_at, last_used_at, revoked_at
+    `;
+
+    return { key: toApiKeyInfo(updated!) };
+  }
+);
+
+export interface RevokeApiKeyRequest {
+  keyId: number;
+}
+
+export interface RevokeApiKeyResponse {
+  message: string;
+}
+
+// Revokes an API key immediately.
+export const revokeApiKey = api<RevokeApiKeyRequest, RevokeApiKeyResponse>(
+  { expose: true, method: "DELETE", path: "/partner/api-keys/:keyId", auth: true },
+  async (req) => {
+    const authData = getAuthData()!;
+    requireScope(authData, "admin");
+
+    if (req.keyId === authData.apiKeyId) {
+      throw APIError.failedPrecondition("Cannot revoke the key used for this request");
+    }
+
+    const existing = await getActiveKey(authData.partnerId, req.keyId);
+
+    await verificationDB.exec`
+      UPDATE partner_api_keys SET revoked_at = CURRENT_TIMESTAMP WHERE id = ${existing.id}
+    `;
+
+    return {
+      message: "API key revoked successfully",
+    };
+  }
+);
+
+async function issueApiKey(
+  db: SQLDatabase | Transaction,
+  partnerId: number,
+  name: string,
+  scopes: ApiKeyScope[],
+  expiresAt: Date | null,
+  rotatedFromId?: number
+): Promise<CreateApiKeyResponse> {
+  const { apiKey, keyPrefix } = generateApiKey();
+
+  const created = await db.queryRow<ApiKeyRow>`
+    INSERT INTO partner_api_keys (
+      partner_id, name, api_key_hash, key_prefix, scopes, expires_at, rotated_from_id
+    ) VALUES (
+      ${partnerId}, ${name}, ${hashApiKey(apiKey)}, ${keyPrefix}, ${scopes},
+      ${expiresAt}, ${rotatedFromId ?? null}
+    )
+    RETURNING id, name, key_prefix, scopes, created_at, expires_at, last_used_at, revoked_at
+  `;
+
+  return {
+    apiKey,
+    key: toApiKeyInfo(created!),
+  };
+}
+
+async function getActiveKey(partnerId: number, keyId: number): Promise<ApiKeyRow> {
+  const key = await verificationDB.queryRow<ApiKeyRow>`
+    SELECT id, name, key_prefix, scopes, created_at, expires_at, last_used_at, revoked_at
+    FROM partner_api_keys
+    WHERE id = ${keyId} AND partner_id = ${partnerId} AND revoked_at IS NULL
+      AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)
+  `;
+
+  if (!key) {
+    throw APIError.notFound("API key not found");
+  }
+
+  return key;
+}
+
+function validateScopes(scopes: ApiKeyScope[]): void {
+  validateArray(scopes, "Scopes", 1, API_KEY_SCOPES.length);
+  scopes.forEach(scope => validateEnum(scope, "Scope", API_KEY_SCOPES));
+}
+
+function toApiKeyInfo(row: ApiKeyRow): ApiKeyInfo {
+  const isExpired = row.expires_at !== null && row.expires_at <= new Date();
+
+  return {
+    id: row.id,
+    name: row.name,
+    keyPrefix: row.key_prefix || "sk_live_",
+    scopes: row.scopes,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at ?? undefined,
+    lastUsed: row.last_used_at ?? undefined,
+    revokedAt: row.revoked_at ?? undefined,
+    isActive: row.revoked_at === null && !isExpired,
+  };
+}
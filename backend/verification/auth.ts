@@ -0,0 +1,82 @@
+import { APIError, Gateway, Header } from "encore.dev/api";
+import { authHandler } from "encore.dev/auth";
+import { ApiKeyScope, hasScope, hashApiKey, parseBearerToken, PlatformRole } from "./api_key_tokens";
+import { verificationDB } from "./db";
+
+export type { ApiKeyScope, PlatformRole };
+
+interface AuthParams {
+  authorization: Header<"Authorization">;
+}
+
+export interface AuthData {
+  userID: string;
+  apiKeyId: number;
+  partnerId: number;
+  partnerName: string;
+  partnerType: string;
+  scopes: ApiKeyScope[];
+  platformRole?: PlatformRole;
+}
+
+// Resolves a partner API key sent as "Authorization: Bearer <key>" to a partner identity.
+export const auth = authHandler<AuthParams, AuthData>(
+  async (params) => {
+    const apiKey = parseBearerToken(params.authorization);
+    if (!apiKey) {
+      throw APIError.unauthenticated("Missing API key");
+    }
+
+    const partner = await verificationDB.queryRow<{
+      key_id: number;
+      partner_id: number;
+      name: string;
+      partner_type: string;
+      scopes: ApiKeyScope[];
+      platform_role: PlatformRole | null;
+    }>`
+      SELECT k.id as key_id, p.id as partner_id, p.name, p.partner_type, k.scopes, p.platform_role
+      FROM partner_api_keys k
+      JOIN partners p ON k.partner_id = p.id
+      WHERE k.api_key_hash = ${hashApiKey(apiKey)}
+        AND k.revoked_at IS NULL
+        AND (k.expires_at IS NULL OR k.expires_at > CURRENT_TIMESTAMP)
+        AND p.is_active = true
+    `;
+
+    if (!partner) {
+      throw APIError.unauthenticated("Invalid or inactive API key");
+    }
+
+    await verificationDB.exec`
+      UPDATE partner_api_keys SET last_used_at = CURRENT_TIMESTAMP WHERE id = ${partner.key_id}
+    `;
+
+    return {
+      userID: `partner_${partner.partner_id}`,
+      apiKeyId: partner.key_id,
+      partnerId: partner.partner_id,
+      partnerName: partner.name,
+      partnerType: partner.partner_type,
+      scopes: partner.scopes,
+      platformRole: partner.platform_role ?? undefined,
+    };
+  }
+);
+
+export const gateway = new Gateway({ authHandler: auth });
+
+// Throws unless the authenticated key carries the given scope. Admin keys carry every scope.
+export function requireScope(authData: AuthData, scope: ApiKeyScope): void {
+  if (!hasScope(authData.scopes, scope)) {
+    throw APIError.permissionDenied(`API key is missing the "${scope}" scope`);
+  }
+}
+
+// Throws unless the caller belongs to a platform operator. A partner's admin keys only
+// administer that partner's own account.
+export function requireOperator(authData: AuthData): void {
+  if (authData.platformRole !== "operator") {
+    throw APIError.permissionDenied("Only platform operators can do this");
+  }
+}
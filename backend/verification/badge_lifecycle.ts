@@ -1,5 +1,6 @@
 import { api, APIError } from "encore.dev/api";
 import { verificationDB } from "./db";
+import { publishDeviceChanged } from "./domain_events";
 
 export interface CreateBadgeRequest {
   entityId: number;
@@ -87,6 +88,8 @@ export const createBadge = api<CreateBadgeRequest, CreateBadgeResponse>(
               ${verifiedBy}, true)
     `;
 
+    await publishDeviceChanged(entityId, "badge");
+
     return {
       success: true,
       badge: {
@@ -282,6 +285,8 @@ export const revokeBadge = api<RevokeBadgeRequest, RevokeBadgeResponse>(
               ${revokedBy}, true)
     `;
 
+    await publishDeviceChanged(entityId, "badge");
+
     return {
       success: true,
       message: "Verification badge revoked successfully",
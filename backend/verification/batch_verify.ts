@@ -1,5 +1,10 @@
-import { api } from "encore.dev/api";
+import { api, APIError } from "encore.dev/api";
 import { verificationDB } from "./db";
+import { logVerification } from "./verification_logs";
+import { DeviceStatus } from "./device_status";
+import { getDeviceByIdentifier } from "./devices";
+import { MAX_BATCH_ITEMS } from "./rate_limit_policy";
+import { validateArray, ValidationError } from "./validation";
 
 export interface BatchVerifyRequest {
   devices: Array<{
@@ -19,7 +24,7 @@ export interface BatchVerifyResult {
     deviceName: string;
     model: string;
     brand: string;
-    status: "clean" | "flagged" | "under_investigation";
+    status: DeviceStatus;
     lastVerified: Date;
   };
   reportCount?: number;
@@ -31,32 +36,31 @@ export interface BatchVerifyResponse {
   totalFound: number;
 }
 
-// Verifies multiple devices in a single request.
+// Verifies up to MAX_BATCH_ITEMS devices in a single request. Each device counts as one
+// verification towards rate limits and quotas.
 export const batchVerify = api<BatchVerifyRequest, BatchVerifyResponse>(
-  { expose: true, method: "POST", path: "/verify/batch" },
+  { expose: true, method: "POST", path: "/verify/batch", tags: ["metered"] },
   async (req) => {
     const { devices } = req;
+
+    try {
+      validateArray(devices, "Devices", 1, MAX_BATCH_ITEMS);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
     const results: BatchVerifyResult[] = [];
 
     for (const deviceRequest of devices) {
       const { identifier, identifierType } = deviceRequest;
+      const startTime = Date.now();
 
       try {
         // Find device by identifier
-        const device = await verificationDB.queryRow<{
-          id: number;
-          serial_number: string;
-          imei?: string;
-          device_name: string;
-          model: string;
-          brand: string;
-          status: string;
-          updated_at: Date;
-        }>`
-          SELECT id, serial_number, imei, device_name, model, brand, status, updated_at
-          FROM devices 
-          WHERE ${identifierType === 'serial' ? 'serial_number' : 'imei'} = ${identifier}
-        `;
+        const device = await getDeviceByIdentifier(identifier, identifierType);
 
         if (!device) {
           results.push({
@@ -64,6 +68,13 @@ export const batchVerify = api<BatchVerifyRequest, BatchVerifyResponse>(
             identifierType,
             found: false,
           });
+          await logVerification({
+            verificationType: "batch",
+            identifier,
+            identifierType,
+            resultStatus: "not_found",
+            responseTimeMs: Date.now() - startTime,
+          });
           continue;
         }
 
@@ -80,22 +91,37 @@ export const batchVerify = api<BatchVerifyRequest, BatchVerifyResponse>(
           found: true,
           device: {
             id: device.id,
-            serialNumber: device.serial_number,
+            serialNumber: device.serialNumber || "",
             imei: device.imei,
-            deviceName: device.device_name,
+            deviceName: device.deviceName,
             model: device.model,
             brand: device.brand,
-            status: device.status as "clean" | "flagged" | "under_investigation",
-            lastVerified: device.updated_at,
+            status: device.status as DeviceStatus,
+            lastVerified: device.updatedAt,
           },
           reportCount: reportResult?.count || 0,
         });
+        await logVerification({
+          deviceId: device.id,
+          verificationType: "batch",
+          identifier,
+          identifierType,
+          resultStatus: "found",
+          responseTimeMs: Date.now() - startTime,
+        });
       } catch (error) {
         results.push({
           identifier,
           identifierType,
           found: false,
         });
+        await logVerification({
+          verificationType: "batch",
+          identifier,
+          identifierType,
+          resultStatus: "error",
+          responseTimeMs: Date.now() - startTime,
+        });
       }
     }
 
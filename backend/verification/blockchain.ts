@@ -1,15 +1,35 @@
-import { api } from "encore.dev/api";
-import { secret } from "encore.dev/config";
+import { api, APIError } from "encore.dev/api";
+import { CronJob } from "encore.dev/cron";
+import { getAuthData } from "~encore/auth";
+import { AnchorCoverage, getAnchorCoverage } from "./anchoring";
+import { requireScope } from "./auth";
 import { verificationDB } from "./db";
+import {
+  BLOCK_MAX_RECORDS,
+  buildMerkleLevels,
+  ChainVerification,
+  getLedgerBlock,
+  getLedgerHead,
+  hashRecordPayload,
+  LedgerBlock,
+  LedgerRecordPayload,
+  LedgerRecordRow,
+  MerkleProofStep,
+  sealPendingRecords,
+  toRecordPayload,
+  verifyChainFrom,
+  verifyLedger,
+  verifyMerkleInclusion,
+} from "./ledger";
+import { validateEnum, validateString, ValidationError } from "./validation";
 import * as crypto from "crypto";
 
-const blockchainApiKey = secret("BlockchainAPIKey");
-
 export interface BlockchainRecord {
   id: string;
   deviceId: string;
   transactionHash: string;
-  blockNumber: number;
+  // Undefined until the record is sealed into a block.
+  blockNumber?: number;
   eventType: string;
   data: Record<string, unknown>;
   timestamp: Date;
@@ -25,105 +45,83 @@ export interface BlockchainVerificationRequest {
 export interface BlockchainVerificationResponse {
   success: boolean;
   transactionHash: string;
-  blockNumber: number;
   recordId: string;
-  merkleRoot: string;
-  proof: string[];
+  // "pending" until the next block is sealed; the proof fields are filled in once it is.
+  status: "pending" | "sealed";
+  blockNumber?: number;
+  merkleRoot?: string;
+  proof?: MerkleProofStep[];
 }
 
-function generateMerkleTree(data: string[]): { root: string; proof: string[] } {
-  if (data.length === 0) return { root: "", proof: [] };
-  
-  let layer = data.map(d => crypto.createHash('sha256').update(d).digest('hex'));
-  const proof: string[] = [];
-  
-  while (layer.length > 1) {
-    const nextLayer: string[] = [];
-    for (let i = 0; i < layer.length; i += 2) {
-      if (i + 1 < layer.length) {
-        const combined = layer[i] + layer[i + 1];
-        const hash = crypto.createHash('sha256').update(combined).digest('hex');
-        nextLayer.push(hash);
-        proof.push(layer[i + 1]);
-      } else {
-        nextLayer.push(layer[i]);
-      }
-    }
-    layer = nextLayer;
-  }
-  
-  return { root: layer[0], proof };
-}
+const BLOCKCHAIN_EVENT_TYPES = ["verification", "ownership_transfer", "report", "flag", "recovery"] as const;
 
-function generateTransactionHash(data: string): string {
-  return crypto.createHash('sha256').update(data).digest('hex');
+// recorded_at is null for records written before the ledger existed.
+interface BlockchainRecordRow extends Omit<LedgerRecordRow, "recorded_at"> {
+  recorded_at: Date | null;
+  transaction_hash: string;
+  block_number: number | null;
+  leaf_index: number | null;
+  merkle_root: string | null;
+  merkle_proof: MerkleProofStep[] | null;
+  verified: boolean;
+  created_at: Date;
 }
 
+// Appends a record to the ledger; it is included in the next sealed block.
 export const recordOnBlockchain = api(
   { method: "POST", path: "/blockchain/record", expose: true, auth: true },
   async (req: BlockchainVerificationRequest): Promise<BlockchainVerificationResponse> => {
-    const device = await verificationDB.queryRow`
+    try {
+      validateString(req.deviceId, "Device ID", 1, 100);
+      validateEnum(req.eventType, "Event type", BLOCKCHAIN_EVENT_TYPES);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    const device = await verificationDB.queryRow<{ id: number; imei: string | null }>`
       SELECT id, imei FROM devices WHERE id = ${req.deviceId}
     `;
 
     if (!device) {
-      throw new Error("Device not found");
+      throw APIError.notFound("Device not found");
     }
 
-    const recordData = {
+    const recordedAt = new Date();
+    const payload: LedgerRecordPayload = {
+      id: crypto.randomUUID(),
       deviceId: req.deviceId,
-      imei: device.imei,
+      imei: device.imei ?? null,
       eventType: req.eventType,
       data: req.data,
-      timestamp: new Date().toISOString(),
+      timestamp: recordedAt.toISOString(),
     };
+    const transactionHash = hashRecordPayload(payload);
 
-    const dataString = JSON.stringify(recordData);
-    const transactionHash = generateTransactionHash(dataString);
-    
-    const recentRecordsGen = await verificationDB.query`
-      SELECT data_hash FROM blockchain_records
-      ORDER BY created_at DESC
-      LIMIT 100
-    `;
-
-    const recentRecords = [];
-    for await (const row of recentRecordsGen) {
-      recentRecords.push(row);
-    }
-
-    const dataHashes = [
-      transactionHash,
-      ...recentRecords.map(r => r.data_hash)
-    ];
-
-    const { root: merkleRoot, proof } = generateMerkleTree(dataHashes);
-    
-    const blockNumber = Math.floor(Date.now() / 1000);
-
-    const result = await verificationDB.queryRow`
+    await verificationDB.exec`
       INSERT INTO blockchain_records (
+        id,
         device_id,
+        imei,
         transaction_hash,
-        block_number,
         event_type,
         data,
-        merkle_root,
-        merkle_proof,
         data_hash,
+        recorded_at,
         verified
       ) VALUES (
+        ${payload.id},
         ${req.deviceId},
+        ${payload.imei},
         ${transactionHash},
-        ${blockNumber},
         ${req.eventType},
         ${JSON.stringify(req.data)},
-        ${merkleRoot},
-        ${JSON.stringify(proof)},
         ${transactionHash},
-        true
+        ${recordedAt},
+        false
       )
-      RETURNING id
     `;
 
     await verificationDB.exec`
@@ -135,45 +133,81 @@ export const recordOnBlockchain = api(
     return {
       success: true,
       transactionHash,
-      blockNumber,
-      recordId: result?.id || '',
-      merkleRoot,
-      proof,
+      recordId: payload.id,
+      status: "pending",
     };
   }
 );
 
+export interface SealLedgerBlocksResponse {
+  blocksSealed: number;
+  recordsSealed: number;
+  head?: LedgerBlock;
+}
+
+// Seals every pending record into blocks chained onto the ledger head.
+export const sealLedgerBlocks = api(
+  { method: "POST", path: "/internal/blockchain/seal", expose: false },
+  async (): Promise<SealLedgerBlocksResponse> => {
+    let blocksSealed = 0;
+    let recordsSealed = 0;
+    let head: LedgerBlock | undefined;
+
+    for (let block = await sealPendingRecords(); block; block = await sealPendingRecords()) {
+      blocksSealed++;
+      recordsSealed += block.recordCount;
+      head = block;
+      if (block.recordCount < BLOCK_MAX_RECORDS) {
+        break;
+      }
+    }
+
+    return { blocksSealed, recordsSealed, head };
+  }
+);
+
+const _ = new CronJob("seal-ledger-blocks", {
+  title: "Seal pending blockchain records into ledger blocks",
+  every: "1m",
+  endpoint: sealLedgerBlocks,
+});
+
 export interface VerifyBlockchainRecordRequest {
   transactionHash: string;
 }
 
+export interface BlockchainRecordChecks {
+  // The stored record still hashes to its transaction hash.
+  hashMatches: boolean;
+  // The Merkle proof leads from the record to its block's root.
+  inclusionProofValid: boolean;
+  // Every block from the record's block to the head recomputes and links to its predecessor.
+  chainValid: boolean;
+}
+
 export interface VerifyBlockchainRecordResponse {
   valid: boolean;
   record?: BlockchainRecord;
   merkleRoot: string;
   verified: boolean;
   timestamp: Date;
+  sealed: boolean;
+  checks?: BlockchainRecordChecks;
+  block?: LedgerBlock;
+  proof?: MerkleProofStep[];
+  ledgerHead?: { blockNumber: number; blockHash: string };
+  // Whether a confirmed external anchor covers the record's block.
+  anchor?: AnchorCoverage;
+  reason?: string;
 }
 
+// Checks a record's hash, its Merkle inclusion in its block, the chain from that block to the
+// ledger head and whether an external anchor covers it. Pending records can only have their
+// hash checked.
 export const verifyBlockchainRecord = api(
   { method: "POST", path: "/blockchain/verify", expose: true },
   async (req: VerifyBlockchainRecordRequest): Promise<VerifyBlockchainRecordResponse> => {
-    const record = await verificationDB.queryRow`
-      SELECT 
-        id,
-        device_id,
-        transaction_hash,
-        block_number,
-        event_type,
-        data,
-        merkle_root,
-        merkle_proof,
-        data_hash,
-        verified,
-        created_at
-      FROM blockchain_records
-      WHERE transaction_hash = ${req.transactionHash}
-    `;
+    const record = await getRecordByTransactionHash(req.transactionHash);
 
     if (!record) {
       return {
@@ -181,37 +215,133 @@ export const verifyBlockchainRecord = api(
         merkleRoot: "",
         verified: false,
         timestamp: new Date(),
+        sealed: false,
+        reason: "Record not found",
       };
     }
 
-    const dataString = JSON.stringify({
-      deviceId: record.device_id,
-      eventType: record.event_type,
-      data: record.data,
-    });
-    
-    const computedHash = generateTransactionHash(dataString);
-    const hashMatches = computedHash === record.data_hash;
+    const base = {
+      record: toBlockchainRecord(record),
+      timestamp: record.created_at,
+    };
+
+    if (!isLedgerRecord(record)) {
+      return {
+        ...base,
+        valid: false,
+        merkleRoot: "",
+        verified: false,
+        sealed: false,
+        reason: "Recorded before the ledger existed; no proof is available",
+      };
+    }
+
+    const hashMatches = hashRecordPayload(toRecordPayload(record)) === record.transaction_hash
+      && record.data_hash === record.transaction_hash;
+
+    if (record.block_number === null) {
+      return {
+        ...base,
+        valid: hashMatches,
+        merkleRoot: "",
+        verified: false,
+        sealed: false,
+        checks: { hashMatches, inclusionProofValid: false, chainValid: false },
+        reason: hashMatches ? "Waiting to be sealed into a block" : "Record does not match its hash",
+      };
+    }
+
+    const block = await getLedgerBlock(record.block_number);
+    const proof = record.merkle_proof ?? [];
+    const inclusionProofValid = !!block && verifyMerkleInclusion(record.transaction_hash, proof, block.merkleRoot);
+    const chain = await verifyChainFrom(record.block_number);
+    const anchor = await getAnchorCoverage(record.block_number);
+    const valid = hashMatches && inclusionProofValid && chain.valid && !anchor.mismatch;
 
     return {
-      valid: hashMatches,
-      record: {
-        id: record.id,
-        deviceId: record.device_id,
-        transactionHash: record.transaction_hash,
-        blockNumber: parseInt(record.block_number),
-        eventType: record.event_type,
-        data: record.data,
-        timestamp: record.created_at,
-        verified: record.verified,
-      },
-      merkleRoot: record.merkle_root,
-      verified: record.verified && hashMatches,
-      timestamp: record.created_at,
+      ...base,
+      valid,
+      merkleRoot: block?.merkleRoot ?? "",
+      verified: valid,
+      sealed: true,
+      checks: { hashMatches, inclusionProofValid, chainValid: chain.valid },
+      block: block ?? undefined,
+      proof,
+      ledgerHead: chain.headBlockNumber !== undefined
+        ? { blockNumber: chain.headBlockNumber, blockHash: chain.headHash! }
+        : undefined,
+      anchor,
+      reason: !hashMatches
+        ? "Record does not match its hash"
+        : !inclusionProofValid
+          ? "Merkle proof does not lead to the block root"
+          : chain.reason ?? (anchor.mismatch ? anchor.reason : undefined),
     };
   }
 );
 
+export interface GetLedgerProofRequest {
+  transactionHash: string;
+}
+
+export interface GetLedgerProofResponse {
+  transactionHash: string;
+  // Everything needed to recompute the transaction hash independently.
+  payload: LedgerRecordPayload;
+  leafIndex: number;
+  proof: MerkleProofStep[];
+  block: LedgerBlock;
+}
+
+// Returns a record's inclusion proof and block so it can be checked without this service.
+export const getLedgerProof = api(
+  { method: "GET", path: "/blockchain/proof/:transactionHash", expose: true },
+  async ({ transactionHash }: GetLedgerProofRequest): Promise<GetLedgerProofResponse> => {
+    const record = await getRecordByTransactionHash(transactionHash);
+    if (!record || !isLedgerRecord(record)) {
+      throw APIError.notFound("Ledger record not found");
+    }
+    if (record.block_number === null || record.leaf_index === null) {
+      throw APIError.failedPrecondition("Record has not been sealed into a block yet");
+    }
+
+    const block = await getLedgerBlock(record.block_number);
+    if (!block) {
+      throw APIError.internal(`Block ${record.block_number} is missing from the ledger`);
+    }
+
+    return {
+      transactionHash: record.transaction_hash,
+      payload: toRecordPayload(record),
+      leafIndex: record.leaf_index,
+      proof: record.merkle_proof ?? [],
+      block,
+    };
+  }
+);
+
+export interface GetLedgerHeadResponse {
+  head?: LedgerBlock;
+}
+
+// Returns the most recently sealed block.
+export const getLedgerHeadBlock = api(
+  { method: "GET", path: "/blockchain/ledger/head", expose: true },
+  async (): Promise<GetLedgerHeadResponse> => {
+    const head = await getLedgerHead();
+    return { head: head ?? undefined };
+  }
+);
+
+// Audits the entire ledger: block hashes, links and each block's Merkle root against its records.
+export const auditLedger = api(
+  { method: "GET", path: "/blockchain/ledger/verify", expose: true, auth: true },
+  async (): Promise<ChainVerification> => {
+    requireScope(getAuthData()!, "admin");
+    return verifyLedger();
+  }
+);
+
 export interface GetBlockchainHistoryRequest {
   deviceId: string;
 }
@@ -254,7 +384,7 @@ export const getBlockchainHistory = api(
         id: r.id,
         deviceId: r.device_id,
         transactionHash: r.transaction_hash,
-        blockNumber: parseInt(r.block_number),
+        blockNumber: r.block_number ?? undefined,
         eventType: r.event_type,
         data: r.data,
         timestamp: r.created_at,
@@ -270,7 +400,7 @@ export interface BlockchainAuditLogEntry {
   timestamp: Date;
   eventType: string;
   transactionHash: string;
-  blockNumber: number;
+  blockNumber?: number;
   verified: boolean;
   dataHash: string;
 }
@@ -291,8 +421,7 @@ export const getAuditLog = api(
         transaction_hash,
         block_number,
         verified,
-        data_hash,
-        merkle_root
+        data_hash
       FROM blockchain_records
       ORDER BY created_at DESC
       LIMIT 1000
@@ -303,18 +432,18 @@ export const getAuditLog = api(
       records.push(row);
     }
 
-    const latestMerkleRoot = records.length > 0 ? records[0].merkle_root : "";
+    const head = await getLedgerHead();
 
     return {
       entries: records.map(r => ({
         timestamp: r.created_at,
         eventType: r.event_type,
         transactionHash: r.transaction_hash,
-        blockNumber: parseInt(r.block_number),
+        blockNumber: r.block_number ?? undefined,
         verified: r.verified,
         dataHash: r.data_hash,
       })),
-      merkleRoot: latestMerkleRoot,
+      merkleRoot: head?.merkleRoot ?? "",
       totalEntries: records.length,
     };
   }
@@ -326,31 +455,78 @@ export interface BatchBlockchainRecordRequest {
 
 export interface BatchBlockchainRecordResponse {
   results: BlockchainVerificationResponse[];
+  // Root over this batch's transaction hashes; each result's own proof is against its ledger block.
   batchMerkleRoot: string;
   totalRecorded: number;
 }
 
+// Records several events and seals them straight away so every result carries its proof.
 export const batchRecordOnBlockchain = api(
   { method: "POST", path: "/blockchain/batch-record", expose: true, auth: true },
   async (req: BatchBlockchainRecordRequest): Promise<BatchBlockchainRecordResponse> => {
-    const results: BlockchainVerificationResponse[] = [];
+    const pending: BlockchainVerificationResponse[] = [];
 
     for (const record of req.records) {
       try {
         const result = await recordOnBlockchain(record);
-        results.push(result);
+        pending.push(result);
       } catch (error) {
         console.error(`Failed to record ${record.deviceId}:`, error);
       }
     }
 
-    const allHashes = results.map(r => r.transactionHash);
-    const { root: batchMerkleRoot } = generateMerkleTree(allHashes);
+    if (pending.length === 0) {
+      return { results: [], batchMerkleRoot: "", totalRecorded: 0 };
+    }
+
+    await sealLedgerBlocks();
+
+    const results: BlockchainVerificationResponse[] = [];
+    for (const result of pending) {
+      const record = await getRecordByTransactionHash(result.transactionHash);
+      results.push(record && record.block_number !== null
+        ? {
+          ...result,
+          status: "sealed",
+          blockNumber: record.block_number,
+          merkleRoot: record.merkle_root ?? undefined,
+          proof: record.merkle_proof ?? undefined,
+        }
+        : result);
+    }
+
+    const levels = buildMerkleLevels(results.map(r => r.transactionHash));
 
     return {
       results,
-      batchMerkleRoot,
+      batchMerkleRoot: levels[levels.length - 1][0],
       totalRecorded: results.length,
     };
   }
 );
+
+async function getRecordByTransactionHash(transactionHash: string): Promise<BlockchainRecordRow | null> {
+  return verificationDB.queryRow<BlockchainRecordRow>`
+    SELECT id, device_id, imei, transaction_hash, block_number, leaf_index, event_type, data,
+           merkle_root, merkle_proof, data_hash, verified, recorded_at, created_at
+    FROM blockchain_records
+    WHERE transaction_hash = ${transactionHash}
+  `;
+}
+
+function isLedgerRecord(row: BlockchainRecordRow): row is BlockchainRecordRow & LedgerRecordRow {
+  return row.recorded_at !== null;
+}
+
+function toBlockchainRecord(row: BlockchainRecordRow): BlockchainRecord {
+  return {
+    id: row.id,
+    deviceId: row.device_id,
+    transactionHash: row.transaction_hash,
+    blockNumber: row.block_number ?? undefined,
+    eventType: row.event_type,
+    data: row.data,
+    timestamp: row.created_at,
+    verified: row.verified,
+  };
+}
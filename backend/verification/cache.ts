@@ -2,7 +2,7 @@ interface DeviceCacheEntry {
   id: string;
   imei: string;
   status: string;
-  manufacturer?: string;
+  brand?: string;
   model?: string;
   trustScore: number;
   verificationCount: number;
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { canonicalJson } from "./canonical_json";
+
+describe("canonicalJson", () => {
+  it("sorts keys at every level regardless of insertion order", () => {
+    const a = { verificationId: "ver_1", device: { model: "X", brand: "Acme" }, checks: [{ b: 2, a: 1 }] };
+    const b = { checks: [{ a: 1, b: 2 }], device: { brand: "Acme", model: "X" }, verificationId: "ver_1" };
+
+    expect(canonicalJson(a)).toBe(canonicalJson(b));
+    expect(canonicalJson(a)).toBe('{"checks":[{"a":1,"b":2}],"device":{"brand":"Acme","model":"X"},"verificationId":"ver_1"}');
+  });
+
+  it("drops undefined properties but keeps null ones", () => {
+    expect(canonicalJson({ imei: null, serialNumber: undefined })).toBe('{"imei":null}');
+  });
+
+  it("writes undefined array items as null, like JSON.stringify", () => {
+    expect(canonicalJson([1, undefined, "a"])).toBe(JSON.stringify([1, undefined, "a"]));
+  });
+
+  it("sorts keys by code unit rather than locale", () => {
+    expect(canonicalJson({ b: 1, B: 2, a: 3, "é": 4 })).toBe('{"B":2,"a":3,"b":1,"é":4}');
+  });
+});
@@ -0,0 +1,17 @@
+// Canonical JSON shared by certificates, verification snapshots and the ledger. Kept free of
+// service dependencies so hashes can be reproduced and tested without the service.
+
+// JSON with object keys sorted at every level and undefined values dropped. This is the exact
+// byte sequence that is signed, so offline verifiers must reproduce it.
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(",")}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => item !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(",")}}`;
+}
@@ -0,0 +1,333 @@
+import { api, APIError } from "encore.dev/api";
+import { secret } from "encore.dev/config";
+import { getAuthData } from "~encore/auth";
+import * as crypto from "crypto";
+import { requireScope } from "./auth";
+import { renderPdf, PdfLine, wrapText } from "./certificate_pdf";
+import { canonicalJson } from "./canonical_json";
+import { verificationDB } from "./db";
+import { DeviceStatus } from "./device_status";
+import { getDeviceById } from "./devices";
+import { STANDARD_SCORING_MODEL } from "./scoring_models";
+import { validateString, ValidationError } from "./validation";
+
+// PKCS#8 PEM-encoded Ed25519 private key used to sign certificates.
+const certificateSigningKey = secret("CertificateSigningKey");
+
+const CERTIFICATE_ISSUER = "stolen-verify.app";
+const SIGNATURE_ALGORITHM = "Ed25519";
+
+// The signed statement. Timestamps are ISO 8601 strings so the signed bytes are reproducible.
+export interface CertificateAttestation {
+  certificateId: string;
+  verificationId: string;
+  issuer: string;
+  keyId: string;
+  device: {
+    id: number;
+    serialNumber?: string;
+    imei?: string;
+    deviceName: string;
+    brand: string;
+    model: string;
+  };
+  status: DeviceStatus;
+  trustScore?: {
+    score: number;
+    riskCategory: "low" | "medium" | "high";
+    modelVersion: string;
+  };
+  // SHA-256 of the stored verification snapshot, see GET /verifications/:verificationId.
+  snapshotHash?: string;
+  verifiedAt: string;
+  issuedAt: string;
+}
+
+export interface SignedCertificate {
+  attestation: CertificateAttestation;
+  algorithm: string;
+  // Base64url Ed25519 signature over the canonical JSON of the attestation.
+  signature: string;
+}
+
+export interface SigningKeys {
+  privateKey: crypto.KeyObject;
+  publicKey: crypto.KeyObject;
+  keyId: string;
+}
+
+let signingKeys: SigningKeys | null = null;
+
+// Also signs verifiable credentials, so verifiers check both against one published key.
+export function getSigningKeys(): SigningKeys {
+  if (!signingKeys) {
+    const privateKey = crypto.createPrivateKey(certificateSigningKey());
+    if (privateKey.asymmetricKeyType !== "ed25519") {
+      throw new Error("CertificateSigningKey must be an Ed25519 private key");
+    }
+    const publicKey = crypto.createPublicKey(privateKey);
+    const keyId = crypto
+      .createHash("sha256")
+      .update(publicKey.export({ type: "spki", format: "der" }))
+      .digest("hex")
+      .substring(0, 16);
+    signingKeys = { privateKey, publicKey, keyId };
+  }
+  return signingKeys;
+}
+
+export interface IssueCertificateRequest {
+  verificationId: string;
+}
+
+// Issues a signed certificate for a completed verification. A partner's verification can only be
+// certified by that partner or a platform operator; an anonymous one by whoever holds its
+// unguessable verification ID. Issuing again for the same verification returns the original certificate.
+export const issueCertificate = api<IssueCertificateRequest, SignedCertificate>(
+  { expose: true, method: "POST", path: "/certificates" },
+  async (req) => {
+    const authData = getAuthData();
+    if (authData) {
+      requireScope(authData, "read");
+    }
+
+    try {
+      validateString(req.verificationId, "Verification ID", 1, 255);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    // Certificates attest what the verification showed, so verifications without a stored
+    // snapshot cannot be certified
+    const snapshot = await verificationDB.queryRow<{
+      device_id: number | null;
+      partner_id: number | null;
+      device_status: DeviceStatus;
+      trust_score: number | null;
+      risk_category: "low" | "medium" | "high" | null;
+      model_version: string | null;
+      snapshot_hash: string;
+      created_at: Date;
+    }>`
+      SELECT device_id, partner_id, device_status, trust_score, risk_category,
+             response->'trustScore'->>'modelVersion' AS model_version, snapshot_hash, created_at
+      FROM verification_sessions
+      WHERE verification_id = ${req.verificationId}
+    `;
+    if (!snapshot || snapshot.device_id === null) {
+      throw APIError.notFound("Verification not found");
+    }
+    if (
+      snapshot.partner_id !== null &&
+      snapshot.partner_id !== authData?.partnerId &&
+      authData?.platformRole !== "operator"
+    ) {
+      throw APIError.permissionDenied("Only the partner that ran this verification can certify it");
+    }
+
+    const existing = await getStoredCertificate({ verificationId: req.verificationId });
+    if (existing) {
+      return existing;
+    }
+
+    const device = await getDeviceById(snapshot.device_id);
+    if (!device) {
+      throw APIError.notFound("Device not found");
+    }
+
+    const trustScore: CertificateAttestation["trustScore"] =
+      snapshot.trust_score !== null && snapshot.risk_category !== null
+        ? {
+            score: snapshot.trust_score,
+            riskCategory: snapshot.risk_category,
+            modelVersion: snapshot.model_version ?? STANDARD_SCORING_MODEL.versionLabel,
+          }
+        : undefined;
+
+    const { privateKey, keyId } = getSigningKeys();
+
+    const attestation: CertificateAttestation = {
+      certificateId: `cert_${crypto.randomBytes(16).toString("hex")}`,
+      verificationId: req.verificationId,
+      issuer: CERTIFICATE_ISSUER,
+      keyId,
+      device: {
+        id: device.id,
+        serialNumber: device.serialNumber,
+        imei: device.imei,
+        deviceName: device.deviceName,
+        brand: device.brand,
+        model: device.model,
+      },
+      status: snapshot.device_status,
+      trustScore,
+      snapshotHash: snapshot.snapshot_hash,
+      verifiedAt: snapshot.created_at.toISOString(),
+      issuedAt: new Date().toISOString(),
+    };
+
+    const signature = crypto
+      .sign(null, Buffer.from(canonicalJson(attestation), "utf8"), privateKey)
+      .toString("base64url");
+
+    // A concurrent request may have issued the certificate first; keep whichever won
+    await verificationDB.exec`
+      INSERT INTO certificates (certificate_id, verification_id, device_id, attestation, signature, key_id)
+      VALUES (
+        ${attestation.certificateId}, ${req.verificationId}, ${device.id},
+        ${canonicalJson(attestation)}, ${signature}, ${keyId}
+      )
+      ON CONFLICT (verification_id) DO NOTHING
+    `;
+
+    return (await getStoredCertificate({ verificationId: req.verificationId }))!;
+  }
+);
+
+export interface GetCertificatePdfRequest {
+  certificateId: string;
+}
+
+export interface GetCertificatePdfResponse {
+  filename: string;
+  contentType: string;
+  // Base64-encoded PDF document.
+  pdf: string;
+}
+
+// Renders a certificate as a PDF that includes its signature and verification instructions.
+export const getCertificatePdf = api<GetCertificatePdfRequest, GetCertificatePdfResponse>(
+  { expose: true, method: "GET", path: "/certificates/:certificateId/pdf" },
+  async (req) => {
+    const certificate = await getStoredCertificate({ certificateId: req.certificateId });
+    if (!certificate) {
+      throw APIError.notFound("Certificate not found");
+    }
+
+    const { attestation } = certificate;
+    const lines: PdfLine[] = [
+      { text: "Device Verification Certificate", size: 20, bold: true },
+      { text: `Issued by ${attestation.issuer}`, size: 10 },
+      { text: "Device", size: 13, bold: true, gap: 16 },
+      { text: `${attestation.device.deviceName} (${attestation.device.brand} ${attestation.device.model})` },
+      { text: `Serial number: ${attestation.device.serialNumber ?? "-"}` },
+      { text: `IMEI: ${attestation.device.imei ?? "-"}` },
+      { text: "Result", size: 13, bold: true, gap: 16 },
+      { text: `Status: ${attestation.status.replace(/_/g, " ").toUpperCase()}` },
+      {
+        text: attestation.trustScore
+          ? `Trust score: ${attestation.trustScore.score}/100 (${attestation.trustScore.riskCategory} risk, model ${attestation.trustScore.modelVersion})`
+          : "Trust score: not available",
+      },
+      { text: `Verification ID: ${attestation.verificationId}` },
+      { text: `Verified at: ${attestation.verifiedAt}` },
+      { text: `Certificate issued at: ${attestation.issuedAt}` },
+      ...(attestation.snapshotHash ? [{ text: `Snapshot SHA-256: ${attestation.snapshotHash}`, size: 9 }] : []),
+      { text: "Signature", size: 13, bold: true, gap: 16 },
+      { text: `Certificate ID: ${attestation.certificateId}` },
+      { text: `Algorithm: ${certificate.algorithm}    Key ID: ${attestation.keyId}` },
+      ...wrapText(certificate.signature, 80).map(text => ({ text, size: 9 })),
+      { text: "How to check this certificate", size: 13, bold: true, gap: 16 },
+      { text: `Submit the certificate JSON to https://${CERTIFICATE_ISSUER}/certificates/verify, or verify the` },
+      { text: "signature offline against the public key published at /certificates/public-key. The signed" },
+      { text: "message is the attestation serialized as JSON with keys sorted alphabetically at every level." },
+    ];
+
+    return {
+      filename: `${attestation.certificateId}.pdf`,
+      contentType: "application/pdf",
+      pdf: renderPdf(lines).toString("base64"),
+    };
+  }
+);
+
+export interface VerifyCertificateRequest {
+  attestation: CertificateAttestation;
+  signature: string;
+}
+
+export interface VerifyCertificateResponse {
+  valid: boolean;
+  reason?: string;
+  // Whether this service has a record of issuing the certificate.
+  issuedByThisService: boolean;
+  // The device's status now, which may have changed since the certificate was issued.
+  currentStatus?: DeviceStatus;
+}
+
+// Checks a certificate's signature. Public so third parties can confirm a certificate they were given.
+export const verifyCertificate = api<VerifyCertificateRequest, VerifyCertificateResponse>(
+  { expose: true, method: "POST", path: "/certificates/verify" },
+  async (req) => {
+    const { publicKey, keyId } = getSigningKeys();
+
+    const stored = await verificationDB.queryRow<{ signature: string }>`
+      SELECT signature FROM certificates WHERE certificate_id = ${req.attestation.certificateId}
+    `;
+    const device = await getDeviceById(req.attestation.device.id);
+    const currentStatus = device ? device.status as DeviceStatus : undefined;
+
+    if (req.attestation.keyId !== keyId) {
+      return { valid: false, reason: "Certificate was signed with an unknown key", issuedByThisService: !!stored, currentStatus };
+    }
+
+    let valid = false;
+    try {
+      valid = crypto.verify(
+        null,
+        Buffer.from(canonicalJson(req.attestation), "utf8"),
+        publicKey,
+        Buffer.from(req.signature, "base64url")
+      );
+    } catch {
+      valid = false;
+    }
+
+    return {
+      valid,
+      reason: valid ? undefined : "Signature does not match the certificate contents",
+      issuedByThisService: !!stored,
+      currentStatus,
+    };
+  }
+);
+
+export interface CertificatePublicKeyResponse {
+  algorithm: string;
+  keyId: string;
+  publicKeyPem: string;
+  publicKeyJwk: Record<string, string>;
+}
+
+// Publishes the key that certificate signatures can be checked against offline.
+export const getCertificatePublicKey = api<void, CertificatePublicKeyResponse>(
+  { expose: true, method: "GET", path: "/certificates/public-key" },
+  async () => {
+    const { publicKey, keyId } = getSigningKeys();
+    const jwk = publicKey.export({ format: "jwk" }) as Record<string, string>;
+
+    return {
+      algorithm: SIGNATURE_ALGORITHM,
+      keyId,
+      publicKeyPem: publicKey.export({ type: "spki", format: "pem" }).toString(),
+      publicKeyJwk: { ...jwk, kid: keyId, alg: "EdDSA", use: "sig" },
+    };
+  }
+);
+
+async function getStoredCertificate(
+  by: { verificationId: string } | { certificateId: string }
+): Promise<SignedCertificate | null> {
+  const row = "verificationId" in by
+    ? await verificationDB.queryRow<{ attestation: CertificateAttestation; signature: string }>`
+        SELECT attestation, signature FROM certificates WHERE verification_id = ${by.verificationId}
+      `
+    : await verificationDB.queryRow<{ attestation: CertificateAttestation; signature: string }>`
+        SELECT attestation, signature FROM certificates WHERE certificate_id = ${by.certificateId}
+      `;
+
+  return row ? { attestation: row.attestation, algorithm: SIGNATURE_ALGORITHM, signature: row.signature } : null;
+}
@@ -0,0 +1,663 @@
+import { api, APIError } from "encore.dev/api";
+import { Subscription } from "encore.dev/pubsub";
+import { Transaction } from "encore.dev/storage/sqldb";
+import * as crypto from "crypto";
+import { gzipSync } from "zlib";
+import { getSigningKeys } from "./certificates";
+import { verificationDB } from "./db";
+import { deviceChangedTopic } from "./domain_events";
+import { getDeviceById } from "./devices";
+import { SchnorrProof, verifyKnowledgeProof } from "./schnorr";
+import { STANDARD_SCORING_MODEL } from "./scoring_models";
+import {
+  createDisclosure,
+  DecodedJwt,
+  decodeJwt,
+  Disclosure,
+  Ed25519PublicJwk,
+  ed25519PublicKeyFromJwk,
+  jwkThumbprint,
+  KEY_BINDING_JWT_TYPE,
+  ParsedSdJwt,
+  parseSdJwt,
+  resolveDisclosures,
+  SD_ALG,
+  SD_JWT_TYPE,
+  sdHash,
+  signJwt,
+  verifyJwtSignature,
+} from "./sd_jwt";
+import { computeTrustScore, loadTrustScoreInputs } from "./trust_scoring";
+import { validateArray, validateEnum, validateNumber, validateString, ValidationError } from "./validation";
+import { validateProofFreshness } from "./zkp_verification";
+
+export const CREDENTIAL_CLAIM_TYPES = ["ownership", "clean_status", "trust_threshold"] as const;
+export type CredentialClaimType = typeof CREDENTIAL_CLAIM_TYPES[number];
+
+const CREDENTIAL_ISSUER_URL = "https://stolen-verify.app";
+const STATUS_LIST_URL_PREFIX = `${CREDENTIAL_ISSUER_URL}/credentials/status-lists/`;
+const CREDENTIAL_TYPES: Record<CredentialClaimType, string> = {
+  ownership: "DeviceOwnershipCredential",
+  clean_status: "DeviceCleanStatusCredential",
+  trust_threshold: "DeviceTrustScoreCredential",
+};
+const DEFAULT_CREDENTIAL_VALIDITY_DAYS = 30;
+const MAX_CREDENTIAL_VALIDITY_DAYS = 365;
+// The W3C minimum, so a list doesn't give away how many credentials were issued from it.
+const STATUS_LIST_SIZE = 131072;
+// Key binding JWTs must have been signed within this many seconds, allowing for clock skew.
+const KEY_BINDING_MAX_AGE_SECONDS = 5 * 60;
+const KEY_BINDING_CLOCK_SKEW_SECONDS = 60;
+
+interface CredentialOwnerRow {
+  id: number;
+  owner_alias: string;
+  transfer_date: Date;
+  owner_commitment: string | null;
+}
+
+export interface IssueCredentialRequest {
+  deviceId: number;
+  claimTypes: CredentialClaimType[];
+  // Required for trust_threshold; the credential states the score is at least this.
+  trustThreshold?: number;
+  // Ed25519 public JWK. Presentations must carry a key binding JWT signed with this key.
+  holderPublicKey: Ed25519PublicJwk;
+  // Proof of knowledge of the owner key for the claim "credential:<holder key thumbprint>", so an
+  // intercepted proof can't be used to bind the credential to someone else's key.
+  proof: SchnorrProof;
+  // Defaults to 30 days.
+  validForDays?: number;
+}
+
+export interface CredentialDisclosure {
+  claim: string;
+  disclosure: string;
+}
+
+export interface IssueCredentialResponse {
+  credentialId: string;
+  // SD-JWT with every disclosure. Holders drop the disclosures they don't want to reveal.
+  sdJwt: string;
+  disclosures: CredentialDisclosure[];
+  expiresAt: Date;
+}
+
+// Issues a selective-disclosure credential to the device's current owner. Every claim, including
+// the device ID, is a disclosure the holder may withhold, so presentations to different verifiers
+// can't be linked through a shared identifier unless the holder chooses to reveal one.
+export const issueCredential = api<IssueCredentialRequest, IssueCredentialResponse>(
+  { expose: true, method: "POST", path: "/credentials" },
+  async (req) => {
+    const { deviceId, claimTypes, trustThreshold, proof } = req;
+    const validForDays = req.validForDays ?? DEFAULT_CREDENTIAL_VALIDITY_DAYS;
+
+    try {
+      validateArray(claimTypes, "Claim types", 1, CREDENTIAL_CLAIM_TYPES.length);
+      for (const claimType of claimTypes) {
+        validateEnum(claimType, "Claim type", CREDENTIAL_CLAIM_TYPES);
+      }
+      if (claimTypes.includes("trust_threshold")) {
+        if (trustThreshold === undefined) {
+          throw new ValidationError("Trust threshold is required for trust_threshold credentials");
+        }
+        validateNumber(trustThreshold, "Trust threshold", 0, 100);
+      }
+      validateNumber(validForDays, "Valid for days", 1, MAX_CREDENTIAL_VALIDITY_DAYS);
+      validateProofFreshness(proof);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    let holderJwk: Ed25519PublicJwk;
+    try {
+      ed25519PublicKeyFromJwk(req.holderPublicKey);
+      holderJwk = { kty: req.holderPublicKey.kty, crv: req.holderPublicKey.crv, x: req.holderPublicKey.x };
+    } catch (error) {
+      throw APIError.invalidArgument(error instanceof Error ? error.message : String(error));
+    }
+    const holderThumbprint = jwkThumbprint(holderJwk);
+
+    const owner = await verificationDB.queryRow<CredentialOwnerRow>`
+      SELECT id, owner_alias, transfer_date, owner_commitment
+      FROM ownership_history
+      WHERE device_id = ${deviceId} AND is_current_owner = true
+    `;
+    if (!owner?.owner_commitment) {
+      throw APIError.failedPrecondition("No owner commitment is bound to this device");
+    }
+    if (!verifyKnowledgeProof(owner.owner_commitment, { deviceId, claimType: `credential:${holderThumbprint}` }, proof)) {
+      throw APIError.permissionDenied("Proof does not verify against the device's owner commitment");
+    }
+
+    const device = await getDeviceById(deviceId);
+    if (!device) {
+      throw APIError.notFound("Device not found");
+    }
+    if (claimTypes.includes("clean_status") && device.status !== "clean") {
+      throw APIError.failedPrecondition(`Device status is ${device.status}`);
+    }
+    if (trustThreshold !== undefined && claimTypes.includes("trust_threshold")
+      && (await currentTrustScore(deviceId)) < trustThreshold) {
+      throw APIError.failedPrecondition("Trust score is below the requested threshold");
+    }
+
+    const disclosures: Disclosure[] = [
+      createDisclosure("deviceId", deviceId),
+      createDisclosure("brand", device.brand),
+      createDisclosure("model", device.model),
+    ];
+    if (device.serialNumber) {
+      disclosures.push(createDisclosure("serialNumber", device.serialNumber));
+    }
+    if (device.imei) {
+      disclosures.push(createDisclosure("imei", device.imei));
+    }
+    if (claimTypes.includes("ownership")) {
+      const previous = await verificationDB.queryRow<{ count: number }>`
+        SELECT COUNT(*)::int AS count FROM ownership_history WHERE device_id = ${deviceId} AND id <> ${owner.id}
+      `;
+      disclosures.push(
+        createDisclosure("currentOwner", true),
+        createDisclosure("ownerAlias", owner.owner_alias),
+        createDisclosure("ownedSince", owner.transfer_date.toISOString()),
+        createDisclosure("previousOwnerCount", previous?.count ?? 0)
+      );
+    }
+    if (claimTypes.includes("clean_status")) {
+      disclosures.push(createDisclosure("deviceStatus", "clean"));
+    }
+    if (claimTypes.includes("trust_threshold")) {
+      disclosures.push(createDisclosure("trustScoreAtLeast", trustThreshold));
+    }
+
+    const { privateKey, keyId } = getSigningKeys();
+    const credentialId = crypto.randomUUID();
+    const issuedAt = new Date(Math.floor(Date.now() / 1000) * 1000);
+    const expiresAt = new Date(issuedAt.getTime() + validForDays * 24 * 60 * 60 * 1000);
+
+    const tx = await verificationDB.begin();
+    try {
+      const status = await allocateStatusListIndex(tx);
+      const statusListUrl = `${STATUS_LIST_URL_PREFIX}${status.listId}`;
+
+      const payload = {
+        "@context": ["https://www.w3.org/ns/credentials/v2"],
+        id: `urn:uuid:${credentialId}`,
+        type: ["VerifiableCredential", ...CREDENTIAL_CLAIM_TYPES.filter(t => claimTypes.includes(t)).map(t => CREDENTIAL_TYPES[t])],
+        issuer: CREDENTIAL_ISSUER_URL,
+        validFrom: issuedAt.toISOString(),
+        validUntil: expiresAt.toISOString(),
+        // Sorted so the digests don't reveal the order claims were added in
+        credentialSubject: { _sd: disclosures.map(d => d.digest).sort() },
+        credentialStatus: {
+          id: `${statusListUrl}#${status.index}`,
+          type: "BitstringStatusListEntry",
+          statusPurpose: "revocation",
+          statusListIndex: String(status.index),
+          statusListCredential: statusListUrl,
+        },
+        cnf: { jwk: holderJwk },
+        iss: CREDENTIAL_ISSUER_URL,
+        iat: issuedAt.getTime() / 1000,
+        exp: expiresAt.getTime() / 1000,
+        _sd_alg: SD_ALG,
+      };
+      const issuerJwt = signJwt({ alg: "EdDSA", typ: SD_JWT_TYPE, kid: keyId }, payload, privateKey);
+
+      await tx.exec`
+        INSERT INTO verifiable_credentials (
+          credential_id, device_id, ownership_record_id, claim_types, trust_threshold,
+          holder_key_thumbprint, status_list_id, status_list_index, key_id, issued_at, expires_at
+        )
+        VALUES (
+          ${credentialId}, ${deviceId}, ${owner.id}, ${claimTypes}, ${trustThreshold ?? null},
+          ${holderThumbprint}, ${status.listId}, ${status.index}, ${keyId}, ${issuedAt}, ${expiresAt}
+        )
+      `;
+
+      await tx.exec`
+        INSERT INTO device_events (device_id, event_type, event_description, verified)
+        VALUES (${deviceId}, 'credential_issued', ${`Credential issued for ${claimTypes.join(", ")}`}, false)
+      `;
+
+      await tx.commit();
+
+      return {
+        credentialId,
+        sdJwt: [issuerJwt, ...disclosures.map(d => d.encoded), ""].join("~"),
+        disclosures: disclosures.map(d => ({ claim: d.name, disclosure: d.encoded })),
+        expiresAt,
+      };
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+  }
+);
+
+export interface VerifyCredentialRequest {
+  // SD-JWT with the disclosures the holder chose and a key binding JWT.
+  presentation: string;
+  // The key binding JWT must be for this audience and nonce, so a presentation made to one
+  // verifier can't be replayed to another.
+  audience: string;
+  nonce: string;
+}
+
+// Claims the holder chose to disclose.
+export interface DisclosedCredentialClaims {
+  deviceId?: number;
+  brand?: string;
+  model?: string;
+  serialNumber?: string;
+  imei?: string;
+  currentOwner?: boolean;
+  ownerAlias?: string;
+  ownedSince?: string;
+  previousOwnerCount?: number;
+  deviceStatus?: string;
+  trustScoreAtLeast?: number;
+}
+
+export interface VerifyCredentialResponse {
+  valid: boolean;
+  reason?: string;
+  credentialId?: string;
+  types: string[];
+  issuedAt?: Date;
+  expiresAt?: Date;
+  revoked: boolean;
+  claims: DisclosedCredentialClaims;
+}
+
+// Checks a credential presentation: the issuer signature, the disclosures, expiry, revocation
+// through the status list, and the holder's key binding. Ownership and clean-status claims are
+// also checked against the device as it is now, in case revocation has not caught up yet.
+export const verifyCredential = api<VerifyCredentialRequest, VerifyCredentialResponse>(
+  { expose: true, method: "POST", path: "/credentials/verify" },
+  async (req) => {
+    try {
+      validateString(req.audience, "Audience", 1, 200);
+      validateString(req.nonce, "Nonce", 8, 200);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    const result: VerifyCredentialResponse = { valid: false, types: [], revoked: false, claims: {} };
+    const invalid = (reason: string) => ({ ...result, reason });
+
+    let parsed: ParsedSdJwt;
+    let issuer: DecodedJwt;
+    try {
+      parsed = parseSdJwt(req.presentation);
+      issuer = decodeJwt(parsed.issuerJwt);
+    } catch {
+      return invalid("Presentation is not a valid SD-JWT");
+    }
+
+    const { publicKey, keyId } = getSigningKeys();
+    if (issuer.header.typ !== SD_JWT_TYPE) {
+      return invalid(`Credential type must be ${SD_JWT_TYPE}`);
+    }
+    if (issuer.header.kid !== keyId) {
+      return invalid("Credential was signed with an unknown key");
+    }
+    if (!verifyJwtSignature(issuer, publicKey)) {
+      return invalid("Signature does not match the credential contents");
+    }
+
+    const payload = issuer.payload as {
+      id?: string;
+      type?: string[];
+      iss?: string;
+      iat?: number;
+      nbf?: number;
+      exp?: number;
+      _sd_alg?: string;
+      credentialSubject?: Record<string, unknown>;
+      credentialStatus?: { statusListCredential?: string; statusListIndex?: string };
+      cnf?: { jwk?: Ed25519PublicJwk };
+    };
+    if (payload.iss !== CREDENTIAL_ISSUER_URL || payload._sd_alg !== SD_ALG || !payload.credentialSubject
+      || typeof payload.exp !== "number" || typeof payload.iat !== "number") {
+      return invalid("Credential is missing required claims");
+    }
+
+    result.credentialId = payload.id?.replace(/^urn:uuid:/, "");
+    result.types = Array.isArray(payload.type) ? payload.type : [];
+    result.issuedAt = new Date(payload.iat * 1000);
+    result.expiresAt = new Date(payload.exp * 1000);
+
+    try {
+      result.claims = toDisclosedClaims(resolveDisclosures(payload.credentialSubject, parsed.disclosures));
+    } catch (error) {
+      return invalid(error instanceof Error ? error.message : String(error));
+    }
+
+    const now = Date.now();
+    if (now >= result.expiresAt.getTime()) {
+      return invalid(`Credential expired at ${result.expiresAt.toISOString()}`);
+    }
+    if (typeof payload.nbf === "number" && now < payload.nbf * 1000) {
+      return invalid("Credential is not valid yet");
+    }
+
+    const statusUrl = payload.credentialStatus?.statusListCredential ?? "";
+    const listId = Number(statusUrl.slice(STATUS_LIST_URL_PREFIX.length));
+    const index = Number(payload.credentialStatus?.statusListIndex);
+    if (!statusUrl.startsWith(STATUS_LIST_URL_PREFIX) || !Number.isInteger(listId) || !Number.isInteger(index)) {
+      return invalid("Credential has no status list entry from this issuer");
+    }
+    const status = await verificationDB.queryRow<{
+      revoked_at: Date | null;
+      revocation_reason: string | null;
+      claim_types: CredentialClaimType[];
+      is_current_owner: boolean | null;
+      device_status: string | null;
+    }>`
+      SELECT vc.revoked_at, vc.revocation_reason, vc.claim_types, oh.is_current_owner, d.status AS device_status
+      FROM verifiable_credentials vc
+      LEFT JOIN ownership_history oh ON oh.id = vc.ownership_record_id
+      LEFT JOIN devices d ON d.id = vc.device_id
+      WHERE vc.status_list_id = ${listId} AND vc.status_list_index = ${index}
+    `;
+    if (!status) {
+      return invalid("Credential was not issued by this service");
+    }
+    if (status.revoked_at) {
+      result.revoked = true;
+      return invalid(`Credential was revoked${status.revocation_reason ? `: ${status.revocation_reason}` : ""}`);
+    }
+    const staleReason = staleClaimReason(status.claim_types, status.is_current_owner, status.device_status);
+    if (staleReason) {
+      return invalid(staleReason);
+    }
+
+    const keyBindingReason = checkKeyBinding(parsed, payload.cnf?.jwk, req.audience, req.nonce);
+    if (keyBindingReason) {
+      return invalid(keyBindingReason);
+    }
+
+    return { ...result, valid: true };
+  }
+);
+
+export interface RevokeCredentialRequest {
+  credentialId: string;
+  // Proof of knowledge of the owner key the credential was issued under, for the claim
+  // "revoke-credential:<credentialId>".
+  proof: SchnorrProof;
+  reason?: string;
+}
+
+export interface RevokeCredentialResponse {
+  credentialId: string;
+  revokedAt: Date;
+}
+
+// Revokes a credential. Only the owner it was issued to can revoke it, including after the
+// device has been transferred.
+export const revokeCredential = api<RevokeCredentialRequest, RevokeCredentialResponse>(
+  { expose: true, method: "POST", path: "/credentials/revoke" },
+  async (req) => {
+    const { credentialId, proof, reason } = req;
+
+    try {
+      validateString(credentialId, "Credential ID", 1, 64);
+      if (reason !== undefined) {
+        validateString(reason, "Reason", 1, 500);
+      }
+      validateProofFreshness(proof);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    const credential = await verificationDB.queryRow<{
+      id: number;
+      device_id: number;
+      owner_commitment: string | null;
+    }>`
+      SELECT vc.id, vc.device_id, oh.owner_commitment
+      FROM verifiable_credentials vc
+      LEFT JOIN ownership_history oh ON oh.id = vc.ownership_record_id
+      WHERE vc.credential_id = ${credentialId}
+    `;
+    if (!credential) {
+      throw APIError.notFound("Credential not found");
+    }
+
+    const statement = { deviceId: credential.device_id, claimType: `revoke-credential:${credentialId}` };
+    if (!credential.owner_commitment || !verifyKnowledgeProof(credential.owner_commitment, statement, proof)) {
+      throw APIError.permissionDenied("Revocation proof does not verify against the credential owner's commitment");
+    }
+
+    const revoked = await verificationDB.queryRow<{ revoked_at: Date }>`
+      UPDATE verifiable_credentials
+      SET revoked_at = CURRENT_TIMESTAMP, revocation_reason = ${reason ?? "Revoked by the owner"}
+      WHERE id = ${credential.id} AND revoked_at IS NULL
+      RETURNING revoked_at
+    `;
+    if (!revoked) {
+      throw APIError.failedPrecondition("Credential has already been revoked");
+    }
+
+    return { credentialId, revokedAt: revoked.revoked_at };
+  }
+);
+
+export interface GetStatusListRequest {
+  listId: number;
+}
+
+export interface StatusListCredentialResponse {
+  // BitstringStatusListCredential signed as a JWT with the certificate key.
+  credential: string;
+}
+
+// Publishes a revocation status list. Bit i is set when the credential at index i is revoked.
+export const getStatusList = api<GetStatusListRequest, StatusListCredentialResponse>(
+  { expose: true, method: "GET", path: "/credentials/status-lists/:listId" },
+  async (req) => {
+    const list = await verificationDB.queryRow<{ id: number; purpose: string; size: number }>`
+      SELECT id, purpose, size FROM credential_status_lists WHERE id = ${req.listId}
+    `;
+    if (!list) {
+      throw APIError.notFound("Status list not found");
+    }
+
+    const bits = Buffer.alloc(list.size / 8);
+    const revoked = await verificationDB.queryAll<{ status_list_index: number }>`
+      SELECT status_list_index
+      FROM verifiable_credentials
+      WHERE status_list_id = ${list.id} AND revoked_at IS NOT NULL
+    `;
+    // Index 0 is the most significant bit of the first byte
+    for (const { status_list_index: index } of revoked) {
+      bits[index >> 3] |= 0x80 >> (index & 7);
+    }
+
+    const { privateKey, keyId } = getSigningKeys();
+    const listUrl = `${STATUS_LIST_URL_PREFIX}${list.id}`;
+    const issuedAt = Math.floor(Date.now() / 1000);
+
+    return {
+      credential: signJwt({ alg: "EdDSA", typ: "vc+jwt", kid: keyId }, {
+        "@context": ["https://www.w3.org/ns/credentials/v2"],
+        id: listUrl,
+        type: ["VerifiableCredential", "BitstringStatusListCredential"],
+        issuer: CREDENTIAL_ISSUER_URL,
+        validFrom: new Date(issuedAt * 1000).toISOString(),
+        credentialSubject: {
+          id: `${listUrl}#list`,
+          type: "BitstringStatusList",
+          statusPurpose: list.purpose,
+          // Multibase base64url ("u" prefix) of the GZIP-compressed bitstring
+          encodedList: `u${gzipSync(bits).toString("base64url")}`,
+        },
+        iss: CREDENTIAL_ISSUER_URL,
+        iat: issuedAt,
+      }, privateKey),
+    };
+  }
+);
+
+// Revokes credentials whose claims stopped holding after a transfer, flag or score change.
+const _ = new Subscription(deviceChangedTopic, "revoke-stale-credentials", {
+  handler: async (event) => {
+    await revokeStaleCredentials(event.deviceId);
+  },
+});
+
+async function revokeStaleCredentials(deviceId: number): Promise<void> {
+  const credentials = await verificationDB.queryAll<{
+    id: number;
+    claim_types: CredentialClaimType[];
+    trust_threshold: number | null;
+    is_current_owner: boolean | null;
+  }>`
+    SELECT vc.id, vc.claim_types, vc.trust_threshold, oh.is_current_owner
+    FROM verifiable_credentials vc
+    LEFT JOIN ownership_history oh ON oh.id = vc.ownership_record_id
+    WHERE vc.device_id = ${deviceId} AND vc.revoked_at IS NULL AND vc.expires_at > CURRENT_TIMESTAMP
+  `;
+  if (credentials.length === 0) {
+    return;
+  }
+
+  const device = await getDeviceById(deviceId);
+  const needsScore = credentials.some(c => c.claim_types.includes("trust_threshold"));
+  const score = device && needsScore ? await currentTrustScore(deviceId) : null;
+
+  for (const credential of credentials) {
+    let reason = staleClaimReason(credential.claim_types, credential.is_current_owner, device?.status ?? null);
+    if (!reason && credential.claim_types.includes("trust_threshold") && score !== null
+      && credential.trust_threshold !== null && score < credential.trust_threshold) {
+      reason = "Trust score fell below the credential threshold";
+    }
+
+    if (reason) {
+      await verificationDB.exec`
+        UPDATE verifiable_credentials
+        SET revoked_at = CURRENT_TIMESTAMP, revocation_reason = ${reason}
+        WHERE id = ${credential.id} AND revoked_at IS NULL
+      `;
+    }
+  }
+}
+
+// Why a credential no longer holds after a transfer or status change, if it doesn't. Every
+// credential is issued to the current owner, so a transfer invalidates all of them.
+function staleClaimReason(
+  claimTypes: CredentialClaimType[],
+  isCurrentOwner: boolean | null,
+  deviceStatus: string | null
+): string | undefined {
+  if (!isCurrentOwner) {
+    return "Device ownership was transferred";
+  }
+  if (claimTypes.includes("clean_status") && deviceStatus !== "clean") {
+    return `Device status changed to ${deviceStatus ?? "unknown"}`;
+  }
+  return undefined;
+}
+
+// Scored live under the standard model rather than read from trust_scores, which is updated by
+// a separate subscriber and may not reflect the change yet.
+async function currentTrustScore(deviceId: number): Promise<number> {
+  return computeTrustScore(await loadTrustScoreInputs(deviceId), STANDARD_SCORING_MODEL.config).score;
+}
+
+async function allocateStatusListIndex(tx: Transaction): Promise<{ listId: number; index: number }> {
+  const list = await tx.queryRow<{ id: number; next_index: number }>`
+    SELECT id, next_index
+    FROM credential_status_lists
+    WHERE purpose = 'revocation' AND next_index < size
+    ORDER BY id
+    LIMIT 1
+    FOR UPDATE
+  `;
+  if (list) {
+    await tx.exec`UPDATE credential_status_lists SET next_index = next_index + 1 WHERE id = ${list.id}`;
+    return { listId: list.id, index: list.next_index };
+  }
+
+  const created = await tx.queryRow<{ id: number }>`
+    INSERT INTO credential_status_lists (purpose, size, next_index)
+    VALUES ('revocation', ${STATUS_LIST_SIZE}, 1)
+    RETURNING id
+  `;
+  return { listId: created!.id, index: 0 };
+}
+
+// Checks the holder's key binding JWT against the key the credential was issued to.
+function checkKeyBinding(
+  parsed: ParsedSdJwt,
+  holderJwk: Ed25519PublicJwk | undefined,
+  audience: string,
+  nonce: string
+): string | undefined {
+  if (!holderJwk) {
+    return "Credential is not bound to a holder key";
+  }
+  if (!parsed.keyBindingJwt) {
+    return "Presentation must include a key binding JWT from the holder";
+  }
+
+  let keyBinding;
+  let holderKey;
+  try {
+    keyBinding = decodeJwt(parsed.keyBindingJwt);
+    holderKey = ed25519PublicKeyFromJwk(holderJwk);
+  } catch {
+    return "Key binding JWT is malformed";
+  }
+
+  if (keyBinding.header.typ !== KEY_BINDING_JWT_TYPE || !verifyJwtSignature(keyBinding, holderKey)) {
+    return "Key binding JWT was not signed by the credential holder";
+  }
+
+  const { iat, aud, nonce: boundNonce, sd_hash: boundHash } = keyBinding.payload;
+  if (boundHash !== sdHash(parsed)) {
+    return "Key binding JWT does not match the presented disclosures";
+  }
+  const age = Date.now() / 1000 - (typeof iat === "number" ? iat : 0);
+  if (age > KEY_BINDING_MAX_AGE_SECONDS || age < -KEY_BINDING_CLOCK_SKEW_SECONDS) {
+    return "Key binding JWT has expired or is dated in the future";
+  }
+  if (aud !== audience) {
+    return "Key binding JWT was made for a different audience";
+  }
+  if (boundNonce !== nonce) {
+    return "Key binding JWT nonce does not match";
+  }
+  return undefined;
+}
+
+function toDisclosedClaims(claims: Record<string, unknown>): DisclosedCredentialClaims {
+  const text = (value: unknown) => (typeof value === "string" ? value : undefined);
+  const number = (value: unknown) => (typeof value === "number" ? value : undefined);
+
+  return {
+    deviceId: number(claims.deviceId),
+    brand: text(claims.brand),
+    model: text(claims.model),
+    serialNumber: text(claims.serialNumber),
+    imei: text(claims.imei),
+    currentOwner: typeof claims.currentOwner === "boolean" ? claims.currentOwner : undefined,
+    ownerAlias: text(claims.ownerAlias),
+    ownedSince: text(claims.ownedSince),
+    previousOwnerCount: number(claims.previousOwnerCount),
+    deviceStatus: text(claims.deviceStatus),
+    trustScoreAtLeast: number(claims.trustScoreAtLeast),
+  };
+}
@@ -1,5 +1,6 @@
-import { api } from "encore.dev/api";
+import { api, APIError } from "encore.dev/api";
 import { verificationDB } from "./db";
+import { getDevicesByIds } from "./devices";
 
 interface CompareDevicesRequest {
   deviceIds: string[];
@@ -52,58 +53,55 @@ export const compareDevices = api(
       throw new Error("Maximum 5 devices can be compared at once");
     }
 
-    const devicesGen = await verificationDB.query`
-      SELECT 
-        d.id,
-        d.imei,
-        d.status,
-        d.manufacturer,
-        d.model,
-        d.trust_score,
-        d.verification_count,
-        d.report_count,
-        d.flagged_reason,
-        d.created_at,
-        d.updated_at,
-        COUNT(DISTINCT w.id) as watcher_count,
-        COUNT(DISTINCT lc.id) as ownership_history,
-        MAX(vl.created_at) as last_verified,
-        MAX(r.created_at) as last_reported
-      FROM devices d
-      LEFT JOIN device_watchers w ON d.id = w.device_id
-      LEFT JOIN lifecycle_events lc ON d.id = lc.device_id AND lc.event_type = 'ownership_transfer'
-      LEFT JOIN verification_logs vl ON d.id = vl.device_id
-      LEFT JOIN reports r ON d.id = r.device_id
-      WHERE d.id = ANY(${req.deviceIds})
-      GROUP BY d.id, d.imei, d.status, d.manufacturer, d.model, d.trust_score, 
-               d.verification_count, d.report_count, d.flagged_reason, d.created_at, d.updated_at
-    `;
-
-    const devices = [];
-    for await (const row of devicesGen) {
-      devices.push(row);
+    const deviceIds = req.deviceIds.map(id => parseInt(id, 10));
+    if (deviceIds.some(id => Number.isNaN(id))) {
+      throw APIError.invalidArgument("Device IDs must be numeric");
     }
 
+    const devices = await getDevicesByIds(deviceIds);
+
     if (devices.length !== req.deviceIds.length) {
       throw new Error("One or more devices not found");
     }
 
-    const deviceData: DeviceComparisonData[] = devices.map(d => ({
-      deviceId: d.id,
-      imei: d.imei,
-      status: d.status,
-      manufacturer: d.manufacturer,
-      model: d.model,
-      trustScore: parseFloat(d.trust_score) || 0,
-      verificationCount: parseInt(d.verification_count) || 0,
-      reportCount: parseInt(d.report_count) || 0,
-      watcherCount: parseInt(d.watcher_count) || 0,
-      lastVerified: d.last_verified,
-      lastReported: d.last_reported,
-      flaggedReason: d.flagged_reason,
-      ownershipHistory: parseInt(d.ownership_history) || 0,
-      createdAt: d.created_at,
-    }));
+    const activity = await verificationDB.queryAll<{
+      device_id: number;
+      watcher_count: number;
+      ownership_history: number;
+      last_verified: Date | null;
+      last_reported: Date | null;
+    }>`
+      SELECT
+        d.id as device_id,
+        (SELECT COUNT(*) FROM device_watchers w WHERE w.device_id = d.id)::int as watcher_count,
+        (SELECT COUNT(*) FROM ownership_history oh WHERE oh.device_id = d.id)::int as ownership_history,
+        (SELECT MAX(vl.created_at) FROM verification_logs vl
+          WHERE vl.device_id = d.id AND vl.result_status = 'found') as last_verified,
+        (SELECT MAX(r.created_at) FROM reports r WHERE r.device_id = d.id) as last_reported
+      FROM devices d
+      WHERE d.id = ANY(${deviceIds})
+    `;
+    const activityByDevice = new Map(activity.map(a => [a.device_id, a]));
+
+    const deviceData: DeviceComparisonData[] = devices.map(d => {
+      const deviceActivity = activityByDevice.get(d.id);
+      return {
+        deviceId: d.id.toString(),
+        imei: d.imei || "",
+        status: d.status,
+        manufacturer: d.brand,
+        model: d.model,
+        trustScore: d.trustScore ?? 0,
+        verificationCount: d.verificationCount,
+        reportCount: d.reportCount,
+        watcherCount: deviceActivity?.watcher_count ?? 0,
+        lastVerified: deviceActivity?.last_verified ?? undefined,
+        lastReported: deviceActivity?.last_reported ?? undefined,
+        flaggedReason: d.flaggedReason,
+        ownershipHistory: deviceActivity?.ownership_history ?? 0,
+        createdAt: d.createdAt,
+      };
+    });
 
     const trustScores = deviceData.map(d => d.trustScore);
     const highestTrustScore = Math.max(...trustScores);
@@ -129,7 +127,7 @@ export const compareDevices = api(
     const recommendations: string[] = [];
     const differences: string[] = [];
 
-    const flaggedDevices = deviceData.filter(d => d.status === "flagged" || d.status === "reported");
+    const flaggedDevices = deviceData.filter(d => d.status === "flagged" || d.status === "stolen");
     if (flaggedDevices.length > 0) {
       recommendations.push(`${flaggedDevices.length} device(s) have been flagged or reported - exercise caution`);
       differences.push(`Status variations: ${flaggedDevices.length} flagged/reported vs ${deviceData.length - flaggedDevices.length} clean`);
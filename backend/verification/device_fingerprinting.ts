@@ -1,6 +1,20 @@
-import { api } from "encore.dev/api";
+import { api, APIError } from "encore.dev/api";
+import { CronJob } from "encore.dev/cron";
+import { getAuthData } from "~encore/auth";
+import { requireScope } from "./auth";
 import { verificationDB } from "./db";
+import { publishDeviceChanged } from "./domain_events";
 import { createHash } from "crypto";
+import { FINGERPRINT_MISMATCH_BELOW, recordFingerprintCheck } from "./anomaly_detection";
+import { LSH_VERSION, lshBuckets, SensorPatterns, sensorSimilarity } from "./fingerprint_similarity";
+import { validateNumber, ValidationError } from "./validation";
+
+// Fuzzy search re-scores at most this many LSH candidates, plus a few sharing a MAC address or
+// CPU/GPU ID, so lookups stay fast however many fingerprints are stored.
+const LSH_CANDIDATE_LIMIT = 200;
+const IDENTIFIER_CANDIDATE_LIMIT = 50;
+const INDEX_BATCH_SIZE = 500;
+const INDEX_MAX_BATCHES = 20;
 
 export interface DeviceFingerprintData {
   sensorPatterns?: {
@@ -12,6 +26,37 @@ export interface DeviceFingerprintData {
   macAddresses?: string[];
 }
 
+// Cut-offs used when matching fingerprints. Omitted fields use DEFAULT_MATCH_THRESHOLDS.
+export interface FingerprintMatchThresholds {
+  // Sensor similarity (0-1) for full and for partial sensor credit.
+  sensorMatch?: number;
+  sensorPartialMatch?: number;
+  // Lowest score (0-100) at which a fuzzy candidate is returned, and at which it counts as exact.
+  candidateMinScore?: number;
+  exactMinScore?: number;
+  // Lowest primary match score for a "verified" and for a "suspicious" result.
+  verifiedMinScore?: number;
+  suspiciousMinScore?: number;
+}
+
+export const DEFAULT_MATCH_THRESHOLDS: Required<FingerprintMatchThresholds> = {
+  sensorMatch: 0.8,
+  sensorPartialMatch: 0.6,
+  candidateMinScore: 30,
+  exactMinScore: 70,
+  verifiedMinScore: 80,
+  suspiciousMinScore: 50,
+};
+
+interface StoredFingerprintRow {
+  device_id: number;
+  serial_number: string;
+  device_name: string;
+  sensor_patterns: SensorPatterns | null;
+  cpu_gpu_id?: string;
+  mac_addresses: string[];
+}
+
 export interface CreateFingerprintRequest {
   deviceId: number;
   fingerprintData: DeviceFingerprintData;
@@ -24,8 +69,9 @@ export interface CreateFingerprintResponse {
 
 // Creates a device fingerprint for enhanced verification.
 export const createFingerprint = api<CreateFingerprintRequest, CreateFingerprintResponse>(
-  { expose: true, method: "POST", path: "/fingerprint/create" },
+  { expose: true, method: "POST", path: "/fingerprint/create", auth: true },
   async (req) => {
+    requireScope(getAuthData()!, "write");
     const { deviceId, fingerprintData } = req;
 
     // Check if device exists
@@ -34,7 +80,7 @@ export const createFingerprint = api<CreateFingerprintRequest, CreateFingerprint
     `;
 
     if (!device) {
-      throw new Error("Device not found");
+      throw APIError.notFound("Device not found");
     }
 
     // Generate fingerprint hash
@@ -62,6 +108,8 @@ export const createFingerprint = api<CreateFingerprintRequest, CreateFingerprint
             sensor_patterns = ${JSON.stringify(fingerprintData.sensorPatterns)},
             cpu_gpu_id = ${fingerprintData.cpuGpuId || null},
             mac_addresses = ${fingerprintData.macAddresses || []},
+            lsh_buckets = ${lshBuckets(fingerprintData.sensorPatterns)},
+            lsh_version = ${LSH_VERSION},
             created_at = CURRENT_TIMESTAMP
         WHERE device_id = ${deviceId}
       `;
@@ -69,11 +117,13 @@ export const createFingerprint = api<CreateFingerprintRequest, CreateFingerprint
       // Create new fingerprint
       await verificationDB.exec`
         INSERT INTO device_fingerprints (
-          device_id, fingerprint_hash, sensor_patterns, cpu_gpu_id, mac_addresses
+          device_id, fingerprint_hash, sensor_patterns, cpu_gpu_id, mac_addresses,
+          lsh_buckets, lsh_version
         ) VALUES (
           ${deviceId}, ${fingerprintHash}, 
           ${JSON.stringify(fingerprintData.sensorPatterns)},
-          ${fingerprintData.cpuGpuId || null}, ${fingerprintData.macAddresses || []}
+          ${fingerprintData.cpuGpuId || null}, ${fingerprintData.macAddresses || []},
+          ${lshBuckets(fingerprintData.sensorPatterns)}, ${LSH_VERSION}
         )
       `;
     }
@@ -84,6 +134,8 @@ export const createFingerprint = api<CreateFingerprintRequest, CreateFingerprint
       VALUES (${deviceId}, 'fingerprint_created', 'Device fingerprint generated', true)
     `;
 
+    await publishDeviceChanged(deviceId, "fingerprint");
+
     return {
       fingerprintHash,
       message: "Device fingerprint created successfully",
@@ -95,6 +147,7 @@ export interface VerifyFingerprintRequest {
   identifier: string;
   identifierType: "serial" | "imei" | "fingerprint";
   fingerprintData?: DeviceFingerprintData;
+  thresholds?: FingerprintMatchThresholds;
 }
 
 export interface FingerprintMatch {
@@ -117,6 +170,7 @@ export const verifyFingerprint = api<VerifyFingerprintRequest, VerifyFingerprint
   { expose: true, method: "POST", path: "/fingerprint/verify" },
   async (req) => {
     const { identifier, identifierType, fingerprintData } = req;
+    const thresholds = resolveMatchThresholds(req.thresholds);
 
     let matches: FingerprintMatch[] = [];
 
@@ -180,7 +234,7 @@ export const verifyFingerprint = api<VerifyFingerprintRequest, VerifyFingerprint
         if (fingerprintData) {
           const storedFingerprint = await verificationDB.queryRow<{
             fingerprint_hash: string;
-            sensor_patterns: any;
+            sensor_patterns: SensorPatterns | null;
             cpu_gpu_id?: string;
             mac_addresses: string[];
           }>`
@@ -190,20 +244,25 @@ export const verifyFingerprint = api<VerifyFingerprintRequest, VerifyFingerprint
           `;
 
           if (storedFingerprint) {
+            const stored: DeviceFingerprintData = {
+              sensorPatterns: storedFingerprint.sensor_patterns ?? undefined,
+              cpuGpuId: storedFingerprint.cpu_gpu_id,
+              macAddresses: storedFingerprint.mac_addresses,
+            };
             // Calculate fingerprint similarity
-            const similarity = calculateFingerprintSimilarity(
-              fingerprintData,
-              {
-                sensorPatterns: storedFingerprint.sensor_patterns,
-                cpuGpuId: storedFingerprint.cpu_gpu_id,
-                macAddresses: storedFingerprint.mac_addresses,
-              }
-            );
+            const similarity = calculateFingerprintSimilarity(fingerprintData, stored, thresholds);
 
             matchScore += similarity.score;
             matchedComponents.push(...similarity.matchedComponents);
 
-            if (similarity.score >= 40) {
+            // Anomaly detection compares checks across partners, so the recorded score always uses
+            // the default thresholds rather than ones the caller picked.
+            const recordedScore = req.thresholds
+              ? calculateFingerprintSimilarity(fingerprintData, stored, DEFAULT_MATCH_THRESHOLDS).score
+              : similarity.score;
+            await recordFingerprintCheck(device.id, recordedScore);
+
+            if (similarity.score >= FINGERPRINT_MISMATCH_BELOW) {
               matchType = "exact";
             }
           }
@@ -221,37 +280,26 @@ export const verifyFingerprint = api<VerifyFingerprintRequest, VerifyFingerprint
 
       // Also search for similar fingerprints if fingerprint data provided
       if (fingerprintData && matches.length === 0) {
-        const allFingerprints = await verificationDB.queryAll<{
-          device_id: number;
-          serial_number: string;
-          device_name: string;
-          sensor_patterns: any;
-          cpu_gpu_id?: string;
-          mac_addresses: string[];
-        }>`
-          SELECT df.device_id, d.serial_number, d.device_name,
-                 df.sensor_patterns, df.cpu_gpu_id, df.mac_addresses
-          FROM device_fingerprints df
-          JOIN devices d ON df.device_id = d.id
-        `;
+        const candidates = await findFingerprintCandidates(fingerprintData);
 
-        for (const storedFingerprint of allFingerprints) {
+        for (const storedFingerprint of candidates) {
           const similarity = calculateFingerprintSimilarity(
             fingerprintData,
             {
-              sensorPatterns: storedFingerprint.sensor_patterns,
+              sensorPatterns: storedFingerprint.sensor_patterns ?? undefined,
               cpuGpuId: storedFingerprint.cpu_gpu_id,
               macAddresses: storedFingerprint.mac_addresses,
-            }
+            },
+            thresholds
           );
 
-          if (similarity.score >= 30) { // Threshold for partial match
+          if (similarity.score >= thresholds.candidateMinScore) {
             matches.push({
               deviceId: storedFingerprint.device_id,
               serialNumber: storedFingerprint.serial_number,
               deviceName: storedFingerprint.device_name,
               matchScore: similarity.score,
-              matchType: similarity.score >= 70 ? "exact" : "partial",
+              matchType: similarity.score >= thresholds.exactMinScore ? "exact" : "partial",
               matchedComponents: similarity.matchedComponents,
             });
           }
@@ -268,9 +316,9 @@ export const verifyFingerprint = api<VerifyFingerprintRequest, VerifyFingerprint
 
     if (!primaryMatch) {
       verificationResult = "not_found";
-    } else if (primaryMatch.matchScore >= 80) {
+    } else if (primaryMatch.matchScore >= thresholds.verifiedMinScore) {
       verificationResult = "verified";
-    } else if (primaryMatch.matchScore >= 50) {
+    } else if (primaryMatch.matchScore >= thresholds.suspiciousMinScore) {
       verificationResult = "suspicious";
     } else {
       verificationResult = "not_found";
@@ -284,23 +332,123 @@ export const verifyFingerprint = api<VerifyFingerprintRequest, VerifyFingerprint
   }
 );
 
+export interface IndexFingerprintsResponse {
+  indexed: number;
+}
+
+// Builds LSH buckets for fingerprints stored before similarity indexing or under an older
+// LSH version. Until then they can only be found by MAC address or CPU/GPU ID.
+export const indexFingerprints = api<void, IndexFingerprintsResponse>(
+  { expose: false, method: "POST", path: "/internal/fingerprints/index" },
+  async () => {
+    let indexed = 0;
+
+    for (let batch = 0; batch < INDEX_MAX_BATCHES; batch++) {
+      const rows = await verificationDB.queryAll<{ id: number; sensor_patterns: SensorPatterns | null }>`
+        SELECT id, sensor_patterns
+        FROM device_fingerprints
+        WHERE lsh_version IS NULL OR lsh_version < ${LSH_VERSION}
+        ORDER BY id
+        LIMIT ${INDEX_BATCH_SIZE}
+      `;
+      if (rows.length === 0) {
+        break;
+      }
+
+      for (const row of rows) {
+        // createFingerprint may have re-indexed the row since it was read
+        await verificationDB.exec`
+          UPDATE device_fingerprints
+          SET lsh_buckets = ${lshBuckets(row.sensor_patterns)}, lsh_version = ${LSH_VERSION}
+          WHERE id = ${row.id} AND (lsh_version IS NULL OR lsh_version < ${LSH_VERSION})
+        `;
+      }
+      indexed += rows.length;
+    }
+
+    return { indexed };
+  }
+);
+
+const _ = new CronJob("index-fingerprints", {
+  title: "Index device fingerprints for similarity search",
+  every: "5m",
+  endpoint: indexFingerprints,
+});
+
+function resolveMatchThresholds(overrides?: FingerprintMatchThresholds): Required<FingerprintMatchThresholds> {
+  const thresholds = { ...DEFAULT_MATCH_THRESHOLDS, ...overrides };
+
+  try {
+    validateNumber(thresholds.sensorMatch, "Sensor match threshold", 0, 1);
+    validateNumber(thresholds.sensorPartialMatch, "Sensor partial match threshold", 0, thresholds.sensorMatch);
+    validateNumber(thresholds.exactMinScore, "Exact match score", 0, 100);
+    validateNumber(thresholds.candidateMinScore, "Candidate score", 0, thresholds.exactMinScore);
+    validateNumber(thresholds.verifiedMinScore, "Verified score", 0, 100);
+    validateNumber(thresholds.suspiciousMinScore, "Suspicious score", 0, thresholds.verifiedMinScore);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw APIError.invalidArgument(error.message);
+    }
+    throw error;
+  }
+
+  return thresholds;
+}
+
+// Stored fingerprints that could match: those sharing the most LSH buckets with the provided
+// sensor data, and those sharing a MAC address or CPU/GPU ID. All lookups go through indexes.
+async function findFingerprintCandidates(fingerprintData: DeviceFingerprintData): Promise<StoredFingerprintRow[]> {
+  const buckets = lshBuckets(fingerprintData.sensorPatterns);
+  const macAddresses = fingerprintData.macAddresses ?? [];
+
+  return verificationDB.queryAll<StoredFingerprintRow>`
+    WITH lsh_candidates AS (
+      SELECT df.id
+      FROM device_fingerprints df, unnest(df.lsh_buckets) AS bucket
+      WHERE df.lsh_buckets && ${buckets}::int[]
+        AND bucket = ANY(${buckets}::int[])
+      GROUP BY df.id
+      ORDER BY COUNT(*) DESC
+      LIMIT ${LSH_CANDIDATE_LIMIT}
+    ),
+    mac_candidates AS (
+      SELECT id FROM device_fingerprints
+      WHERE mac_addresses && ${macAddresses}::text[]
+      LIMIT ${IDENTIFIER_CANDIDATE_LIMIT}
+    ),
+    cpu_gpu_candidates AS (
+      SELECT id FROM device_fingerprints
+      WHERE cpu_gpu_id = ${fingerprintData.cpuGpuId ?? null}
+      LIMIT ${IDENTIFIER_CANDIDATE_LIMIT}
+    )
+    SELECT df.device_id, d.serial_number, d.device_name,
+           df.sensor_patterns, df.cpu_gpu_id, df.mac_addresses
+    FROM device_fingerprints df
+    JOIN devices d ON df.device_id = d.id
+    WHERE df.id IN (
+      SELECT id FROM lsh_candidates
+      UNION SELECT id FROM mac_candidates
+      UNION SELECT id FROM cpu_gpu_candidates
+    )
+  `;
+}
+
 function calculateFingerprintSimilarity(
   provided: DeviceFingerprintData,
-  stored: DeviceFingerprintData
+  stored: DeviceFingerprintData,
+  thresholds: Required<FingerprintMatchThresholds>
 ): { score: number; matchedComponents: string[] } {
   let score = 0;
   const matchedComponents: string[] = [];
 
   // Compare sensor patterns
   if (provided.sensorPatterns && stored.sensorPatterns) {
-    const sensorSimilarity = compareSensorPatterns(
-      provided.sensorPatterns,
-      stored.sensorPatterns
-    );
-    if (sensorSimilarity > 0.8) {
+    const similarity = sensorSimilarity(provided.sensorPatterns, stored.sensorPatterns);
+    if (similarity >= thresholds.sensorMatch) {
       score += 30;
       matchedComponents.push("sensor_patterns");
-    } else if (sensorSimilarity > 0.6) {
+    } else if (similarity >= thresholds.sensorPartialMatch) {
       score += 15;
       matchedComponents.push("sensor_patterns_partial");
     }
@@ -327,44 +475,3 @@ function calculateFingerprintSimilarity(
 
   return { score, matchedComponents };
 }
-
-function compareSensorPatterns(
-  provided: any,
-  stored: any
-): number {
-  // Simplified sensor pattern comparison
-  // In a real implementation, use more sophisticated signal processing
-  
-  let totalSimilarity = 0;
-  let sensorCount = 0;
-
-  const sensorTypes = ['accelerometer', 'gyroscope', 'magnetometer'];
-  
-  for (const sensorType of sensorTypes) {
-    if (provided[sensorType] && stored[sensorType]) {
-      const similarity = calculateArraySimilarity(
-        provided[sensorType],
-        stored[sensorType]
-      );
-      totalSimilarity += similarity;
-      sensorCount++;
-    }
-  }
-
-  return sensorCount > 0 ? totalSimilarity / sensorCount : 0;
-}
-
-function calculateArraySimilarity(arr1: number[], arr2: number[]): number {
-  if (!arr1 || !arr2 || arr1.length !== arr2.length) {
-    return 0;
-  }
-
-  let similarity = 0;
-  for (let i = 0; i < arr1.length; i++) {
-    const diff = Math.abs(arr1[i] - arr2[i]);
-    const maxVal = Math.max(Math.abs(arr1[i]), Math.abs(arr2[i]), 1);
-    similarity += 1 - (diff / maxVal);
-  }
-
-  return similarity / arr1.length;
-}
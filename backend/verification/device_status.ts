@@ -0,0 +1,202 @@
+import { api, APIError } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
+import { requireScope } from "./auth";
+import { verificationDB } from "./db";
+import { DeviceStore } from "./devices";
+import { publishDeviceChanged } from "./domain_events";
+import { canTransition, DeviceStatus, isEscalation, StatusActor, statusActorForRole, transitionExists } from "./status_transitions";
+import { validateDeviceStatus, validateString, ValidationError } from "./validation";
+
+export { canTransition, DEVICE_STATUSES, isDeviceStatus, isEscalation } from "./status_transitions";
+export type { DeviceStatus, StatusActor } from "./status_transitions";
+
+// Maps the authenticated partner, if any, to a status actor. Anonymous callers act as reporters.
+export function resolveStatusActor(): { actor: StatusActor; actorId?: string } {
+  const authData = getAuthData();
+  if (!authData) {
+    return { actor: "reporter" };
+  }
+  return { actor: statusActorForRole(authData.platformRole), actorId: authData.userID };
+}
+
+export interface StatusTransition {
+  deviceId: number;
+  toStatus: DeviceStatus;
+  actor: StatusActor;
+  actorId?: string;
+  reason: string;
+  reportId?: number;
+  // Leave the status alone unless the new one is more severe, as reports and flags do.
+  escalateOnly?: boolean;
+  // The new status follows from the device's remaining reports rather than the actor's choice, as
+  // after a recovery the caller is already authorised for, so any existing transition is allowed.
+  derived?: boolean;
+}
+
+export interface StatusTransitionResult {
+  fromStatus: DeviceStatus;
+  toStatus: DeviceStatus;
+  changed: boolean;
+}
+
+// Moves a device to a new status if the transition is allowed for the actor, recording it in
+// device_status_transitions. Pass a transaction to make the change atomic with related writes.
+export async function transitionDeviceStatus(
+  transition: StatusTransition,
+  store: DeviceStore = verificationDB
+): Promise<StatusTransitionResult> {
+  const device = await store.queryRow<{ status: string }>`
+    SELECT status FROM devices WHERE id = ${transition.deviceId} FOR UPDATE
+  `;
+
+  if (!device) {
+    throw APIError.notFound("Device not found");
+  }
+
+  const fromStatus = device.status as DeviceStatus;
+  const { toStatus, actor } = transition;
+
+  if (fromStatus === toStatus || (transition.escalateOnly && !isEscalation(fromStatus, toStatus))) {
+    return { fromStatus, toStatus: fromStatus, changed: false };
+  }
+
+  if (!transitionExists(fromStatus, toStatus)) {
+    throw APIError.failedPrecondition(`Device status cannot change from ${fromStatus} to ${toStatus}`);
+  }
+
+  if (!transition.derived && !canTransition(fromStatus, toStatus, actor)) {
+    throw APIError.permissionDenied(`A ${actor} cannot change device status from ${fromStatus} to ${toStatus}`);
+  }
+
+  await store.exec`
+    UPDATE devices
+    SET status = ${toStatus},
+        flagged_reason = ${toStatus === "clean" ? null : transition.reason},
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = ${transition.deviceId}
+  `;
+
+  await store.exec`
+    INSERT INTO device_status_transitions (
+      device_id, from_status, to_status, actor_type, actor_id, reason, report_id
+    ) VALUES (
+      ${transition.deviceId}, ${fromStatus}, ${toStatus}, ${actor},
+      ${transition.actorId ?? null}, ${transition.reason}, ${transition.reportId ?? null}
+    )
+  `;
+
+  return { fromStatus, toStatus, changed: true };
+}
+
+export interface ChangeDeviceStatusRequest {
+  deviceId: number;
+  status: DeviceStatus;
+  reason: string;
+  reportId?: number;
+}
+
+export interface ChangeDeviceStatusResponse {
+  deviceId: number;
+  previousStatus: DeviceStatus;
+  status: DeviceStatus;
+}
+
+// Changes a device's status on behalf of a moderator or law-enforcement partner, e.g. to resolve a case.
+export const changeDeviceStatus = api<ChangeDeviceStatusRequest, ChangeDeviceStatusResponse>(
+  { expose: true, method: "POST", path: "/device/:deviceId/status", auth: true },
+  async (req) => {
+    try {
+      validateDeviceStatus(req.status);
+      validateString(req.reason, "Reason", 5, 1000);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    requireScope(getAuthData()!, "write");
+    const { actor, actorId } = resolveStatusActor();
+
+    const tx = await verificationDB.begin();
+    let result: StatusTransitionResult;
+    try {
+      result = await transitionDeviceStatus({
+        deviceId: req.deviceId,
+        toStatus: req.status,
+        actor,
+        actorId,
+        reason: req.reason,
+        reportId: req.reportId,
+      }, tx);
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+
+    if (result.changed) {
+      await publishDeviceChanged(req.deviceId, "status_change");
+    }
+
+    return {
+      deviceId: req.deviceId,
+      previousStatus: result.fromStatus,
+      status: result.toStatus,
+    };
+  }
+);
+
+export interface GetStatusHistoryRequest {
+  deviceId: number;
+}
+
+export interface StatusHistoryEntry {
+  id: number;
+  fromStatus: DeviceStatus;
+  toStatus: DeviceStatus;
+  actorType: StatusActor;
+  actorId?: string;
+  reason: string;
+  reportId?: number;
+  createdAt: Date;
+}
+
+export interface GetStatusHistoryResponse {
+  transitions: StatusHistoryEntry[];
+}
+
+// Retrieves the audit trail of status changes for a device.
+export const getStatusHistory = api<GetStatusHistoryRequest, GetStatusHistoryResponse>(
+  { expose: true, method: "GET", path: "/device/:deviceId/status-history" },
+  async (req) => {
+    const rows = await verificationDB.queryAll<{
+      id: number;
+      from_status: DeviceStatus;
+      to_status: DeviceStatus;
+      actor_type: StatusActor;
+      actor_id: string | null;
+      reason: string;
+      report_id: number | null;
+      created_at: Date;
+    }>`
+      SELECT id, from_status, to_status, actor_type, actor_id, reason, report_id, created_at
+      FROM device_status_transitions
+      WHERE device_id = ${req.deviceId}
+      ORDER BY created_at DESC, id DESC
+    `;
+
+    return {
+      transitions: rows.map(row => ({
+        id: row.id,
+        fromStatus: row.from_status,
+        toStatus: row.to_status,
+        actorType: row.actor_type,
+        actorId: row.actor_id ?? undefined,
+        reason: row.reason,
+        reportId: row.report_id ?? undefined,
+        createdAt: row.created_at,
+      })),
+    };
+  }
+);
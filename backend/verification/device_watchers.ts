@@ -195,7 +195,7 @@ export const checkDeviceChanges = api<CheckDeviceChangesRequest, CheckDeviceChan
         calculated_at: Date;
       }>`
         SELECT score, calculated_at
-        FROM trust_scores
+        FROM trust_score_history
         WHERE device_id = ${watcher.device_id}
           AND calculated_at < CURRENT_TIMESTAMP - INTERVAL '24 hours'
         ORDER BY calculated_at DESC
@@ -262,6 +262,42 @@ export const checkDeviceChanges = api<CheckDeviceChangesRequest, CheckDeviceChan
   }
 );
 
+// Notifies every watcher of a device through their preferred channels and returns the number
+// of notifications sent.
+export async function notifyWatchers(deviceId: number, notificationType: string, message: string): Promise<number> {
+  const watchers = await verificationDB.queryAll<{
+    id: number;
+    user_email: string;
+    user_phone?: string;
+    notification_preferences: any;
+  }>`
+    SELECT id, user_email, user_phone, notification_preferences
+    FROM device_watchers
+    WHERE device_id = ${deviceId}
+  `;
+
+  let notificationsSent = 0;
+  for (const watcher of watchers) {
+    if (watcher.notification_preferences.email) {
+      await sendNotification(watcher.id, deviceId, notificationType, message, "email", watcher.user_email);
+      notificationsSent++;
+    }
+
+    if (watcher.notification_preferences.sms && watcher.user_phone) {
+      await sendNotification(watcher.id, deviceId, notificationType, message, "sms", watcher.user_phone);
+      notificationsSent++;
+    }
+
+    await verificationDB.exec`
+      UPDATE device_watchers
+      SET last_notified_at = CURRENT_TIMESTAMP
+      WHERE id = ${watcher.id}
+    `;
+  }
+
+  return notificationsSent;
+}
+
 function generateNotificationMessage(deviceName: string, change: DeviceChange): string {
   switch (change.changeType) {
     case "status_change":
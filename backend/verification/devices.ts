@@ -0,0 +1,150 @@
+import { SQLDatabase, Transaction } from "encore.dev/storage/sqldb";
+import { verificationDB } from "./db";
+
+// Either the database itself or an open transaction, so counters can be updated
+// atomically alongside the row that caused them to change.
+export type DeviceStore = SQLDatabase | Transaction;
+
+export type DeviceSource = "registry" | "marketplace" | "partner";
+
+// Canonical device model. Older code referred to manufacturer, trust_score and
+// lifecycle_events; these are brand, current_trust_score and product_lifecycle.
+export interface Device {
+  id: number;
+  serialNumber?: string;
+  imei?: string;
+  deviceName: string;
+  brand: string;
+  model: string;
+  imageUrl?: string;
+  status: string;
+  trustScore?: number;
+  riskCategory?: string;
+  verificationCount: number;
+  reportCount: number;
+  flaggedReason?: string;
+  source: DeviceSource;
+  lifecycleSummary: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface DeviceRow {
+  id: number;
+  serial_number: string | null;
+  imei: string | null;
+  device_name: string;
+  brand: string;
+  model: string;
+  image_url: string | null;
+  status: string;
+  current_trust_score: number | null;
+  risk_category: string | null;
+  verification_count: number;
+  report_count: number;
+  flagged_reason: string | null;
+  source: DeviceSource;
+  lifecycle_summary: Record<string, any> | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const DEVICE_COLUMNS = `
+  id, serial_number, imei, device_name, brand, model, image_url, status,
+  current_trust_score, risk_category, verification_count, report_count,
+  flagged_reason, source, lifecycle_summary, created_at, updated_at
+`;
+
+export async function getDeviceById(id: number, store: DeviceStore = verificationDB): Promise<Device | null> {
+  const row = await store.rawQueryRow<DeviceRow>(
+    `SELECT ${DEVICE_COLUMNS} FROM devices WHERE id = $1`,
+    id
+  );
+  return row ? toDevice(row) : null;
+}
+
+export async function getDeviceByIdentifier(
+  identifier: string,
+  identifierType: "serial" | "imei",
+  store: DeviceStore = verificationDB
+): Promise<Device | null> {
+  const column = identifierType === "serial" ? "serial_number" : "imei";
+  const row = await store.rawQueryRow<DeviceRow>(
+    `SELECT ${DEVICE_COLUMNS} FROM devices WHERE ${column} = $1`,
+    identifier
+  );
+  return row ? toDevice(row) : null;
+}
+
+export async function getDevicesByIds(ids: number[], store: DeviceStore = verificationDB): Promise<Device[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const placeholders = ids.map((_, i) => `$${i + 1}`).join(", ");
+  const rows = await store.rawQueryAll<DeviceRow>(
+    `SELECT ${DEVICE_COLUMNS} FROM devices WHERE id IN (${placeholders})`,
+    ...ids
+  );
+  return rows.map(toDevice);
+}
+
+// Registers a device seen for the first time outside the registry, known only by IMEI. Repeated
+// lookups of the same IMEI return the device registered by the first one.
+export async function createPendingDevice(
+  imei: string,
+  source: DeviceSource,
+  store: DeviceStore = verificationDB
+): Promise<Device> {
+  const row = await store.rawQueryRow<DeviceRow>(
+    `INSERT INTO devices (imei, device_name, brand, model, status, current_trust_score, source)
+     VALUES ($1, 'Unknown device', 'Unknown', 'Unknown', 'pending', 0, $2)
+     ON CONFLICT (imei) WHERE source <> 'registry' DO UPDATE SET imei = EXCLUDED.imei
+     RETURNING ${DEVICE_COLUMNS}`,
+    imei,
+    source
+  );
+  return toDevice(row!);
+}
+
+export async function incrementVerificationCount(deviceId: number, store: DeviceStore = verificationDB): Promise<void> {
+  await store.exec`
+    UPDATE devices SET verification_count = verification_count + 1 WHERE id = ${deviceId}
+  `;
+}
+
+export async function incrementReportCount(
+  deviceId: number,
+  flaggedReason?: string,
+  store: DeviceStore = verificationDB
+): Promise<void> {
+  await store.exec`
+    UPDATE devices
+    SET report_count = report_count + 1,
+        flagged_reason = COALESCE(${flaggedReason ?? null}, flagged_reason),
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = ${deviceId}
+  `;
+}
+
+function toDevice(row: DeviceRow): Device {
+  return {
+    id: row.id,
+    serialNumber: row.serial_number ?? undefined,
+    imei: row.imei ?? undefined,
+    deviceName: row.device_name,
+    brand: row.brand,
+    model: row.model,
+    imageUrl: row.image_url ?? undefined,
+    status: row.status,
+    trustScore: row.current_trust_score ?? undefined,
+    riskCategory: row.risk_category ?? undefined,
+    verificationCount: row.verification_count,
+    reportCount: row.report_count,
+    flaggedReason: row.flagged_reason ?? undefined,
+    source: row.source,
+    lifecycleSummary: row.lifecycle_summary ?? {},
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
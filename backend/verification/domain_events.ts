@@ -0,0 +1,49 @@
+import { Topic } from "encore.dev/pubsub";
+import type { DeviceStatus } from "./status_transitions";
+
+export type DeviceChangeType =
+  | "report"
+  | "flag"
+  | "ownership_transfer"
+  | "lifecycle_event"
+  | "repair"
+  | "report_resolved"
+  | "recovery"
+  | "status_change"
+  | "penalty_decay"
+  | "anomaly"
+  | "device_registered"
+  | "badge"
+  | "fingerprint";
+
+// Published after any write that changes an input to a device's trust score or the claims its
+// credentials make.
+export interface DeviceChangedEvent {
+  deviceId: number;
+  changeType: DeviceChangeType;
+  occurredAt: Date;
+}
+
+export const deviceChangedTopic = new Topic<DeviceChangedEvent>("device-changed", {
+  deliveryGuarantee: "at-least-once",
+});
+
+// Publishes a DeviceChangedEvent. Call it only after the write has been committed.
+export async function publishDeviceChanged(deviceId: number, changeType: DeviceChangeType): Promise<void> {
+  await deviceChangedTopic.publish({ deviceId, changeType, occurredAt: new Date() });
+}
+
+// Published after a recovery is committed so watchers and partners are told outside the request.
+export interface DeviceRecoveredEvent {
+  recoveryId: number;
+  deviceId: number;
+  previousStatus: DeviceStatus;
+  status: DeviceStatus;
+  recoveredAt: Date;
+  // When the device last left good standing; partners that verified it since then are notified.
+  since: Date;
+}
+
+export const deviceRecoveredTopic = new Topic<DeviceRecoveredEvent>("device-recovered", {
+  deliveryGuarantee: "at-least-once",
+});
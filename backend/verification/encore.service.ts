@@ -1,3 +1,6 @@
 import { Service } from "encore.dev/service";
+import { rateLimit } from "./rate_limit";
 
-export default new Service("verification");
+export default new Service("verification", {
+  middlewares: [rateLimit],
+});
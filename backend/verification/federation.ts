@@ -0,0 +1,289 @@
+import { secret } from "encore.dev/config";
+import { createHmac } from "crypto";
+import { fetch } from "undici";
+import { verificationDB } from "./db";
+import { nodeDispatcher } from "./node_targets";
+
+// Bearer token presented to nodes that have not been issued their own key, and the secret each
+// node's own key is derived from.
+const federationNodeToken = secret("FederationNodeToken");
+
+export type NodeVerdict = "stolen" | "flagged" | "clean" | "unknown";
+export type NodeResponseStatus = "success" | "failure" | "timeout" | "circuit_open" | "skipped";
+
+const NODE_TIMEOUT_MS = 2000;
+const NODE_MAX_RETRIES = 2;
+const RETRY_BACKOFF_MS = 100;
+// A lookup's whole deadline: node attempts and retries are cut short to fit it, and later
+// priority tiers are skipped once it has passed.
+const FEDERATION_BUDGET_MS = 5000;
+
+// Consecutive failures that open a node's circuit, and how long it stays open before a single
+// trial request is let through.
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_OPEN_MS = 30_000;
+
+// Higher wins when node verdicts disagree.
+const VERDICT_SEVERITY: Record<NodeVerdict, number> = {
+  unknown: 0,
+  clean: 1,
+  flagged: 2,
+  stolen: 3,
+};
+
+export interface NodeResult {
+  nodeId: number;
+  nodeName: string;
+  nodeType: string;
+  status: NodeResponseStatus;
+  verdict?: NodeVerdict;
+  details?: string;
+  reference?: string;
+  attempts: number;
+  responseTimeMs: number;
+}
+
+export interface FederatedVerdict {
+  verdict: NodeVerdict;
+  nodesQueried: number;
+  nodesResponded: number;
+  results: NodeResult[];
+}
+
+export interface FederatedLookupRequest {
+  requestId: string;
+  identifier: string;
+  identifierType: "serial" | "imei";
+  deviceId?: number;
+}
+
+interface NodeRow {
+  id: number;
+  node_name: string;
+  node_type: string;
+  endpoint_url: string;
+  priority: number;
+  api_key_hash: string | null;
+  api_key_version: number;
+}
+
+// What a node returns for a lookup.
+interface NodeLookupResponse {
+  verdict: NodeVerdict;
+  details?: string;
+  reference?: string;
+}
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openUntil: number;
+  trialInFlight: boolean;
+}
+
+// Per-process circuit breakers; each instance learns node health independently.
+const circuits = new Map<number, CircuitState>();
+
+function getCircuit(nodeId: number): CircuitState {
+  let circuit = circuits.get(nodeId);
+  if (!circuit) {
+    circuit = { consecutiveFailures: 0, openUntil: 0, trialInFlight: false };
+    circuits.set(nodeId, circuit);
+  }
+  return circuit;
+}
+
+// Returns false while the circuit is open. Once the open period ends, one trial request is
+// allowed through; its outcome closes or re-opens the circuit.
+function tryAcquireCircuit(nodeId: number): boolean {
+  const circuit = getCircuit(nodeId);
+  if (circuit.consecutiveFailures < CIRCUIT_FAILURE_THRESHOLD) {
+    return true;
+  }
+  if (Date.now() < circuit.openUntil || circuit.trialInFlight) {
+    return false;
+  }
+  circuit.trialInFlight = true;
+  return true;
+}
+
+function recordCircuitResult(nodeId: number, succeeded: boolean): void {
+  const circuit = getCircuit(nodeId);
+  circuit.trialInFlight = false;
+  if (succeeded) {
+    circuit.consecutiveFailures = 0;
+    circuit.openUntil = 0;
+    return;
+  }
+  circuit.consecutiveFailures++;
+  if (circuit.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+    circuit.openUntil = Date.now() + CIRCUIT_OPEN_MS;
+  }
+}
+
+// Node keys are derived rather than stored so that only their hash lives in the database;
+// bumping the version rotates the key.
+export function deriveNodeApiKey(nodeId: number, keyVersion: number): string {
+  const mac = createHmac("sha256", federationNodeToken()).update(`${nodeId}:${keyVersion}`).digest("base64url");
+  return `nk_${mac}`;
+}
+
+// Token presented to a node: its own key once one has been issued, otherwise the shared token.
+export function nodeAuthToken(node: { id: number; api_key_hash: string | null; api_key_version: number }): string {
+  return node.api_key_hash ? deriveNodeApiKey(node.id, node.api_key_version) : federationNodeToken();
+}
+
+export function isCircuitOpen(nodeId: number): boolean {
+  const circuit = circuits.get(nodeId);
+  return !!circuit && circuit.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD && Date.now() < circuit.openUntil;
+}
+
+// Looks a device up on every active federation node. Nodes are queried in priority tiers
+// (lowest number first); nodes within a tier are queried in parallel. Every node outcome is
+// recorded in verification_audit.
+export async function federatedLookup(req: FederatedLookupRequest): Promise<FederatedVerdict> {
+  const nodes = await verificationDB.queryAll<NodeRow>`
+    SELECT id, node_name, node_type, endpoint_url, priority, api_key_hash, api_key_version
+    FROM verification_nodes
+    WHERE is_active = true
+    ORDER BY priority ASC, id ASC
+  `;
+
+  const tiers = new Map<number, NodeRow[]>();
+  for (const node of nodes) {
+    tiers.set(node.priority, [...(tiers.get(node.priority) ?? []), node]);
+  }
+
+  const deadline = Date.now() + FEDERATION_BUDGET_MS;
+  const results: NodeResult[] = [];
+
+  for (const tier of tiers.values()) {
+    if (Date.now() >= deadline) {
+      results.push(...tier.map(node => skippedResult(node)));
+      continue;
+    }
+    results.push(...await Promise.all(tier.map(node => queryNode(node, req, deadline))));
+  }
+
+  for (const result of results) {
+    await verificationDB.exec`
+      INSERT INTO verification_audit (
+        device_id, verification_request_id, node_id, node_response, response_status, response_time_ms
+      ) VALUES (
+        ${req.deviceId ?? null}, ${req.requestId}, ${result.nodeId},
+        ${JSON.stringify({
+          verdict: result.verdict,
+          details: result.details,
+          reference: result.reference,
+          attempts: result.attempts,
+        })},
+        ${result.status}, ${result.responseTimeMs}
+      )
+    `;
+  }
+
+  return mergeVerdicts(results);
+}
+
+// Combines node results; the most severe verdict from a node that answered wins.
+export function mergeVerdicts(results: NodeResult[]): FederatedVerdict {
+  const responded = results.filter(result => result.status === "success");
+  const verdict = responded.reduce<NodeVerdict>(
+    (worst, result) => VERDICT_SEVERITY[result.verdict!] > VERDICT_SEVERITY[worst] ? result.verdict! : worst,
+    "unknown"
+  );
+
+  return {
+    verdict,
+    nodesQueried: results.filter(result => result.status !== "skipped" && result.status !== "circuit_open").length,
+    nodesResponded: responded.length,
+    results,
+  };
+}
+
+// Queries one node, retrying server errors and timeouts while the lookup's deadline allows.
+async function queryNode(node: NodeRow, req: FederatedLookupRequest, deadline: number): Promise<NodeResult> {
+  const base = { nodeId: node.id, nodeName: node.node_name, nodeType: node.node_type };
+
+  if (!tryAcquireCircuit(node.id)) {
+    return { ...base, status: "circuit_open", attempts: 0, responseTimeMs: 0 };
+  }
+
+  const startedAt = Date.now();
+  let attempts = 0;
+  let status: NodeResponseStatus = "failure";
+  let details: string | undefined;
+
+  while (attempts <= NODE_MAX_RETRIES) {
+    const remainingMs = deadline - Date.now();
+    if (remainingMs <= 0) {
+      status = "timeout";
+      details = "Federation time budget exhausted";
+      break;
+    }
+    attempts++;
+    try {
+      const response = await fetch(node.endpoint_url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${nodeAuthToken(node)}`,
+          "X-Verification-Request-Id": req.requestId,
+        },
+        body: JSON.stringify({ identifier: req.identifier, identifierType: req.identifierType }),
+        signal: AbortSignal.timeout(Math.min(NODE_TIMEOUT_MS, remainingMs)),
+        // Registration only vets the node's own URL, so don't follow it anywhere else
+        redirect: "error",
+        dispatcher: nodeDispatcher,
+      });
+
+      if (response.ok) {
+        const body = await response.json() as NodeLookupResponse;
+        if (!Object.hasOwn(VERDICT_SEVERITY, body.verdict)) {
+          throw new Error(`Node returned an unrecognized verdict: ${body.verdict}`);
+        }
+        recordCircuitResult(node.id, true);
+        return {
+          ...base,
+          status: "success",
+          verdict: body.verdict,
+          details: body.details,
+          reference: body.reference,
+          attempts,
+          responseTimeMs: Date.now() - startedAt,
+        };
+      }
+
+      status = "failure";
+      details = `HTTP ${response.status}`;
+      // Client errors will not succeed on retry
+      if (response.status < 500) {
+        break;
+      }
+    } catch (error) {
+      const timedOut = error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError");
+      status = timedOut ? "timeout" : "failure";
+      details = error instanceof Error ? error.message : String(error);
+    }
+
+    const backoffMs = RETRY_BACKOFF_MS * 2 ** (attempts - 1);
+    if (attempts > NODE_MAX_RETRIES || Date.now() + backoffMs >= deadline) {
+      break;
+    }
+    await new Promise(resolve => setTimeout(resolve, backoffMs));
+  }
+
+  recordCircuitResult(node.id, false);
+  return { ...base, status, details, attempts, responseTimeMs: Date.now() - startedAt };
+}
+
+function skippedResult(node: NodeRow): NodeResult {
+  return {
+    nodeId: node.id,
+    nodeName: node.node_name,
+    nodeType: node.node_type,
+    status: "skipped",
+    details: "Federation time budget exhausted",
+    attempts: 0,
+    responseTimeMs: 0,
+  };
+}
@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import {
+  lshBuckets,
+  normalizeSignal,
+  resampleSignal,
+  SENSOR_TYPES,
+  SensorPatterns,
+  sensorSimilarity,
+} from "./fingerprint_similarity";
+
+// Seeded so the collision rates below are the same on every run.
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Two fingerprints whose normalised sensor vectors are `rms` apart, so their similarity is 1 - rms.
+// Readings are built from the normalised values, which 64-sample captures keep unresampled.
+function fingerprintPair(random: () => number, rms: number): [SensorPatterns, SensorPatterns] {
+  const gaussian = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+  const readings = (normalised: number[]) => normalised.map(v => Math.sign(v) * Math.expm1(Math.abs(v)));
+  const a: SensorPatterns = {};
+  const b: SensorPatterns = {};
+
+  for (const sensorType of SENSOR_TYPES) {
+    const vector = Array.from({ length: 64 }, () => random() * 10 - 5);
+    const direction = Array.from({ length: 64 }, gaussian);
+    const length = Math.hypot(...direction);
+    a[sensorType] = readings(vector);
+    b[sensorType] = readings(vector.map((v, i) => v + (direction[i] / length) * rms * 8));
+  }
+  return [a, b];
+}
+
+// A device's readings over a capture window: a smooth waveform per sensor with its own level,
+// swing and frequency.
+function sensorWaveforms(random: () => number): Record<string, (t: number) => number> {
+  return Object.fromEntries(SENSOR_TYPES.map(sensorType => {
+    const level = Math.exp(random() * 5) * (random() < 0.5 ? -1 : 1);
+    const swing = Math.abs(level) * random() * 0.5;
+    const frequency = 1 + random() * 4;
+    return [sensorType, (t: number) => level + swing * Math.sin(2 * Math.PI * frequency * t)];
+  }));
+}
+
+function capture(waveforms: Record<string, (t: number) => number>, samples: number, noise: () => number): SensorPatterns {
+  return Object.fromEntries(Object.entries(waveforms).map(([sensorType, waveform]) =>
+    [sensorType, Array.from({ length: samples }, (_, i) => waveform(i / (samples - 1)) * noise())]
+  ));
+}
+
+function shareBucket(a: SensorPatterns, b: SensorPatterns): boolean {
+  const buckets = new Set(lshBuckets(a));
+  return lshBuckets(b).some(bucket => buckets.has(bucket));
+}
+
+function collisionRate(rms: number, pairs: number): number {
+  const random = seededRandom(Math.round(rms * 1000));
+  let shared = 0;
+  for (let i = 0; i < pairs; i++) {
+    const [a, b] = fingerprintPair(random, rms);
+    if (shareBucket(a, b)) {
+      shared++;
+    }
+  }
+  return shared / pairs;
+}
+
+describe("resampleSignal", () => {
+  it("interpolates captures of any length onto the same points", () => {
+    expect(Array.from(resampleSignal([0, 10], 5)!)).toEqual([0, 2.5, 5, 7.5, 10]);
+    expect(Array.from(resampleSignal([0, 5, 10], 5)!)).toEqual([0, 2.5, 5, 7.5, 10]);
+  });
+
+  it("drops non-finite readings and repeats a single one", () => {
+    expect(Array.from(resampleSignal([NaN, 3, Infinity], 3)!)).toEqual([3, 3, 3]);
+    expect(resampleSignal([NaN])).toBeNull();
+    expect(resampleSignal([])).toBeNull();
+  });
+});
+
+describe("normalizeSignal", () => {
+  it("maps readings onto a signed log scale", () => {
+    const normalised = normalizeSignal([-(Math.E - 1), 0, Math.E - 1])!;
+
+    expect(normalised[0]).toBeCloseTo(-1);
+    expect(normalised[normalised.length - 1]).toBeCloseTo(1);
+  });
+
+  it("returns null for a missing sensor", () => {
+    expect(normalizeSignal(undefined)).toBeNull();
+  });
+});
+
+describe("sensorSimilarity", () => {
+  const capture = Array.from({ length: 50 }, (_, i) => 9.8 + Math.sin(i / 4));
+
+  it("scores the same readings captured at different sample rates as identical", () => {
+    const resampled = Array.from(resampleSignal(capture, 120)!);
+
+    expect(sensorSimilarity({ accelerometer: capture }, { accelerometer: resampled })).toBeGreaterThan(0.99);
+  });
+
+  it("scores readings 10% apart at about 0.9", () => {
+    const scaled = capture.map(value => value * 1.1);
+
+    expect(sensorSimilarity({ accelerometer: capture }, { accelerometer: scaled })).toBeCloseTo(0.91, 1);
+  });
+
+  it("averages over the sensors both fingerprints have", () => {
+    const provided = { accelerometer: capture, gyroscope: [1, 2, 3] };
+    const stored = { accelerometer: capture, magnetometer: [40, 41] };
+
+    expect(sensorSimilarity(provided, stored)).toBeCloseTo(1);
+    expect(sensorSimilarity({ gyroscope: [1] }, { magnetometer: [1] })).toBe(0);
+  });
+});
+
+describe("lshBuckets", () => {
+  it("gives each sensor and band its own bucket range", () => {
+    const capture = Array.from({ length: 64 }, (_, i) => i);
+    const buckets = lshBuckets({ accelerometer: capture, gyroscope: capture, magnetometer: capture });
+    const bands = buckets.map(bucket => Math.floor(bucket / 2 ** 24));
+
+    expect(buckets).toHaveLength(30);
+    expect(bands).toEqual(Array.from({ length: 30 }, (_, i) => i));
+  });
+
+  it("is deterministic, so stored buckets stay valid until LSH_VERSION changes", () => {
+    const patterns = { gyroscope: [0.1, -0.4, 0.2, 0.05] };
+
+    expect(lshBuckets(patterns)).toEqual(lshBuckets({ gyroscope: [...patterns.gyroscope] }));
+  });
+
+  it("has no buckets without sensor data", () => {
+    expect(lshBuckets(null)).toEqual([]);
+    expect(lshBuckets({})).toEqual([]);
+  });
+
+  it("finds a recapture of the same device with noise and a different sample count", () => {
+    const random = seededRandom(7);
+    for (let i = 0; i < 50; i++) {
+      const device = sensorWaveforms(random);
+      const stored = capture(device, 64, () => 1);
+      const recaptured = capture(device, 48, () => 1 + (random() * 2 - 1) * 0.05);
+
+      expect(sensorSimilarity(recaptured, stored)).toBeGreaterThan(0.8);
+      expect(shareBucket(recaptured, stored)).toBe(true);
+    }
+  });
+
+  // Lookups re-score only fingerprints that share a bucket, so these rates bound how much of a
+  // store of 1M+ fingerprints a lookup touches.
+  it("makes fingerprints with similarity 0.8 candidates", () => {
+    expect(collisionRate(0.2, 200)).toBeGreaterThan(0.99);
+  });
+
+  it("rarely makes unrelated fingerprints candidates", () => {
+    expect(collisionRate(1, 2000)).toBeLessThan(0.03);
+    expect(collisionRate(1.5, 2000)).toBeLessThan(0.002);
+    expect(collisionRate(2, 2000)).toBe(0);
+  });
+});
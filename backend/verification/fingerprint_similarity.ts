@@ -0,0 +1,152 @@
+// Fuzzy comparison of device sensor fingerprints. Each sensor's readings are mapped onto a signed
+// log scale, so differences are relative to the size of the reading, and resampled to a fixed
+// length, so captures with different sample counts line up. Two sensors are compared by the RMS
+// distance between their vectors. Euclidean (p-stable) LSH turns each vector into band buckets
+// that similar vectors share with high probability, so candidates can be found through an index
+// instead of a scan.
+
+export const SENSOR_TYPES = ["accelerometer", "gyroscope", "magnetometer"] as const;
+export type SensorType = typeof SENSOR_TYPES[number];
+export type SensorPatterns = Partial<Record<SensorType, number[]>>;
+
+// Bump when the normalisation or hashing changes; stale buckets are rebuilt by indexFingerprints.
+export const LSH_VERSION = 1;
+
+const RESAMPLED_LENGTH = 64;
+// Each band concatenates LSH_HASHES_PER_BAND projections and a fingerprint becomes a candidate
+// when any band matches. A sensor with similarity 0.8 shares a band about 94% of the time.
+// Fingerprints whose readings are about 2.7x apart (similarity 0) share one about 1 time in 100,
+// and 4.5x apart about 1 time in 2000, so a lookup only touches the near part of the index.
+const LSH_BANDS_PER_SENSOR = 10;
+const LSH_HASHES_PER_BAND = 8;
+// Projection bucket width, in the same units as the distance between two vectors.
+const LSH_BUCKET_WIDTH = 8;
+const LSH_BUCKET_BITS = 24;
+const LSH_SEED = 0x5eed1234;
+
+// Linear interpolation onto `length` evenly spaced points. Non-finite readings are dropped.
+export function resampleSignal(values: number[], length = RESAMPLED_LENGTH): Float64Array | null {
+  const finite = Array.isArray(values) ? values.filter(value => typeof value === "number" && Number.isFinite(value)) : [];
+  if (finite.length === 0) {
+    return null;
+  }
+
+  const resampled = new Float64Array(length);
+  if (finite.length === 1) {
+    return resampled.fill(finite[0]);
+  }
+
+  const step = (finite.length - 1) / (length - 1);
+  for (let i = 0; i < length; i++) {
+    const position = i * step;
+    const lower = Math.floor(position);
+    const upper = Math.min(lower + 1, finite.length - 1);
+    resampled[i] = finite[lower] + (finite[upper] - finite[lower]) * (position - lower);
+  }
+  return resampled;
+}
+
+// sign(v) * ln(1 + |v|): roughly linear below 1 and logarithmic above, so a difference of d
+// means about the same relative change at any magnitude.
+export function normalizeSignal(values: number[] | undefined): Float64Array | null {
+  const resampled = values ? resampleSignal(values) : null;
+  if (!resampled) {
+    return null;
+  }
+  return resampled.map(value => Math.sign(value) * Math.log1p(Math.abs(value)));
+}
+
+// 1 minus the RMS distance between two normalised vectors, floored at 0. Readings that differ by
+// 10% throughout score about 0.9.
+function vectorSimilarity(a: Float64Array, b: Float64Array): number {
+  let sumOfSquares = 0;
+  for (let i = 0; i < a.length; i++) {
+    sumOfSquares += (a[i] - b[i]) ** 2;
+  }
+  return Math.max(0, 1 - Math.sqrt(sumOfSquares / a.length));
+}
+
+// Average similarity (0-1) over the sensors both fingerprints have, or 0 if they share none.
+export function sensorSimilarity(provided: SensorPatterns, stored: SensorPatterns): number {
+  let total = 0;
+  let compared = 0;
+
+  for (const sensorType of SENSOR_TYPES) {
+    const a = normalizeSignal(provided[sensorType]);
+    const b = normalizeSignal(stored[sensorType]);
+    if (a && b) {
+      total += vectorSimilarity(a, b);
+      compared++;
+    }
+  }
+
+  return compared > 0 ? total / compared : 0;
+}
+
+// Deterministic so every process derives the same projections as the stored buckets.
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+interface Projection {
+  direction: Float64Array;
+  offset: number;
+}
+
+let projections: Projection[] | null = null;
+
+// One Gaussian direction and random offset per hash, for every band of every sensor.
+function getProjections(): Projection[] {
+  if (!projections) {
+    const random = mulberry32(LSH_SEED);
+    const gaussian = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+    const count = SENSOR_TYPES.length * LSH_BANDS_PER_SENSOR * LSH_HASHES_PER_BAND;
+    projections = Array.from({ length: count }, () => ({
+      direction: Float64Array.from({ length: RESAMPLED_LENGTH }, gaussian),
+      offset: random() * LSH_BUCKET_WIDTH,
+    }));
+  }
+  return projections;
+}
+
+// LSH buckets for a fingerprint's sensor vectors. Each bucket holds its sensor and band in the
+// high bits, so buckets from different bands never collide.
+export function lshBuckets(patterns: SensorPatterns | null | undefined): number[] {
+  if (!patterns) {
+    return [];
+  }
+
+  const all = getProjections();
+  const buckets: number[] = [];
+
+  SENSOR_TYPES.forEach((sensorType, sensorIndex) => {
+    const vector = normalizeSignal(patterns[sensorType]);
+    if (!vector) {
+      return;
+    }
+
+    for (let band = 0; band < LSH_BANDS_PER_SENSOR; band++) {
+      const bandIndex = sensorIndex * LSH_BANDS_PER_SENSOR + band;
+      // FNV-1a over the band's projection slots
+      let hash = 0x811c9dc5;
+      for (let h = 0; h < LSH_HASHES_PER_BAND; h++) {
+        const { direction, offset } = all[bandIndex * LSH_HASHES_PER_BAND + h];
+        let dot = 0;
+        for (let i = 0; i < RESAMPLED_LENGTH; i++) {
+          dot += direction[i] * vector[i];
+        }
+        hash = Math.imul(hash ^ Math.floor((dot + offset) / LSH_BUCKET_WIDTH), 0x01000193);
+      }
+      buckets.push(bandIndex * 2 ** LSH_BUCKET_BITS + ((hash >>> 0) % 2 ** LSH_BUCKET_BITS));
+    }
+  });
+
+  return buckets;
+}
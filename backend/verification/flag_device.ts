@@ -1,5 +1,9 @@
 import { api, APIError } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
 import { verificationDB } from "./db";
+import { DeviceStatus, resolveStatusActor, transitionDeviceStatus } from "./device_status";
+import { getDeviceById, incrementReportCount } from "./devices";
+import { publishDeviceChanged } from "./domain_events";
 import { validateString, validateEnum, ValidationError } from "./validation";
 
 export interface FlagDeviceRequest {
@@ -34,35 +38,53 @@ export const flagDevice = api<FlagDeviceRequest, FlagDeviceResponse>(
     const { deviceId, flagType, reason, flaggedBy, partnerName } = req;
 
     // Check if device exists
-    const device = await verificationDB.queryRow<{ id: number; status: string }>`
-      SELECT id, status FROM devices WHERE id = ${deviceId}
-    `;
+    const device = await getDeviceById(deviceId);
 
     if (!device) {
       throw APIError.notFound("Device not found");
     }
 
-    // Insert flag record
-    const flagResult = await verificationDB.queryRow<{ id: number }>`
-      INSERT INTO reports (device_id, reporter_alias, report_type, description, status)
-      VALUES (${deviceId}, ${flaggedBy}, ${flagType}, ${reason}, 'pending')
-      RETURNING id
-    `;
-
-    // Update device status based on flag severity
-    let newStatus = device.status;
-    if (flagType === "stolen" || flagType === "fraud") {
-      newStatus = "flagged";
+    // Flags only ever escalate the device status; law enforcement can mark it stolen outright
+    const { actor, actorId } = resolveStatusActor();
+    let targetStatus: DeviceStatus | null = null;
+    if (flagType === "stolen" && actor === "law_enforcement") {
+      targetStatus = "stolen";
+    } else if (flagType === "stolen" || flagType === "fraud") {
+      targetStatus = "flagged";
     } else if (flagType === "suspicious" || flagType === "tampered") {
-      newStatus = "under_investigation";
+      targetStatus = "under_investigation";
     }
 
-    if (newStatus !== device.status) {
-      await verificationDB.exec`
-        UPDATE devices 
-        SET status = ${newStatus}, updated_at = CURRENT_TIMESTAMP
-        WHERE id = ${deviceId}
+    const tx = await verificationDB.begin();
+    let flagResult: { id: number } | null;
+    let newStatus = device.status;
+    try {
+      // Insert flag record
+      flagResult = await tx.queryRow<{ id: number }>`
+        INSERT INTO reports (device_id, reporter_alias, report_type, description, status, partner_id)
+        VALUES (${deviceId}, ${flaggedBy}, ${flagType}, ${reason}, 'pending', ${getAuthData()?.partnerId ?? null})
+        RETURNING id
       `;
+
+      await incrementReportCount(deviceId, reason, tx);
+
+      if (targetStatus) {
+        const transition = await transitionDeviceStatus({
+          deviceId,
+          toStatus: targetStatus,
+          actor,
+          actorId: actorId ?? flaggedBy,
+          reason: `Flagged as ${flagType}: ${reason}`,
+          reportId: flagResult!.id,
+          escalateOnly: true,
+        }, tx);
+        newStatus = transition.toStatus;
+      }
+
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
     }
 
     // Log the flagging event
@@ -71,6 +93,8 @@ export const flagDevice = api<FlagDeviceRequest, FlagDeviceResponse>(
       VALUES (${deviceId}, 'flagged', ${`Device flagged as ${flagType}: ${reason}`}, ${partnerName || 'STOLEN'}, true)
     `;
 
+    await publishDeviceChanged(deviceId, "flag");
+
     return {
       flagId: flagResult!.id,
       deviceStatus: newStatus,
@@ -1,5 +1,6 @@
 import { api } from "encore.dev/api";
 import { verificationDB } from "./db";
+import { publishDeviceChanged } from "./domain_events";
 import { createHash } from "crypto";
 
 export interface GenerateBadgeRequest {
@@ -98,6 +99,8 @@ export const generateBadge = api<GenerateBadgeRequest, GenerateBadgeResponse>(
               ${`Verification badge ${badgeId} generated for ${badgeType} use`}, true)
     `;
 
+    await publishDeviceChanged(deviceId, "badge");
+
     const badgeConfig = {
       type: badgeType,
       style: customization || { color: "blue", size: "medium", style: "detailed" },
@@ -1,9 +1,19 @@
-import { api } from "encore.dev/api";
+import { api, APIError } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
+import { randomBytes } from "crypto";
+import { requireScope } from "./auth";
 import { verificationDB } from "./db";
+import { getDeviceById } from "./devices";
+import { validateNumber, validateString, ValidationError } from "./validation";
+import { verify, VerifyDeviceResponse } from "./verify";
+
+const MAX_EXPIRY_HOURS = 24 * 30;
 
 export interface GenerateLinkRequest {
   deviceId: number;
   expiryHours?: number;
+  // Omit for unlimited uses until the link expires.
+  maxUses?: number;
   partnerName?: string;
 }
 
@@ -11,32 +21,202 @@ export interface GenerateLinkResponse {
   verificationLink: string;
   expiresAt: Date;
   linkId: string;
+  maxUses?: number;
 }
 
-// Generates a public verification link for a device.
+// Generates a public verification link for a device. Links belong to the partner that created them.
 export const generateLink = api<GenerateLinkRequest, GenerateLinkResponse>(
-  { expose: true, method: "POST", path: "/generate-link" },
+  { expose: true, method: "POST", path: "/generate-link", auth: true },
   async (req) => {
-    const { deviceId, expiryHours = 24, partnerName } = req;
+    const authData = getAuthData()!;
+    requireScope(authData, "write");
+
+    const { deviceId, expiryHours = 24, maxUses, partnerName } = req;
+
+    try {
+      validateNumber(expiryHours, "Expiry hours", 1, MAX_EXPIRY_HOURS);
+      if (maxUses !== undefined) {
+        validateNumber(maxUses, "Max uses", 1, 100000);
+      }
+      if (partnerName) {
+        validateString(partnerName, "Partner name", 1, 255);
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
 
-    // Generate unique link ID
-    const linkId = `vl_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    if (!(await getDeviceById(deviceId))) {
+      throw APIError.notFound("Device not found");
+    }
+
+    // 192 random bits, so link IDs cannot be guessed or enumerated
+    const linkId = `vl_${randomBytes(24).toString("base64url")}`;
     const expiresAt = new Date(Date.now() + (expiryHours * 60 * 60 * 1000));
 
-    // Store link in database (you might want to create a verification_links table)
+    await verificationDB.exec`
+      INSERT INTO verification_links (link_id, device_id, partner_id, expires_at, max_uses)
+      VALUES (${linkId}, ${deviceId}, ${authData.partnerId}, ${expiresAt}, ${maxUses ?? null})
+    `;
+
     await verificationDB.exec`
       INSERT INTO device_events (device_id, event_type, event_description, provider_name, verified)
-      VALUES (${deviceId}, 'link_generated', ${`Verification link generated (expires: ${expiresAt.toISOString()})`}, ${partnerName || 'STOLEN'}, true)
+      VALUES (${deviceId}, 'link_generated', ${`Verification link generated (expires: ${expiresAt.toISOString()})`}, ${partnerName || 'STOLEN'}, false)
     `;
 
-    // In a real implementation, you'd store the link details in a separate table
-    // For now, we'll just generate the link format
-    const verificationLink = `https://stolen-verify.app/verify/${linkId}?device=${deviceId}`;
+    const verificationLink = `https://stolen-verify.app/verify/${linkId}`;
 
     return {
       verificationLink,
       expiresAt,
       linkId,
+      maxUses,
     };
   }
 );
+
+export interface VerificationLinkInfo {
+  linkId: string;
+  expiresAt: Date;
+  accessCount: number;
+  maxUses?: number;
+  remainingUses?: number;
+  createdAt: Date;
+}
+
+export interface ResolveVerificationLinkRequest {
+  linkId: string;
+}
+
+export interface ResolveVerificationLinkResponse {
+  link: VerificationLinkInfo;
+  report: VerifyDeviceResponse;
+}
+
+// Opens a verification link and returns the device report it shares, using up one of its views.
+// A POST, so only an explicit open counts against the link and prefetches or retried GETs do not.
+// An open that fails to produce a report gives its use back.
+export const resolveVerificationLink = api<ResolveVerificationLinkRequest, ResolveVerificationLinkResponse>(
+  { expose: true, method: "POST", path: "/verification-links/:linkId/open" },
+  async (req) => {
+    // Claim a use only while the link is still valid, so concurrent opens cannot exceed max_uses
+    const link = await verificationDB.queryRow<{
+      device_id: number;
+      expires_at: Date;
+      access_count: number;
+      max_uses: number | null;
+      created_at: Date;
+    }>`
+      UPDATE verification_links
+      SET access_count = access_count + 1, last_accessed_at = CURRENT_TIMESTAMP
+      WHERE link_id = ${req.linkId}
+        AND is_active = true
+        AND expires_at > CURRENT_TIMESTAMP
+        AND (max_uses IS NULL OR access_count < max_uses)
+      RETURNING device_id, expires_at, access_count, max_uses, created_at
+    `;
+
+    if (!link) {
+      throw await linkUnavailableError(req.linkId);
+    }
+
+    let report: VerifyDeviceResponse;
+    try {
+      const device = await verificationDB.queryRow<{ serial_number: string | null; imei: string | null }>`
+        SELECT serial_number, imei FROM devices WHERE id = ${link.device_id}
+      `;
+      // Devices known only from marketplace and partner lookups have an IMEI but no serial number
+      if (device?.serial_number) {
+        report = await verify({ identifier: device.serial_number, identifierType: "serial" });
+      } else if (device?.imei) {
+        report = await verify({ identifier: device.imei, identifierType: "imei" });
+      } else {
+        throw APIError.notFound("Verification link not found");
+      }
+    } catch (error) {
+      await verificationDB.exec`
+        UPDATE verification_links
+        SET access_count = access_count - 1
+        WHERE link_id = ${req.linkId} AND access_count > 0
+      `;
+      throw error;
+    }
+
+    return {
+      link: {
+        linkId: req.linkId,
+        expiresAt: link.expires_at,
+        accessCount: link.access_count,
+        maxUses: link.max_uses ?? undefined,
+        remainingUses: link.max_uses !== null ? link.max_uses - link.access_count : undefined,
+        createdAt: link.created_at,
+      },
+      report,
+    };
+  }
+);
+
+export interface RevokeVerificationLinkRequest {
+  linkId: string;
+}
+
+export interface RevokeVerificationLinkResponse {
+  linkId: string;
+  revokedAt: Date;
+}
+
+// Revokes a verification link. Only the partner that generated it, or a platform operator, can revoke it.
+export const revokeVerificationLink = api<RevokeVerificationLinkRequest, RevokeVerificationLinkResponse>(
+  { expose: true, method: "POST", path: "/verification-links/:linkId/revoke", auth: true },
+  async (req) => {
+    const authData = getAuthData()!;
+    requireScope(authData, "write");
+
+    const link = await verificationDB.queryRow<{ partner_id: number | null; is_active: boolean }>`
+      SELECT partner_id, is_active FROM verification_links WHERE link_id = ${req.linkId}
+    `;
+    if (!link) {
+      throw APIError.notFound("Verification link not found");
+    }
+    if (link.partner_id !== authData.partnerId && authData.platformRole !== "operator") {
+      throw APIError.permissionDenied("Only the partner that generated this link can revoke it");
+    }
+    if (!link.is_active) {
+      throw APIError.failedPrecondition("Verification link has already been revoked");
+    }
+
+    const revoked = await verificationDB.queryRow<{ revoked_at: Date }>`
+      UPDATE verification_links
+      SET is_active = false, revoked_at = CURRENT_TIMESTAMP, revoked_by = ${authData.userID}
+      WHERE link_id = ${req.linkId}
+      RETURNING revoked_at
+    `;
+
+    return { linkId: req.linkId, revokedAt: revoked!.revoked_at };
+  }
+);
+
+// Explains why a link could not be resolved.
+async function linkUnavailableError(linkId: string): Promise<APIError> {
+  const link = await verificationDB.queryRow<{
+    is_active: boolean;
+    expires_at: Date;
+    access_count: number;
+    max_uses: number | null;
+  }>`
+    SELECT is_active, expires_at, access_count, max_uses FROM verification_links WHERE link_id = ${linkId}
+  `;
+
+  if (!link) {
+    return APIError.notFound("Verification link not found");
+  }
+  if (!link.is_active) {
+    return APIError.permissionDenied("Verification link has been revoked");
+  }
+  if (link.expires_at <= new Date()) {
+    return APIError.failedPrecondition("Verification link has expired");
+  }
+  return APIError.resourceExhausted("Verification link has reached its maximum number of uses");
+}
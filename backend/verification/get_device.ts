@@ -1,6 +1,7 @@
 import { api, APIError } from "encore.dev/api";
 import { verificationDB } from "./db";
 import { getCachedDevice, setCachedDevice } from "./cache";
+import { DeviceStatus } from "./device_status";
 
 export interface GetDeviceRequest {
   id: number;
@@ -15,7 +16,7 @@ export interface GetDeviceResponse {
     model: string;
     brand: string;
     imageUrl?: string;
-    status: "clean" | "flagged" | "under_investigation";
+    status: DeviceStatus;
     lastVerified: Date;
   };
   currentOwner?: {
@@ -78,9 +79,9 @@ export const getDevice = api<GetDeviceRequest, GetDeviceResponse>(
           id: parseInt(cachedDevice.id),
           serialNumber: cachedDevice.imei,
           imei: cachedDevice.imei,
-          deviceName: cachedDevice.manufacturer || "Unknown",
+          deviceName: cachedDevice.brand || "Unknown",
           model: cachedDevice.model || "Unknown",
-          brand: cachedDevice.manufacturer || "Unknown",
+          brand: cachedDevice.brand || "Unknown",
           status: cachedDevice.status as any,
           lastVerified: cachedDevice.updatedAt,
         },
@@ -176,7 +177,7 @@ export const getDevice = api<GetDeviceRequest, GetDeviceResponse>(
       id: id.toString(),
       imei: device.imei || device.serial_number,
       status: device.status,
-      manufacturer: device.brand,
+      brand: device.brand,
       model: device.model,
       trustScore: 0,
       verificationCount: 0,
@@ -193,7 +194,7 @@ export const getDevice = api<GetDeviceRequest, GetDeviceResponse>(
         model: device.model,
         brand: device.brand,
         imageUrl: device.image_url,
-        status: device.status as "clean" | "flagged" | "under_investigation",
+        status: device.status as DeviceStatus,
         lastVerified: device.updated_at,
       },
       currentOwner: currentOwner ? {
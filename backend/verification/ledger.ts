@@ -0,0 +1,186 @@
+import { verificationDB } from "./db";
+import {
+  buildMerkleLevels,
+  ChainVerification,
+  computeBlockHash,
+  GENESIS_HASH,
+  hashRecordPayload,
+  LedgerBlock,
+  LedgerRecordRow,
+  merkleInclusionProof,
+  toRecordPayload,
+  verifyBlockSequence,
+} from "./ledger_chain";
+
+export {
+  buildMerkleLevels,
+  computeBlockHash,
+  GENESIS_HASH,
+  hashRecordPayload,
+  merkleInclusionProof,
+  merkleLeafHash,
+  toRecordPayload,
+  verifyMerkleInclusion,
+} from "./ledger_chain";
+export type {
+  ChainVerification,
+  LedgerBlock,
+  LedgerRecordPayload,
+  LedgerRecordRow,
+  MerkleProofStep,
+} from "./ledger_chain";
+
+// Larger backlogs are sealed across several blocks.
+export const BLOCK_MAX_RECORDS = 1024;
+// Serializes sealing so two blocks never claim the same predecessor.
+const LEDGER_SEAL_LOCK = 7_320_001;
+
+interface LedgerBlockRow {
+  block_number: number;
+  previous_hash: string;
+  merkle_root: string;
+  record_count: number;
+  block_hash: string;
+  sealed_at: Date;
+}
+
+// Seals the oldest pending records into the next block. Returns null when nothing is pending.
+export async function sealPendingRecords(): Promise<LedgerBlock | null> {
+  const tx = await verificationDB.begin();
+  try {
+    await tx.exec`SELECT pg_advisory_xact_lock(${LEDGER_SEAL_LOCK})`;
+
+    const pending = await tx.queryAll<{ id: string; data_hash: string }>`
+      SELECT id, data_hash
+      FROM blockchain_records
+      WHERE block_number IS NULL AND recorded_at IS NOT NULL
+      ORDER BY recorded_at ASC, id ASC
+      LIMIT ${BLOCK_MAX_RECORDS}
+    `;
+    if (pending.length === 0) {
+      await tx.commit();
+      return null;
+    }
+
+    const head = await tx.queryRow<LedgerBlockRow>`
+      SELECT block_number, previous_hash, merkle_root, record_count, block_hash, sealed_at
+      FROM ledger_blocks
+      ORDER BY block_number DESC
+      LIMIT 1
+    `;
+
+    const levels = buildMerkleLevels(pending.map(record => record.data_hash));
+    const unsealed: Omit<LedgerBlock, "blockHash"> = {
+      blockNumber: head ? Number(head.block_number) + 1 : 1,
+      previousHash: head?.block_hash ?? GENESIS_HASH,
+      merkleRoot: levels[levels.length - 1][0],
+      recordCount: pending.length,
+      sealedAt: new Date(),
+    };
+    const block: LedgerBlock = { ...unsealed, blockHash: computeBlockHash(unsealed) };
+
+    await tx.exec`
+      INSERT INTO ledger_blocks (block_number, previous_hash, merkle_root, record_count, block_hash, sealed_at)
+      VALUES (${block.blockNumber}, ${block.previousHash}, ${block.merkleRoot}, ${block.recordCount},
+              ${block.blockHash}, ${block.sealedAt})
+    `;
+
+    for (const [leafIndex, record] of pending.entries()) {
+      await tx.exec`
+        UPDATE blockchain_records
+        SET block_number = ${block.blockNumber},
+            leaf_index = ${leafIndex},
+            merkle_root = ${block.merkleRoot},
+            merkle_proof = ${JSON.stringify(merkleInclusionProof(levels, leafIndex))},
+            verified = true
+        WHERE id = ${record.id}
+      `;
+    }
+
+    await tx.commit();
+    return block;
+  } catch (error) {
+    await tx.rollback();
+    throw error;
+  }
+}
+
+export async function getLedgerHead(): Promise<LedgerBlock | null> {
+  const row = await verificationDB.queryRow<LedgerBlockRow>`
+    SELECT block_number, previous_hash, merkle_root, record_count, block_hash, sealed_at
+    FROM ledger_blocks
+    ORDER BY block_number DESC
+    LIMIT 1
+  `;
+  return row ? toLedgerBlock(row) : null;
+}
+
+export async function getLedgerBlock(blockNumber: number): Promise<LedgerBlock | null> {
+  const row = await verificationDB.queryRow<LedgerBlockRow>`
+    SELECT block_number, previous_hash, merkle_root, record_count, block_hash, sealed_at
+    FROM ledger_blocks
+    WHERE block_number = ${blockNumber}
+  `;
+  return row ? toLedgerBlock(row) : null;
+}
+
+// Walks the chain from a block to the head, recomputing every block hash and checking that
+// each block links to the one before it. A record's block can't be rewritten without breaking
+// this walk unless every later block is rewritten too.
+export async function verifyChainFrom(fromBlockNumber: number): Promise<ChainVerification> {
+  const rows = await verificationDB.queryAll<LedgerBlockRow>`
+    SELECT block_number, previous_hash, merkle_root, record_count, block_hash, sealed_at
+    FROM ledger_blocks
+    WHERE block_number >= ${fromBlockNumber - 1}
+    ORDER BY block_number ASC
+  `;
+  return verifyBlockSequence(rows.map(toLedgerBlock), fromBlockNumber);
+}
+
+// Audits the whole ledger: every block's hash and link, and every block's Merkle root against
+// the records it holds.
+export async function verifyLedger(): Promise<ChainVerification> {
+  if (!await getLedgerHead()) {
+    return { valid: true, blocksChecked: 0 };
+  }
+
+  const chain = await verifyChainFrom(1);
+  if (!chain.valid) {
+    return chain;
+  }
+
+  for (let blockNumber = 1; blockNumber <= chain.headBlockNumber!; blockNumber++) {
+    const block = (await getLedgerBlock(blockNumber))!;
+    const records = await verificationDB.queryAll<LedgerRecordRow>`
+      SELECT id, device_id, imei, event_type, data, data_hash, recorded_at
+      FROM blockchain_records
+      WHERE block_number = ${blockNumber}
+      ORDER BY leaf_index ASC
+    `;
+
+    const tampered = records.find(record => hashRecordPayload(toRecordPayload(record)) !== record.data_hash);
+    if (tampered) {
+      return { ...chain, valid: false, brokenAtBlock: blockNumber, reason: `Record ${tampered.id} no longer matches its hash` };
+    }
+    if (records.length !== block.recordCount) {
+      return { ...chain, valid: false, brokenAtBlock: blockNumber, reason: "Block record count does not match its records" };
+    }
+    const levels = buildMerkleLevels(records.map(record => record.data_hash));
+    if (levels[levels.length - 1][0] !== block.merkleRoot) {
+      return { ...chain, valid: false, brokenAtBlock: blockNumber, reason: "Block Merkle root does not match its records" };
+    }
+  }
+
+  return chain;
+}
+
+function toLedgerBlock(row: LedgerBlockRow): LedgerBlock {
+  return {
+    blockNumber: Number(row.block_number),
+    previousHash: row.previous_hash,
+    merkleRoot: row.merkle_root,
+    recordCount: row.record_count,
+    blockHash: row.block_hash,
+    sealedAt: row.sealed_at,
+  };
+}
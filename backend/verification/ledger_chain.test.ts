@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildMerkleLevels,
+  computeBlockHash,
+  GENESIS_HASH,
+  hashRecordPayload,
+  LedgerBlock,
+  LedgerRecordPayload,
+  merkleInclusionProof,
+  toRecordPayload,
+  verifyBlockSequence,
+  verifyMerkleInclusion,
+} from "./ledger_chain";
+
+function recordHash(n: number): string {
+  return hashRecordPayload({
+    id: `record-${n}`,
+    deviceId: String(n),
+    imei: null,
+    eventType: "verification",
+    data: { n },
+    timestamp: new Date(Date.UTC(2026, 0, 1, 0, 0, n)).toISOString(),
+  });
+}
+
+function buildChain(length: number): LedgerBlock[] {
+  const blocks: LedgerBlock[] = [];
+  for (let blockNumber = 1; blockNumber <= length; blockNumber++) {
+    const unsealed = {
+      blockNumber,
+      previousHash: blocks[blocks.length - 1]?.blockHash ?? GENESIS_HASH,
+      merkleRoot: buildMerkleLevels([recordHash(blockNumber)])[0][0],
+      recordCount: 1,
+      sealedAt: new Date(Date.UTC(2026, 0, 1, blockNumber)),
+    };
+    blocks.push({ ...unsealed, blockHash: computeBlockHash(unsealed) });
+  }
+  return blocks;
+}
+
+describe("hashRecordPayload", () => {
+  it("hashes a record without an IMEI the same way after it is read back", () => {
+    const payload: LedgerRecordPayload = {
+      id: "record-1",
+      deviceId: "42",
+      imei: null,
+      eventType: "report",
+      data: { reason: "theft" },
+      timestamp: "2026-01-01T00:00:00.000Z",
+    };
+    const row = {
+      id: payload.id,
+      device_id: payload.deviceId,
+      imei: null,
+      event_type: payload.eventType,
+      data: payload.data,
+      data_hash: hashRecordPayload(payload),
+      recorded_at: new Date(payload.timestamp),
+    };
+
+    expect(hashRecordPayload(toRecordPayload(row))).toBe(row.data_hash);
+  });
+
+  it("distinguishes a missing IMEI from a recorded one", () => {
+    const payload: LedgerRecordPayload = {
+      id: "record-1",
+      deviceId: "42",
+      imei: null,
+      eventType: "report",
+      data: {},
+      timestamp: "2026-01-01T00:00:00.000Z",
+    };
+    expect(hashRecordPayload(payload)).not.toBe(hashRecordPayload({ ...payload, imei: "490154203237518" }));
+  });
+});
+
+describe("Merkle inclusion proofs", () => {
+  it("proves every leaf of trees with odd and even sizes", () => {
+    for (let size = 1; size <= 9; size++) {
+      const hashes = Array.from({ length: size }, (_, i) => recordHash(i));
+      const levels = buildMerkleLevels(hashes);
+      const root = levels[levels.length - 1][0];
+
+      hashes.forEach((hash, leafIndex) => {
+        expect(verifyMerkleInclusion(hash, merkleInclusionProof(levels, leafIndex), root)).toBe(true);
+      });
+    }
+  });
+
+  it("rejects a record that is not in the tree", () => {
+    const levels = buildMerkleLevels([recordHash(1), recordHash(2), recordHash(3)]);
+    const root = levels[levels.length - 1][0];
+
+    expect(verifyMerkleInclusion(recordHash(4), merkleInclusionProof(levels, 0), root)).toBe(false);
+  });
+
+  it("does not accept an interior node as a record", () => {
+    const levels = buildMerkleLevels([recordHash(1), recordHash(2), recordHash(3), recordHash(4)]);
+    const root = levels[levels.length - 1][0];
+    const interior = levels[1][0];
+
+    expect(verifyMerkleInclusion(interior, [{ hash: levels[1][1], position: "right" }], root)).toBe(false);
+  });
+});
+
+describe("verifyBlockSequence", () => {
+  it("accepts an unbroken chain and reports its head", () => {
+    const blocks = buildChain(4);
+    const result = verifyBlockSequence(blocks, 1);
+
+    expect(result).toMatchObject({ valid: true, blocksChecked: 4, headBlockNumber: 4, headHash: blocks[3].blockHash });
+  });
+
+  it("checks from a later block when given its predecessor", () => {
+    const blocks = buildChain(4);
+
+    expect(verifyBlockSequence(blocks.slice(1), 3)).toMatchObject({ valid: true, blocksChecked: 2 });
+    expect(verifyBlockSequence(blocks.slice(2), 3)).toMatchObject({ valid: false, brokenAtBlock: 3 });
+  });
+
+  it("detects a block whose contents were rewritten", () => {
+    const blocks = buildChain(4);
+    blocks[1] = { ...blocks[1], merkleRoot: buildMerkleLevels([recordHash(99)])[0][0] };
+
+    expect(verifyBlockSequence(blocks, 1)).toMatchObject({ valid: false, brokenAtBlock: 2 });
+  });
+
+  it("detects a rewritten block even when its hash was recomputed", () => {
+    const blocks = buildChain(4);
+    const { blockHash: _, ...unsealed } = { ...blocks[1], merkleRoot: buildMerkleLevels([recordHash(99)])[0][0] };
+    blocks[1] = { ...unsealed, blockHash: computeBlockHash(unsealed) };
+
+    expect(verifyBlockSequence(blocks, 1)).toMatchObject({ valid: false, brokenAtBlock: 3 });
+  });
+
+  it("detects a missing block", () => {
+    const blocks = buildChain(4);
+    blocks.splice(2, 1);
+
+    expect(verifyBlockSequence(blocks, 1)).toMatchObject({ valid: false, brokenAtBlock: 4, reason: "Block 3 is missing" });
+  });
+});
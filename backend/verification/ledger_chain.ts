@@ -0,0 +1,182 @@
+// Hashing, Merkle trees and chain checks for the ledger. Kept free of service dependencies so
+// proofs can be checked, and tested, without the database.
+import * as crypto from "crypto";
+import { canonicalJson } from "./canonical_json";
+
+// previous_hash of the first block.
+export const GENESIS_HASH = "0".repeat(64);
+// Leaves and interior nodes are hashed with different prefixes (as in RFC 6962) so an interior
+// node can never be passed off as a record.
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+export interface MerkleProofStep {
+  hash: string;
+  // Which side the sibling sits on when combining with the running hash.
+  position: "left" | "right";
+}
+
+export interface LedgerBlock {
+  blockNumber: number;
+  previousHash: string;
+  merkleRoot: string;
+  recordCount: number;
+  blockHash: string;
+  sealedAt: Date;
+}
+
+export interface LedgerRecordPayload {
+  id: string;
+  deviceId: string;
+  // null for devices without an IMEI; always present so the hashed JSON has the same shape.
+  imei: string | null;
+  eventType: string;
+  data: Record<string, unknown>;
+  timestamp: string;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  blocksChecked: number;
+  headBlockNumber?: number;
+  headHash?: string;
+  // First block whose hash or link doesn't check out.
+  brokenAtBlock?: number;
+  reason?: string;
+}
+
+export interface LedgerRecordRow {
+  id: string;
+  device_id: string;
+  imei: string | null;
+  event_type: string;
+  data: Record<string, unknown>;
+  data_hash: string;
+  recorded_at: Date;
+}
+
+function sha256(...parts: Buffer[]): string {
+  const hash = crypto.createHash("sha256");
+  parts.forEach(part => hash.update(part));
+  return hash.digest("hex");
+}
+
+// The record's transaction hash, over the exact payload that was recorded.
+export function hashRecordPayload(payload: LedgerRecordPayload): string {
+  return sha256(Buffer.from(canonicalJson(payload), "utf8"));
+}
+
+export function merkleLeafHash(recordHash: string): string {
+  return sha256(LEAF_PREFIX, Buffer.from(recordHash, "hex"));
+}
+
+function merkleNodeHash(left: string, right: string): string {
+  return sha256(NODE_PREFIX, Buffer.from(left, "hex"), Buffer.from(right, "hex"));
+}
+
+// Builds every level of the tree, leaves first. An unpaired node is promoted to the next level
+// unchanged rather than paired with itself.
+export function buildMerkleLevels(recordHashes: string[]): string[][] {
+  if (recordHashes.length === 0) {
+    throw new Error("Cannot build a Merkle tree with no leaves");
+  }
+
+  const levels = [recordHashes.map(merkleLeafHash)];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? merkleNodeHash(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+  return levels;
+}
+
+export function merkleInclusionProof(levels: string[][], leafIndex: number): MerkleProofStep[] {
+  const proof: MerkleProofStep[] = [];
+  let index = leafIndex;
+  for (const level of levels.slice(0, -1)) {
+    const sibling = index ^ 1;
+    if (sibling < level.length) {
+      proof.push({ hash: level[sibling], position: sibling < index ? "left" : "right" });
+    }
+    index = Math.floor(index / 2);
+  }
+  return proof;
+}
+
+export function verifyMerkleInclusion(recordHash: string, proof: MerkleProofStep[], merkleRoot: string): boolean {
+  const computed = proof.reduce(
+    (hash, step) => step.position === "left" ? merkleNodeHash(step.hash, hash) : merkleNodeHash(hash, step.hash),
+    merkleLeafHash(recordHash)
+  );
+  return computed === merkleRoot;
+}
+
+export function computeBlockHash(block: Omit<LedgerBlock, "blockHash">): string {
+  return sha256(Buffer.from(canonicalJson({
+    blockNumber: block.blockNumber,
+    previousHash: block.previousHash,
+    merkleRoot: block.merkleRoot,
+    recordCount: block.recordCount,
+    sealedAt: block.sealedAt.toISOString(),
+  }), "utf8"));
+}
+
+export function toRecordPayload(row: LedgerRecordRow): LedgerRecordPayload {
+  return {
+    id: row.id,
+    deviceId: row.device_id,
+    imei: row.imei,
+    eventType: row.event_type,
+    data: row.data,
+    timestamp: row.recorded_at.toISOString(),
+  };
+}
+
+// Checks that `blocks` form an unbroken chain starting at fromBlockNumber. When fromBlockNumber is
+// past the first block, blocks[0] must be its predecessor, which is trusted as the starting link.
+export function verifyBlockSequence(blocks: LedgerBlock[], fromBlockNumber: number): ChainVerification {
+  const remaining = [...blocks];
+  let previousHash = GENESIS_HASH;
+  let expectedNumber = fromBlockNumber;
+  if (fromBlockNumber > 1) {
+    const predecessor = remaining.shift();
+    if (!predecessor || predecessor.blockNumber !== fromBlockNumber - 1) {
+      return { valid: false, blocksChecked: 0, brokenAtBlock: fromBlockNumber, reason: `Block ${fromBlockNumber - 1} is missing` };
+    }
+    previousHash = predecessor.blockHash;
+  }
+
+  for (const block of remaining) {
+    const failure = checkBlock(block, expectedNumber, previousHash);
+    if (failure) {
+      return { valid: false, blocksChecked: block.blockNumber - fromBlockNumber, brokenAtBlock: block.blockNumber, reason: failure };
+    }
+    previousHash = block.blockHash;
+    expectedNumber++;
+  }
+
+  const head = remaining[remaining.length - 1];
+  return {
+    valid: remaining.length > 0,
+    blocksChecked: remaining.length,
+    headBlockNumber: head?.blockNumber,
+    headHash: head?.blockHash,
+    reason: remaining.length > 0 ? undefined : `Block ${fromBlockNumber} does not exist`,
+  };
+}
+
+function checkBlock(block: LedgerBlock, expectedNumber: number, previousHash: string): string | undefined {
+  if (block.blockNumber !== expectedNumber) {
+    return `Block ${expectedNumber} is missing`;
+  }
+  if (block.previousHash !== previousHash) {
+    return `Block ${block.blockNumber} does not link to block ${block.blockNumber - 1}`;
+  }
+  if (computeBlockHash(block) !== block.blockHash) {
+    return `Block ${block.blockNumber} does not match its hash`;
+  }
+  return undefined;
+}
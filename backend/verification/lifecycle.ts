@@ -1,5 +1,6 @@
 import { api } from "encore.dev/api";
 import { verificationDB } from "./db";
+import { publishDeviceChanged } from "./domain_events";
 
 export interface AddLifecycleEventRequest {
   deviceId: number;
@@ -60,6 +61,11 @@ export const addLifecycleEvent = api<AddLifecycleEventRequest, AddLifecycleEvent
               ${verificationLevel === 'verified'})
     `;
 
+    await publishDeviceChanged(
+      deviceId,
+      eventCategory === "ownership" ? "ownership_transfer" : eventCategory === "repair" ? "repair" : "lifecycle_event"
+    );
+
     return {
       eventId: result!.id,
       message: `Lifecycle event added successfully`,
@@ -1,6 +1,11 @@
-import { api } from "encore.dev/api";
+import { api, APIError } from "encore.dev/api";
 import { verificationDB } from "./db";
 import { secret } from "encore.dev/config";
+import { logVerification } from "./verification_logs";
+import { createPendingDevice, getDeviceByIdentifier } from "./devices";
+import { publishDeviceChanged } from "./domain_events";
+import { MAX_BATCH_ITEMS } from "./rate_limit_policy";
+import { validateArray, ValidationError } from "./validation";
 
 const marketplaceApiKey = secret("MarketplaceAPIKey");
 
@@ -41,21 +46,8 @@ export interface ListingVerificationResponse {
 export const verifyListing = api(
   { method: "POST", path: "/marketplace/listings/verify", expose: true, auth: true },
   async (req: ListingVerificationRequest): Promise<ListingVerificationResponse> => {
-    const device = await verificationDB.queryRow`
-      SELECT 
-        id,
-        imei,
-        status,
-        manufacturer,
-        model,
-        trust_score,
-        verification_count,
-        report_count,
-        flagged_reason,
-        updated_at
-      FROM devices
-      WHERE imei = ${req.deviceImei}
-    `;
+    const startTime = Date.now();
+    const device = await getDeviceByIdentifier(req.deviceImei, "imei");
 
     let trustScore = 50;
     let verified = false;
@@ -65,16 +57,16 @@ export const verifyListing = api(
     let blockListing = false;
 
     if (device) {
-      trustScore = parseFloat(device.trust_score) || 0;
+      trustScore = device.trustScore ?? 0;
       status = device.status;
-      verified = status === "verified";
+      verified = status === "clean";
 
-      if (status === "stolen" || status === "reported") {
+      if (status === "stolen") {
         blockListing = true;
         warnings.push("Device has been reported as stolen or lost");
         recommendations.push("Do not proceed with this listing - device is flagged in our system");
       } else if (status === "flagged") {
-        warnings.push(`Device is flagged: ${device.flagged_reason || "Unknown reason"}`);
+        warnings.push(`Device is flagged: ${device.flaggedReason || "Unknown reason"}`);
         recommendations.push("Verify seller identity and request additional proof of ownership");
       }
 
@@ -85,32 +77,49 @@ export const verifyListing = api(
         warnings.push("Moderate trust score - limited verification history");
       }
 
-      if (parseInt(device.report_count) > 0) {
-        warnings.push(`Device has ${device.report_count} report(s) on file`);
+      if (device.reportCount > 0) {
+        warnings.push(`Device has ${device.reportCount} report(s) on file`);
       }
 
-      if (parseInt(device.verification_count) === 0) {
+      if (device.verificationCount === 0) {
         recommendations.push("This is the first verification - recommend seller verification badge program");
       }
 
-      await verificationDB.exec`
-        INSERT INTO verification_logs (device_id, verified_by, verification_type, result, metadata)
-        VALUES (
-          ${device.id},
-          ${req.sellerId},
-          'marketplace_listing',
-          ${verified ? 'verified' : 'failed'},
-          ${JSON.stringify({ listingId: req.listingId, marketplace: req.marketplace, price: req.price })}
-        )
-      `;
+      await logVerification({
+        deviceId: device.id,
+        verificationType: "marketplace_listing",
+        identifier: req.deviceImei,
+        identifierType: "imei",
+        resultStatus: "found",
+        responseTimeMs: Date.now() - startTime,
+        metadata: {
+          listingId: req.listingId,
+          sellerId: req.sellerId,
+          marketplace: req.marketplace,
+          price: req.price,
+          verified,
+        },
+      });
     } else {
       warnings.push("Device not found in verification database");
       recommendations.push("Device should be registered and verified before listing");
+
+      await logVerification({
+        verificationType: "marketplace_listing",
+        identifier: req.deviceImei,
+        identifierType: "imei",
+        resultStatus: "not_found",
+        responseTimeMs: Date.now() - startTime,
+        metadata: {
+          listingId: req.listingId,
+          sellerId: req.sellerId,
+          marketplace: req.marketplace,
+          price: req.price,
+        },
+      });
       
-      await verificationDB.exec`
-        INSERT INTO devices (imei, status, trust_score, source)
-        VALUES (${req.deviceImei}, 'pending', 0, 'marketplace')
-      `;
+      const pending = await createPendingDevice(req.deviceImei, "marketplace");
+      await publishDeviceChanged(pending.id, "device_registered");
     }
 
     await verificationDB.exec`
@@ -132,11 +141,11 @@ export const verifyListing = api(
       blockListing,
       deviceInfo: {
         imei: req.deviceImei,
-        manufacturer: device?.manufacturer,
+        manufacturer: device?.brand,
         model: device?.model,
-        verificationCount: device ? parseInt(device.verification_count) : 0,
-        reportCount: device ? parseInt(device.report_count) : 0,
-        lastVerified: device?.updated_at,
+        verificationCount: device?.verificationCount ?? 0,
+        reportCount: device?.reportCount ?? 0,
+        lastVerified: device?.updatedAt,
       },
     };
   }
@@ -157,8 +166,17 @@ interface BulkListingVerificationResponse {
 }
 
 export const verifyBulkListings = api(
-  { method: "POST", path: "/marketplace/listings/verify-bulk", expose: true, auth: true },
+  { method: "POST", path: "/marketplace/listings/verify-bulk", expose: true, auth: true, tags: ["metered"] },
   async (req: BulkListingVerificationRequest): Promise<BulkListingVerificationResponse> => {
+    try {
+      validateArray(req.listings, "Listings", 1, MAX_BATCH_ITEMS);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
     const results: ListingVerificationResponse[] = [];
 
     for (const listing of req.listings) {
@@ -194,15 +212,15 @@ export const handleWebhook = api(
     `;
 
     if (event.eventType === "listing_sold" && event.deviceImei) {
-      const device = await verificationDB.queryRow`
-        SELECT id FROM devices WHERE imei = ${event.deviceImei}
-      `;
+      const device = await getDeviceByIdentifier(event.deviceImei, "imei");
 
       if (device) {
         await verificationDB.exec`
-          INSERT INTO lifecycle_events (device_id, event_type, metadata)
-          VALUES (${device.id}, 'ownership_transfer', ${JSON.stringify({ source: 'marketplace', listingId: event.listingId })})
+          INSERT INTO product_lifecycle (device_id, event_category, event_data, event_source)
+          VALUES (${device.id}, 'ownership', ${JSON.stringify({ type: 'ownership_transfer', listingId: event.listingId })}, 'marketplace')
         `;
+
+        await publishDeviceChanged(device.id, "ownership_transfer");
       }
     }
 
@@ -230,9 +248,10 @@ export const getMarketplaceAnalytics = api(
     const stats = await verificationDB.queryRow`
       SELECT 
         COUNT(*) as total_listings,
-        COUNT(*) FILTER (WHERE verification_status = 'verified') as verified_listings,
+        -- verifyListing stores the device status and counts a listing as verified when it is clean
+        COUNT(*) FILTER (WHERE verification_status = 'clean') as verified_listings,
         COUNT(*) FILTER (WHERE block_listing = true) as blocked_listings,
-        AVG(d.trust_score) as avg_trust_score
+        AVG(d.current_trust_score) as avg_trust_score
       FROM marketplace_listings ml
       LEFT JOIN devices d ON ml.device_imei = d.imei
     `;
@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS partner_api_keys (
+  id BIGSERIAL PRIMARY KEY,
+  partner_id BIGINT REFERENCES partners(id) ON DELETE CASCADE,
+  api_key_hash VARCHAR(64) UNIQUE NOT NULL,
+  scopes TEXT[] NOT NULL DEFAULT '{read}',
+  expires_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_partner_api_keys_partner ON partner_api_keys(partner_id);
+
+-- Carry existing plaintext partner keys over as hashed keys
+INSERT INTO partner_api_keys (partner_id, api_key_hash, scopes)
+SELECT id, encode(sha256(api_key::bytea), 'hex'), ARRAY['read', 'write']
+FROM partners
+ON CONFLICT (api_key_hash) DO NOTHING;
@@ -0,0 +1,12 @@
+ALTER TABLE partner_api_keys
+ADD COLUMN IF NOT EXISTS name VARCHAR(255),
+ADD COLUMN IF NOT EXISTS key_prefix VARCHAR(32),
+ADD COLUMN IF NOT EXISTS last_used_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS rotated_from_id BIGINT REFERENCES partner_api_keys(id);
+
+-- Keys carried over from partners.api_key become each partner's primary admin key
+UPDATE partner_api_keys
+SET name = 'Primary key', scopes = ARRAY['read', 'write', 'admin']
+WHERE name IS NULL;
+
+ALTER TABLE partner_api_keys ALTER COLUMN name SET NOT NULL;
@@ -0,0 +1,20 @@
+CREATE TABLE rate_limit_windows (
+  bucket_key VARCHAR(255) NOT NULL,
+  window_start TIMESTAMP NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (bucket_key, window_start)
+);
+
+CREATE TABLE partner_usage (
+  id BIGSERIAL PRIMARY KEY,
+  partner_id BIGINT REFERENCES partners(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL, -- first day of the billing month
+  endpoint VARCHAR(100) NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  unit_count INTEGER NOT NULL DEFAULT 0, -- devices or listings verified
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(partner_id, period_start, endpoint)
+);
+
+CREATE INDEX idx_rate_limit_windows_start ON rate_limit_windows(window_start);
+CREATE INDEX idx_partner_usage_partner_period ON partner_usage(partner_id, period_start);
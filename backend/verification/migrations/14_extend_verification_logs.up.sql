@@ -0,0 +1,4 @@
+ALTER TABLE verification_logs ADD COLUMN IF NOT EXISTS response_time_ms INTEGER;
+ALTER TABLE verification_logs ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_verification_logs_partner_created ON verification_logs(partner_id, created_at DESC);
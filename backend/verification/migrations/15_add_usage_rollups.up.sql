@@ -0,0 +1,26 @@
+CREATE TABLE verification_usage_hourly (
+  partner_id BIGINT NOT NULL REFERENCES partners(id) ON DELETE CASCADE,
+  hour_start TIMESTAMP NOT NULL,
+  total_count INTEGER NOT NULL DEFAULT 0,
+  found_count INTEGER NOT NULL DEFAULT 0,
+  not_found_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  response_time_histogram INTEGER[] NOT NULL DEFAULT '{}', -- counts per response time bucket
+  PRIMARY KEY (partner_id, hour_start)
+);
+
+CREATE TABLE verification_usage_devices_hourly (
+  partner_id BIGINT NOT NULL REFERENCES partners(id) ON DELETE CASCADE,
+  hour_start TIMESTAMP NOT NULL,
+  brand VARCHAR(255) NOT NULL,
+  model VARCHAR(255) NOT NULL,
+  verification_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (partner_id, hour_start, brand, model)
+);
+
+-- Tracks the first hour that has not yet been rolled up.
+CREATE TABLE usage_rollup_state (
+  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  rolled_up_until TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
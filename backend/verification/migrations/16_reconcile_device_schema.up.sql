@@ -0,0 +1,31 @@
+-- Reconciles the devices table with the columns later features were written against.
+-- manufacturer, trust_score and lifecycle_events were never created; their canonical
+-- equivalents are brand, current_trust_score and product_lifecycle.
+
+ALTER TABLE devices ADD COLUMN IF NOT EXISTS verification_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE devices ADD COLUMN IF NOT EXISTS report_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE devices ADD COLUMN IF NOT EXISTS flagged_reason TEXT;
+ALTER TABLE devices ADD COLUMN IF NOT EXISTS source VARCHAR(50) NOT NULL DEFAULT 'registry'; -- registry, marketplace, partner
+
+-- Devices first seen through a marketplace listing are only known by IMEI.
+ALTER TABLE devices ALTER COLUMN serial_number DROP NOT NULL;
+
+UPDATE devices d SET
+  verification_count = (
+    SELECT COUNT(*) FROM verification_logs vl
+    WHERE vl.device_id = d.id AND vl.result_status = 'found'
+  ),
+  report_count = (
+    SELECT COUNT(*) FROM reports r WHERE r.device_id = d.id
+  );
+
+UPDATE devices d SET flagged_reason = (
+  SELECT r.description FROM reports r
+  WHERE r.device_id = d.id
+  ORDER BY r.created_at DESC
+  LIMIT 1
+)
+WHERE d.status IN ('flagged', 'under_investigation');
+
+CREATE INDEX IF NOT EXISTS idx_devices_verification_count ON devices(verification_count);
+CREATE INDEX IF NOT EXISTS idx_devices_composite_search ON devices(status, current_trust_score, verification_count);
@@ -0,0 +1,22 @@
+-- Collapse the status vocabularies used by different modules onto one canonical set.
+UPDATE devices SET status = 'clean' WHERE status = 'verified';
+UPDATE devices SET status = 'under_investigation' WHERE status IN ('reported', 'under_review');
+UPDATE devices SET status = 'pending'
+WHERE status NOT IN ('pending', 'clean', 'under_investigation', 'flagged', 'stolen');
+
+ALTER TABLE devices ADD CONSTRAINT devices_status_check
+  CHECK (status IN ('pending', 'clean', 'under_investigation', 'flagged', 'stolen'));
+
+CREATE TABLE device_status_transitions (
+  id BIGSERIAL PRIMARY KEY,
+  device_id BIGINT NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+  from_status VARCHAR(50) NOT NULL,
+  to_status VARCHAR(50) NOT NULL,
+  actor_type VARCHAR(50) NOT NULL, -- system, reporter, partner, law_enforcement, moderator, owner
+  actor_id VARCHAR(255),
+  reason TEXT NOT NULL,
+  report_id BIGINT REFERENCES reports(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_device_status_transitions_device ON device_status_transitions(device_id, created_at DESC);
@@ -0,0 +1,37 @@
+-- Reports move through a moderation queue: pending -> under_review -> (evidence_requested | disputed)
+-- -> verified | rejected.
+ALTER TABLE reports
+  ADD COLUMN assigned_to VARCHAR(255),
+  ADD COLUMN assigned_at TIMESTAMP,
+  ADD COLUMN evidence_requested_at TIMESTAMP,
+  ADD COLUMN resolution_note TEXT,
+  ADD COLUMN resolved_by VARCHAR(255),
+  ADD COLUMN resolved_at TIMESTAMP,
+  ADD COLUMN updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+
+UPDATE reports SET status = 'pending'
+WHERE status IS NULL
+   OR status NOT IN ('pending', 'under_review', 'evidence_requested', 'disputed', 'verified', 'rejected');
+
+UPDATE reports SET resolved_at = created_at WHERE status IN ('verified', 'rejected');
+
+ALTER TABLE reports
+  ALTER COLUMN status SET NOT NULL,
+  ADD CONSTRAINT reports_status_check
+    CHECK (status IN ('pending', 'under_review', 'evidence_requested', 'disputed', 'verified', 'rejected'));
+
+-- Every moderation step, reporter follow-up and owner dispute, oldest first.
+CREATE TABLE report_actions (
+  id BIGSERIAL PRIMARY KEY,
+  report_id BIGINT NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+  action VARCHAR(50) NOT NULL, -- assign, request_evidence, submit_evidence, dispute, verify, reject
+  actor_type VARCHAR(50) NOT NULL, -- moderator, reporter, owner
+  actor_id VARCHAR(255) NOT NULL,
+  note TEXT,
+  evidence_urls TEXT[],
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_reports_status ON reports(status, created_at);
+CREATE INDEX idx_reports_assigned_to ON reports(assigned_to) WHERE assigned_to IS NOT NULL;
+CREATE INDEX idx_report_actions_report ON report_actions(report_id, created_at);
@@ -0,0 +1,37 @@
+-- Theft reports closed by a recovery keep their history but no longer count against the device.
+ALTER TABLE reports DROP CONSTRAINT reports_status_check;
+ALTER TABLE reports ADD CONSTRAINT reports_status_check
+  CHECK (status IN ('pending', 'under_review', 'evidence_requested', 'disputed', 'verified', 'rejected', 'recovered'));
+
+CREATE TABLE device_recoveries (
+  id BIGSERIAL PRIMARY KEY,
+  device_id BIGINT NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+  report_id BIGINT REFERENCES reports(id) ON DELETE SET NULL,
+  partner_id BIGINT REFERENCES partners(id),
+  actor_type VARCHAR(50) NOT NULL, -- law_enforcement, moderator, owner
+  actor_id VARCHAR(255) NOT NULL,
+  case_number VARCHAR(255),
+  notes TEXT,
+  previous_status VARCHAR(50) NOT NULL,
+  restored_status VARCHAR(50) NOT NULL,
+  recovered_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE reports ADD COLUMN recovery_id BIGINT REFERENCES device_recoveries(id) ON DELETE SET NULL;
+
+-- Notices for partners about devices they have looked up, delivered to partners.webhook_url
+-- when one is configured and otherwise left for the partner to fetch.
+CREATE TABLE partner_notifications (
+  id BIGSERIAL PRIMARY KEY,
+  partner_id BIGINT NOT NULL REFERENCES partners(id) ON DELETE CASCADE,
+  device_id BIGINT REFERENCES devices(id) ON DELETE CASCADE,
+  notification_type VARCHAR(50) NOT NULL, -- device_recovered
+  message TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  delivery_status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, sent, failed
+  sent_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_device_recoveries_device ON device_recoveries(device_id, recovered_at DESC);
+CREATE INDEX idx_partner_notifications_partner ON partner_notifications(partner_id, created_at DESC);
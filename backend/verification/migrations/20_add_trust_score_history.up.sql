@@ -0,0 +1,28 @@
+-- trust_scores keeps only the latest score per device; every calculation is also appended here.
+ALTER TABLE trust_scores ADD COLUMN algorithm_version VARCHAR(20) NOT NULL DEFAULT 'legacy';
+
+CREATE TABLE trust_score_history (
+  id BIGSERIAL PRIMARY KEY,
+  device_id BIGINT NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+  score INTEGER NOT NULL CHECK (score >= 0 AND score <= 100),
+  risk_category VARCHAR(20) NOT NULL CHECK (risk_category IN ('low', 'medium', 'high')),
+  ownership_continuity_score INTEGER NOT NULL DEFAULT 0,
+  history_completeness_score INTEGER NOT NULL DEFAULT 0,
+  repair_history_score INTEGER NOT NULL DEFAULT 0,
+  dispute_penalty INTEGER NOT NULL DEFAULT 0,
+  algorithm_version VARCHAR(20) NOT NULL,
+  trigger VARCHAR(50) NOT NULL DEFAULT 'manual', -- manual or the device change that caused the recalculation
+  calculated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO trust_score_history (
+  device_id, score, risk_category, ownership_continuity_score, history_completeness_score,
+  repair_history_score, dispute_penalty, algorithm_version, trigger, calculated_at
+)
+SELECT device_id, score, risk_category, COALESCE(ownership_continuity_score, 0),
+       COALESCE(history_completeness_score, 0), COALESCE(repair_history_score, 0),
+       COALESCE(dispute_penalty, 0), 'legacy', 'backfill', COALESCE(calculated_at, CURRENT_TIMESTAMP)
+FROM trust_scores
+WHERE device_id IS NOT NULL;
+
+CREATE INDEX idx_trust_score_history_device ON trust_score_history(device_id, calculated_at DESC);
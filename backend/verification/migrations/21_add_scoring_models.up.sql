@@ -0,0 +1,17 @@
+-- Versioned trust scoring configurations. The built-in "standard" model lives in code and is
+-- used whenever a partner has not selected one of these.
+CREATE TABLE scoring_models (
+  id BIGSERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  version INTEGER NOT NULL,
+  description TEXT,
+  config JSONB NOT NULL,
+  created_by_partner_id BIGINT REFERENCES partners(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (name, version)
+);
+
+ALTER TABLE partners ADD COLUMN scoring_model_id BIGINT REFERENCES scoring_models(id);
+
+ALTER TABLE trust_scores ADD COLUMN model_version VARCHAR(120) NOT NULL DEFAULT 'standard@1';
+ALTER TABLE trust_score_history ADD COLUMN model_version VARCHAR(120) NOT NULL DEFAULT 'standard@1';
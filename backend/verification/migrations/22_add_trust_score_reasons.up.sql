@@ -0,0 +1,3 @@
+-- Itemized reason codes behind the latest score. Rows calculated before this migration keep an
+-- empty list until the device is next re-scored.
+ALTER TABLE trust_scores ADD COLUMN reasons JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,39 @@
+-- Every comparison of submitted fingerprint data against a device's stored fingerprint, so
+-- repeated mismatches can be detected.
+CREATE TABLE fingerprint_checks (
+  id BIGSERIAL PRIMARY KEY,
+  device_id BIGINT NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+  match_score INTEGER NOT NULL,
+  is_mismatch BOOLEAN NOT NULL,
+  ip_address INET,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE anomaly_alerts (
+  id BIGSERIAL PRIMARY KEY,
+  device_id BIGINT NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+  anomaly_type VARCHAR(50) NOT NULL
+    CHECK (anomaly_type IN ('lookup_burst', 'country_hopping', 'multi_seller_listing', 'fingerprint_mismatch')),
+  severity VARCHAR(20) NOT NULL CHECK (severity IN ('medium', 'high')),
+  details JSONB NOT NULL DEFAULT '{}',
+  -- cleared: the signal left its detection window before anyone resolved the alert
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'resolved', 'cleared')),
+  acknowledged_by VARCHAR(255),
+  acknowledged_at TIMESTAMP,
+  resolved_by VARCHAR(255),
+  resolution_note TEXT,
+  resolved_at TIMESTAMP,
+  detected_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_seen_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE trust_scores ADD COLUMN anomaly_penalty INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE trust_score_history ADD COLUMN anomaly_penalty INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_fingerprint_checks_device ON fingerprint_checks(device_id, created_at DESC);
+CREATE INDEX idx_fingerprint_checks_created ON fingerprint_checks(created_at);
+-- At most one active alert per device and signal; it is refreshed while the signal persists
+CREATE UNIQUE INDEX idx_anomaly_alerts_active ON anomaly_alerts(device_id, anomaly_type)
+  WHERE status IN ('open', 'acknowledged');
+CREATE INDEX idx_anomaly_alerts_status ON anomaly_alerts(status, detected_at DESC);
+CREATE INDEX idx_marketplace_listings_created ON marketplace_listings(created_at);
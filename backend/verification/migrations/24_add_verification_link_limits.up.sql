@@ -0,0 +1,8 @@
+-- verification_links becomes the source of truth for shared links: optional use limits,
+-- revocation and access tracking.
+ALTER TABLE verification_links ADD COLUMN max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0);
+ALTER TABLE verification_links ADD COLUMN last_accessed_at TIMESTAMP;
+ALTER TABLE verification_links ADD COLUMN revoked_at TIMESTAMP;
+ALTER TABLE verification_links ADD COLUMN revoked_by VARCHAR(255);
+
+CREATE INDEX idx_verification_links_device ON verification_links(device_id);
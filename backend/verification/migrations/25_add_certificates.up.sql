@@ -0,0 +1,14 @@
+-- Signed verification certificates. JSONB doesn't keep the signed bytes, so the attestation is
+-- re-canonicalized with canonicalJson before its signature is verified.
+CREATE TABLE certificates (
+  id BIGSERIAL PRIMARY KEY,
+  certificate_id VARCHAR(64) UNIQUE NOT NULL,
+  verification_id VARCHAR(255) UNIQUE NOT NULL,
+  device_id BIGINT NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+  attestation JSONB NOT NULL,
+  signature TEXT NOT NULL,
+  key_id VARCHAR(64) NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_certificates_device ON certificates(device_id);
@@ -0,0 +1,21 @@
+-- What each /verify call returned, kept so the result shown at the time can be proven later.
+CREATE TABLE verification_sessions (
+  id BIGSERIAL PRIMARY KEY,
+  verification_id VARCHAR(255) UNIQUE NOT NULL,
+  device_id BIGINT REFERENCES devices(id) ON DELETE SET NULL,
+  partner_id BIGINT REFERENCES partners(id),
+  identifier_used VARCHAR(255) NOT NULL,
+  identifier_type VARCHAR(50) NOT NULL,
+  device_status VARCHAR(50) NOT NULL,
+  confidence INTEGER NOT NULL,
+  trust_score INTEGER,
+  risk_category VARCHAR(20),
+  data_sources_checked TEXT[] NOT NULL DEFAULT '{}',
+  response JSONB NOT NULL,
+  -- SHA-256 of the canonical JSON of the response
+  snapshot_hash VARCHAR(64) NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_verification_sessions_device ON verification_sessions(device_id, created_at DESC);
+CREATE INDEX idx_verification_sessions_partner ON verification_sessions(partner_id, created_at DESC);
@@ -0,0 +1,22 @@
+ALTER TABLE verification_nodes
+  ADD COLUMN health_url TEXT,
+  -- Bumped on every key rotation; the node key is derived from it (see node_registry.ts)
+  ADD COLUMN api_key_version INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN disabled_at TIMESTAMP,
+  ADD COLUMN disabled_reason TEXT,
+  ADD COLUMN last_health_status VARCHAR(20), -- up, down
+  ADD COLUMN last_health_check_at TIMESTAMP,
+  ADD COLUMN updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+
+CREATE TABLE node_health_checks (
+  id BIGSERIAL PRIMARY KEY,
+  node_id BIGINT NOT NULL REFERENCES verification_nodes(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL, -- up, down
+  latency_ms INTEGER,
+  http_status INTEGER,
+  error TEXT,
+  checked_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_node_health_checks_node_checked ON node_health_checks(node_id, checked_at DESC);
+CREATE INDEX idx_node_health_checks_checked ON node_health_checks(checked_at);
@@ -0,0 +1,36 @@
+CREATE TABLE ledger_blocks (
+  block_number BIGINT PRIMARY KEY,
+  previous_hash TEXT NOT NULL,
+  merkle_root TEXT NOT NULL,
+  record_count INTEGER NOT NULL,
+  block_hash TEXT UNIQUE NOT NULL,
+  sealed_at TIMESTAMPTZ NOT NULL
+);
+
+-- Sealed blocks are immutable; rewriting one would break every later block's link.
+CREATE FUNCTION reject_ledger_block_change() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'ledger_blocks is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER ledger_blocks_append_only
+  BEFORE UPDATE OR DELETE ON ledger_blocks
+  FOR EACH ROW EXECUTE FUNCTION reject_ledger_block_change();
+
+-- Records now wait for the next block to be sealed. imei and recorded_at complete the hashed
+-- payload; records written before the ledger have neither and can't be proven.
+ALTER TABLE blockchain_records
+  ALTER COLUMN block_number DROP NOT NULL,
+  ALTER COLUMN merkle_root DROP NOT NULL,
+  ALTER COLUMN verified SET DEFAULT false,
+  ADD COLUMN imei TEXT,
+  ADD COLUMN recorded_at TIMESTAMPTZ,
+  ADD COLUMN leaf_index INTEGER;
+
+-- Block numbers before the ledger were timestamps, not blocks.
+UPDATE blockchain_records SET block_number = NULL, verified = false;
+
+CREATE INDEX idx_blockchain_records_pending ON blockchain_records(recorded_at)
+  WHERE block_number IS NULL AND recorded_at IS NOT NULL;
+CREATE INDEX idx_blockchain_records_block ON blockchain_records(block_number, leaf_index);
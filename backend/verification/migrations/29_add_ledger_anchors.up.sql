@@ -0,0 +1,16 @@
+CREATE TABLE ledger_anchors (
+  id BIGSERIAL PRIMARY KEY,
+  -- The anchored digest is this block's hash, which commits to every earlier block.
+  block_number BIGINT NOT NULL REFERENCES ledger_blocks(block_number),
+  block_hash TEXT NOT NULL,
+  backend VARCHAR(20) NOT NULL, -- rfc3161, evm
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, confirmed, failed
+  reference TEXT,
+  receipt JSONB NOT NULL DEFAULT '{}',
+  error TEXT,
+  submitted_at TIMESTAMPTZ DEFAULT NOW(),
+  confirmed_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_ledger_anchors_status_block ON ledger_anchors(status, block_number DESC);
+CREATE INDEX idx_ledger_anchors_submitted ON ledger_anchors(submitted_at DESC);
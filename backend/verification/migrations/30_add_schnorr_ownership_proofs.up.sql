@@ -0,0 +1,15 @@
+-- Owner commitments are now 2048-bit group elements (512 hex characters).
+ALTER TABLE zkp_proofs
+  ALTER COLUMN owner_commitment TYPE TEXT,
+  ADD COLUMN proof JSONB; -- Schnorr proof and the claim it was made for; NULL for hash-only legacy proofs
+
+CREATE UNIQUE INDEX idx_zkp_proofs_proof_hash ON zkp_proofs(proof_hash) WHERE proof IS NOT NULL;
+CREATE INDEX idx_zkp_proofs_verification_hash ON zkp_proofs(verification_hash);
+
+-- The public key an owner proves knowledge of, bound once per ownership record. A transfer
+-- creates a new record, so the previous owner's proofs stop verifying.
+ALTER TABLE ownership_history
+  ADD COLUMN owner_commitment TEXT,
+  ADD COLUMN owner_commitment_bound_at TIMESTAMP;
+
+CREATE INDEX idx_ownership_history_current ON ownership_history(device_id) WHERE is_current_owner = true;
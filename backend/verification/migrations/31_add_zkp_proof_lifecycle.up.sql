@@ -0,0 +1,18 @@
+ALTER TABLE zkp_proofs
+  ADD COLUMN claim_type VARCHAR(50),
+  ADD COLUMN expires_at TIMESTAMP,
+  ADD COLUMN revoked_at TIMESTAMP,
+  ADD COLUMN revocation_reason TEXT,
+  -- A newer proof for the same device and claim replaces this one
+  ADD COLUMN superseded_by BIGINT REFERENCES zkp_proofs(id) ON DELETE SET NULL,
+  ADD COLUMN verification_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN last_verified_at TIMESTAMP,
+  ADD COLUMN last_verified_by_partner_id BIGINT REFERENCES partners(id) ON DELETE SET NULL,
+  ADD COLUMN last_verification_result BOOLEAN;
+
+UPDATE zkp_proofs
+SET claim_type = proof->>'claimType',
+    expires_at = created_at + INTERVAL '30 days'
+WHERE proof IS NOT NULL;
+
+CREATE INDEX idx_zkp_proofs_device_claim ON zkp_proofs(device_id, claim_type, created_at DESC);
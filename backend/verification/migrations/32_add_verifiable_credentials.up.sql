@@ -0,0 +1,32 @@
+-- W3C Bitstring Status Lists. Bit i of a list is set when the credential at index i is revoked.
+CREATE TABLE credential_status_lists (
+  id BIGSERIAL PRIMARY KEY,
+  purpose VARCHAR(20) NOT NULL DEFAULT 'revocation',
+  size INTEGER NOT NULL,
+  next_index INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Issued SD-JWT credentials. Disclosures are handed to the holder and not kept, so the
+-- owner alias they may contain is only stored in ownership_history.
+CREATE TABLE verifiable_credentials (
+  id BIGSERIAL PRIMARY KEY,
+  credential_id VARCHAR(64) UNIQUE NOT NULL,
+  device_id BIGINT NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+  -- The ownership record the holder proved; a transfer revokes the credential.
+  ownership_record_id BIGINT REFERENCES ownership_history(id) ON DELETE SET NULL,
+  claim_types TEXT[] NOT NULL,
+  trust_threshold INTEGER,
+  holder_key_thumbprint VARCHAR(64) NOT NULL,
+  status_list_id BIGINT NOT NULL REFERENCES credential_status_lists(id),
+  status_list_index INTEGER NOT NULL,
+  key_id VARCHAR(64) NOT NULL,
+  issued_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP,
+  revocation_reason TEXT,
+  UNIQUE (status_list_id, status_list_index)
+);
+
+CREATE INDEX idx_verifiable_credentials_device_active ON verifiable_credentials(device_id) WHERE revoked_at IS NULL;
+CREATE INDEX idx_verifiable_credentials_revoked ON verifiable_credentials(status_list_id) WHERE revoked_at IS NOT NULL;
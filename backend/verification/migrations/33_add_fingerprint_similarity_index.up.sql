@@ -0,0 +1,10 @@
+-- LSH buckets of the normalised sensor vectors (see fingerprint_similarity.ts). Rows written
+-- before indexing, or under an older LSH version, are filled in by the index-fingerprints cron.
+ALTER TABLE device_fingerprints
+  ADD COLUMN lsh_buckets INTEGER[] NOT NULL DEFAULT '{}',
+  ADD COLUMN lsh_version SMALLINT;
+
+CREATE INDEX idx_device_fingerprints_lsh ON device_fingerprints USING GIN (lsh_buckets);
+CREATE INDEX idx_device_fingerprints_lsh_version ON device_fingerprints(lsh_version);
+CREATE INDEX idx_device_fingerprints_cpu_gpu ON device_fingerprints(cpu_gpu_id) WHERE cpu_gpu_id IS NOT NULL;
+CREATE INDEX idx_device_fingerprints_macs ON device_fingerprints USING GIN (mac_addresses);
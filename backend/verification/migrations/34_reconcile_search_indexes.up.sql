@@ -0,0 +1,19 @@
+-- Creates the search indexes migrations 8 and 10 once declared on columns and tables that didn't
+-- exist, on the canonical ones reconciled in migration 16: brand instead of manufacturer,
+-- current_trust_score instead of trust_score, and product_lifecycle instead of lifecycle_events.
+-- partner_api_keys.api_key_hash already has a unique index, so no extra lookup index is needed.
+-- The drops clean up databases where the old indexes were created by hand.
+
+DROP INDEX IF EXISTS idx_devices_manufacturer;
+CREATE INDEX IF NOT EXISTS idx_devices_brand ON devices(brand);
+
+DROP INDEX IF EXISTS idx_devices_trust_score;
+CREATE INDEX idx_devices_trust_score ON devices(current_trust_score);
+
+DROP INDEX IF EXISTS idx_devices_composite_search;
+CREATE INDEX idx_devices_composite_search ON devices(status, current_trust_score, verification_count);
+
+DROP INDEX IF EXISTS idx_lifecycle_events_device_date;
+CREATE INDEX IF NOT EXISTS idx_product_lifecycle_device_date ON product_lifecycle(device_id, created_at DESC);
+
+DROP INDEX IF EXISTS idx_partner_api_keys_key;
@@ -0,0 +1,128 @@
+-- Devices created from marketplace and partner lookups are known only by IMEI, so there is one
+-- per IMEI. Earlier lookups inserted a new pending device each time; fold those duplicates into
+-- the oldest one before enforcing uniqueness. Everything that references a duplicate moves to the
+-- surviving device, so deleting the duplicates cascades to nothing that isn't kept elsewhere.
+
+CREATE TEMP TABLE duplicate_pending_devices AS
+SELECT id, MIN(id) OVER (PARTITION BY imei) AS keep_id
+FROM devices
+WHERE source <> 'registry';
+
+DELETE FROM duplicate_pending_devices WHERE id = keep_id;
+
+UPDATE devices kept SET
+  verification_count = kept.verification_count + merged.verification_count,
+  report_count = kept.report_count + merged.report_count
+FROM (
+  SELECT d.keep_id, SUM(dev.verification_count) AS verification_count, SUM(dev.report_count) AS report_count
+  FROM duplicate_pending_devices d
+  JOIN devices dev ON dev.id = d.id
+  GROUP BY d.keep_id
+) merged
+WHERE kept.id = merged.keep_id;
+
+-- The surviving device takes the most severe status of the group, as its reports now all point to it.
+UPDATE devices kept SET status = worst.status, flagged_reason = worst.flagged_reason
+FROM (
+  SELECT DISTINCT ON (d.keep_id) d.keep_id, dev.status, dev.flagged_reason,
+    CASE dev.status WHEN 'stolen' THEN 4 WHEN 'flagged' THEN 3 WHEN 'under_investigation' THEN 2 WHEN 'pending' THEN 1 ELSE 0 END AS severity
+  FROM duplicate_pending_devices d
+  JOIN devices dev ON dev.id = d.id
+  ORDER BY d.keep_id, severity DESC, dev.id
+) worst
+WHERE kept.id = worst.keep_id
+  AND worst.severity > CASE kept.status WHEN 'stolen' THEN 4 WHEN 'flagged' THEN 3 WHEN 'under_investigation' THEN 2 WHEN 'pending' THEN 1 ELSE 0 END;
+
+-- A device has at most one trust score, fingerprint and badge. The surviving device keeps its
+-- own and takes a duplicate's only when it has none; the rest are removed with the duplicates.
+UPDATE trust_scores t SET device_id = moved.keep_id
+FROM (
+  SELECT DISTINCT ON (d.keep_id) d.keep_id, t.id
+  FROM duplicate_pending_devices d
+  JOIN trust_scores t ON t.device_id = d.id
+  WHERE NOT EXISTS (SELECT 1 FROM trust_scores k WHERE k.device_id = d.keep_id)
+  ORDER BY d.keep_id, t.calculated_at DESC
+) moved
+WHERE t.id = moved.id;
+
+UPDATE device_fingerprints f SET device_id = moved.keep_id
+FROM (
+  SELECT DISTINCT ON (d.keep_id) d.keep_id, f.id
+  FROM duplicate_pending_devices d
+  JOIN device_fingerprints f ON f.device_id = d.id
+  WHERE NOT EXISTS (SELECT 1 FROM device_fingerprints k WHERE k.device_id = d.keep_id)
+  ORDER BY d.keep_id, f.id DESC
+) moved
+WHERE f.id = moved.id;
+
+UPDATE verification_badges b SET entity_id = moved.keep_id
+FROM (
+  SELECT DISTINCT ON (d.keep_id) d.keep_id, b.id
+  FROM duplicate_pending_devices d
+  JOIN verification_badges b ON b.entity_id = d.id
+  WHERE NOT EXISTS (SELECT 1 FROM verification_badges k WHERE k.entity_id = d.keep_id)
+  ORDER BY d.keep_id, b.id DESC
+) moved
+WHERE b.id = moved.id;
+
+-- Watchers are unique per email.
+UPDATE device_watchers w SET device_id = moved.keep_id
+FROM (
+  SELECT DISTINCT ON (d.keep_id, w.user_email) d.keep_id, w.id
+  FROM duplicate_pending_devices d
+  JOIN device_watchers w ON w.device_id = d.id
+  WHERE NOT EXISTS (SELECT 1 FROM device_watchers k WHERE k.device_id = d.keep_id AND k.user_email = w.user_email)
+  ORDER BY d.keep_id, w.user_email, w.id
+) moved
+WHERE w.id = moved.id;
+
+-- Only one alert per device and signal may be active. The surviving device's own alert, or else
+-- the most recently seen one, stays active and the others are resolved before they move.
+UPDATE anomaly_alerts a SET
+  status = 'resolved',
+  resolved_by = 'system',
+  resolved_at = CURRENT_TIMESTAMP,
+  resolution_note = 'Merged into the active alert on device ' || ranked.keep_id
+FROM (
+  SELECT a.id, g.keep_id,
+    ROW_NUMBER() OVER (
+      PARTITION BY g.keep_id, a.anomaly_type
+      ORDER BY (a.device_id = g.keep_id) DESC, a.last_seen_at DESC
+    ) AS position
+  FROM anomaly_alerts a
+  JOIN (
+    SELECT id, keep_id FROM duplicate_pending_devices
+    UNION SELECT keep_id, keep_id FROM duplicate_pending_devices
+  ) g ON a.device_id = g.id
+  WHERE a.status IN ('open', 'acknowledged')
+) ranked
+WHERE a.id = ranked.id AND ranked.position > 1;
+
+-- Every other table that references a device has no uniqueness on it, so all its rows move.
+DO $$
+DECLARE
+  fk RECORD;
+BEGIN
+  FOR fk IN
+    SELECT c.conrelid::regclass AS referencing_table, a.attname AS referencing_column
+    FROM pg_constraint c
+    JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = c.conkey[1]
+    WHERE c.contype = 'f'
+      AND c.confrelid = 'devices'::regclass
+      AND c.conrelid NOT IN (
+        'trust_scores'::regclass, 'device_fingerprints'::regclass,
+        'verification_badges'::regclass, 'device_watchers'::regclass
+      )
+  LOOP
+    EXECUTE format(
+      'UPDATE %s t SET %I = d.keep_id FROM duplicate_pending_devices d WHERE t.%I = d.id',
+      fk.referencing_table, fk.referencing_column, fk.referencing_column
+    );
+  END LOOP;
+END $$;
+
+DELETE FROM devices WHERE id IN (SELECT id FROM duplicate_pending_devices);
+
+DROP TABLE duplicate_pending_devices;
+
+CREATE UNIQUE INDEX idx_devices_unregistered_imei ON devices(imei) WHERE source <> 'registry';
@@ -0,0 +1,9 @@
+-- Platform roles are assigned by the operators and decide who moderates reports and acts as law
+-- enforcement. Previously any key with the admin scope acted as a moderator, and every partner's
+-- primary key has admin (migration 12).
+ALTER TABLE partners
+ADD COLUMN IF NOT EXISTS platform_role VARCHAR(50)
+  CHECK (platform_role IN ('operator', 'law_enforcement'));
+
+-- Law-enforcement partners keep acting as law enforcement. Operators are assigned explicitly.
+UPDATE partners SET platform_role = 'law_enforcement' WHERE partner_type = 'law_enforcement';
@@ -0,0 +1,5 @@
+-- The partner that filed a report, and the partner that recorded an ownership. Those partners may
+-- act on the record without the owner's proof; anonymous reporters and owners are identified by
+-- their owner commitment, never by alias.
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS partner_id BIGINT REFERENCES partners(id);
+ALTER TABLE ownership_history ADD COLUMN IF NOT EXISTS partner_id BIGINT REFERENCES partners(id);
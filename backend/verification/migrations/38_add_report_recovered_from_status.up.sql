@@ -0,0 +1,12 @@
+-- Recovery closes a theft report, so keep whether it had been verified. The trust scorer weighs a
+-- recovered report from the penalty it carried before recovery.
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS recovered_from_status VARCHAR(50);
+
+UPDATE reports r
+SET recovered_from_status = CASE
+  WHEN EXISTS (
+    SELECT 1 FROM report_actions ra WHERE ra.report_id = r.id AND ra.action = 'verify'
+  ) THEN 'verified'
+  ELSE 'pending'
+END
+WHERE r.status = 'recovered';
@@ -0,0 +1,5 @@
+-- Fingerprint checks are only recorded for authenticated partners, and the mismatch signal counts
+-- distinct partners. Earlier anonymous checks no longer count towards it.
+ALTER TABLE fingerprint_checks ADD COLUMN IF NOT EXISTS partner_id BIGINT REFERENCES partners(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_fingerprint_checks_device_partner ON fingerprint_checks(device_id, partner_id);
@@ -8,8 +8,7 @@ CREATE TABLE IF NOT EXISTS saved_searches (
 
 CREATE INDEX idx_saved_searches_user ON saved_searches(user_id);
 
-CREATE INDEX IF NOT EXISTS idx_devices_manufacturer ON devices(manufacturer);
+-- Brand, trust score and verification count indexes are created in migrations 16 and 34, once
+-- those columns exist.
 CREATE INDEX IF NOT EXISTS idx_devices_model ON devices(model);
-CREATE INDEX IF NOT EXISTS idx_devices_trust_score ON devices(trust_score);
-CREATE INDEX IF NOT EXISTS idx_devices_verification_count ON devices(verification_count);
 CREATE INDEX IF NOT EXISTS idx_devices_status_updated ON devices(status, updated_at);
@@ -0,0 +1,611 @@
+import { api, APIError, Query } from "encore.dev/api";
+import { CronJob } from "encore.dev/cron";
+import { getAuthData } from "~encore/auth";
+import { lookup } from "dns/promises";
+import { fetch } from "undici";
+import { requireOperator } from "./auth";
+import { hashApiKey } from "./api_key_tokens";
+import { verificationDB } from "./db";
+import { deriveNodeApiKey, isCircuitOpen, nodeAuthToken } from "./federation";
+import { isInternalAddress, isInternalHostname, nodeDispatcher } from "./node_targets";
+import { validateEnum, validateNumber, validateString, validateURL, ValidationError } from "./validation";
+
+export const NODE_TYPES = ["stolen", "police", "insurer", "manufacturer"] as const;
+export type NodeType = typeof NODE_TYPES[number];
+export type NodeHealthStatus = "up" | "down";
+
+const HEALTH_CHECK_TIMEOUT_MS = 2000;
+const DEFAULT_HEALTH_WINDOW_HOURS = 24;
+const MAX_HEALTH_WINDOW_HOURS = 24 * 7;
+// Checks older than this are purged; it bounds the longest window that can be reported.
+const HEALTH_RETENTION_DAYS = 7;
+
+export interface NodeHealthSummary {
+  windowHours: number;
+  checks: number;
+  // Percentage of checks in the window that found the node up.
+  availability?: number;
+  averageLatencyMs?: number;
+  p95LatencyMs?: number;
+  lastStatus?: NodeHealthStatus;
+  lastCheckedAt?: Date;
+}
+
+export interface VerificationNode {
+  id: number;
+  nodeName: string;
+  nodeType: string;
+  endpointUrl: string;
+  healthUrl: string;
+  priority: number;
+  isActive: boolean;
+  disabledAt?: Date;
+  disabledReason?: string;
+  // Only the key's hash is stored; the first characters let operators confirm which key a node holds.
+  hasApiKey: boolean;
+  apiKeyFingerprint?: string;
+  // This instance has stopped calling the node after repeated failures.
+  circuitOpen: boolean;
+  health: NodeHealthSummary;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+interface NodeRow {
+  id: number;
+  node_name: string;
+  node_type: string;
+  endpoint_url: string;
+  health_url: string | null;
+  api_key_hash: string | null;
+  api_key_version: number;
+  is_active: boolean;
+  priority: number;
+  disabled_at: Date | null;
+  disabled_reason: string | null;
+  last_health_status: NodeHealthStatus | null;
+  last_health_check_at: Date | null;
+  created_at: Date;
+  updated_at: Date | null;
+}
+
+interface NodeHealthStatsRow {
+  node_id: number;
+  checks: number;
+  up_checks: number;
+  avg_latency_ms: number | null;
+  p95_latency_ms: number | null;
+}
+
+export interface ListNodesRequest {
+  includeDisabled?: Query<boolean>;
+  windowHours?: Query<number>;
+}
+
+export interface ListNodesResponse {
+  nodes: VerificationNode[];
+}
+
+// Lists federation nodes with their rolling health record.
+export const listNodes = api<ListNodesRequest, ListNodesResponse>(
+  { expose: true, method: "GET", path: "/nodes", auth: true },
+  async (req) => {
+    requireOperator(getAuthData()!);
+
+    const windowHours = req.windowHours ?? DEFAULT_HEALTH_WINDOW_HOURS;
+    try {
+      validateNumber(windowHours, "Window hours", 1, MAX_HEALTH_WINDOW_HOURS);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    const rows = await verificationDB.queryAll<NodeRow>`
+      SELECT id, node_name, node_type, endpoint_url, health_url, api_key_hash, api_key_version,
+             is_active, priority, disabled_at, disabled_reason, last_health_status,
+             last_health_check_at, created_at, updated_at
+      FROM verification_nodes
+      WHERE ${req.includeDisabled ?? true} OR is_active = true
+      ORDER BY priority ASC, id ASC
+    `;
+
+    const stats = await loadHealthStats(windowHours);
+
+    return { nodes: rows.map(row => toVerificationNode(row, windowHours, stats.get(row.id))) };
+  }
+);
+
+export interface RegisterNodeRequest {
+  nodeName: string;
+  nodeType: NodeType;
+  endpointUrl: string;
+  // Defaults to /health on the endpoint's host.
+  healthUrl?: string;
+  priority?: number;
+}
+
+export interface NodeKeyResponse {
+  // The node's key is only ever returned here; configure it on the node to accept our lookups.
+  apiKey: string;
+  node: VerificationNode;
+}
+
+// Registers a federation node and issues the key it should expect from this service.
+export const registerNode = api<RegisterNodeRequest, NodeKeyResponse>(
+  { expose: true, method: "POST", path: "/nodes", auth: true },
+  async (req) => {
+    requireOperator(getAuthData()!);
+
+    try {
+      validateNodeFields(req);
+      await validateNodeTargets(req);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    const tx = await verificationDB.begin();
+    try {
+      const inserted = await tx.queryRow<{ id: number }>`
+        INSERT INTO verification_nodes (node_name, node_type, endpoint_url, health_url, priority, api_key_version)
+        VALUES (${req.nodeName.trim()}, ${req.nodeType}, ${req.endpointUrl}, ${req.healthUrl ?? null},
+                ${req.priority ?? 1}, 1)
+        RETURNING id
+      `;
+
+      const apiKey = deriveNodeApiKey(inserted!.id, 1);
+      const row = await tx.queryRow<NodeRow>`
+        UPDATE verification_nodes
+        SET api_key_hash = ${hashApiKey(apiKey)}
+        WHERE id = ${inserted!.id}
+        RETURNING id, node_name, node_type, endpoint_url, health_url, api_key_hash, api_key_version,
+                  is_active, priority, disabled_at, disabled_reason, last_health_status,
+                  last_health_check_at, created_at, updated_at
+      `;
+
+      await tx.commit();
+      return { apiKey, node: toVerificationNode(row!, DEFAULT_HEALTH_WINDOW_HOURS) };
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+  }
+);
+
+export interface UpdateNodeRequest {
+  nodeId: number;
+  nodeName?: string;
+  nodeType?: NodeType;
+  endpointUrl?: string;
+  // null returns to the default health URL.
+  healthUrl?: string | null;
+  priority?: number;
+}
+
+export interface NodeResponse {
+  node: VerificationNode;
+}
+
+export interface UpdateNodeResponse extends NodeResponse {
+  // A new key, issued because the endpoint or health check host moved; configure it on the node.
+  apiKey?: string;
+}
+
+// Changes a node's name, type, endpoints or priority. Moving the endpoint, or the health check to
+// another host, issues the node a new key, so whoever ran the old host can't keep using the key it
+// was sent.
+export const updateNode = api<UpdateNodeRequest, UpdateNodeResponse>(
+  { expose: true, method: "PATCH", path: "/nodes/:nodeId", auth: true },
+  async (req) => {
+    requireOperator(getAuthData()!);
+
+    try {
+      validateNodeFields(req);
+      await validateNodeTargets(req);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    const existing = await getNodeRow(req.nodeId);
+    const endpointUrl = req.endpointUrl ?? existing.endpoint_url;
+    const healthUrl = req.healthUrl !== undefined ? req.healthUrl : existing.health_url;
+
+    // Health checks carry the node's key too, so it moves with either host
+    const endpointMoved = endpointUrl !== existing.endpoint_url;
+    const healthHostMoved =
+      new URL(healthUrlFor({ endpoint_url: endpointUrl, health_url: healthUrl })).host !==
+      new URL(healthUrlFor(existing)).host;
+    const rekey = endpointMoved || healthHostMoved;
+    const keyVersion = rekey ? existing.api_key_version + 1 : existing.api_key_version;
+    const apiKey = rekey ? deriveNodeApiKey(existing.id, keyVersion) : undefined;
+
+    const row = await verificationDB.queryRow<NodeRow>`
+      UPDATE verification_nodes
+      SET node_name = ${req.nodeName?.trim() ?? existing.node_name},
+          node_type = ${req.nodeType ?? existing.node_type},
+          endpoint_url = ${endpointUrl},
+          health_url = ${healthUrl},
+          priority = ${req.priority ?? existing.priority},
+          api_key_hash = ${apiKey ? hashApiKey(apiKey) : existing.api_key_hash},
+          api_key_version = ${keyVersion},
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ${req.nodeId}
+      RETURNING id, node_name, node_type, endpoint_url, health_url, api_key_hash, api_key_version,
+                is_active, priority, disabled_at, disabled_reason, last_health_status,
+                last_health_check_at, created_at, updated_at
+    `;
+
+    return { node: await withHealth(row!), apiKey };
+  }
+);
+
+export interface SetNodePriorityRequest {
+  nodeId: number;
+  // Lower numbers are queried first; nodes sharing a priority are queried in parallel.
+  priority: number;
+}
+
+// Moves a node to a different federation priority tier.
+export const setNodePriority = api<SetNodePriorityRequest, NodeResponse>(
+  { expose: true, method: "POST", path: "/nodes/:nodeId/priority", auth: true },
+  async (req) => {
+    requireOperator(getAuthData()!);
+
+    try {
+      validateNumber(req.priority, "Priority", 1, 100);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    const row = await verificationDB.queryRow<NodeRow>`
+      UPDATE verification_nodes
+      SET priority = ${req.priority}, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ${req.nodeId}
+      RETURNING id, node_name, node_type, endpoint_url, health_url, api_key_hash, api_key_version,
+                is_active, priority, disabled_at, disabled_reason, last_health_status,
+                last_health_check_at, created_at, updated_at
+    `;
+    if (!row) {
+      throw APIError.notFound("Node not found");
+    }
+
+    return { node: await withHealth(row) };
+  }
+);
+
+export interface DisableNodeRequest {
+  nodeId: number;
+  reason?: string;
+}
+
+// Stops querying a node during verification and health checks. The node keeps its history.
+export const disableNode = api<DisableNodeRequest, NodeResponse>(
+  { expose: true, method: "POST", path: "/nodes/:nodeId/disable", auth: true },
+  async (req) => {
+    requireOperator(getAuthData()!);
+
+    try {
+      if (req.reason !== undefined) {
+        validateString(req.reason, "Reason", 1, 500);
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    const row = await verificationDB.queryRow<NodeRow>`
+      UPDATE verification_nodes
+      SET is_active = false,
+          disabled_at = COALESCE(disabled_at, CURRENT_TIMESTAMP),
+          disabled_reason = ${req.reason ?? null},
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ${req.nodeId}
+      RETURNING id, node_name, node_type, endpoint_url, health_url, api_key_hash, api_key_version,
+                is_active, priority, disabled_at, disabled_reason, last_health_status,
+                last_health_check_at, created_at, updated_at
+    `;
+    if (!row) {
+      throw APIError.notFound("Node not found");
+    }
+
+    return { node: await withHealth(row) };
+  }
+);
+
+export interface EnableNodeRequest {
+  nodeId: number;
+}
+
+// Returns a disabled node to federation lookups.
+export const enableNode = api<EnableNodeRequest, NodeResponse>(
+  { expose: true, method: "POST", path: "/nodes/:nodeId/enable", auth: true },
+  async (req) => {
+    requireOperator(getAuthData()!);
+
+    const row = await verificationDB.queryRow<NodeRow>`
+      UPDATE verification_nodes
+      SET is_active = true, disabled_at = NULL, disabled_reason = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ${req.nodeId}
+      RETURNING id, node_name, node_type, endpoint_url, health_url, api_key_hash, api_key_version,
+                is_active, priority, disabled_at, disabled_reason, last_health_status,
+                last_health_check_at, created_at, updated_at
+    `;
+    if (!row) {
+      throw APIError.notFound("Node not found");
+    }
+
+    return { node: await withHealth(row) };
+  }
+);
+
+export interface RotateNodeKeyRequest {
+  nodeId: number;
+}
+
+// Issues a new key for a node; the previous key stops being sent immediately. Also used to give
+// nodes that still share the FederationNodeToken their own key.
+export const rotateNodeKey = api<RotateNodeKeyRequest, NodeKeyResponse>(
+  { expose: true, method: "POST", path: "/nodes/:nodeId/rotate-key", auth: true },
+  async (req) => {
+    requireOperator(getAuthData()!);
+
+    const existing = await getNodeRow(req.nodeId);
+    const keyVersion = existing.api_key_version + 1;
+    const apiKey = deriveNodeApiKey(existing.id, keyVersion);
+
+    const row = await verificationDB.queryRow<NodeRow>`
+      UPDATE verification_nodes
+      SET api_key_hash = ${hashApiKey(apiKey)}, api_key_version = ${keyVersion}, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ${existing.id}
+      RETURNING id, node_name, node_type, endpoint_url, health_url, api_key_hash, api_key_version,
+                is_active, priority, disabled_at, disabled_reason, last_health_status,
+                last_health_check_at, created_at, updated_at
+    `;
+
+    return { apiKey, node: await withHealth(row!) };
+  }
+);
+
+export interface DeleteNodeRequest {
+  nodeId: number;
+}
+
+export interface DeleteNodeResponse {
+  message: string;
+}
+
+// Removes a node that has never answered a lookup. Nodes with audit history can only be disabled.
+export const deleteNode = api<DeleteNodeRequest, DeleteNodeResponse>(
+  { expose: true, method: "DELETE", path: "/nodes/:nodeId", auth: true },
+  async (req) => {
+    requireOperator(getAuthData()!);
+
+    const existing = await getNodeRow(req.nodeId);
+
+    const audited = await verificationDB.queryRow<{ exists: boolean }>`
+      SELECT EXISTS (SELECT 1 FROM verification_audit WHERE node_id = ${existing.id}) AS exists
+    `;
+    if (audited?.exists) {
+      throw APIError.failedPrecondition("Node has verification audit history; disable it instead");
+    }
+
+    await verificationDB.exec`DELETE FROM verification_nodes WHERE id = ${existing.id}`;
+
+    return { message: `Node "${existing.node_name}" deleted` };
+  }
+);
+
+export interface RunNodeHealthChecksResponse {
+  checked: number;
+  up: number;
+  down: number;
+}
+
+// Pings every active node's health URL, records the outcome and purges expired checks.
+export const runNodeHealthChecks = api<void, RunNodeHealthChecksResponse>(
+  { expose: false, method: "POST", path: "/internal/nodes/health-check" },
+  async () => {
+    const nodes = await verificationDB.queryAll<NodeRow>`
+      SELECT id, node_name, node_type, endpoint_url, health_url, api_key_hash, api_key_version,
+             is_active, priority, disabled_at, disabled_reason, last_health_status,
+             last_health_check_at, created_at, updated_at
+      FROM verification_nodes
+      WHERE is_active = true
+    `;
+
+    const results = await Promise.all(nodes.map(pingNode));
+
+    for (const [index, result] of results.entries()) {
+      const nodeId = nodes[index].id;
+      await verificationDB.exec`
+        INSERT INTO node_health_checks (node_id, status, latency_ms, http_status, error)
+        VALUES (${nodeId}, ${result.status}, ${result.latencyMs}, ${result.httpStatus ?? null}, ${result.error ?? null})
+      `;
+      await verificationDB.exec`
+        UPDATE verification_nodes
+        SET last_health_status = ${result.status}, last_health_check_at = CURRENT_TIMESTAMP
+        WHERE id = ${nodeId}
+      `;
+    }
+
+    await verificationDB.exec`
+      DELETE FROM node_health_checks
+      WHERE checked_at < CURRENT_TIMESTAMP - ${`${HEALTH_RETENTION_DAYS} days`}::interval
+    `;
+
+    const up = results.filter(result => result.status === "up").length;
+    return { checked: results.length, up, down: results.length - up };
+  }
+);
+
+const _ = new CronJob("check-node-health", {
+  title: "Ping federation nodes and record availability",
+  every: "5m",
+  endpoint: runNodeHealthChecks,
+});
+
+interface PingResult {
+  status: NodeHealthStatus;
+  latencyMs: number;
+  httpStatus?: number;
+  error?: string;
+}
+
+async function pingNode(node: NodeRow): Promise<PingResult> {
+  const startedAt = Date.now();
+  try {
+    const response = await fetch(healthUrlFor(node), {
+      headers: { "Authorization": `Bearer ${nodeAuthToken(node)}` },
+      // A redirect could send the request and its key to an address registration would reject
+      redirect: "error",
+      signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS),
+      dispatcher: nodeDispatcher,
+    });
+    return {
+      status: response.ok ? "up" : "down",
+      latencyMs: Date.now() - startedAt,
+      httpStatus: response.status,
+      error: response.ok ? undefined : `HTTP ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      status: "down",
+      latencyMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function healthUrlFor(node: Pick<NodeRow, "endpoint_url" | "health_url">): string {
+  return node.health_url ?? new URL("/health", node.endpoint_url).toString();
+}
+
+function validateNodeFields(req: Omit<UpdateNodeRequest, "nodeId">): void {
+  if (req.nodeName !== undefined) {
+    validateString(req.nodeName, "Node name", 2, 255);
+  }
+  if (req.nodeType !== undefined) {
+    validateEnum(req.nodeType, "Node type", NODE_TYPES);
+  }
+  if (req.endpointUrl !== undefined) {
+    validateNodeURL(req.endpointUrl, "Endpoint URL");
+  }
+  if (req.healthUrl !== undefined && req.healthUrl !== null) {
+    validateNodeURL(req.healthUrl, "Health URL");
+  }
+  if (req.priority !== undefined) {
+    validateNumber(req.priority, "Priority", 1, 100);
+  }
+}
+
+function validateNodeURL(url: string, fieldName: string): void {
+  validateURL(url, fieldName);
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== "https:" && protocol !== "http:") {
+    throw new ValidationError(`${fieldName} must use http or https`);
+  }
+  if (isInternalHostname(hostname)) {
+    throw new ValidationError(`${fieldName} must not point at an internal address`);
+  }
+}
+
+// Rejects node URLs whose hostnames resolve to internal addresses. Runs after validateNodeFields.
+async function validateNodeTargets(req: Omit<UpdateNodeRequest, "nodeId">): Promise<void> {
+  const targets: [string, string][] = [];
+  if (req.endpointUrl !== undefined) {
+    targets.push([req.endpointUrl, "Endpoint URL"]);
+  }
+  if (req.healthUrl !== undefined && req.healthUrl !== null) {
+    targets.push([req.healthUrl, "Health URL"]);
+  }
+
+  for (const [url, fieldName] of targets) {
+    const hostname = new URL(url).hostname.replace(/^\[|\]$/g, "");
+    let addresses: { address: string }[];
+    try {
+      addresses = await lookup(hostname, { all: true });
+    } catch {
+      throw new ValidationError(`${fieldName} host could not be resolved`);
+    }
+    if (addresses.some(({ address }) => isInternalAddress(address))) {
+      throw new ValidationError(`${fieldName} must not point at an internal address`);
+    }
+  }
+}
+
+async function getNodeRow(nodeId: number): Promise<NodeRow> {
+  const row = await verificationDB.queryRow<NodeRow>`
+    SELECT id, node_name, node_type, endpoint_url, health_url, api_key_hash, api_key_version,
+           is_active, priority, disabled_at, disabled_reason, last_health_status,
+           last_health_check_at, created_at, updated_at
+    FROM verification_nodes
+    WHERE id = ${nodeId}
+  `;
+  if (!row) {
+    throw APIError.notFound("Node not found");
+  }
+  return row;
+}
+
+async function loadHealthStats(windowHours: number, nodeId?: number): Promise<Map<number, NodeHealthStatsRow>> {
+  const rows = await verificationDB.queryAll<NodeHealthStatsRow>`
+    SELECT
+      node_id,
+      COUNT(*)::int AS checks,
+      COUNT(*) FILTER (WHERE status = 'up')::int AS up_checks,
+      (AVG(latency_ms) FILTER (WHERE status = 'up'))::float8 AS avg_latency_ms,
+      (PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY latency_ms) FILTER (WHERE status = 'up'))::float8 AS p95_latency_ms
+    FROM node_health_checks
+    WHERE checked_at >= CURRENT_TIMESTAMP - ${`${windowHours} hours`}::interval
+      AND (${nodeId ?? null}::bigint IS NULL OR node_id = ${nodeId ?? null})
+    GROUP BY node_id
+  `;
+  return new Map(rows.map(row => [row.node_id, row]));
+}
+
+async function withHealth(row: NodeRow): Promise<VerificationNode> {
+  const stats = await loadHealthStats(DEFAULT_HEALTH_WINDOW_HOURS, row.id);
+  return toVerificationNode(row, DEFAULT_HEALTH_WINDOW_HOURS, stats.get(row.id));
+}
+
+function toVerificationNode(row: NodeRow, windowHours: number, stats?: NodeHealthStatsRow): VerificationNode {
+  return {
+    id: row.id,
+    nodeName: row.node_name,
+    nodeType: row.node_type,
+    endpointUrl: row.endpoint_url,
+    healthUrl: healthUrlFor(row),
+    priority: row.priority,
+    isActive: row.is_active,
+    disabledAt: row.disabled_at ?? undefined,
+    disabledReason: row.disabled_reason ?? undefined,
+    hasApiKey: row.api_key_hash !== null,
+    apiKeyFingerprint: row.api_key_hash?.slice(0, 8),
+    circuitOpen: isCircuitOpen(row.id),
+    health: {
+      windowHours,
+      checks: stats?.checks ?? 0,
+      availability: stats && stats.checks > 0
+        ? Math.round((stats.up_checks / stats.checks) * 1000) / 10
+        : undefined,
+      averageLatencyMs: stats && stats.avg_latency_ms !== null ? Math.round(stats.avg_latency_ms) : undefined,
+      p95LatencyMs: stats && stats.p95_latency_ms !== null ? Math.round(stats.p95_latency_ms) : undefined,
+      lastStatus: row.last_health_status ?? undefined,
+      lastCheckedAt: row.last_health_check_at ?? undefined,
+    },
+    createdAt: row.created_at,
+    updatedAt: row.updated_at ?? undefined,
+  };
+}
@@ -0,0 +1,69 @@
+import { createServer } from "http";
+import { AddressInfo } from "net";
+import { describe, expect, it } from "vitest";
+import { isInternalAddress, isInternalHostname, nodeDispatcher, publicOnlyLookup } from "./node_targets";
+
+describe("isInternalAddress", () => {
+  it("rejects loopback, private and link-local IPv4 addresses", () => {
+    for (const address of ["127.0.0.1", "10.1.2.3", "172.16.0.1", "172.31.255.255", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0"]) {
+      expect(isInternalAddress(address)).toBe(true);
+    }
+  });
+
+  it("rejects loopback, unique local and link-local IPv6 addresses", () => {
+    for (const address of ["::1", "::", "fd00::1", "fe80::1"]) {
+      expect(isInternalAddress(address)).toBe(true);
+    }
+  });
+
+  it("judges IPv4-mapped IPv6 addresses by their IPv4 address", () => {
+    expect(isInternalAddress("::ffff:127.0.0.1")).toBe(true);
+    expect(isInternalAddress("::ffff:a9fe:a9fe")).toBe(true);
+    expect(isInternalAddress("::ffff:8.8.8.8")).toBe(false);
+  });
+
+  it("accepts public addresses", () => {
+    for (const address of ["8.8.8.8", "172.32.0.1", "203.0.113.9", "2001:4860:4860::8888"]) {
+      expect(isInternalAddress(address)).toBe(false);
+    }
+  });
+});
+
+describe("isInternalHostname", () => {
+  it("rejects localhost names and internal IP literals as URL hostnames", () => {
+    expect(isInternalHostname("localhost")).toBe(true);
+    expect(isInternalHostname("api.localhost")).toBe(true);
+    expect(isInternalHostname(new URL("http://169.254.169.254/latest").hostname)).toBe(true);
+    expect(isInternalHostname(new URL("http://2130706433/").hostname)).toBe(true);
+    expect(isInternalHostname(new URL("http://[::ffff:127.0.0.1]/").hostname)).toBe(true);
+  });
+
+  it("leaves public names to DNS resolution", () => {
+    expect(isInternalHostname("node.example.org")).toBe(false);
+  });
+});
+
+describe("publicOnlyLookup", () => {
+  it("fails for a hostname that resolves to an internal address", async () => {
+    const error = await new Promise<NodeJS.ErrnoException | null>(resolve =>
+      publicOnlyLookup("localhost", { all: true }, resolve)
+    );
+
+    expect(error?.code).toBe("EINTERNALADDRESS");
+  });
+
+  it("stops node requests from connecting to internal addresses", async () => {
+    const server = createServer((_, res) => res.end("ok"));
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      expect((await fetch(`http://localhost:${port}/`)).ok).toBe(true);
+      await expect(fetch(`http://localhost:${port}/`, { dispatcher: nodeDispatcher })).rejects.toMatchObject({
+        cause: { code: "EINTERNALADDRESS" },
+      });
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,92 @@
+// Which addresses federation node URLs may point at. Node lookups and health checks are sent from
+// inside our network, so a node URL naming a loopback, private or link-local address (such as the
+// cloud metadata service at 169.254.169.254) would let whoever registers it reach internal services.
+// Kept free of service dependencies so the address rules can be tested on their own.
+import { lookup } from "dns";
+import { BlockList, isIP, LookupFunction } from "net";
+import { Agent } from "undici";
+
+const INTERNAL_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],        // "this" network
+  ["10.0.0.0", 8],       // private
+  ["100.64.0.0", 10],    // carrier-grade NAT
+  ["127.0.0.0", 8],      // loopback
+  ["169.254.0.0", 16],   // link-local, including cloud metadata services
+  ["172.16.0.0", 12],    // private
+  ["192.0.0.0", 24],     // IETF protocol assignments
+  ["192.168.0.0", 16],   // private
+  ["198.18.0.0", 15],    // benchmarking
+  ["224.0.0.0", 3],      // multicast, reserved and broadcast
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],           // unspecified and loopback
+  ["fc00::", 7],         // unique local
+  ["fe80::", 10],        // link-local
+  ["ff00::", 8],         // multicast
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+// Whether an IP address is loopback, private, link-local or otherwise not publicly routable.
+// IPv4-mapped IPv6 addresses are judged by the IPv4 address they carry.
+export function isInternalAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) {
+    return INTERNAL_ADDRESSES.check(address, "ipv4");
+  }
+  if (version === 6) {
+    return INTERNAL_ADDRESSES.check(address, "ipv6") || INTERNAL_ADDRESSES.check(mappedIPv4(address) ?? "", "ipv4");
+  }
+  return false;
+}
+
+// Whether a URL hostname names this machine or an internal address without needing DNS. Hostnames
+// that only resolve to internal addresses are caught separately, once they have been resolved.
+export function isInternalHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  if (host === "localhost" || host.endsWith(".localhost")) {
+    return true;
+  }
+  return isInternalAddress(host);
+}
+
+// Resolves a hostname like dns.lookup but fails when any address it resolves to is internal.
+// Registration checks node hostnames once; this checks them on every connection, so a hostname
+// whose DNS is later pointed at an internal address can't be used to reach it.
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, options, (error, address, family) => {
+    if (error) {
+      callback(error, address, family);
+      return;
+    }
+    const addresses = Array.isArray(address) ? address : [{ address, family }];
+    if (addresses.some(resolved => isInternalAddress(resolved.address))) {
+      const rejected = Object.assign(new Error(`${hostname} resolves to an internal address`), {
+        code: "EINTERNALADDRESS",
+      });
+      callback(rejected, address, family);
+      return;
+    }
+    callback(null, address, family);
+  });
+};
+
+// Dispatcher for requests to federation nodes, checking each connection's resolved address.
+export const nodeDispatcher = new Agent({ connect: { lookup: publicOnlyLookup } });
+
+// The IPv4 address inside an IPv4-mapped IPv6 address (::ffff:0:0/96), in dotted form.
+function mappedIPv4(address: string): string | null {
+  const match = /^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/i.exec(address);
+  if (!match) {
+    return null;
+  }
+  if (match[1]) {
+    return match[1];
+  }
+  const high = parseInt(match[2], 16);
+  const low = parseInt(match[3], 16);
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
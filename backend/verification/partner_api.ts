@@ -1,8 +1,13 @@
-import { api } from "encore.dev/api";
+import { api, APIError } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
 import { verificationDB } from "./db";
+import { publishDeviceChanged } from "./domain_events";
+import { requireScope } from "./auth";
+import { logVerification } from "./verification_logs";
+import { getDeviceByIdentifier } from "./devices";
+import { getTrustScoreForPartner, TrustScoreReason } from "./trust_scoring";
 
 export interface PartnerBadgeRequest {
-  partnerId: number;
   deviceIdentifier: string;
   identifierType: "serial" | "imei";
   badgeType?: "standard" | "premium" | "marketplace";
@@ -33,10 +38,13 @@ export interface PartnerBadgeResponse {
 
 // Allows partners to generate verification badges for devices.
 export const createPartnerBadge = api<PartnerBadgeRequest, PartnerBadgeResponse>(
-  { expose: true, method: "POST", path: "/partner/badge/create" },
+  { expose: true, method: "POST", path: "/partner/badge/create", auth: true },
   async (req) => {
+    const authData = getAuthData()!;
+    requireScope(authData, "write");
+
+    const partnerId = authData.partnerId;
     const { 
-      partnerId, 
       deviceIdentifier, 
       identifierType, 
       badgeType = "marketplace",
@@ -60,16 +68,7 @@ export const createPartnerBadge = api<PartnerBadgeRequest, PartnerBadgeResponse>
     }
 
     // Find device by identifier
-    const device = await verificationDB.queryRow<{
-      id: number;
-      device_name: string;
-      status: string;
-      current_trust_score?: number;
-    }>`
-      SELECT id, device_name, status, current_trust_score
-      FROM devices 
-      WHERE ${identifierType === 'serial' ? 'serial_number' : 'imei'} = ${deviceIdentifier}
-    `;
+    const device = await getDeviceByIdentifier(deviceIdentifier, identifierType);
 
     if (!device) {
       throw new Error("Device not found");
@@ -132,6 +131,8 @@ export const createPartnerBadge = api<PartnerBadgeRequest, PartnerBadgeResponse>
               ${`Partner badge created by ${partner.name}`}, ${partner.name}, true)
     `;
 
+    await publishDeviceChanged(device.id, "badge");
+
     return {
       success: true,
       badge: {
@@ -143,16 +144,15 @@ export const createPartnerBadge = api<PartnerBadgeRequest, PartnerBadgeResponse>
       },
       device: {
         id: device.id,
-        name: device.device_name,
+        name: device.deviceName,
         status: device.status,
-        trustScore: device.current_trust_score,
+        trustScore: device.trustScore,
       },
     };
   }
 );
 
 export interface PartnerVerificationRequest {
-  partnerId: number;
   deviceIdentifier: string;
   identifierType: "serial" | "imei";
   includeLifecycle?: boolean;
@@ -167,6 +167,8 @@ export interface PartnerVerificationResponse {
     status: string;
     trustScore?: number;
     riskCategory?: string;
+    trustScoreReasons?: TrustScoreReason[];
+    modelVersion?: string;
   };
   verification: {
     isVerified: boolean;
@@ -190,9 +192,14 @@ export interface PartnerVerificationResponse {
 
 // Provides verification data for partners without generating badges.
 export const partnerVerification = api<PartnerVerificationRequest, PartnerVerificationResponse>(
-  { expose: true, method: "POST", path: "/partner/verify" },
+  { expose: true, method: "POST", path: "/partner/verify", auth: true },
   async (req) => {
-    const { partnerId, deviceIdentifier, identifierType, includeLifecycle = false } = req;
+    const authData = getAuthData()!;
+    requireScope(authData, "read");
+
+    const startTime = Date.now();
+    const partnerId = authData.partnerId;
+    const { deviceIdentifier, identifierType, includeLifecycle = false } = req;
 
     // Verify partner
     const partner = await verificationDB.queryRow<{
@@ -209,25 +216,17 @@ export const partnerVerification = api<PartnerVerificationRequest, PartnerVerifi
     }
 
     // Find and verify device
-    const device = await verificationDB.queryRow<{
-      id: number;
-      device_name: string;
-      brand: string;
-      model: string;
-      status: string;
-      current_trust_score?: number;
-      risk_category?: string;
-      updated_at: Date;
-      lifecycle_summary: any;
-    }>`
-      SELECT id, device_name, brand, model, status, current_trust_score, 
-             risk_category, updated_at, lifecycle_summary
-      FROM devices 
-      WHERE ${identifierType === 'serial' ? 'serial_number' : 'imei'} = ${deviceIdentifier}
-    `;
+    const device = await getDeviceByIdentifier(deviceIdentifier, identifierType);
 
     if (!device) {
-      throw new Error("Device not found");
+      await logVerification({
+        verificationType: "partner_api",
+        identifier: deviceIdentifier,
+        identifierType,
+        resultStatus: "not_found",
+        responseTimeMs: Date.now() - startTime,
+      });
+      throw APIError.notFound("Device not found");
     }
 
     // Get report count
@@ -249,31 +248,34 @@ export const partnerVerification = api<PartnerVerificationRequest, PartnerVerifi
       LIMIT 1
     `;
 
+    const trustScore = await getTrustScoreForPartner(device.id, partnerId);
+
     // Log partner verification
-    await verificationDB.exec`
-      INSERT INTO verification_logs (
-        partner_id, device_id, verification_type, identifier_used, 
-        identifier_type, result_status
-      ) VALUES (
-        ${partnerId}, ${device.id}, 'partner_api', ${deviceIdentifier}, 
-        ${identifierType}, 'found'
-      )
-    `;
+    await logVerification({
+      deviceId: device.id,
+      verificationType: "partner_api",
+      identifier: deviceIdentifier,
+      identifierType,
+      resultStatus: "found",
+      responseTimeMs: Date.now() - startTime,
+    });
 
     const response: PartnerVerificationResponse = {
       device: {
         id: device.id,
-        name: device.device_name,
+        name: device.deviceName,
         brand: device.brand,
         model: device.model,
         status: device.status,
-        trustScore: device.current_trust_score,
-        riskCategory: device.risk_category,
+        trustScore: trustScore?.score ?? device.trustScore,
+        riskCategory: trustScore?.riskCategory ?? device.riskCategory,
+        trustScoreReasons: trustScore?.reasons,
+        modelVersion: trustScore?.modelVersion,
       },
       verification: {
         isVerified: device.status !== 'flagged',
-        confidence: device.current_trust_score || 50,
-        lastVerified: device.updated_at,
+        confidence: (trustScore?.score ?? device.trustScore) || 50,
+        lastVerified: device.updatedAt,
         reportCount: reportResult?.count || 0,
       },
       badge: {
@@ -283,8 +285,8 @@ export const partnerVerification = api<PartnerVerificationRequest, PartnerVerifi
       },
     };
 
-    if (includeLifecycle && device.lifecycle_summary) {
-      const summary = device.lifecycle_summary;
+    if (includeLifecycle && device.lifecycleSummary) {
+      const summary = device.lifecycleSummary;
       response.lifecycle = {
         ownershipChanges: summary.ownershipChanges || 0,
         repairCount: summary.repairCount || 0,
@@ -299,7 +301,6 @@ export const partnerVerification = api<PartnerVerificationRequest, PartnerVerifi
 );
 
 export interface GetPartnerBadgesRequest {
-  partnerId: number;
   limit?: number;
   status?: "active" | "expired" | "all";
 }
@@ -326,11 +327,15 @@ export interface GetPartnerBadgesResponse {
   };
 }
 
-// Gets all badges created by a partner.
+// Gets all badges created by the authenticated partner.
 export const getPartnerBadges = api<GetPartnerBadgesRequest, GetPartnerBadgesResponse>(
-  { expose: true, method: "GET", path: "/partner/:partnerId/badges" },
+  { expose: true, method: "GET", path: "/partner/badges", auth: true },
   async (req) => {
-    const { partnerId, limit = 50, status = "all" } = req;
+    const authData = getAuthData()!;
+    requireScope(authData, "read");
+
+    const partnerId = authData.partnerId;
+    const { limit = 50, status = "all" } = req;
 
     let whereConditions = [`vb.partner_id = ${partnerId}`];
     
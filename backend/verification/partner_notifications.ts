@@ -0,0 +1,158 @@
+import { api } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
+import { requireScope } from "./auth";
+import { verificationDB } from "./db";
+import { validatePagination } from "./validation";
+
+export type PartnerNotificationType = "device_recovered";
+export type NotificationDeliveryStatus = "pending" | "sent" | "failed";
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+export interface PartnerNotification {
+  id: number;
+  deviceId?: number;
+  notificationType: PartnerNotificationType;
+  message: string;
+  payload: Record<string, any>;
+  deliveryStatus: NotificationDeliveryStatus;
+  sentAt?: Date;
+  createdAt: Date;
+}
+
+// Finds partners that looked up a device since the given time, e.g. while it was listed as stolen.
+export async function getPartnersWhoVerified(deviceId: number, since: Date): Promise<number[]> {
+  const rows = await verificationDB.queryAll<{ partner_id: number }>`
+    SELECT DISTINCT partner_id
+    FROM verification_logs
+    WHERE device_id = ${deviceId}
+      AND partner_id IS NOT NULL
+      AND created_at >= ${since}
+  `;
+  return rows.map(row => row.partner_id);
+}
+
+// Records a notification for each partner and pushes it to their webhook when one is configured.
+// Partners without a webhook pick notifications up from GET /partner/notifications.
+export async function notifyPartners(
+  partnerIds: number[],
+  deviceId: number,
+  notificationType: PartnerNotificationType,
+  message: string,
+  payload: Record<string, any>
+): Promise<number> {
+  let notified = 0;
+
+  for (const partnerId of partnerIds) {
+    const partner = await verificationDB.queryRow<{ id: number; webhook_url: string | null }>`
+      SELECT id, webhook_url FROM partners WHERE id = ${partnerId} AND is_active = true
+    `;
+    if (!partner) {
+      continue;
+    }
+
+    const notification = await verificationDB.queryRow<{ id: number; created_at: Date }>`
+      INSERT INTO partner_notifications (partner_id, device_id, notification_type, message, payload)
+      VALUES (${partnerId}, ${deviceId}, ${notificationType}, ${message}, ${JSON.stringify(payload)})
+      RETURNING id, created_at
+    `;
+    notified++;
+
+    if (!partner.webhook_url) {
+      continue;
+    }
+
+    const delivered = await deliverWebhook(partner.webhook_url, {
+      id: notification!.id,
+      type: notificationType,
+      deviceId,
+      message,
+      payload,
+      createdAt: notification!.created_at,
+    });
+
+    await verificationDB.exec`
+      UPDATE partner_notifications
+      SET delivery_status = ${delivered ? "sent" : "failed"},
+          sent_at = ${delivered ? new Date() : null}
+      WHERE id = ${notification!.id}
+    `;
+  }
+
+  return notified;
+}
+
+async function deliverWebhook(url: string, body: Record<string, any>): Promise<boolean> {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    return response.ok;
+  } catch (error) {
+    console.error(`Webhook delivery to ${url} failed:`, error);
+    return false;
+  }
+}
+
+export interface ListPartnerNotificationsRequest {
+  page?: number;
+  limit?: number;
+}
+
+export interface ListPartnerNotificationsResponse {
+  notifications: PartnerNotification[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// Lists notifications addressed to the authenticated partner, newest first.
+export const listPartnerNotifications = api<ListPartnerNotificationsRequest, ListPartnerNotificationsResponse>(
+  { expose: true, method: "GET", path: "/partner/notifications", auth: true },
+  async (req) => {
+    const authData = getAuthData()!;
+    requireScope(authData, "read");
+
+    const { page, limit } = validatePagination(req.page, req.limit);
+
+    const count = await verificationDB.queryRow<{ total: number }>`
+      SELECT COUNT(*)::int as total FROM partner_notifications WHERE partner_id = ${authData.partnerId}
+    `;
+
+    const rows = await verificationDB.queryAll<{
+      id: number;
+      device_id: number | null;
+      notification_type: PartnerNotificationType;
+      message: string;
+      payload: Record<string, any>;
+      delivery_status: NotificationDeliveryStatus;
+      sent_at: Date | null;
+      created_at: Date;
+    }>`
+      SELECT id, device_id, notification_type, message, payload, delivery_status, sent_at, created_at
+      FROM partner_notifications
+      WHERE partner_id = ${authData.partnerId}
+      ORDER BY created_at DESC, id DESC
+      LIMIT ${limit} OFFSET ${(page - 1) * limit}
+    `;
+
+    return {
+      notifications: rows.map(row => ({
+        id: row.id,
+        deviceId: row.device_id ?? undefined,
+        notificationType: row.notification_type,
+        message: row.message,
+        payload: row.payload,
+        deliveryStatus: row.delivery_status,
+        sentAt: row.sent_at ?? undefined,
+        createdAt: row.created_at,
+      })),
+      total: count?.total ?? 0,
+      page,
+      limit,
+    };
+  }
+);
@@ -0,0 +1,271 @@
+import { api, middleware, HandlerResponse, MiddlewareRequest } from "encore.dev/api";
+import { CronJob } from "encore.dev/cron";
+import { getAuthData } from "~encore/auth";
+import { verificationDB } from "./db";
+import {
+  ANONYMOUS_PLAN,
+  BURST_WINDOW_SECONDS,
+  countPayloadUnits,
+  fixedWindow,
+  getClientIp,
+  getPartnerPlan,
+  SUSTAINED_WINDOW_SECONDS,
+} from "./rate_limit_policy";
+
+// Endpoints tagged with METERED_TAG are rate limited and count towards the partner's monthly quota.
+export const METERED_TAG = "metered";
+
+// Serialises quota checks per partner, so concurrent requests can't all pass the same check.
+const USAGE_LOCK = 7_320_002;
+
+// Enforces per-partner and per-IP rate limits and monthly quotas on metered endpoints. Batch
+// requests are charged one unit per device or listing, for anonymous callers too.
+export const rateLimit = middleware(
+  { target: { tags: [METERED_TAG] } },
+  async (req, next) => {
+    const authData = getAuthData();
+    const endpoint = req.requestMeta?.type === "api-call" ? req.requestMeta.api.endpoint : "unknown";
+
+    const headers = req.requestMeta?.type === "api-call" ? req.requestMeta.headers : {};
+    const plan = authData ? getPartnerPlan(authData.partnerType) : ANONYMOUS_PLAN;
+
+    // Partner requests count against both the partner and the client address, so spreading
+    // traffic over several partner keys from one address doesn't multiply the limit.
+    const buckets = [`ip:${getClientIp(headers) || "unknown"}`];
+    if (authData) {
+      buckets.unshift(`partner:${authData.partnerId}`);
+    }
+
+    const units = countUnits(req);
+
+    let sustainedCount = 0;
+    for (const bucket of buckets) {
+      const burst = await hitWindow(bucket, BURST_WINDOW_SECONDS, plan.burst, units);
+      if (burst.exceeded) {
+        return tooManyRequests(`Burst rate limit of ${plan.burst} verifications per ${BURST_WINDOW_SECONDS}s exceeded`, burst.retryAfter);
+      }
+
+      const sustained = await hitWindow(bucket, SUSTAINED_WINDOW_SECONDS, plan.sustained, units);
+      if (sustained.exceeded) {
+        return tooManyRequests(`Rate limit of ${plan.sustained} verifications per hour exceeded`, sustained.retryAfter);
+      }
+      sustainedCount = Math.max(sustainedCount, sustained.count);
+    }
+
+    let usage: UsageReservation | undefined;
+    if (authData) {
+      usage = await reserveUsage(authData.partnerId, endpoint, units, plan.monthlyQuota);
+      if (!usage) {
+        const nextPeriod = startOfNextMonth();
+        return tooManyRequests(
+          `Monthly quota of ${plan.monthlyQuota} verifications exceeded`,
+          Math.ceil((nextPeriod.getTime() - Date.now()) / 1000)
+        );
+      }
+    }
+
+    let resp: HandlerResponse;
+    try {
+      resp = await next(req);
+    } catch (error) {
+      // Rejected requests don't count towards the quota
+      if (usage) {
+        await releaseUsage(usage);
+      }
+      throw error;
+    }
+
+    resp.header.set("X-RateLimit-Limit", String(plan.sustained));
+    resp.header.set("X-RateLimit-Remaining", String(Math.max(0, plan.sustained - sustainedCount)));
+    return resp;
+  }
+);
+
+export interface GetUsageResponse {
+  partnerType: string;
+  periodStart: Date;
+  periodEnd: Date;
+  totalRequests: number;
+  totalUnits: number;
+  monthlyQuota?: number;
+  quotaRemaining?: number;
+  limits: {
+    burstPerTenSeconds: number;
+    sustainedPerHour: number;
+  };
+  endpoints: Array<{
+    endpoint: string;
+    requests: number;
+    units: number;
+  }>;
+}
+
+// Gets the authenticated partner's metered usage for the current billing month.
+export const getUsage = api<void, GetUsageResponse>(
+  { expose: true, method: "GET", path: "/partner/usage", auth: true },
+  async () => {
+    const authData = getAuthData()!;
+    const plan = getPartnerPlan(authData.partnerType);
+    const periodStart = startOfMonth();
+
+    const rows = await verificationDB.queryAll<{
+      endpoint: string;
+      request_count: number;
+      unit_count: number;
+    }>`
+      SELECT endpoint, request_count, unit_count
+      FROM partner_usage
+      WHERE partner_id = ${authData.partnerId} AND period_start = ${periodStart}
+      ORDER BY unit_count DESC
+    `;
+
+    const totalRequests = rows.reduce((sum, row) => sum + row.request_count, 0);
+    const totalUnits = rows.reduce((sum, row) => sum + row.unit_count, 0);
+
+    return {
+      partnerType: authData.partnerType,
+      periodStart,
+      periodEnd: startOfNextMonth(),
+      totalRequests,
+      totalUnits,
+      monthlyQuota: plan.monthlyQuota,
+      quotaRemaining: plan.monthlyQuota !== undefined ? Math.max(0, plan.monthlyQuota - totalUnits) : undefined,
+      limits: {
+        burstPerTenSeconds: plan.burst,
+        sustainedPerHour: plan.sustained,
+      },
+      endpoints: rows.map(row => ({
+        endpoint: row.endpoint,
+        requests: row.request_count,
+        units: row.unit_count,
+      })),
+    };
+  }
+);
+
+// Removes expired rate limit windows.
+export const purgeRateLimitWindows = api(
+  { expose: false, method: "POST", path: "/internal/rate-limit/purge" },
+  async (): Promise<void> => {
+    await verificationDB.exec`
+      DELETE FROM rate_limit_windows
+      WHERE window_start < CURRENT_TIMESTAMP - INTERVAL '1 day'
+    `;
+  }
+);
+
+const _ = new CronJob("purge-rate-limit-windows", {
+  title: "Purge expired rate limit windows",
+  every: "1h",
+  endpoint: purgeRateLimitWindows,
+});
+
+async function hitWindow(
+  bucket: string,
+  windowSeconds: number,
+  limit: number,
+  units: number
+): Promise<{ exceeded: boolean; count: number; retryAfter: number }> {
+  const window = fixedWindow(Date.now(), windowSeconds);
+
+  const row = await verificationDB.queryRow<{ request_count: number }>`
+    INSERT INTO rate_limit_windows (bucket_key, window_start, request_count)
+    VALUES (${`${bucket}:${windowSeconds}`}, ${window.start}, ${units})
+    ON CONFLICT (bucket_key, window_start) DO UPDATE SET
+      request_count = rate_limit_windows.request_count + EXCLUDED.request_count
+    RETURNING request_count
+  `;
+
+  const count = row?.request_count ?? units;
+
+  return {
+    exceeded: count > limit,
+    count,
+    retryAfter: window.retryAfterSeconds,
+  };
+}
+
+interface UsageReservation {
+  partnerId: number;
+  periodStart: Date;
+  endpoint: string;
+  units: number;
+}
+
+// Records the request's units against the partner's month, or returns undefined without recording
+// anything when they would exceed the quota. The check and the insert hold the partner's lock.
+async function reserveUsage(
+  partnerId: number,
+  endpoint: string,
+  units: number,
+  monthlyQuota: number | undefined
+): Promise<UsageReservation | undefined> {
+  const periodStart = startOfMonth();
+  const tx = await verificationDB.begin();
+  try {
+    await tx.exec`SELECT pg_advisory_xact_lock(${USAGE_LOCK}, ${partnerId})`;
+
+    if (monthlyQuota !== undefined) {
+      const row = await tx.queryRow<{ units: number }>`
+        SELECT COALESCE(SUM(unit_count), 0)::int as units
+        FROM partner_usage
+        WHERE partner_id = ${partnerId} AND period_start = ${periodStart}
+      `;
+      if ((row?.units ?? 0) + units > monthlyQuota) {
+        await tx.rollback();
+        return undefined;
+      }
+    }
+
+    await tx.exec`
+      INSERT INTO partner_usage (partner_id, period_start, endpoint, request_count, unit_count)
+      VALUES (${partnerId}, ${periodStart}, ${endpoint}, 1, ${units})
+      ON CONFLICT (partner_id, period_start, endpoint) DO UPDATE SET
+        request_count = partner_usage.request_count + 1,
+        unit_count = partner_usage.unit_count + EXCLUDED.unit_count,
+        updated_at = CURRENT_TIMESTAMP
+    `;
+    await tx.commit();
+  } catch (error) {
+    await tx.rollback();
+    throw error;
+  }
+
+  return { partnerId, periodStart, endpoint, units };
+}
+
+async function releaseUsage(usage: UsageReservation): Promise<void> {
+  await verificationDB.exec`
+    UPDATE partner_usage
+    SET request_count = request_count - 1,
+        unit_count = unit_count - ${usage.units},
+        updated_at = CURRENT_TIMESTAMP
+    WHERE partner_id = ${usage.partnerId} AND period_start = ${usage.periodStart} AND endpoint = ${usage.endpoint}
+  `;
+}
+
+function countUnits(req: MiddlewareRequest): number {
+  const meta = req.requestMeta;
+  return countPayloadUnits(meta?.type === "api-call" ? meta.parsedPayload : undefined);
+}
+
+function tooManyRequests(message: string, retryAfterSeconds: number): HandlerResponse {
+  const resp = new HandlerResponse({
+    code: "resource_exhausted",
+    message,
+    details: null,
+  });
+  resp.status = 429;
+  resp.header.set("Retry-After", String(retryAfterSeconds));
+  return resp;
+}
+
+function startOfMonth(): Date {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function startOfNextMonth(): Date {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
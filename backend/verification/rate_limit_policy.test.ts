@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { ANONYMOUS_PLAN, countPayloadUnits, fixedWindow, getClientIp, getPartnerPlan } from "./rate_limit_policy";
+
+describe("fixedWindow", () => {
+  it("aligns the window start to multiples of the window length", () => {
+    const now = Date.UTC(2026, 0, 1, 12, 0, 7, 250);
+    const window = fixedWindow(now, 10);
+
+    expect(window.start.toISOString()).toBe("2026-01-01T12:00:00.000Z");
+    expect(window.retryAfterSeconds).toBe(3);
+  });
+
+  it("puts requests either side of a boundary in different windows", () => {
+    const boundary = Date.UTC(2026, 0, 1, 13);
+
+    expect(fixedWindow(boundary - 1, 3600).start.getTime()).toBe(boundary - 3600 * 1000);
+    expect(fixedWindow(boundary, 3600).start.getTime()).toBe(boundary);
+  });
+
+  it("never asks a client to retry in less than a second", () => {
+    expect(fixedWindow(Date.UTC(2026, 0, 1, 0, 0, 9, 999), 10).retryAfterSeconds).toBe(1);
+    expect(fixedWindow(Date.UTC(2026, 0, 1), 10).retryAfterSeconds).toBe(10);
+  });
+});
+
+describe("getPartnerPlan", () => {
+  it("uses the plan for the partner type and falls back to the default plan", () => {
+    expect(getPartnerPlan("marketplace").monthlyQuota).toBe(250000);
+    expect(getPartnerPlan("law_enforcement").monthlyQuota).toBeUndefined();
+    expect(getPartnerPlan("unknown")).toEqual(getPartnerPlan("default"));
+    expect(getPartnerPlan("constructor")).toEqual(getPartnerPlan("default"));
+  });
+
+  it("gives anonymous callers the tightest limits", () => {
+    for (const type of ["marketplace", "insurer", "law_enforcement", "default"]) {
+      expect(getPartnerPlan(type).burst).toBeGreaterThan(ANONYMOUS_PLAN.burst);
+      expect(getPartnerPlan(type).sustained).toBeGreaterThan(ANONYMOUS_PLAN.sustained);
+    }
+  });
+});
+
+describe("countPayloadUnits", () => {
+  it("counts one unit per device or listing in batch payloads", () => {
+    expect(countPayloadUnits({ devices: [{}, {}, {}] })).toBe(3);
+    expect(countPayloadUnits({ listings: [{}, {}] })).toBe(2);
+  });
+
+  it("counts at least one unit per request", () => {
+    expect(countPayloadUnits({ devices: [] })).toBe(1);
+    expect(countPayloadUnits({ imei: "490154203237518" })).toBe(1);
+    expect(countPayloadUnits(undefined)).toBe(1);
+    expect(countPayloadUnits(null)).toBe(1);
+    expect(countPayloadUnits({ devices: "not an array" })).toBe(1);
+  });
+});
+
+describe("getClientIp", () => {
+  it("takes the address appended by the trusted proxy, ignoring client-supplied entries", () => {
+    expect(getClientIp({ "x-forwarded-for": "6.6.6.6, 203.0.113.7" })).toBe("203.0.113.7");
+    expect(getClientIp({ "x-forwarded-for": ["6.6.6.6", "203.0.113.7"] })).toBe("203.0.113.7");
+  });
+
+  it("counts trusted hops from the right", () => {
+    expect(getClientIp({ "x-forwarded-for": "6.6.6.6, 203.0.113.7, 10.0.0.2" }, 2)).toBe("203.0.113.7");
+    expect(getClientIp({ "x-forwarded-for": "203.0.113.7" }, 2)).toBe("203.0.113.7");
+  });
+
+  it("falls back to X-Real-IP and then to nothing", () => {
+    expect(getClientIp({ "x-real-ip": "198.51.100.4" })).toBe("198.51.100.4");
+    expect(getClientIp({ "x-forwarded-for": " , ", "x-real-ip": "198.51.100.4" })).toBe("198.51.100.4");
+    expect(getClientIp({})).toBeUndefined();
+  });
+});
@@ -0,0 +1,80 @@
+// Rate limit plans, fixed-window arithmetic and client address resolution for the rate limiting
+// middleware. Kept free of service dependencies so the limits can be reasoned about in isolation.
+
+// Limits are in units: one per request, or one per device or listing in a batch request.
+export interface RateLimitPlan {
+  burst: number;     // units per BURST_WINDOW_SECONDS
+  sustained: number; // units per SUSTAINED_WINDOW_SECONDS
+  monthlyQuota?: number; // units per month, undefined for unlimited
+}
+
+export const BURST_WINDOW_SECONDS = 10;
+export const SUSTAINED_WINDOW_SECONDS = 60 * 60;
+
+// Most devices or listings a single batch request may carry.
+export const MAX_BATCH_ITEMS = 100;
+
+const PARTNER_PLANS: Record<string, RateLimitPlan> = {
+  marketplace: { burst: 100, sustained: 10000, monthlyQuota: 250000 },
+  insurer: { burst: 50, sustained: 5000, monthlyQuota: 100000 },
+  law_enforcement: { burst: 100, sustained: 20000 },
+  default: { burst: 20, sustained: 2000, monthlyQuota: 25000 },
+};
+
+export const ANONYMOUS_PLAN: RateLimitPlan = { burst: 10, sustained: 300 };
+
+// Reverse proxies in front of the service that append the connecting address to X-Forwarded-For.
+// Entries to the left of the ones they appended were written by the client and can't be trusted.
+export const TRUSTED_PROXY_HOPS = 1;
+
+export function getPartnerPlan(partnerType: string): RateLimitPlan {
+  return Object.hasOwn(PARTNER_PLANS, partnerType) ? PARTNER_PLANS[partnerType] : PARTNER_PLANS.default;
+}
+
+export interface FixedWindow {
+  start: Date;
+  retryAfterSeconds: number;
+}
+
+// The fixed window containing `now`, aligned to multiples of the window length, and the whole
+// seconds until it ends (at least 1, for Retry-After).
+export function fixedWindow(now: number, windowSeconds: number): FixedWindow {
+  const windowMs = windowSeconds * 1000;
+  const start = Math.floor(now / windowMs) * windowMs;
+  return {
+    start: new Date(start),
+    retryAfterSeconds: Math.max(1, Math.ceil((start + windowMs - now) / 1000)),
+  };
+}
+
+// Batch endpoints count one unit per device or listing, everything else counts one per request.
+export function countPayloadUnits(payload: unknown): number {
+  if (payload === null || typeof payload !== "object") {
+    return 1;
+  }
+  const { devices, listings } = payload as { devices?: unknown; listings?: unknown };
+  if (Array.isArray(devices)) return Math.max(1, devices.length);
+  if (Array.isArray(listings)) return Math.max(1, listings.length);
+  return 1;
+}
+
+// Returns the client address recorded by the trusted proxy: the entry it appended to
+// X-Forwarded-For, counting from the right. Falls back to X-Real-IP when there is no
+// X-Forwarded-For at all.
+export function getClientIp(
+  headers: Record<string, string | string[]>,
+  trustedHops = TRUSTED_PROXY_HOPS
+): string | undefined {
+  const forwardedFor = headers["x-forwarded-for"];
+  const hops = (Array.isArray(forwardedFor) ? forwardedFor : [forwardedFor ?? ""])
+    .flatMap(value => value.split(","))
+    .map(hop => hop.trim())
+    .filter(hop => hop.length > 0);
+
+  if (hops.length > 0) {
+    return hops[Math.max(0, hops.length - trustedHops)];
+  }
+
+  const realIp = headers["x-real-ip"];
+  return (Array.isArray(realIp) ? realIp[0] : realIp) || undefined;
+}
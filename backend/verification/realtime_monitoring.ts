@@ -1,10 +1,12 @@
-import { api, StreamOut } from "encore.dev/api";
+import { api, APIError, StreamOut } from "encore.dev/api";
 import { Topic } from "encore.dev/pubsub";
 import { verificationDB } from "./db";
+import { DeviceStatus } from "./device_status";
+import { getDevicesByIds } from "./devices";
 
 export interface DeviceStatusUpdate {
   deviceId: string;
-  status: "verified" | "flagged" | "reported" | "stolen" | "under_review";
+  status: DeviceStatus;
   timestamp: Date;
   updatedBy?: string;
   reason?: string;
@@ -21,27 +23,19 @@ interface MonitorDeviceRequest {
 export const monitorDevices = api(
   { method: "POST", path: "/monitoring/devices/stream", expose: true },
   async (req: MonitorDeviceRequest) => {
-    const initialStatusesGen = await verificationDB.query`
-      SELECT 
-        id as device_id,
-        status,
-        updated_at,
-        flagged_reason
-      FROM devices
-      WHERE id = ANY(${req.deviceIds})
-    `;
-
-    const initialStatuses = [];
-    for await (const row of initialStatusesGen) {
-      initialStatuses.push(row);
+    const deviceIds = req.deviceIds.map(id => parseInt(id, 10));
+    if (deviceIds.some(id => Number.isNaN(id))) {
+      throw APIError.invalidArgument("Device IDs must be numeric");
     }
 
+    const devices = await getDevicesByIds(deviceIds);
+
     return {
-      updates: initialStatuses.map(row => ({
-        deviceId: row.device_id,
-        status: row.status,
-        timestamp: row.updated_at,
-        reason: row.flagged_reason,
+      updates: devices.map(device => ({
+        deviceId: device.id.toString(),
+        status: device.status,
+        timestamp: device.updatedAt,
+        reason: device.flaggedReason,
       })),
     };
   }
@@ -106,9 +100,9 @@ export const monitorGlobalStats = api(
     const statsGen = await verificationDB.query`
       SELECT 
         COUNT(*) as total_devices,
-        COUNT(*) FILTER (WHERE status = 'verified') as verified_devices,
-        COUNT(*) FILTER (WHERE status = 'flagged') as flagged_devices,
-        COUNT(*) FILTER (WHERE status = 'reported') as reported_devices
+        COUNT(*) FILTER (WHERE status = 'clean') as verified_devices,
+        COUNT(*) FILTER (WHERE status IN ('flagged', 'stolen')) as flagged_devices,
+        COUNT(*) FILTER (WHERE status = 'under_investigation') as reported_devices
       FROM devices
     `;
 
@@ -0,0 +1,219 @@
+import { api, APIError } from "encore.dev/api";
+import { Subscription } from "encore.dev/pubsub";
+import { getAuthData } from "~encore/auth";
+import { verificationDB } from "./db";
+import { DeviceStatus, resolveStatusActor, StatusActor, transitionDeviceStatus } from "./device_status";
+import { notifyWatchers } from "./device_watchers";
+import { deviceRecoveredTopic, publishDeviceChanged } from "./domain_events";
+import { getPartnersWhoVerified, notifyPartners } from "./partner_notifications";
+import { deriveDeviceStatus } from "./report_moderation";
+import { SchnorrProof } from "./schnorr";
+import { validateString, ValidationError } from "./validation";
+import { authenticateCurrentOwner } from "./zkp_verification";
+
+export interface RecoverDeviceRequest {
+  deviceId: number;
+  // A verified theft report for this device. Required unless the caller is a law-enforcement
+  // partner or a platform operator.
+  reportId?: number;
+  // Needed unless the caller is the partner that recorded the current ownership: a proof from
+  // the current owner's key for the claim "recover-device:<reportId>".
+  proof?: SchnorrProof;
+  caseNumber?: string;
+  notes?: string;
+}
+
+export interface RecoverDeviceResponse {
+  recoveryId: number;
+  deviceId: number;
+  previousStatus: DeviceStatus;
+  status: DeviceStatus;
+  closedReports: number;
+  recoveredAt: Date;
+}
+
+// Marks a stolen device as recovered and restores its status. Watchers and partners are notified
+// asynchronously once the recovery is committed.
+export const recoverDevice = api<RecoverDeviceRequest, RecoverDeviceResponse>(
+  { expose: true, method: "POST", path: "/device/:deviceId/recover" },
+  async (req) => {
+    try {
+      if (req.caseNumber) {
+        validateString(req.caseNumber, "Case number", 1, 255);
+      }
+      if (req.notes) {
+        validateString(req.notes, "Notes", 0, 2000);
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    const { deviceId, reportId, caseNumber, notes } = req;
+    const authData = getAuthData();
+    const resolved = resolveStatusActor();
+    const isAuthority = resolved.actor === "law_enforcement" || resolved.actor === "moderator";
+
+    if (!isAuthority && !reportId) {
+      throw APIError.permissionDenied(
+        "Recovery requires the owner of a verified theft report, a law-enforcement partner or a platform operator"
+      );
+    }
+
+    if (reportId) {
+      const theftReport = await verificationDB.queryRow<{
+        device_id: number;
+        report_type: string;
+        status: string;
+      }>`
+        SELECT device_id, report_type, status FROM reports WHERE id = ${reportId}
+      `;
+
+      if (!theftReport || theftReport.device_id !== deviceId || theftReport.report_type !== "stolen") {
+        throw APIError.invalidArgument("Report is not a theft report for this device");
+      }
+      if (!isAuthority && theftReport.status !== "verified") {
+        throw APIError.permissionDenied("Owners can only record a recovery against a verified theft report");
+      }
+    }
+
+    let actor: StatusActor;
+    let actorId: string;
+    if (isAuthority) {
+      actor = resolved.actor;
+      actorId = resolved.actorId!;
+    } else {
+      actor = "owner";
+      actorId = await authenticateCurrentOwner(verificationDB, deviceId, `recover-device:${reportId}`, req.proof);
+    }
+
+    const tx = await verificationDB.begin();
+    let previousStatus: DeviceStatus;
+    let status: DeviceStatus;
+    let since: Date;
+    let closedReports: number;
+    let recovery: { id: number; recovered_at: Date } | null;
+    try {
+      const device = await tx.queryRow<{ status: DeviceStatus; created_at: Date }>`
+        SELECT status, created_at FROM devices WHERE id = ${deviceId} FOR UPDATE
+      `;
+      if (!device) {
+        throw APIError.notFound("Device not found");
+      }
+      if (device.status !== "stolen" && device.status !== "flagged") {
+        throw APIError.failedPrecondition("Device is not listed as stolen");
+      }
+      previousStatus = device.status;
+
+      // When the device last left good standing; partners that looked it up since then saw it as stolen
+      const leftGoodStanding = await tx.queryRow<{ created_at: Date }>`
+        SELECT created_at FROM device_status_transitions
+        WHERE device_id = ${deviceId} AND from_status IN ('pending', 'clean')
+        ORDER BY created_at DESC, id DESC
+        LIMIT 1
+      `;
+      since = leftGoodStanding?.created_at ?? device.created_at;
+
+      const closed = await tx.queryAll<{ id: number }>`
+        UPDATE reports
+        SET status = 'recovered',
+            recovered_from_status = status,
+            resolved_at = COALESCE(resolved_at, CURRENT_TIMESTAMP),
+            updated_at = CURRENT_TIMESTAMP
+        WHERE device_id = ${deviceId}
+          AND report_type = 'stolen'
+          AND status NOT IN ('rejected', 'recovered')
+        RETURNING id
+      `;
+      closedReports = closed.length;
+
+      const transition = await transitionDeviceStatus({
+        deviceId,
+        toStatus: await deriveDeviceStatus(tx, deviceId),
+        actor,
+        actorId,
+        reason: `Device recovered${caseNumber ? ` (case ${caseNumber})` : ""}${notes ? `: ${notes}` : ""}`,
+        reportId,
+        derived: true,
+      }, tx);
+      status = transition.toStatus;
+
+      recovery = await tx.queryRow<{ id: number; recovered_at: Date }>`
+        INSERT INTO device_recoveries (
+          device_id, report_id, partner_id, actor_type, actor_id, case_number, notes,
+          previous_status, restored_status
+        ) VALUES (
+          ${deviceId}, ${reportId ?? null}, ${authData?.partnerId ?? null}, ${actor}, ${actorId},
+          ${caseNumber ?? null}, ${notes ?? null}, ${previousStatus}, ${status}
+        )
+        RETURNING id, recovered_at
+      `;
+
+      if (closed.length > 0) {
+        await tx.exec`
+          UPDATE reports SET recovery_id = ${recovery!.id}
+          WHERE id = ANY(${closed.map(r => r.id)})
+        `;
+      }
+
+      await tx.exec`
+        INSERT INTO device_events (device_id, event_type, event_description, provider_name, verified)
+        VALUES (
+          ${deviceId}, 'recovery',
+          ${`Device recovered${caseNumber ? ` under case ${caseNumber}` : ""}`},
+          ${authData?.partnerName || 'STOLEN'}, ${actor !== "owner"}
+        )
+      `;
+
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+
+    await publishDeviceChanged(deviceId, "recovery");
+    await deviceRecoveredTopic.publish({
+      recoveryId: recovery!.id,
+      deviceId,
+      previousStatus,
+      status,
+      recoveredAt: recovery!.recovered_at,
+      since,
+    });
+
+    return {
+      recoveryId: recovery!.id,
+      deviceId,
+      previousStatus,
+      status,
+      closedReports,
+      recoveredAt: recovery!.recovered_at,
+    };
+  }
+);
+
+// Tells the device's watchers and the partners that saw it as stolen that it has been recovered.
+const _ = new Subscription(deviceRecoveredTopic, "notify-recovery", {
+  handler: async (event) => {
+    const device = await verificationDB.queryRow<{ device_name: string }>`
+      SELECT device_name FROM devices WHERE id = ${event.deviceId}
+    `;
+    const message = `RECOVERED: "${device?.device_name ?? `Device ${event.deviceId}`}" is no longer listed as stolen.`;
+
+    await notifyWatchers(event.deviceId, "recovery", message);
+    await notifyPartners(
+      await getPartnersWhoVerified(event.deviceId, event.since),
+      event.deviceId,
+      "device_recovered",
+      message,
+      {
+        recoveryId: event.recoveryId,
+        previousStatus: event.previousStatus,
+        status: event.status,
+        recoveredAt: event.recoveredAt,
+      }
+    );
+  },
+});
@@ -1,5 +1,9 @@
 import { api, APIError } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
 import { verificationDB } from "./db";
+import { resolveStatusActor, transitionDeviceStatus } from "./device_status";
+import { getDeviceById, incrementReportCount } from "./devices";
+import { publishDeviceChanged } from "./domain_events";
 import { validateString, validateEnum, validateArray, validateURL, ValidationError } from "./validation";
 
 export interface ReportDeviceRequest {
@@ -37,27 +41,43 @@ export const report = api<ReportDeviceRequest, ReportDeviceResponse>(
 
     const { deviceId, reporterAlias, reportType, description, evidenceUrls } = req;
 
-    const result = await verificationDB.queryRow<{ id: number }>`
-      INSERT INTO reports (device_id, reporter_alias, report_type, description, evidence_urls)
-      VALUES (${deviceId}, ${reporterAlias}, ${reportType}, ${description}, ${evidenceUrls || []})
-      RETURNING id
-    `;
+    const device = await getDeviceById(deviceId);
+    if (!device) {
+      throw APIError.notFound("Device not found");
+    }
 
-    // Update device status if it's a serious report
-    if (reportType === "stolen" || reportType === "fraud") {
-      await verificationDB.exec`
-        UPDATE devices 
-        SET status = 'flagged', updated_at = CURRENT_TIMESTAMP
-        WHERE id = ${deviceId}
-      `;
-    } else {
-      await verificationDB.exec`
-        UPDATE devices 
-        SET status = 'under_investigation', updated_at = CURRENT_TIMESTAMP
-        WHERE id = ${deviceId}
+    const { actor, actorId } = resolveStatusActor();
+
+    const tx = await verificationDB.begin();
+    let result: { id: number } | null;
+    try {
+      result = await tx.queryRow<{ id: number }>`
+        INSERT INTO reports (device_id, reporter_alias, report_type, description, evidence_urls, partner_id)
+        VALUES (${deviceId}, ${reporterAlias}, ${reportType}, ${description}, ${evidenceUrls || []}, ${getAuthData()?.partnerId ?? null})
+        RETURNING id
       `;
+
+      await incrementReportCount(deviceId, `Reported as ${reportType}: ${description}`, tx);
+
+      // Serious reports flag the device, anything else opens an investigation
+      await transitionDeviceStatus({
+        deviceId,
+        toStatus: reportType === "stolen" || reportType === "fraud" ? "flagged" : "under_investigation",
+        actor,
+        actorId: actorId ?? reporterAlias,
+        reason: `Reported as ${reportType}: ${description}`,
+        reportId: result!.id,
+        escalateOnly: true,
+      }, tx);
+
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
     }
 
+    await publishDeviceChanged(deviceId, "report");
+
     return {
       reportId: result!.id,
       status: "submitted",
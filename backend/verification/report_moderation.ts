@@ -0,0 +1,573 @@
+import { api, APIError } from "encore.dev/api";
+import { Transaction } from "encore.dev/storage/sqldb";
+import { getAuthData } from "~encore/auth";
+import { requireOperator } from "./auth";
+import { verificationDB } from "./db";
+import { canTransition, DeviceStatus, transitionDeviceStatus } from "./device_status";
+import { publishDeviceChanged } from "./domain_events";
+import { SchnorrProof } from "./schnorr";
+import {
+  validateArray,
+  validateEnum,
+  validatePagination,
+  validateString,
+  validateURL,
+  ValidationError,
+} from "./validation";
+import { authenticateCurrentOwner } from "./zkp_verification";
+
+export const REPORT_STATUSES = [
+  "pending", "under_review", "evidence_requested", "disputed", "verified", "rejected", "recovered",
+] as const;
+export type ReportStatus = typeof REPORT_STATUSES[number];
+
+export type ReportAction = "assign" | "request_evidence" | "submit_evidence" | "dispute" | "verify" | "reject";
+export type ReportActor = "moderator" | "reporter" | "owner";
+
+// Reports still waiting on a moderator decision.
+const OPEN_REPORT_STATUSES: ReportStatus[] = ["pending", "under_review", "evidence_requested", "disputed"];
+
+// Report statuses from which each action may be taken.
+const ACTION_FROM: Record<ReportAction, ReportStatus[]> = {
+  assign: OPEN_REPORT_STATUSES,
+  request_evidence: ["pending", "under_review", "disputed"],
+  submit_evidence: ["evidence_requested"],
+  dispute: ["pending", "under_review", "evidence_requested"],
+  verify: OPEN_REPORT_STATUSES,
+  reject: OPEN_REPORT_STATUSES,
+};
+
+export interface ModerationReport {
+  id: number;
+  deviceId: number;
+  deviceName?: string;
+  deviceStatus?: DeviceStatus;
+  reporterAlias: string;
+  reportType: string;
+  description?: string;
+  evidenceUrls: string[];
+  status: ReportStatus;
+  assignedTo?: string;
+  evidenceRequestedAt?: Date;
+  resolutionNote?: string;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  disputeCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ReportActionEntry {
+  id: number;
+  action: ReportAction;
+  actorType: ReportActor;
+  actorId: string;
+  note?: string;
+  evidenceUrls: string[];
+  createdAt: Date;
+}
+
+interface ReportRow {
+  id: number;
+  device_id: number;
+  device_name: string | null;
+  device_status: DeviceStatus | null;
+  reporter_alias: string;
+  report_type: string;
+  description: string | null;
+  evidence_urls: string[] | null;
+  status: ReportStatus;
+  assigned_to: string | null;
+  evidence_requested_at: Date | null;
+  resolution_note: string | null;
+  resolved_by: string | null;
+  resolved_at: Date | null;
+  dispute_count: number;
+  created_at: Date;
+  updated_at: Date | null;
+}
+
+export interface ListModerationQueueRequest {
+  status?: ReportStatus;
+  assignedTo?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface ListModerationQueueResponse {
+  reports: ModerationReport[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// Lists reports awaiting moderation, oldest first. Defaults to every open report.
+export const listModerationQueue = api<ListModerationQueueRequest, ListModerationQueueResponse>(
+  { expose: true, method: "GET", path: "/moderation/reports", auth: true },
+  async (req) => {
+    requireOperator(getAuthData()!);
+
+    try {
+      if (req.status) {
+        validateEnum(req.status, "Status", REPORT_STATUSES);
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    const { page, limit } = validatePagination(req.page, req.limit);
+    const statuses: string[] = req.status ? [req.status] : OPEN_REPORT_STATUSES;
+    const assignedTo = req.assignedTo ?? null;
+
+    const count = await verificationDB.queryRow<{ total: number }>`
+      SELECT COUNT(*)::int as total
+      FROM reports r
+      WHERE r.status = ANY(${statuses})
+        AND (${assignedTo}::text IS NULL OR r.assigned_to = ${assignedTo})
+    `;
+
+    const rows = await verificationDB.queryAll<ReportRow>`
+      SELECT r.id, r.device_id, d.device_name, d.status as device_status, r.reporter_alias,
+             r.report_type, r.description, r.evidence_urls, r.status, r.assigned_to,
+             r.evidence_requested_at, r.resolution_note, r.resolved_by, r.resolved_at,
+             (SELECT COUNT(*) FROM report_actions ra
+               WHERE ra.report_id = r.id AND ra.action = 'dispute')::int as dispute_count,
+             r.created_at, r.updated_at
+      FROM reports r
+      LEFT JOIN devices d ON r.device_id = d.id
+      WHERE r.status = ANY(${statuses})
+        AND (${assignedTo}::text IS NULL OR r.assigned_to = ${assignedTo})
+      ORDER BY r.created_at ASC, r.id ASC
+      LIMIT ${limit} OFFSET ${(page - 1) * limit}
+    `;
+
+    return {
+      reports: rows.map(toModerationReport),
+      total: count?.total ?? 0,
+      page,
+      limit,
+    };
+  }
+);
+
+export interface GetModerationReportRequest {
+  reportId: number;
+}
+
+export interface GetModerationReportResponse {
+  report: ModerationReport;
+  actions: ReportActionEntry[];
+}
+
+// Retrieves a report together with its full moderation history.
+export const getModerationReport = api<GetModerationReportRequest, GetModerationReportResponse>(
+  { expose: true, method: "GET", path: "/moderation/reports/:reportId", auth: true },
+  async (req) => {
+    requireOperator(getAuthData()!);
+
+    const report = await loadReport(req.reportId);
+
+    const actions = await verificationDB.queryAll<{
+      id: number;
+      action: ReportAction;
+      actor_type: ReportActor;
+      actor_id: string;
+      note: string | null;
+      evidence_urls: string[] | null;
+      created_at: Date;
+    }>`
+      SELECT id, action, actor_type, actor_id, note, evidence_urls, created_at
+      FROM report_actions
+      WHERE report_id = ${req.reportId}
+      ORDER BY created_at ASC, id ASC
+    `;
+
+    return {
+      report,
+      actions: actions.map(row => ({
+        id: row.id,
+        action: row.action,
+        actorType: row.actor_type,
+        actorId: row.actor_id,
+        note: row.note ?? undefined,
+        evidenceUrls: row.evidence_urls ?? [],
+        createdAt: row.created_at,
+      })),
+    };
+  }
+);
+
+export interface AssignReportRequest {
+  reportId: number;
+  assignee?: string;
+}
+
+// Assigns a report to a moderator, defaulting to the caller, and starts its review.
+export const assignReport = api<AssignReportRequest, ModerationReport>(
+  { expose: true, method: "POST", path: "/moderation/reports/:reportId/assign", auth: true },
+  async (req) => {
+    const authData = getAuthData()!;
+    requireOperator(authData);
+
+    const assignee = req.assignee?.trim() || authData.userID;
+
+    await withReport(req.reportId, "assign", async (tx, report) => {
+      await tx.exec`
+        UPDATE reports
+        SET assigned_to = ${assignee},
+            assigned_at = CURRENT_TIMESTAMP,
+            status = ${report.status === "pending" ? "under_review" : report.status},
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = ${req.reportId}
+      `;
+      await recordReportAction(tx, req.reportId, "assign", "moderator", authData.userID, `Assigned to ${assignee}`);
+    });
+
+    return loadReport(req.reportId);
+  }
+);
+
+export interface ModerationNoteRequest {
+  reportId: number;
+  note: string;
+}
+
+// Asks the reporter for more evidence before the report can be decided.
+export const requestReportEvidence = api<ModerationNoteRequest, ModerationReport>(
+  { expose: true, method: "POST", path: "/moderation/reports/:reportId/request-evidence", auth: true },
+  async (req) => {
+    const authData = getAuthData()!;
+    requireOperator(authData);
+    validateNote(req.note);
+
+    await withReport(req.reportId, "request_evidence", async (tx) => {
+      await tx.exec`
+        UPDATE reports
+        SET status = 'evidence_requested',
+            evidence_requested_at = CURRENT_TIMESTAMP,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = ${req.reportId}
+      `;
+      await recordReportAction(tx, req.reportId, "request_evidence", "moderator", authData.userID, req.note);
+    });
+
+    return loadReport(req.reportId);
+  }
+);
+
+// Confirms a report. The device status and trust score are recomputed from its reports.
+export const verifyReport = api<ModerationNoteRequest, ModerationReport>(
+  { expose: true, method: "POST", path: "/moderation/reports/:reportId/verify", auth: true },
+  async (req) => {
+    return resolveReport(req, "verify");
+  }
+);
+
+// Dismisses a report. The device status and trust score are recomputed from its remaining reports.
+export const rejectReport = api<ModerationNoteRequest, ModerationReport>(
+  { expose: true, method: "POST", path: "/moderation/reports/:reportId/reject", auth: true },
+  async (req) => {
+    return resolveReport(req, "reject");
+  }
+);
+
+export interface ReportStatusResponse {
+  reportId: number;
+  status: ReportStatus;
+}
+
+export interface SubmitReportEvidenceRequest {
+  reportId: number;
+  evidenceUrls: string[];
+  note?: string;
+  // Needed unless the caller is the partner that filed the report: a proof from the current
+  // owner's key for the claim "report-evidence:<reportId>", when the owner filed it.
+  proof?: SchnorrProof;
+}
+
+// Adds evidence requested by a moderator and returns the report to review.
+export const submitReportEvidence = api<SubmitReportEvidenceRequest, ReportStatusResponse>(
+  { expose: true, method: "POST", path: "/reports/:reportId/evidence" },
+  async (req) => {
+    try {
+      validateArray(req.evidenceUrls, "Evidence URLs", 1, 10);
+      req.evidenceUrls.forEach(url => validateURL(url, "Evidence URL"));
+      if (req.note) {
+        validateString(req.note, "Note", 0, 2000);
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    const authData = getAuthData();
+
+    await withReport(req.reportId, "submit_evidence", async (tx, report) => {
+      const filedByCaller = authData !== null && report.partner_id === authData.partnerId;
+      if (!filedByCaller) {
+        const ownerAlias = await authenticateCurrentOwner(
+          tx, report.device_id, `report-evidence:${req.reportId}`, req.proof
+        );
+        if (ownerAlias !== report.reporter_alias) {
+          throw APIError.permissionDenied("Only the original reporter can add evidence to this report");
+        }
+      }
+
+      await tx.exec`
+        UPDATE reports
+        SET evidence_urls = COALESCE(evidence_urls, ARRAY[]::text[]) || ${req.evidenceUrls},
+            status = 'under_review',
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = ${req.reportId}
+      `;
+      await recordReportAction(
+        tx, req.reportId, "submit_evidence", "reporter", authData?.userID ?? report.reporter_alias,
+        req.note, req.evidenceUrls
+      );
+    });
+
+    return { reportId: req.reportId, status: "under_review" };
+  }
+);
+
+export interface DisputeReportRequest {
+  reportId: number;
+  statement: string;
+  evidenceUrls?: string[];
+  // Needed unless the caller is the partner that recorded the current ownership: a proof from
+  // the current owner's key for the claim "dispute-report:<reportId>".
+  proof?: SchnorrProof;
+}
+
+// Lets the device's current owner contest a report before a moderator decides it.
+export const disputeReport = api<DisputeReportRequest, ReportStatusResponse>(
+  { expose: true, method: "POST", path: "/reports/:reportId/dispute" },
+  async (req) => {
+    try {
+      validateString(req.statement, "Statement", 10, 5000);
+      if (req.evidenceUrls) {
+        validateArray(req.evidenceUrls, "Evidence URLs", 0, 10);
+        req.evidenceUrls.forEach(url => validateURL(url, "Evidence URL"));
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    await withReport(req.reportId, "dispute", async (tx, report) => {
+      const ownerAlias = await authenticateCurrentOwner(
+        tx, report.device_id, `dispute-report:${req.reportId}`, req.proof
+      );
+
+      await tx.exec`
+        UPDATE reports SET status = 'disputed', updated_at = CURRENT_TIMESTAMP
+        WHERE id = ${req.reportId}
+      `;
+      await recordReportAction(
+        tx, req.reportId, "dispute", "owner", ownerAlias, req.statement, req.evidenceUrls
+      );
+    });
+
+    return { reportId: req.reportId, status: "disputed" };
+  }
+);
+
+function validateNote(note: string): void {
+  try {
+    validateString(note, "Note", 5, 2000);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw APIError.invalidArgument(error.message);
+    }
+    throw error;
+  }
+}
+
+async function resolveReport(req: ModerationNoteRequest, action: "verify" | "reject"): Promise<ModerationReport> {
+  const authData = getAuthData()!;
+  requireOperator(authData);
+  validateNote(req.note);
+
+  const status: ReportStatus = action === "verify" ? "verified" : "rejected";
+  let deviceId = 0;
+
+  await withReport(req.reportId, action, async (tx, report) => {
+    deviceId = report.device_id;
+
+    await tx.exec`
+      UPDATE reports
+      SET status = ${status},
+          resolution_note = ${req.note},
+          resolved_by = ${authData.userID},
+          resolved_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ${req.reportId}
+    `;
+    await recordReportAction(tx, req.reportId, action, "moderator", authData.userID, req.note);
+
+    await reconcileDeviceStatus(tx, deviceId, authData.userID, req.reportId, `Report #${req.reportId} ${status}: ${req.note}`);
+  });
+
+  await publishDeviceChanged(deviceId, "report_resolved");
+
+  return loadReport(req.reportId);
+}
+
+interface LockedReport {
+  device_id: number;
+  reporter_alias: string;
+  partner_id: number | null;
+  status: ReportStatus;
+}
+
+// Locks the report, checks the action is allowed from its current status and runs the
+// update in a single transaction.
+async function withReport(
+  reportId: number,
+  action: ReportAction,
+  fn: (tx: Transaction, report: LockedReport) => Promise<void>
+): Promise<void> {
+  const tx = await verificationDB.begin();
+  try {
+    const report = await tx.queryRow<LockedReport>`
+      SELECT device_id, reporter_alias, partner_id, status FROM reports WHERE id = ${reportId} FOR UPDATE
+    `;
+    if (!report) {
+      throw APIError.notFound("Report not found");
+    }
+    if (!ACTION_FROM[action].includes(report.status)) {
+      throw APIError.failedPrecondition(`Cannot ${action.replace("_", " ")} a report that is ${report.status}`);
+    }
+
+    await fn(tx, report);
+    await tx.commit();
+  } catch (error) {
+    await tx.rollback();
+    throw error;
+  }
+}
+
+async function recordReportAction(
+  tx: Transaction,
+  reportId: number,
+  action: ReportAction,
+  actorType: ReportActor,
+  actorId: string,
+  note?: string,
+  evidenceUrls?: string[]
+): Promise<void> {
+  await tx.exec`
+    INSERT INTO report_actions (report_id, action, actor_type, actor_id, note, evidence_urls)
+    VALUES (${reportId}, ${action}, ${actorType}, ${actorId}, ${note ?? null}, ${evidenceUrls ?? null})
+  `;
+}
+
+// Derives the device status from the reports that still stand against it: a verified theft
+// report means stolen, any other verified report means flagged, open reports keep it under
+// investigation (or flagged for theft and fraud), and with none left it returns to the status
+// it had before it was first reported. Rejected and recovered reports are ignored.
+export async function deriveDeviceStatus(tx: Transaction, deviceId: number): Promise<DeviceStatus> {
+  const reports = await tx.queryAll<{ report_type: string; status: ReportStatus }>`
+    SELECT report_type, status FROM reports
+    WHERE device_id = ${deviceId} AND status NOT IN ('rejected', 'recovered')
+  `;
+
+  const verified = reports.filter(r => r.status === "verified");
+  const open = reports.filter(r => OPEN_REPORT_STATUSES.includes(r.status));
+
+  if (verified.some(r => r.report_type === "stolen")) {
+    return "stolen";
+  }
+  if (verified.length > 0 || open.some(r => r.report_type === "stolen" || r.report_type === "fraud")) {
+    return "flagged";
+  }
+  if (open.length > 0) {
+    return "under_investigation";
+  }
+
+  const before = await tx.queryRow<{ from_status: DeviceStatus }>`
+    SELECT from_status FROM device_status_transitions
+    WHERE device_id = ${deviceId} AND from_status IN ('pending', 'clean')
+    ORDER BY created_at DESC, id DESC
+    LIMIT 1
+  `;
+  return before?.from_status ?? "clean";
+}
+
+async function reconcileDeviceStatus(
+  tx: Transaction,
+  deviceId: number,
+  moderatorId: string,
+  reportId: number,
+  reason: string
+): Promise<void> {
+  const device = await tx.queryRow<{ status: DeviceStatus }>`
+    SELECT status FROM devices WHERE id = ${deviceId} FOR UPDATE
+  `;
+  if (!device) {
+    return;
+  }
+
+  const target = await deriveDeviceStatus(tx, deviceId);
+  if (target === device.status || !canTransition(device.status, target, "moderator")) {
+    return;
+  }
+
+  await transitionDeviceStatus({
+    deviceId,
+    toStatus: target,
+    actor: "moderator",
+    actorId: moderatorId,
+    reason,
+    reportId,
+  }, tx);
+}
+
+async function loadReport(reportId: number): Promise<ModerationReport> {
+  const row = await verificationDB.queryRow<ReportRow>`
+    SELECT r.id, r.device_id, d.device_name, d.status as device_status, r.reporter_alias,
+           r.report_type, r.description, r.evidence_urls, r.status, r.assigned_to,
+           r.evidence_requested_at, r.resolution_note, r.resolved_by, r.resolved_at,
+           (SELECT COUNT(*) FROM report_actions ra
+             WHERE ra.report_id = r.id AND ra.action = 'dispute')::int as dispute_count,
+           r.created_at, r.updated_at
+    FROM reports r
+    LEFT JOIN devices d ON r.device_id = d.id
+    WHERE r.id = ${reportId}
+  `;
+
+  if (!row) {
+    throw APIError.notFound("Report not found");
+  }
+
+  return toModerationReport(row);
+}
+
+function toModerationReport(row: ReportRow): ModerationReport {
+  return {
+    id: row.id,
+    deviceId: row.device_id,
+    deviceName: row.device_name ?? undefined,
+    deviceStatus: row.device_status ?? undefined,
+    reporterAlias: row.reporter_alias,
+    reportType: row.report_type,
+    description: row.description ?? undefined,
+    evidenceUrls: row.evidence_urls ?? [],
+    status: row.status,
+    assignedTo: row.assigned_to ?? undefined,
+    evidenceRequestedAt: row.evidence_requested_at ?? undefined,
+    resolutionNote: row.resolution_note ?? undefined,
+    resolvedBy: row.resolved_by ?? undefined,
+    resolvedAt: row.resolved_at ?? undefined,
+    disputeCount: row.dispute_count,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at ?? row.created_at,
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertValidCommitment,
+  deriveOwnerKey,
+  normalizeCommitment,
+  ownerCommitmentFor,
+  proveKnowledge,
+  verifyKnowledgeProof,
+} from "./schnorr";
+
+describe("Schnorr proofs of knowledge", () => {
+  const ownerKey = deriveOwnerKey("correct horse battery staple", 42);
+  const ownerCommitment = ownerCommitmentFor(ownerKey);
+  const statement = { deviceId: 42, claimType: "dispute-report:7" };
+
+  it("verifies a proof made with the owner's key", () => {
+    expect(verifyKnowledgeProof(ownerCommitment, statement, proveKnowledge(ownerKey, statement))).toBe(true);
+  });
+
+  it("rejects a proof made with another key", () => {
+    const otherKey = deriveOwnerKey("another secret", 42);
+    expect(verifyKnowledgeProof(ownerCommitment, statement, proveKnowledge(otherKey, statement))).toBe(false);
+  });
+
+  it("binds the proof to its device, claim and issue time", () => {
+    const proof = proveKnowledge(ownerKey, statement);
+
+    expect(verifyKnowledgeProof(ownerCommitment, { ...statement, deviceId: 43 }, proof)).toBe(false);
+    expect(verifyKnowledgeProof(ownerCommitment, { ...statement, claimType: "recover-device:7" }, proof)).toBe(false);
+    expect(verifyKnowledgeProof(ownerCommitment, statement, { ...proof, issuedAt: new Date(0).toISOString() })).toBe(false);
+  });
+
+  it("derives different keys per device from the same secret", () => {
+    expect(deriveOwnerKey("correct horse battery staple", 43)).not.toBe(ownerKey);
+  });
+
+  it("treats malformed and out-of-group values as failures rather than throwing", () => {
+    const proof = proveKnowledge(ownerKey, statement);
+
+    expect(verifyKnowledgeProof("not hex", statement, proof)).toBe(false);
+    expect(verifyKnowledgeProof(ownerCommitment, statement, { ...proof, response: "zz" })).toBe(false);
+    // 1 is the identity, which every exponent maps to
+    expect(verifyKnowledgeProof("1", statement, { ...proof, commitment: "1" })).toBe(false);
+  });
+});
+
+describe("owner commitments", () => {
+  it("accepts a derived commitment in any hex case or padding", () => {
+    const commitment = ownerCommitmentFor(deriveOwnerKey("secret", 1));
+    const unpadded = commitment.replace(/^0+/, "").toUpperCase();
+
+    expect(normalizeCommitment(unpadded)).toBe(commitment);
+    expect(() => assertValidCommitment(unpadded)).not.toThrow();
+  });
+
+  it("rejects values outside the proof group", () => {
+    expect(() => assertValidCommitment("1")).toThrow();
+    expect(() => assertValidCommitment("g".repeat(10))).toThrow();
+  });
+});
@@ -0,0 +1,135 @@
+import * as crypto from "crypto";
+
+// Non-interactive Schnorr proof of knowledge of a discrete logarithm (RFC 8235, Fiat-Shamir)
+// over the RFC 3526 2048-bit MODP group. The owner's secret key x never leaves the prover; the
+// public commitment is Y = g^x mod p. This module has no service dependencies so owners and
+// third-party verifiers can run it themselves.
+
+export const SCHNORR_PROTOCOL = "stolen-zkp-schnorr-v1";
+
+const P = BigInt(`0x${crypto.getDiffieHellman("modp14").getPrime("hex")}`);
+// p is a safe prime, so the quadratic residues form a subgroup of prime order q = (p - 1) / 2,
+// which g = 2 generates.
+const Q = (P - 1n) / 2n;
+const G = 2n;
+const ELEMENT_HEX_LENGTH = 512;
+
+export interface SchnorrProof {
+  // t = g^r for the prover's one-time nonce r.
+  commitment: string;
+  // s = r + c * x mod q.
+  response: string;
+  // Part of the challenge, so a proof can't be replayed outside its freshness window.
+  issuedAt: string;
+}
+
+// What a proof is about. Binding these into the challenge stops a proof for one device or
+// claim from being presented for another.
+export interface SchnorrStatement {
+  deviceId: number;
+  claimType: string;
+}
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  let b = base % modulus;
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) {
+      result = (result * b) % modulus;
+    }
+    b = (b * b) % modulus;
+    e >>= 1n;
+  }
+  return result;
+}
+
+function toHex(value: bigint): string {
+  return value.toString(16).padStart(ELEMENT_HEX_LENGTH, "0");
+}
+
+function fromHex(value: string, fieldName: string): bigint {
+  if (!/^[0-9a-f]{1,512}$/i.test(value)) {
+    throw new Error(`${fieldName} must be a hex string of at most ${ELEMENT_HEX_LENGTH} characters`);
+  }
+  return BigInt(`0x${value}`);
+}
+
+// Hashes to a scalar mod q with 512 bits of slack over q's size so the result is close to uniform.
+function hashToScalar(...parts: string[]): bigint {
+  const input = parts.join("|");
+  const blocks = [0, 1, 2, 3, 4].map(counter =>
+    crypto.createHash("sha512").update(`${counter}|${input}`).digest("hex")
+  );
+  return BigInt(`0x${blocks.join("")}`) % Q;
+}
+
+function isGroupElement(value: bigint): boolean {
+  return value > 1n && value < P - 1n && modPow(value, Q, P) === 1n;
+}
+
+function challenge(ownerCommitment: string, proofCommitment: string, statement: SchnorrStatement, issuedAt: string): bigint {
+  return hashToScalar(
+    SCHNORR_PROTOCOL,
+    toHex(G),
+    ownerCommitment.toLowerCase(),
+    proofCommitment.toLowerCase(),
+    String(statement.deviceId),
+    statement.claimType,
+    issuedAt
+  );
+}
+
+// Derives the owner's secret key for one device. Secrets should be high-entropy: the public
+// commitment allows offline guessing of weak ones.
+export function deriveOwnerKey(ownerSecret: string, deviceId: number): bigint {
+  return hashToScalar(`${SCHNORR_PROTOCOL}/owner-key`, String(deviceId), ownerSecret);
+}
+
+export function ownerCommitmentFor(ownerKey: bigint): string {
+  return toHex(modPow(G, ownerKey, P));
+}
+
+export function proveKnowledge(ownerKey: bigint, statement: SchnorrStatement, issuedAt: Date = new Date()): SchnorrProof {
+  const nonce = BigInt(`0x${crypto.randomBytes(320).toString("hex")}`) % Q;
+  const commitment = toHex(modPow(G, nonce, P));
+  const issued = issuedAt.toISOString();
+  const c = challenge(ownerCommitmentFor(ownerKey), commitment, statement, issued);
+  return {
+    commitment,
+    response: toHex((nonce + c * ownerKey) % Q),
+    issuedAt: issued,
+  };
+}
+
+// Checks g^s = t * Y^c (mod p). Malformed inputs verify as false rather than throwing.
+export function verifyKnowledgeProof(ownerCommitment: string, statement: SchnorrStatement, proof: SchnorrProof): boolean {
+  let y: bigint;
+  let t: bigint;
+  let s: bigint;
+  try {
+    y = fromHex(ownerCommitment, "Owner commitment");
+    t = fromHex(proof.commitment, "Proof commitment");
+    s = fromHex(proof.response, "Proof response");
+  } catch {
+    return false;
+  }
+
+  if (s >= Q || !isGroupElement(y) || !isGroupElement(t)) {
+    return false;
+  }
+
+  const c = challenge(toHex(y), toHex(t), statement, proof.issuedAt);
+  return modPow(G, s, P) === (t * modPow(y, c, P)) % P;
+}
+
+// Throws when a commitment is not a valid public key in the group.
+export function assertValidCommitment(ownerCommitment: string): void {
+  if (!isGroupElement(fromHex(ownerCommitment, "Owner commitment"))) {
+    throw new Error("Owner commitment is not an element of the proof group");
+  }
+}
+
+export function normalizeCommitment(ownerCommitment: string): string {
+  return toHex(fromHex(ownerCommitment, "Owner commitment"));
+}
@@ -0,0 +1,210 @@
+import { api, APIError } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
+import { requireOperator, requireScope } from "./auth";
+import type { AnomalySeverity, AnomalyType } from "./anomaly_detection";
+import { verificationDB } from "./db";
+import { ScoringModel, ScoringModelConfig, STANDARD_SCORING_MODEL } from "./trust_score_rules";
+import { validateArray, validateNumber, validateString, ValidationError } from "./validation";
+
+export { STANDARD_SCORING_MODEL } from "./trust_score_rules";
+export type { ReportPenalty, ScoringModel, ScoringModelConfig } from "./trust_score_rules";
+
+interface ScoringModelRow {
+  id: number;
+  name: string;
+  version: number;
+  description: string | null;
+  // Models stored before anomaly penalties existed have none
+  config: Omit<ScoringModelConfig, "anomalyPenalties"> & Partial<Pick<ScoringModelConfig, "anomalyPenalties">>;
+  created_at: Date;
+}
+
+export function validateScoringModelConfig(config: ScoringModelConfig): void {
+  validateNumber(config.baseScore, "Base score", 0, 100);
+
+  validateNumber(config.ownership.maxPoints, "Ownership max points", 0, 100);
+  validateNumber(config.ownership.daysPerPoint, "Ownership days per point", 1, 3650);
+  validateNumber(config.ownership.frequentTransferThreshold, "Frequent transfer threshold", 0, 100);
+  validateNumber(config.ownership.penaltyPerExtraTransfer, "Penalty per extra transfer", 0, 100);
+
+  validateArray(config.history.requiredEvents, "Required events", 0, 20);
+  config.history.requiredEvents.forEach(event => validateString(event, "Required event", 1, 100));
+  validateNumber(config.history.pointsPerRequiredEvent, "Points per required event", 0, 100);
+  validateNumber(config.history.pointsPerAdditionalEvent, "Points per additional event", 0, 100);
+  validateNumber(config.history.maxAdditionalPoints, "Max additional history points", 0, 100);
+
+  validateNumber(config.repair.maxPoints, "Repair max points", 0, 100);
+  validateNumber(config.repair.neutralPoints, "Repair neutral points", 0, config.repair.maxPoints);
+  validateNumber(config.repair.verifiedRepairPoints, "Verified repair points", 0, 100);
+  validateNumber(config.repair.unverifiedRepairPenalty, "Unverified repair penalty", 0, 100);
+
+  for (const [reportType, penalty] of Object.entries(config.reportPenalties)) {
+    validateNumber(penalty.verified, `Verified ${reportType} penalty`, -100, 0);
+    validateNumber(penalty.unverified, `Unverified ${reportType} penalty`, -100, 0);
+  }
+
+  validateNumber(config.recoveredMultiplier, "Recovered multiplier", 0, 1);
+  for (const anomalyType of Object.keys(STANDARD_SCORING_MODEL.config.anomalyPenalties) as AnomalyType[]) {
+    const penalty = config.anomalyPenalties?.[anomalyType];
+    if (!penalty) {
+      throw new ValidationError(`Anomaly penalties must include ${anomalyType}`);
+    }
+    validateNumber(penalty.medium, `Medium ${anomalyType} penalty`, -100, 0);
+    validateNumber(penalty.high, `High ${anomalyType} penalty`, -100, 0);
+  }
+  validateNumber(config.decay.partialDays, "Partial decay days", 1, 3650);
+  validateNumber(config.decay.halfDays, "Half decay days", config.decay.partialDays + 1, 3650);
+  validateNumber(config.decay.partialMultiplier, "Partial decay multiplier", 0, 1);
+  validateNumber(config.decay.halfMultiplier, "Half decay multiplier", 0, 1);
+
+  validateNumber(config.riskThresholds.medium, "Medium risk threshold", 0, 100);
+  validateNumber(config.riskThresholds.low, "Low risk threshold", config.riskThresholds.medium, 100);
+}
+
+export async function getScoringModelById(id: number): Promise<ScoringModel | null> {
+  const row = await verificationDB.queryRow<ScoringModelRow>`
+    SELECT id, name, version, description, config, created_at
+    FROM scoring_models
+    WHERE id = ${id}
+  `;
+  return row ? toScoringModel(row) : null;
+}
+
+// Resolves the scoring model a partner has selected, falling back to the standard model.
+export async function getPartnerScoringModel(partnerId?: number): Promise<ScoringModel> {
+  if (partnerId === undefined) {
+    return STANDARD_SCORING_MODEL;
+  }
+
+  const row = await verificationDB.queryRow<ScoringModelRow>`
+    SELECT sm.id, sm.name, sm.version, sm.description, sm.config, sm.created_at
+    FROM partners p
+    JOIN scoring_models sm ON sm.id = p.scoring_model_id
+    WHERE p.id = ${partnerId}
+  `;
+  return row ? toScoringModel(row) : STANDARD_SCORING_MODEL;
+}
+
+export interface ListScoringModelsResponse {
+  models: ScoringModel[];
+  selectedVersion: string;
+}
+
+// Lists every stored scoring model version along with the built-in standard model.
+export const listScoringModels = api<void, ListScoringModelsResponse>(
+  { expose: true, method: "GET", path: "/scoring-models", auth: true },
+  async () => {
+    const authData = getAuthData()!;
+    requireScope(authData, "read");
+
+    const rows = await verificationDB.queryAll<ScoringModelRow>`
+      SELECT id, name, version, description, config, created_at
+      FROM scoring_models
+      ORDER BY name, version DESC
+    `;
+
+    const selected = await getPartnerScoringModel(authData.partnerId);
+
+    return {
+      models: [STANDARD_SCORING_MODEL, ...rows.map(toScoringModel)],
+      selectedVersion: selected.versionLabel,
+    };
+  }
+);
+
+export interface CreateScoringModelRequest {
+  name: string;
+  description?: string;
+  config: ScoringModelConfig;
+}
+
+// Stores a new version of a scoring model. Versions are immutable; saving under an existing
+// name creates the next version. Models are shared by every partner, so only platform operators
+// can publish them.
+export const createScoringModel = api<CreateScoringModelRequest, ScoringModel>(
+  { expose: true, method: "POST", path: "/scoring-models", auth: true },
+  async (req) => {
+    const authData = getAuthData()!;
+    requireOperator(authData);
+
+    try {
+      validateString(req.name, "Name", 2, 100);
+      if (!/^[a-z0-9][a-z0-9_-]*$/.test(req.name)) {
+        throw new ValidationError("Name may only contain lowercase letters, digits, '-' and '_'");
+      }
+      if (req.name === STANDARD_SCORING_MODEL.name) {
+        throw new ValidationError(`"${STANDARD_SCORING_MODEL.name}" is reserved for the built-in model`);
+      }
+      if (req.description) {
+        validateString(req.description, "Description", 0, 1000);
+      }
+      validateScoringModelConfig(req.config);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    const row = await verificationDB.queryRow<ScoringModelRow>`
+      INSERT INTO scoring_models (name, version, description, config, created_by_partner_id)
+      SELECT ${req.name}, COALESCE(MAX(version), 0) + 1, ${req.description ?? null},
+             ${JSON.stringify(req.config)}, ${authData.partnerId}
+      FROM scoring_models
+      WHERE name = ${req.name}
+      RETURNING id, name, version, description, config, created_at
+    `;
+
+    return toScoringModel(row!);
+  }
+);
+
+export interface SelectScoringModelRequest {
+  // Omit to return to the built-in standard model.
+  modelId?: number;
+}
+
+export interface SelectScoringModelResponse {
+  selectedVersion: string;
+}
+
+// Selects the scoring model used for the authenticated partner's trust scores.
+export const selectScoringModel = api<SelectScoringModelRequest, SelectScoringModelResponse>(
+  { expose: true, method: "PUT", path: "/partner/scoring-model", auth: true },
+  async (req) => {
+    const authData = getAuthData()!;
+    requireScope(authData, "admin");
+
+    let model = STANDARD_SCORING_MODEL;
+    if (req.modelId !== undefined) {
+      const selected = await getScoringModelById(req.modelId);
+      if (!selected) {
+        throw APIError.notFound("Scoring model not found");
+      }
+      model = selected;
+    }
+
+    await verificationDB.exec`
+      UPDATE partners
+      SET scoring_model_id = ${model.id ?? null}, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ${authData.partnerId}
+    `;
+
+    return { selectedVersion: model.versionLabel };
+  }
+);
+
+function toScoringModel(row: ScoringModelRow): ScoringModel {
+  return {
+    id: row.id,
+    name: row.name,
+    version: row.version,
+    versionLabel: `${row.name}@${row.version}`,
+    description: row.description ?? undefined,
+    config: {
+      ...row.config,
+      anomalyPenalties: row.config.anomalyPenalties ?? STANDARD_SCORING_MODEL.config.anomalyPenalties,
+    },
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,153 @@
+import * as crypto from "crypto";
+import { describe, expect, it } from "vitest";
+import {
+  createDisclosure,
+  decodeDisclosure,
+  decodeJwt,
+  Ed25519PublicJwk,
+  ed25519PublicKeyFromJwk,
+  jwkThumbprint,
+  KEY_BINDING_JWT_TYPE,
+  parseSdJwt,
+  presentSdJwt,
+  resolveDisclosures,
+  sdHash,
+  serializeSdJwt,
+  signJwt,
+  verifyJwtSignature,
+} from "./sd_jwt";
+
+const issuer = crypto.generateKeyPairSync("ed25519");
+const holder = crypto.generateKeyPairSync("ed25519");
+
+function issue() {
+  const disclosures = [
+    createDisclosure("deviceId", 42),
+    createDisclosure("brand", "Acme"),
+    createDisclosure("deviceStatus", "clean"),
+  ];
+  const issuerJwt = signJwt(
+    { alg: "EdDSA", typ: "vc+sd-jwt" },
+    { credentialSubject: { _sd: disclosures.map(d => d.digest).sort() } },
+    issuer.privateKey
+  );
+  return { disclosures, sdJwt: serializeSdJwt({ issuerJwt, disclosures: disclosures.map(d => d.encoded) }) };
+}
+
+function subjectOf(sdJwt: string): Record<string, unknown> {
+  return (decodeJwt(parseSdJwt(sdJwt).issuerJwt).payload as { credentialSubject: Record<string, unknown> }).credentialSubject;
+}
+
+describe("signJwt and verifyJwtSignature", () => {
+  it("verifies a JWT against the key that signed it", () => {
+    const jwt = decodeJwt(signJwt({ alg: "EdDSA", typ: "JWT" }, { sub: "a" }, issuer.privateKey));
+
+    expect(verifyJwtSignature(jwt, issuer.publicKey)).toBe(true);
+    expect(verifyJwtSignature(jwt, holder.publicKey)).toBe(false);
+  });
+
+  it("rejects a JWT naming another algorithm", () => {
+    const jwt = decodeJwt(signJwt({ alg: "none", typ: "JWT" }, { sub: "a" }, issuer.privateKey));
+
+    expect(verifyJwtSignature(jwt, issuer.publicKey)).toBe(false);
+  });
+
+  it("rejects a payload changed after signing", () => {
+    const [header, , signature] = signJwt({ alg: "EdDSA", typ: "JWT" }, { sub: "a" }, issuer.privateKey).split(".");
+    const forged = `${header}.${Buffer.from(JSON.stringify({ sub: "b" })).toString("base64url")}.${signature}`;
+
+    expect(verifyJwtSignature(decodeJwt(forged), issuer.publicKey)).toBe(false);
+  });
+});
+
+describe("disclosures", () => {
+  it("round-trips a disclosure and keeps its digest", () => {
+    const disclosure = createDisclosure("imei", "490154203237518");
+
+    expect(decodeDisclosure(disclosure.encoded)).toEqual(disclosure);
+  });
+
+  it("salts each disclosure so equal values get different digests", () => {
+    expect(createDisclosure("deviceId", 42).digest).not.toBe(createDisclosure("deviceId", 42).digest);
+  });
+
+  it("resolves only the disclosures that were presented", () => {
+    const { sdJwt } = issue();
+    const presented = parseSdJwt(presentSdJwt(sdJwt, ["deviceStatus"]));
+
+    expect(resolveDisclosures(subjectOf(sdJwt), presented.disclosures)).toEqual({ deviceStatus: "clean" });
+  });
+
+  it("rejects a disclosure the issuer did not sign", () => {
+    const { sdJwt } = issue();
+
+    expect(() => resolveDisclosures(subjectOf(sdJwt), [createDisclosure("deviceStatus", "clean").encoded]))
+      .toThrow("was not signed by the issuer");
+  });
+
+  it("rejects a repeated disclosure", () => {
+    const { sdJwt, disclosures } = issue();
+
+    expect(() => resolveDisclosures(subjectOf(sdJwt), [disclosures[0].encoded, disclosures[0].encoded]))
+      .toThrow("appears more than once");
+  });
+
+  it("rejects a disclosure that would overwrite a signed claim", () => {
+    const disclosure = createDisclosure("deviceId", 7);
+
+    expect(() => resolveDisclosures({ deviceId: 42, _sd: [disclosure.digest] }, [disclosure.encoded]))
+      .toThrow("clashes with another claim");
+  });
+});
+
+describe("presentSdJwt", () => {
+  it("binds the presentation to the holder key, audience, nonce and presented disclosures", () => {
+    const { sdJwt } = issue();
+    const presentation = parseSdJwt(presentSdJwt(sdJwt, ["brand"], {
+      privateKey: holder.privateKey,
+      audience: "buyer-123",
+      nonce: "n-0S6_WzA2Mj",
+    }));
+    const keyBinding = decodeJwt(presentation.keyBindingJwt!);
+
+    expect(presentation.disclosures.map(d => decodeDisclosure(d).name)).toEqual(["brand"]);
+    expect(keyBinding.header.typ).toBe(KEY_BINDING_JWT_TYPE);
+    expect(verifyJwtSignature(keyBinding, holder.publicKey)).toBe(true);
+    expect(keyBinding.payload).toMatchObject({ aud: "buyer-123", nonce: "n-0S6_WzA2Mj", sd_hash: sdHash(presentation) });
+  });
+
+  it("changes the bound hash when a disclosure is added after presenting", () => {
+    const { sdJwt, disclosures } = issue();
+    const presentation = parseSdJwt(presentSdJwt(sdJwt, ["brand"], {
+      privateKey: holder.privateKey,
+      audience: "buyer-123",
+      nonce: "n-0S6_WzA2Mj",
+    }));
+    const widened = { ...presentation, disclosures: [...presentation.disclosures, disclosures[0].encoded] };
+
+    expect(decodeJwt(presentation.keyBindingJwt!).payload.sd_hash).not.toBe(sdHash(widened));
+  });
+
+  it("serializes without a key binding JWT when no holder key is given", () => {
+    const { sdJwt } = issue();
+
+    expect(presentSdJwt(sdJwt, [])).toMatch(/^[^~]+~$/);
+  });
+});
+
+describe("holder keys", () => {
+  const jwk = holder.publicKey.export({ format: "jwk" }) as Ed25519PublicJwk;
+
+  it("imports an Ed25519 public JWK", () => {
+    expect(ed25519PublicKeyFromJwk(jwk).equals(holder.publicKey)).toBe(true);
+  });
+
+  it("rejects a key of another type", () => {
+    expect(() => ed25519PublicKeyFromJwk({ ...jwk, crv: "P-256" })).toThrow("Ed25519");
+  });
+
+  it("names a key by its RFC 7638 thumbprint regardless of extra members", () => {
+    expect(jwkThumbprint({ ...jwk, kid: "holder-1" } as Ed25519PublicJwk)).toBe(jwkThumbprint(jwk));
+    expect(jwkThumbprint(jwk)).toMatch(/^[A-Za-z0-9_-]{43}$/);
+  });
+});
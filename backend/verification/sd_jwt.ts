@@ -0,0 +1,197 @@
+import * as crypto from "crypto";
+
+// Selective-disclosure JWTs (IETF draft-ietf-oauth-selective-disclosure-jwt) signed with Ed25519.
+// Each selectively disclosable claim is a base64url JSON array [salt, name, value]; the signed
+// payload carries only its SHA-256 digest, so holders can drop claims without breaking the
+// signature. A key binding JWT signed by the holder proves the presenter holds the credential.
+// This module has no service dependencies so holders and verifiers can run it themselves.
+
+export const SD_JWT_TYPE = "vc+sd-jwt";
+export const KEY_BINDING_JWT_TYPE = "kb+jwt";
+export const SD_ALG = "sha-256";
+const JWT_ALG = "EdDSA";
+
+export interface JwtHeader {
+  alg: string;
+  typ: string;
+  kid?: string;
+}
+
+export interface Ed25519PublicJwk {
+  kty: string;
+  crv: string;
+  x: string;
+}
+
+export interface DecodedJwt {
+  header: JwtHeader;
+  payload: Record<string, unknown>;
+  signingInput: string;
+  signature: Buffer;
+}
+
+export interface Disclosure {
+  encoded: string;
+  digest: string;
+  name: string;
+  value: unknown;
+}
+
+// The parts of a serialized SD-JWT: <issuer-jwt>~<disclosure>~...~<key-binding-jwt?>
+export interface ParsedSdJwt {
+  issuerJwt: string;
+  disclosures: string[];
+  keyBindingJwt?: string;
+}
+
+export interface KeyBindingOptions {
+  privateKey: crypto.KeyObject;
+  audience: string;
+  nonce: string;
+  issuedAt?: Date;
+}
+
+function base64urlJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value), "utf8").toString("base64url");
+}
+
+function sha256Base64url(value: string): string {
+  return crypto.createHash("sha256").update(value, "ascii").digest("base64url");
+}
+
+export function signJwt(header: JwtHeader, payload: Record<string, unknown>, privateKey: crypto.KeyObject): string {
+  const signingInput = `${base64urlJson(header)}.${base64urlJson(payload)}`;
+  const signature = crypto.sign(null, Buffer.from(signingInput, "ascii"), privateKey);
+  return `${signingInput}.${signature.toString("base64url")}`;
+}
+
+export function decodeJwt(jwt: string): DecodedJwt {
+  const parts = jwt.split(".");
+  if (parts.length !== 3) {
+    throw new Error("JWT must have three parts");
+  }
+  const [header, payload] = parts.slice(0, 2).map(part => JSON.parse(Buffer.from(part, "base64url").toString("utf8")));
+  if (!header || typeof header !== "object" || !payload || typeof payload !== "object") {
+    throw new Error("JWT header and payload must be JSON objects");
+  }
+  return {
+    header,
+    payload,
+    signingInput: `${parts[0]}.${parts[1]}`,
+    signature: Buffer.from(parts[2], "base64url"),
+  };
+}
+
+// Only EdDSA is accepted, so a token can't pick a weaker algorithm for itself.
+export function verifyJwtSignature(jwt: DecodedJwt, publicKey: crypto.KeyObject): boolean {
+  if (jwt.header.alg !== JWT_ALG) {
+    return false;
+  }
+  try {
+    return crypto.verify(null, Buffer.from(jwt.signingInput, "ascii"), publicKey, jwt.signature);
+  } catch {
+    return false;
+  }
+}
+
+export function createDisclosure(name: string, value: unknown): Disclosure {
+  const encoded = base64urlJson([crypto.randomBytes(16).toString("base64url"), name, value]);
+  return { encoded, digest: sha256Base64url(encoded), name, value };
+}
+
+export function decodeDisclosure(encoded: string): Disclosure {
+  const decoded = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+  if (!Array.isArray(decoded) || decoded.length !== 3 || typeof decoded[0] !== "string" || typeof decoded[1] !== "string") {
+    throw new Error("Disclosure must be a [salt, name, value] array");
+  }
+  return { encoded, digest: sha256Base64url(encoded), name: decoded[1], value: decoded[2] };
+}
+
+export function serializeSdJwt(parsed: ParsedSdJwt): string {
+  return [parsed.issuerJwt, ...parsed.disclosures, parsed.keyBindingJwt ?? ""].join("~");
+}
+
+export function parseSdJwt(sdJwt: string): ParsedSdJwt {
+  const parts = sdJwt.split("~");
+  if (parts.length < 2 || !parts[0]) {
+    throw new Error("SD-JWT must be an issuer JWT followed by ~-separated disclosures");
+  }
+  const keyBindingJwt = parts[parts.length - 1];
+  return {
+    issuerJwt: parts[0],
+    disclosures: parts.slice(1, -1).filter(part => part.length > 0),
+    keyBindingJwt: keyBindingJwt || undefined,
+  };
+}
+
+// The key binding JWT signs this digest of everything presented before it.
+export function sdHash(parsed: ParsedSdJwt): string {
+  return sha256Base64url(serializeSdJwt({ issuerJwt: parsed.issuerJwt, disclosures: parsed.disclosures }));
+}
+
+// Keeps only the named claims' disclosures and, when a holder key is given, appends a key
+// binding JWT for the verifier's audience and nonce.
+export function presentSdJwt(sdJwt: string, claimNames: string[], keyBinding?: KeyBindingOptions): string {
+  const parsed = parseSdJwt(sdJwt);
+  const presented: ParsedSdJwt = {
+    issuerJwt: parsed.issuerJwt,
+    disclosures: parsed.disclosures.filter(encoded => claimNames.includes(decodeDisclosure(encoded).name)),
+  };
+
+  if (keyBinding) {
+    presented.keyBindingJwt = signJwt(
+      { alg: JWT_ALG, typ: KEY_BINDING_JWT_TYPE },
+      {
+        iat: Math.floor((keyBinding.issuedAt ?? new Date()).getTime() / 1000),
+        aud: keyBinding.audience,
+        nonce: keyBinding.nonce,
+        sd_hash: sdHash(presented),
+      },
+      keyBinding.privateKey
+    );
+  }
+  return serializeSdJwt(presented);
+}
+
+// Matches disclosures against the signed digests and returns the disclosed claims. Throws on a
+// disclosure the issuer didn't sign, a repeated disclosure, or a name clash with a signed claim.
+export function resolveDisclosures(
+  signedClaims: Record<string, unknown>,
+  disclosures: string[]
+): Record<string, unknown> {
+  const digests = signedClaims._sd;
+  if (digests !== undefined && (!Array.isArray(digests) || digests.some(digest => typeof digest !== "string"))) {
+    throw new Error("_sd must be an array of digests");
+  }
+
+  const claims = { ...signedClaims };
+  delete claims._sd;
+  const seen = new Set<string>();
+  for (const encoded of disclosures) {
+    const disclosure = decodeDisclosure(encoded);
+    if (!(digests as string[] | undefined)?.includes(disclosure.digest)) {
+      throw new Error(`Disclosure for "${disclosure.name}" was not signed by the issuer`);
+    }
+    if (seen.has(disclosure.digest)) {
+      throw new Error(`Disclosure for "${disclosure.name}" appears more than once`);
+    }
+    if (disclosure.name === "_sd" || disclosure.name in claims) {
+      throw new Error(`Disclosure for "${disclosure.name}" clashes with another claim`);
+    }
+    seen.add(disclosure.digest);
+    claims[disclosure.name] = disclosure.value;
+  }
+  return claims;
+}
+
+export function ed25519PublicKeyFromJwk(jwk: Ed25519PublicJwk): crypto.KeyObject {
+  if (jwk.kty !== "OKP" || jwk.crv !== "Ed25519" || typeof jwk.x !== "string") {
+    throw new Error("Holder key must be an Ed25519 public JWK");
+  }
+  return crypto.createPublicKey({ key: { kty: jwk.kty, crv: jwk.crv, x: jwk.x }, format: "jwk" });
+}
+
+// RFC 7638 thumbprint, used to name a holder key.
+export function jwkThumbprint(jwk: Ed25519PublicJwk): string {
+  return sha256Base64url(JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x }));
+}
@@ -128,12 +128,12 @@ export const seed = api<void, SeedDataResponse>(
 
     // Insert sample partners for law enforcement testing
     await verificationDB.exec`
-      INSERT INTO partners (name, api_key, partner_type, contact_email, is_active)
+      INSERT INTO partners (name, api_key, partner_type, contact_email, is_active, platform_role)
       VALUES 
-        ('SAPS Cybercrime Unit', 'le_key_saps_001', 'law_enforcement', 'cybercrime@saps.gov.za', true),
-        ('Insurance Fraud Unit', 'le_key_ifu_001', 'law_enforcement', 'fraud@insurance.co.za', true),
-        ('TechStore SA', 'partner_key_techstore_001', 'marketplace', 'api@techstore.co.za', true),
-        ('Gumtree', 'partner_key_gumtree_001', 'marketplace', 'api@gumtree.co.za', true)
+        ('SAPS Cybercrime Unit', 'le_key_saps_001', 'law_enforcement', 'cybercrime@saps.gov.za', true, 'law_enforcement'),
+        ('Insurance Fraud Unit', 'le_key_ifu_001', 'law_enforcement', 'fraud@insurance.co.za', true, 'law_enforcement'),
+        ('TechStore SA', 'partner_key_techstore_001', 'marketplace', 'api@techstore.co.za', true, NULL),
+        ('Gumtree', 'partner_key_gumtree_001', 'marketplace', 'api@gumtree.co.za', true, NULL)
       ON CONFLICT (api_key) DO NOTHING
     `;
 
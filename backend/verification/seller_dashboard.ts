@@ -1,5 +1,7 @@
 import { api } from "encore.dev/api";
 import { verificationDB } from "./db";
+import { getDeviceByIdentifier } from "./devices";
+import { publishDeviceChanged } from "./domain_events";
 
 export interface CreateSellerProfileRequest {
   sellerAlias: string;
@@ -122,16 +124,7 @@ export const generateSellerBadge = api<GenerateSellerBadgeRequest, GenerateSelle
     }
 
     // Find device
-    const device = await verificationDB.queryRow<{
-      id: number;
-      device_name: string;
-      status: string;
-      current_trust_score?: number;
-    }>`
-      SELECT id, device_name, status, current_trust_score
-      FROM devices 
-      WHERE ${identifierType === 'serial' ? 'serial_number' : 'imei'} = ${deviceIdentifier}
-    `;
+    const device = await getDeviceByIdentifier(deviceIdentifier, identifierType);
 
     if (!device) {
       throw new Error("Device not found");
@@ -205,6 +198,8 @@ export const generateSellerBadge = api<GenerateSellerBadgeRequest, GenerateSelle
               ${`Seller badge generated by ${seller.seller_alias}`}, ${seller.seller_alias}, true)
     `;
 
+    await publishDeviceChanged(device.id, "lifecycle_event");
+
     return {
       success: true,
       badge: {
@@ -215,9 +210,9 @@ export const generateSellerBadge = api<GenerateSellerBadgeRequest, GenerateSelle
       },
       device: {
         id: device.id,
-        name: device.device_name,
+        name: device.deviceName,
         status: device.status,
-        trustScore: device.current_trust_score,
+        trustScore: device.trustScore,
       },
       seller: {
         alias: seller.seller_alias,
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  canTransition,
+  DEVICE_STATUSES,
+  isDeviceStatus,
+  isEscalation,
+  mergeFederatedStatus,
+  statusActorForRole,
+  transitionExists,
+} from "./status_transitions";
+
+describe("statusActorForRole", () => {
+  it("maps platform roles to moderator and law enforcement", () => {
+    expect(statusActorForRole("operator")).toBe("moderator");
+    expect(statusActorForRole("law_enforcement")).toBe("law_enforcement");
+  });
+
+  it("treats partners without a platform role as plain partners", () => {
+    expect(statusActorForRole(undefined)).toBe("partner");
+  });
+});
+
+describe("canTransition", () => {
+  it("only lets law enforcement and moderators mark a device stolen", () => {
+    for (const from of ["pending", "clean", "under_investigation", "flagged"] as const) {
+      expect(canTransition(from, "stolen", "law_enforcement")).toBe(true);
+      expect(canTransition(from, "stolen", "moderator")).toBe(true);
+      expect(canTransition(from, "stolen", "partner")).toBe(false);
+      expect(canTransition(from, "stolen", "reporter")).toBe(false);
+      expect(canTransition(from, "stolen", "owner")).toBe(false);
+    }
+  });
+
+  it("lets owners leave stolen through recovery but not re-flag", () => {
+    expect(canTransition("stolen", "clean", "owner")).toBe(true);
+    expect(canTransition("stolen", "pending", "owner")).toBe(true);
+    expect(canTransition("stolen", "flagged", "owner")).toBe(false);
+  });
+
+  it("does not let partners or reporters clear a flag", () => {
+    expect(canTransition("flagged", "clean", "partner")).toBe(false);
+    expect(canTransition("flagged", "clean", "reporter")).toBe(false);
+    expect(canTransition("flagged", "clean", "moderator")).toBe(true);
+  });
+
+  it("rejects transitions that don't exist for any actor", () => {
+    expect(transitionExists("pending", "pending")).toBe(false);
+    expect(transitionExists("clean", "pending")).toBe(false);
+    expect(canTransition("clean", "pending", "moderator")).toBe(false);
+    expect(canTransition("clean", "pending", "system")).toBe(false);
+  });
+
+  it("has an entry for every status", () => {
+    for (const from of DEVICE_STATUSES) {
+      const reachable = DEVICE_STATUSES.filter(to => transitionExists(from, to));
+      expect(reachable.length).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe("isEscalation", () => {
+  it("orders statuses by severity", () => {
+    expect(isEscalation("clean", "pending")).toBe(true);
+    expect(isEscalation("pending", "under_investigation")).toBe(true);
+    expect(isEscalation("under_investigation", "flagged")).toBe(true);
+    expect(isEscalation("flagged", "stolen")).toBe(true);
+    expect(isEscalation("stolen", "flagged")).toBe(false);
+    expect(isEscalation("flagged", "flagged")).toBe(false);
+  });
+});
+
+describe("isDeviceStatus", () => {
+  it("accepts known statuses only", () => {
+    expect(isDeviceStatus("stolen")).toBe(true);
+    expect(isDeviceStatus("lost")).toBe(false);
+    expect(isDeviceStatus("constructor")).toBe(false);
+  });
+});
+
+describe("mergeFederatedStatus", () => {
+  it("escalates to a node's stolen or flagged verdict", () => {
+    expect(mergeFederatedStatus("clean", "stolen")).toBe("stolen");
+    expect(mergeFederatedStatus("under_investigation", "flagged")).toBe("flagged");
+  });
+
+  it("never lowers our own status", () => {
+    expect(mergeFederatedStatus("stolen", "flagged")).toBe("stolen");
+    expect(mergeFederatedStatus("stolen", "clean")).toBe("stolen");
+    expect(mergeFederatedStatus("flagged", "unknown")).toBe("flagged");
+  });
+
+  it("ignores clean and unknown verdicts", () => {
+    expect(mergeFederatedStatus("pending", "clean")).toBe("pending");
+    expect(mergeFederatedStatus("pending", "unknown")).toBe("pending");
+  });
+});
@@ -0,0 +1,91 @@
+// Device status rules: which transitions exist, who may perform them and which ones escalate.
+// Kept free of service dependencies so the rules can be tested on their own.
+import type { PlatformRole } from "./api_key_tokens";
+import type { NodeVerdict } from "./federation";
+
+export const DEVICE_STATUSES = ["pending", "clean", "under_investigation", "flagged", "stolen"] as const;
+export type DeviceStatus = typeof DEVICE_STATUSES[number];
+
+// Who is asking for a status change. Partners act as "moderator" or "law_enforcement" only when
+// the platform has given them that role; see statusActorForRole.
+export type StatusActor = "system" | "reporter" | "partner" | "law_enforcement" | "moderator" | "owner";
+
+// Allowed transitions and the actors permitted to perform each one.
+const TRANSITIONS: Record<DeviceStatus, Partial<Record<DeviceStatus, StatusActor[]>>> = {
+  pending: {
+    clean: ["system", "moderator"],
+    under_investigation: ["reporter", "partner", "moderator", "system"],
+    flagged: ["reporter", "partner", "law_enforcement", "moderator"],
+    stolen: ["law_enforcement", "moderator"],
+  },
+  clean: {
+    under_investigation: ["reporter", "partner", "moderator", "system"],
+    flagged: ["reporter", "partner", "law_enforcement", "moderator"],
+    stolen: ["law_enforcement", "moderator"],
+  },
+  under_investigation: {
+    pending: ["moderator", "system"],
+    clean: ["moderator", "system"],
+    flagged: ["partner", "law_enforcement", "moderator", "reporter"],
+    stolen: ["law_enforcement", "moderator"],
+  },
+  flagged: {
+    pending: ["moderator", "system", "law_enforcement"],
+    clean: ["moderator", "system", "law_enforcement"],
+    under_investigation: ["moderator", "system", "law_enforcement"],
+    stolen: ["law_enforcement", "moderator"],
+  },
+  stolen: {
+    // Owners may only leave "stolen" through a recovery backed by their verified theft report.
+    pending: ["law_enforcement", "moderator", "owner"],
+    clean: ["law_enforcement", "moderator", "owner"],
+    under_investigation: ["law_enforcement", "moderator", "owner"],
+    flagged: ["law_enforcement", "moderator"],
+  },
+};
+
+// Higher is more severe. Reports and flags only ever escalate a device's status.
+const STATUS_SEVERITY: Record<DeviceStatus, number> = {
+  clean: 0,
+  pending: 1,
+  under_investigation: 2,
+  flagged: 3,
+  stolen: 4,
+};
+
+export function isDeviceStatus(status: string): status is DeviceStatus {
+  return (DEVICE_STATUSES as readonly string[]).includes(status);
+}
+
+export function isEscalation(from: DeviceStatus, to: DeviceStatus): boolean {
+  return STATUS_SEVERITY[to] > STATUS_SEVERITY[from];
+}
+
+// The status a verification reports once federated nodes have answered: a node that reports the
+// device stolen or flagged escalates our own status, but a clean answer never lowers it.
+export function mergeFederatedStatus(local: DeviceStatus, verdict: NodeVerdict): DeviceStatus {
+  if ((verdict === "stolen" || verdict === "flagged") && isEscalation(local, verdict)) {
+    return verdict;
+  }
+  return local;
+}
+
+export function transitionExists(from: DeviceStatus, to: DeviceStatus): boolean {
+  return TRANSITIONS[from]?.[to] !== undefined;
+}
+
+export function canTransition(from: DeviceStatus, to: DeviceStatus, actor: StatusActor): boolean {
+  return TRANSITIONS[from][to]?.includes(actor) ?? false;
+}
+
+// The status actor for an authenticated partner. Only partners the platform has assigned a role
+// act as moderators or law enforcement; key scopes and partner type don't matter.
+export function statusActorForRole(platformRole: PlatformRole | undefined): StatusActor {
+  if (platformRole === "operator") {
+    return "moderator";
+  }
+  if (platformRole === "law_enforcement") {
+    return "law_enforcement";
+  }
+  return "partner";
+}
@@ -0,0 +1,117 @@
+import * as crypto from "crypto";
+import { describe, expect, it } from "vitest";
+import { decodeTimeStampResponse, der, parseTimeStampToken, verifyTimeStampToken } from "./timestamp_token";
+
+const oid = (hex: string) => der(0x06, Buffer.from(hex, "hex"));
+const SHA256 = "608648016503040201";
+const SIGNED_DATA = "2a864886f70d010702";
+const TST_INFO = "2a864886f70d0109100104";
+const CONTENT_TYPE = "2a864886f70d010903";
+const MESSAGE_DIGEST = "2a864886f70d010904";
+
+// A token shaped the way a TSA issues one: SignedData over a TSTInfo, signed over its attributes.
+function issueToken(
+  privateKey: crypto.KeyObject,
+  digest: Buffer,
+  nonce: Buffer,
+  tamper: { tstInfo?: (tstInfo: Buffer) => Buffer } = {}
+): Buffer {
+  const sha256 = der(0x30, oid(SHA256), der(0x05));
+  const signedTstInfo = der(0x30,
+    der(0x02, Buffer.from([1])),
+    oid("2a0304"),
+    der(0x30, sha256, der(0x04, digest)),
+    der(0x02, Buffer.from([0x2a])),
+    der(0x18, Buffer.from("20260101120000Z", "latin1")),
+    der(0x02, nonce)
+  );
+  const tstInfo = tamper.tstInfo ? tamper.tstInfo(signedTstInfo) : signedTstInfo;
+
+  const attributes = Buffer.concat([
+    der(0x30, oid(CONTENT_TYPE), der(0x31, oid(TST_INFO))),
+    der(0x30, oid(MESSAGE_DIGEST), der(0x31, der(0x04, crypto.createHash("sha256").update(signedTstInfo).digest()))),
+  ]);
+  const signature = crypto.sign("sha256", der(0x31, attributes), privateKey);
+
+  const signerInfo = der(0x30,
+    der(0x02, Buffer.from([1])),
+    der(0x30, der(0x30), der(0x02, Buffer.from([1]))),
+    sha256,
+    der(0xa0, attributes),
+    der(0x30, oid("2a8648ce3d040302")),
+    der(0x04, signature)
+  );
+  const signedData = der(0x30,
+    der(0x02, Buffer.from([3])),
+    der(0x31, sha256),
+    der(0x30, oid(TST_INFO), der(0xa0, der(0x04, tstInfo))),
+    der(0x31, signerInfo)
+  );
+  return der(0x30, oid(SIGNED_DATA), der(0xa0, signedData));
+}
+
+describe("verifyTimeStampToken", () => {
+  const tsa = crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+  const digest = crypto.createHash("sha256").update("block 7").digest();
+  const nonce = Buffer.from("4a1b2c3d4e5f6071", "hex");
+
+  it("accepts a token the TSA signed over our digest and nonce", () => {
+    const result = verifyTimeStampToken(issueToken(tsa.privateKey, digest, nonce), { digest, nonce, tsaPublicKey: tsa.publicKey });
+
+    expect(result).toEqual({ valid: true, genTime: new Date("2026-01-01T12:00:00Z") });
+  });
+
+  it("reads the message imprint rather than searching the token for the digest", () => {
+    const token = issueToken(tsa.privateKey, crypto.createHash("sha256").update("block 8").digest(), nonce);
+    const withDigestElsewhere = Buffer.concat([token, digest]);
+
+    expect(verifyTimeStampToken(withDigestElsewhere, { digest, tsaPublicKey: tsa.publicKey }).valid).toBe(false);
+    expect(parseTimeStampToken(token).hashedMessage.equals(digest)).toBe(false);
+  });
+
+  it("rejects a token signed by another key", () => {
+    const other = crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+    const result = verifyTimeStampToken(issueToken(other.privateKey, digest, nonce), { digest, tsaPublicKey: tsa.publicKey });
+
+    expect(result).toMatchObject({ valid: false, reason: "Timestamp token is not signed by the TSA" });
+  });
+
+  it("rejects a TSTInfo changed after signing", () => {
+    const otherDigest = crypto.createHash("sha256").update("rewritten block 7").digest();
+    const token = issueToken(tsa.privateKey, digest, nonce, {
+      tstInfo: tstInfo => Buffer.from(tstInfo.toString("hex").replace(digest.toString("hex"), otherDigest.toString("hex")), "hex"),
+    });
+    const result = verifyTimeStampToken(token, { digest: otherDigest, tsaPublicKey: tsa.publicKey });
+
+    expect(result).toMatchObject({ valid: false, reason: "Timestamp token's signed digest does not match its TSTInfo" });
+  });
+
+  it("rejects a token answering another request", () => {
+    const result = verifyTimeStampToken(issueToken(tsa.privateKey, digest, nonce), {
+      digest,
+      nonce: Buffer.from("4a00000000000000", "hex"),
+      tsaPublicKey: tsa.publicKey,
+    });
+
+    expect(result.valid).toBe(false);
+  });
+
+  it("rejects bytes that are not a token", () => {
+    expect(verifyTimeStampToken(Buffer.from("not a token"), { digest, tsaPublicKey: tsa.publicKey }).valid).toBe(false);
+  });
+});
+
+describe("decodeTimeStampResponse", () => {
+  it("returns the status and the token that follows it", () => {
+    const token = der(0x30, oid(SIGNED_DATA));
+    const response = der(0x30, der(0x30, der(0x02, Buffer.from([0]))), token);
+
+    const decoded = decodeTimeStampResponse(response);
+    expect(decoded.status).toBe(0);
+    expect(decoded.token?.equals(token)).toBe(true);
+  });
+
+  it("returns only the status of a rejection", () => {
+    expect(decodeTimeStampResponse(der(0x30, der(0x30, der(0x02, Buffer.from([2])))))).toEqual({ status: 2 });
+  });
+});
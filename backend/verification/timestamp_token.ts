@@ -0,0 +1,270 @@
+// RFC 3161 timestamp requests, responses and tokens. A token is a CMS SignedData whose content
+// is the TSTInfo naming the digest that was timestamped; it is only evidence once the TSA's
+// signature over it checks out. Kept free of service dependencies so tokens can be checked, and
+// tested, without a TSA.
+import * as crypto from "crypto";
+
+// 2.16.840.1.101.3.4.2.1, .2 and .3
+const SHA256_OID = Buffer.from([0x60, 0x86, 0x48, 0x01, 0x65, 0x03, 0x04, 0x02, 0x01]);
+const SHA384_OID = Buffer.from([0x60, 0x86, 0x48, 0x01, 0x65, 0x03, 0x04, 0x02, 0x02]);
+const SHA512_OID = Buffer.from([0x60, 0x86, 0x48, 0x01, 0x65, 0x03, 0x04, 0x02, 0x03]);
+// 1.2.840.113549.1.7.2
+const SIGNED_DATA_OID = Buffer.from([0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x07, 0x02]);
+// 1.2.840.113549.1.9.16.1.4
+const TST_INFO_OID = Buffer.from([0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x09, 0x10, 0x01, 0x04]);
+// 1.2.840.113549.1.9.3 and 1.2.840.113549.1.9.4
+const CONTENT_TYPE_ATTRIBUTE_OID = Buffer.from([0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x09, 0x03]);
+const MESSAGE_DIGEST_ATTRIBUTE_OID = Buffer.from([0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x09, 0x04]);
+
+const DIGEST_ALGORITHMS: [Buffer, string][] = [
+  [SHA256_OID, "sha256"],
+  [SHA384_OID, "sha384"],
+  [SHA512_OID, "sha512"],
+];
+
+const SEQUENCE = 0x30;
+const SET = 0x31;
+const INTEGER = 0x02;
+const OCTET_STRING = 0x04;
+const OBJECT_IDENTIFIER = 0x06;
+const GENERALIZED_TIME = 0x18;
+const CONTEXT_0 = 0xa0;
+
+// Minimal DER encoding, enough for timestamp requests.
+export function der(tag: number, ...contents: Buffer[]): Buffer {
+  const body = Buffer.concat(contents);
+  let length: Buffer;
+  if (body.length < 0x80) {
+    length = Buffer.from([body.length]);
+  } else {
+    const bytes: number[] = [];
+    for (let remaining = body.length; remaining > 0; remaining >>= 8) {
+      bytes.unshift(remaining & 0xff);
+    }
+    length = Buffer.from([0x80 | bytes.length, ...bytes]);
+  }
+  return Buffer.concat([Buffer.from([tag]), length, body]);
+}
+
+// TimeStampReq ::= SEQUENCE { version, messageImprint, nonce, certReq }
+export function encodeTimeStampRequest(digest: Buffer, nonce: Buffer): Buffer {
+  return der(SEQUENCE,
+    der(INTEGER, Buffer.from([1])),
+    der(SEQUENCE,
+      der(SEQUENCE, der(OBJECT_IDENTIFIER, SHA256_OID), der(0x05)),
+      der(OCTET_STRING, digest)
+    ),
+    der(INTEGER, nonce),
+    der(0x01, Buffer.from([0xff]))
+  );
+}
+
+interface DerElement {
+  tag: number;
+  // Where the element's tag is, and where its contents start and end.
+  offset: number;
+  start: number;
+  end: number;
+}
+
+function readDer(buffer: Buffer, offset: number, limit = buffer.length): DerElement {
+  if (offset + 2 > limit) {
+    throw new Error("Malformed DER: element runs past its container");
+  }
+  const tag = buffer[offset];
+  let length = buffer[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    const byteCount = length & 0x7f;
+    if (byteCount === 0 || byteCount > 4) {
+      throw new Error("Malformed DER: unsupported length encoding");
+    }
+    length = 0;
+    for (let i = 0; i < byteCount; i++) {
+      length = length * 256 + buffer[start + i];
+    }
+    start += byteCount;
+  }
+  if (start + length > limit) {
+    throw new Error("Malformed DER: element runs past its container");
+  }
+  return { tag, offset, start, end: start + length };
+}
+
+function children(buffer: Buffer, parent: DerElement): DerElement[] {
+  const elements: DerElement[] = [];
+  for (let offset = parent.start; offset < parent.end; ) {
+    const element = readDer(buffer, offset, parent.end);
+    elements.push(element);
+    offset = element.end;
+  }
+  return elements;
+}
+
+function expectTag(element: DerElement | undefined, tag: number, what: string): DerElement {
+  if (!element || element.tag !== tag) {
+    throw new Error(`Malformed timestamp token: expected ${what}`);
+  }
+  return element;
+}
+
+function contents(buffer: Buffer, element: DerElement): Buffer {
+  return buffer.subarray(element.start, element.end);
+}
+
+function digestAlgorithmName(buffer: Buffer, algorithmIdentifier: DerElement): string | undefined {
+  const oid = contents(buffer, expectTag(children(buffer, algorithmIdentifier)[0], OBJECT_IDENTIFIER, "an algorithm OID"));
+  return DIGEST_ALGORITHMS.find(([known]) => known.equals(oid))?.[1];
+}
+
+// TimeStampResp ::= SEQUENCE { status PKIStatusInfo, timeStampToken ContentInfo OPTIONAL }
+export function decodeTimeStampResponse(buffer: Buffer): { status: number; token?: Buffer } {
+  const response = readDer(buffer, 0);
+  const statusInfo = readDer(buffer, response.start, response.end);
+  const statusValue = readDer(buffer, statusInfo.start, statusInfo.end);
+  if (response.tag !== SEQUENCE || statusInfo.tag !== SEQUENCE || statusValue.tag !== INTEGER) {
+    throw new Error("Unexpected TSA response structure");
+  }
+
+  const status = contents(buffer, statusValue).reduce((value, byte) => (value << 8) | byte, 0);
+  if (statusInfo.end >= response.end) {
+    return { status };
+  }
+
+  const token = readDer(buffer, statusInfo.end, response.end);
+  return { status, token: buffer.subarray(statusInfo.end, token.end) };
+}
+
+export interface TimeStampTokenContents {
+  // Node digest name of the messageImprint algorithm, undefined if it isn't one we know.
+  hashAlgorithm?: string;
+  hashedMessage: Buffer;
+  nonce?: Buffer;
+  genTime: Date;
+  // The DER-encoded TSTInfo the TSA signed.
+  tstInfo: Buffer;
+  signer: {
+    digestAlgorithm?: string;
+    // The signed attributes, re-tagged as a SET as they were when signed.
+    signedAttributes: Buffer;
+    contentType?: Buffer;
+    messageDigest?: Buffer;
+    signature: Buffer;
+  };
+}
+
+// Parses a TimeStampToken (ContentInfo wrapping SignedData wrapping TSTInfo). Throws on anything
+// that isn't shaped like one.
+export function parseTimeStampToken(token: Buffer): TimeStampTokenContents {
+  const contentInfo = expectTag(readDer(token, 0), SEQUENCE, "a ContentInfo");
+  const [contentType, content] = children(token, contentInfo);
+  if (!contents(token, expectTag(contentType, OBJECT_IDENTIFIER, "a content type")).equals(SIGNED_DATA_OID)) {
+    throw new Error("Malformed timestamp token: content is not SignedData");
+  }
+
+  const signedData = expectTag(readDer(token, expectTag(content, CONTEXT_0, "SignedData").start, content.end), SEQUENCE, "SignedData");
+  const signedDataFields = children(token, signedData);
+  const encapsulated = children(token, expectTag(signedDataFields[2], SEQUENCE, "encapsulated content"));
+  if (!contents(token, expectTag(encapsulated[0], OBJECT_IDENTIFIER, "a content type")).equals(TST_INFO_OID)) {
+    throw new Error("Malformed timestamp token: content is not a TSTInfo");
+  }
+  const wrapper = expectTag(encapsulated[1], CONTEXT_0, "TSTInfo content");
+  const tstInfo = contents(token, expectTag(readDer(token, wrapper.start, wrapper.end), OCTET_STRING, "TSTInfo octets"));
+
+  const signerInfos = expectTag(signedDataFields[signedDataFields.length - 1], SET, "signer infos");
+  const signerFields = children(token, expectTag(children(token, signerInfos)[0], SEQUENCE, "a signer info"));
+  const signedAttributesElement = expectTag(signerFields[3], CONTEXT_0, "signed attributes");
+  const signedAttributes = Buffer.concat([Buffer.from([SET]), token.subarray(signedAttributesElement.offset + 1, signedAttributesElement.end)]);
+
+  const attributes = new Map<string, Buffer>();
+  for (const attribute of children(token, signedAttributesElement)) {
+    const [type, values] = children(token, expectTag(attribute, SEQUENCE, "an attribute"));
+    const [value] = children(token, expectTag(values, SET, "attribute values"));
+    if (value) {
+      attributes.set(contents(token, expectTag(type, OBJECT_IDENTIFIER, "an attribute type")).toString("hex"), contents(token, value));
+    }
+  }
+
+  const tst = children(tstInfo, expectTag(readDer(tstInfo, 0), SEQUENCE, "a TSTInfo"));
+  const [hashAlgorithm, hashedMessage] = children(tstInfo, expectTag(tst[2], SEQUENCE, "a message imprint"));
+  const genTime = expectTag(tst.find(field => field.tag === GENERALIZED_TIME), GENERALIZED_TIME, "a genTime");
+  // Fields after serialNumber: genTime, accuracy, ordering, then the optional nonce
+  const nonce = tst.slice(4).find(field => field.tag === INTEGER);
+
+  return {
+    hashAlgorithm: digestAlgorithmName(tstInfo, expectTag(hashAlgorithm, SEQUENCE, "a hash algorithm")),
+    hashedMessage: contents(tstInfo, expectTag(hashedMessage, OCTET_STRING, "a hashed message")),
+    nonce: nonce ? contents(tstInfo, nonce) : undefined,
+    genTime: parseGeneralizedTime(contents(tstInfo, genTime).toString("latin1")),
+    tstInfo,
+    signer: {
+      digestAlgorithm: digestAlgorithmName(token, expectTag(signerFields[2], SEQUENCE, "a digest algorithm")),
+      signedAttributes,
+      contentType: attributes.get(CONTENT_TYPE_ATTRIBUTE_OID.toString("hex")),
+      messageDigest: attributes.get(MESSAGE_DIGEST_ATTRIBUTE_OID.toString("hex")),
+      signature: contents(token, expectTag(signerFields[5], OCTET_STRING, "a signature")),
+    },
+  };
+}
+
+// YYYYMMDDHHMMSS[.fff]Z
+function parseGeneralizedTime(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\.\d+)?Z$/.exec(value);
+  if (!match) {
+    throw new Error("Malformed timestamp token: unsupported genTime format");
+  }
+  const [, year, month, day, hour, minute, second, fraction] = match;
+  return new Date(Date.UTC(
+    Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second),
+    fraction ? Math.floor(Number(fraction) * 1000) : 0
+  ));
+}
+
+export interface TimeStampVerification {
+  valid: boolean;
+  reason?: string;
+  genTime?: Date;
+}
+
+// Checks that a token is signed by the TSA key and timestamps `digest` (SHA-256), and, when
+// given, that it answers the request carrying `nonce`.
+export function verifyTimeStampToken(
+  token: Buffer,
+  expected: { digest: Buffer; nonce?: Buffer; tsaPublicKey: crypto.KeyObject }
+): TimeStampVerification {
+  let parsed: TimeStampTokenContents;
+  try {
+    parsed = parseTimeStampToken(token);
+  } catch (error) {
+    return { valid: false, reason: error instanceof Error ? error.message : String(error) };
+  }
+
+  const { signer } = parsed;
+  if (parsed.hashAlgorithm !== "sha256" || !parsed.hashedMessage.equals(expected.digest)) {
+    return { valid: false, reason: "Timestamp token covers a different digest" };
+  }
+  if (expected.nonce && !parsed.nonce?.equals(expected.nonce)) {
+    return { valid: false, reason: "Timestamp token does not answer our request nonce" };
+  }
+  if (!signer.digestAlgorithm) {
+    return { valid: false, reason: "Timestamp token is signed with an unsupported digest algorithm" };
+  }
+  if (!signer.contentType?.equals(TST_INFO_OID)) {
+    return { valid: false, reason: "Timestamp token's signed content type is not TSTInfo" };
+  }
+  if (!signer.messageDigest?.equals(crypto.createHash(signer.digestAlgorithm).update(parsed.tstInfo).digest())) {
+    return { valid: false, reason: "Timestamp token's signed digest does not match its TSTInfo" };
+  }
+
+  let signatureValid = false;
+  try {
+    signatureValid = crypto.verify(signer.digestAlgorithm, signer.signedAttributes, expected.tsaPublicKey, signer.signature);
+  } catch {
+    signatureValid = false;
+  }
+  if (!signatureValid) {
+    return { valid: false, reason: "Timestamp token is not signed by the TSA" };
+  }
+
+  return { valid: true, genTime: parsed.genTime };
+}
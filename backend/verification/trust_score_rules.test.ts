@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { computeTrustScore, STANDARD_SCORING_MODEL, TrustScoreInputs } from "./trust_score_rules";
+
+const config = STANDARD_SCORING_MODEL.config;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysAgo(days: number): Date {
+  return new Date(Date.now() - days * DAY_MS);
+}
+
+function inputs(overrides: Partial<TrustScoreInputs> = {}): TrustScoreInputs {
+  return { ownership: [], events: [], reports: [], anomalies: [], ...overrides };
+}
+
+function theftReport(status: string, recoveredFromStatus: string | null = null, createdDaysAgo = 1) {
+  return { report_type: "stolen", status, recovered_from_status: recoveredFromStatus, created_at: daysAgo(createdDaysAgo) };
+}
+
+describe("computeTrustScore", () => {
+  it("scores an empty history at the base score plus the neutral repair baseline", () => {
+    const result = computeTrustScore(inputs(), config);
+
+    expect(result.score).toBe(config.baseScore + config.repair.neutralPoints);
+    expect(result.riskCategory).toBe("high");
+  });
+
+  it("itemizes reasons that add up to the score", () => {
+    const result = computeTrustScore(inputs({
+      ownership: [{ transfer_date: daysAgo(400), is_current_owner: true }],
+      events: [
+        { event_type: "registration", verified: true },
+        { event_type: "purchase", verified: true },
+        { event_type: "repair", verified: false },
+      ],
+      reports: [theftReport("pending")],
+    }), config);
+
+    const total = result.reasons.reduce((sum, reason) => sum + reason.points, 0);
+    expect(total).toBe(result.score);
+    expect(result.reasons.find(r => r.code === "UNVERIFIED_REPAIR")?.points).toBe(-config.repair.unverifiedRepairPenalty);
+  });
+
+  it("clamps the score to 0-100 and records the clamp as a reason", () => {
+    const result = computeTrustScore(inputs({
+      reports: Array.from({ length: 5 }, () => theftReport("verified")),
+    }), config);
+
+    expect(result.score).toBe(0);
+    expect(result.reasons.some(r => r.code === "SCORE_FLOOR")).toBe(true);
+    expect(result.reasons.reduce((sum, r) => sum + r.points, 0)).toBe(0);
+  });
+
+  it("penalizes verified reports more than unverified ones", () => {
+    const verified = computeTrustScore(inputs({ reports: [theftReport("verified")] }), config);
+    const unverified = computeTrustScore(inputs({ reports: [theftReport("pending")] }), config);
+
+    expect(verified.components.disputePenalty).toBe(config.reportPenalties.stolen.verified);
+    expect(unverified.components.disputePenalty).toBe(config.reportPenalties.stolen.unverified);
+  });
+
+  it("weighs a recovered report from the penalty it carried before recovery", () => {
+    const recoveredVerified = computeTrustScore(inputs({ reports: [theftReport("recovered", "verified")] }), config);
+    const recoveredPending = computeTrustScore(inputs({ reports: [theftReport("recovered", "pending")] }), config);
+
+    expect(recoveredVerified.components.disputePenalty).toBe(
+      Math.floor(config.reportPenalties.stolen.verified * config.recoveredMultiplier)
+    );
+    expect(recoveredPending.components.disputePenalty).toBe(
+      Math.floor(config.reportPenalties.stolen.unverified * config.recoveredMultiplier)
+    );
+  });
+
+  it("decays old report penalties", () => {
+    const recent = computeTrustScore(inputs({ reports: [theftReport("verified", null, 10)] }), config);
+    const old = computeTrustScore(inputs({ reports: [theftReport("verified", null, config.decay.halfDays + 1)] }), config);
+
+    expect(old.components.disputePenalty).toBe(Math.floor(config.reportPenalties.stolen.verified * config.decay.halfMultiplier));
+    expect(old.components.disputePenalty).toBeGreaterThan(recent.components.disputePenalty);
+  });
+
+  it("applies anomaly penalties by type and severity", () => {
+    const result = computeTrustScore(inputs({
+      anomalies: [{ type: "lookup_burst", severity: "high" }],
+    }), config);
+
+    expect(result.components.anomalyPenalty).toBe(config.anomalyPenalties.lookup_burst.high);
+    expect(result.reasons.some(r => r.code === "ANOMALY_LOOKUP_BURST_HIGH")).toBe(true);
+  });
+
+  it("categorizes risk from the model thresholds", () => {
+    const result = computeTrustScore(inputs({
+      ownership: [{ transfer_date: daysAgo(900), is_current_owner: true }],
+      events: [
+        { event_type: "registration", verified: true },
+        { event_type: "purchase", verified: true },
+        { event_type: "warranty", verified: true },
+        { event_type: "inspection", verified: true },
+        { event_type: "service", verified: true },
+      ],
+    }), config);
+
+    expect(result.score).toBeGreaterThanOrEqual(config.riskThresholds.low);
+    expect(result.riskCategory).toBe("low");
+  });
+});
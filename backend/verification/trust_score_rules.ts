@@ -0,0 +1,336 @@
+// The trust score rules: scoring model weights, the built-in standard model and the scorer
+// itself. Kept free of service dependencies so scores can be computed and tested in isolation.
+import type { AnomalySeverity, AnomalySignal, AnomalyType } from "./anomaly_detection";
+
+export interface ReportPenalty {
+  verified: number;
+  unverified: number;
+}
+
+// Every weight used by the trust scorer. Penalties are negative numbers; multipliers are 0-1.
+export interface ScoringModelConfig {
+  baseScore: number;
+  ownership: {
+    maxPoints: number;
+    daysPerPoint: number;
+    frequentTransferThreshold: number;
+    penaltyPerExtraTransfer: number;
+  };
+  history: {
+    requiredEvents: string[];
+    pointsPerRequiredEvent: number;
+    pointsPerAdditionalEvent: number;
+    maxAdditionalPoints: number;
+  };
+  repair: {
+    neutralPoints: number;
+    maxPoints: number;
+    verifiedRepairPoints: number;
+    unverifiedRepairPenalty: number;
+  };
+  reportPenalties: {
+    stolen: ReportPenalty;
+    fraud: ReportPenalty;
+    tampered: ReportPenalty;
+    other: ReportPenalty;
+  };
+  recoveredMultiplier: number;
+  anomalyPenalties: Record<AnomalyType, Record<AnomalySeverity, number>>;
+  decay: {
+    partialDays: number;
+    partialMultiplier: number;
+    halfDays: number;
+    halfMultiplier: number;
+  };
+  riskThresholds: {
+    low: number;
+    medium: number;
+  };
+}
+
+export interface ScoringModel {
+  // Undefined for the built-in standard model, which is not stored in scoring_models.
+  id?: number;
+  name: string;
+  version: number;
+  // "<name>@<version>", reported alongside every score the model produces.
+  versionLabel: string;
+  description?: string;
+  config: ScoringModelConfig;
+  createdAt?: Date;
+}
+
+// The built-in model used for stored scores and for partners that have not selected one.
+export const STANDARD_SCORING_MODEL: ScoringModel = {
+  name: "standard",
+  version: 2,
+  versionLabel: "standard@2",
+  description: "Built-in model balancing ownership stability, history and reports",
+  config: {
+    baseScore: 25,
+    ownership: {
+      maxPoints: 30,
+      daysPerPoint: 30,
+      frequentTransferThreshold: 5,
+      penaltyPerExtraTransfer: 2,
+    },
+    history: {
+      requiredEvents: ["registration", "purchase"],
+      pointsPerRequiredEvent: 8,
+      pointsPerAdditionalEvent: 3,
+      maxAdditionalPoints: 9,
+    },
+    repair: {
+      neutralPoints: 10,
+      maxPoints: 20,
+      verifiedRepairPoints: 2,
+      unverifiedRepairPenalty: 3,
+    },
+    reportPenalties: {
+      stolen: { verified: -25, unverified: -15 },
+      fraud: { verified: -20, unverified: -10 },
+      tampered: { verified: -15, unverified: -8 },
+      other: { verified: -10, unverified: -5 },
+    },
+    recoveredMultiplier: 0.3,
+    anomalyPenalties: {
+      lookup_burst: { medium: -5, high: -10 },
+      country_hopping: { medium: -8, high: -15 },
+      multi_seller_listing: { medium: -10, high: -20 },
+      fingerprint_mismatch: { medium: -8, high: -15 },
+    },
+    decay: {
+      partialDays: 180,
+      partialMultiplier: 0.7,
+      halfDays: 365,
+      halfMultiplier: 0.5,
+    },
+    riskThresholds: {
+      low: 80,
+      medium: 50,
+    },
+  },
+};
+
+export interface TrustScoreComponents {
+  ownershipContinuity: number;
+  historyCompleteness: number;
+  repairHistory: number;
+  disputePenalty: number;
+  anomalyPenalty: number;
+}
+
+// One itemized contribution to a score, e.g. UNVERIFIED_REPAIR x2 -6. The points of all reasons
+// add up to the score.
+export interface TrustScoreReason {
+  code: string;
+  component: keyof TrustScoreComponents | "base" | "adjustment";
+  points: number;
+  // How many occurrences were folded into this reason.
+  count: number;
+}
+
+export interface TrustScoreInputs {
+  ownership: { transfer_date: Date; is_current_owner: boolean }[];
+  events: { event_type: string; verified: boolean }[];
+  // recovered_from_status is the status a report had when its device was recovered.
+  reports: { report_type: string; status: string; recovered_from_status: string | null; created_at: Date }[];
+  // Only the type and severity of each signal affect the score.
+  anomalies: Pick<AnomalySignal, "type" | "severity">[];
+}
+
+export interface ComputedTrustScore {
+  score: number;
+  riskCategory: "low" | "medium" | "high";
+  components: TrustScoreComponents;
+  reasons: TrustScoreReason[];
+}
+
+// Reason code the trust scorer reports for a signal, e.g. ANOMALY_LOOKUP_BURST_HIGH.
+export function anomalyReasonCode(signal: Pick<AnomalySignal, "type" | "severity">): string {
+  return `ANOMALY_${signal.type.toUpperCase()}_${signal.severity.toUpperCase()}`;
+}
+
+// Scores a device's history under a scoring model. Pure, so candidate models can be
+// evaluated without touching stored scores.
+export function computeTrustScore(inputs: TrustScoreInputs, config: ScoringModelConfig): ComputedTrustScore {
+  const now = Date.now();
+  const reasons: TrustScoreReason[] = [];
+
+  // Occurrences of the same code are folded into a single reason
+  const addReason = (code: string, component: TrustScoreReason["component"], points: number) => {
+    const existing = reasons.find(r => r.code === code);
+    if (existing) {
+      existing.points += points;
+      existing.count++;
+    } else {
+      reasons.push({ code, component, points, count: 1 });
+    }
+  };
+
+  // Records the points a clamp added or removed so the reasons still add up
+  const clamp = (
+    value: number,
+    min: number,
+    max: number,
+    component: TrustScoreReason["component"],
+    code: string
+  ) => {
+    const clamped = Math.max(min, Math.min(max, value));
+    if (clamped !== value) {
+      addReason(clamped > value ? `${code}_FLOOR` : `${code}_CAP`, component, clamped - value);
+    }
+    return clamped;
+  };
+
+  addReason("BASE_SCORE", "base", config.baseScore);
+
+  // Calculate ownership continuity score
+  let ownershipContinuity = 0;
+  if (inputs.ownership.length > 0) {
+    const currentOwner = inputs.ownership.find(o => o.is_current_owner);
+    if (currentOwner) {
+      const daysSinceLastTransfer = Math.floor(
+        (now - new Date(currentOwner.transfer_date).getTime()) / (1000 * 60 * 60 * 24)
+      );
+      // More points for longer stable ownership, up to the model's cap
+      ownershipContinuity = Math.min(
+        config.ownership.maxPoints,
+        Math.floor(daysSinceLastTransfer / config.ownership.daysPerPoint)
+      );
+      addReason(
+        `OWNERSHIP_STABLE_${Math.floor(daysSinceLastTransfer / 30)}_MONTHS`,
+        "ownershipContinuity",
+        ownershipContinuity
+      );
+    }
+    // Penalty for frequent ownership changes
+    if (inputs.ownership.length > config.ownership.frequentTransferThreshold) {
+      for (let i = config.ownership.frequentTransferThreshold; i < inputs.ownership.length; i++) {
+        addReason("FREQUENT_OWNERSHIP_TRANSFER", "ownershipContinuity", -config.ownership.penaltyPerExtraTransfer);
+      }
+      ownershipContinuity -=
+        (inputs.ownership.length - config.ownership.frequentTransferThreshold) * config.ownership.penaltyPerExtraTransfer;
+    }
+  } else {
+    addReason("NO_OWNERSHIP_RECORD", "ownershipContinuity", 0);
+  }
+  ownershipContinuity = clamp(ownershipContinuity, 0, Infinity, "ownershipContinuity", "OWNERSHIP");
+
+  // Calculate history completeness score
+  let historyCompleteness = 0;
+  const requiredEvents = config.history.requiredEvents;
+  const verifiedEvents = inputs.events.filter(e => e.verified);
+  
+  // Base points for having required events
+  requiredEvents.forEach(eventType => {
+    const code = eventType.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+    if (verifiedEvents.some(e => e.event_type === eventType)) {
+      historyCompleteness += config.history.pointsPerRequiredEvent;
+      addReason(`VERIFIED_${code}_EVENT`, "historyCompleteness", config.history.pointsPerRequiredEvent);
+    } else {
+      addReason(`MISSING_${code}_EVENT`, "historyCompleteness", 0);
+    }
+  });
+  
+  // Additional points for other verified events
+  const additionalVerifiedEvents = verifiedEvents.filter(
+    e => !requiredEvents.includes(e.event_type)
+  ).length;
+  const additionalPoints = Math.min(
+    config.history.maxAdditionalPoints,
+    additionalVerifiedEvents * config.history.pointsPerAdditionalEvent
+  );
+  historyCompleteness += additionalPoints;
+  if (additionalVerifiedEvents > 0) {
+    reasons.push({
+      code: "ADDITIONAL_VERIFIED_EVENTS",
+      component: "historyCompleteness",
+      points: additionalPoints,
+      count: additionalVerifiedEvents,
+    });
+  }
+
+  // Calculate repair history score
+  const repairEvents = inputs.events.filter(e => e.event_type === 'repair');
+  let repairHistory = config.repair.neutralPoints; // Start with neutral score
+  addReason("REPAIR_BASELINE", "repairHistory", config.repair.neutralPoints);
+  
+  repairEvents.forEach(repair => {
+    if (repair.verified) {
+      repairHistory += config.repair.verifiedRepairPoints; // Verified repairs increase trust
+      addReason("VERIFIED_REPAIR", "repairHistory", config.repair.verifiedRepairPoints);
+    } else {
+      repairHistory -= config.repair.unverifiedRepairPenalty; // Unverified repairs decrease trust
+      addReason("UNVERIFIED_REPAIR", "repairHistory", -config.repair.unverifiedRepairPenalty);
+    }
+  });
+  repairHistory = clamp(repairHistory, 0, config.repair.maxPoints, "repairHistory", "REPAIR_HISTORY");
+
+  // Calculate dispute penalty
+  let disputePenalty = 0;
+  inputs.reports.forEach(report => {
+    const daysSinceReport = Math.floor(
+      (now - new Date(report.created_at).getTime()) / (1000 * 60 * 60 * 24)
+    );
+    
+    const penalties = report.report_type === 'stolen' || report.report_type === 'fraud' || report.report_type === 'tampered'
+      ? config.reportPenalties[report.report_type]
+      : config.reportPenalties.other;
+    const standing = report.status === 'recovered' ? report.recovered_from_status : report.status;
+    let penalty = standing === 'verified' ? penalties.verified : penalties.unverified;
+
+    // A theft that ended in recovery is resolved, so it weighs far less than it did
+    if (report.status === 'recovered') {
+      penalty = Math.floor(penalty * config.recoveredMultiplier);
+    }
+    
+    // Reduce penalty over time (but not completely)
+    if (daysSinceReport > config.decay.halfDays) {
+      penalty = Math.floor(penalty * config.decay.halfMultiplier);
+    } else if (daysSinceReport > config.decay.partialDays) {
+      penalty = Math.floor(penalty * config.decay.partialMultiplier);
+    }
+    
+    disputePenalty += penalty;
+    addReason(
+      `${report.report_type.toUpperCase()}_REPORT_${report.status.toUpperCase()}_${daysSinceReport}D`,
+      "disputePenalty",
+      penalty
+    );
+  });
+
+  // Calculate anomaly penalty from behavioral red flags
+  let anomalyPenalty = 0;
+  inputs.anomalies.forEach(signal => {
+    const penalty = config.anomalyPenalties[signal.type][signal.severity];
+    anomalyPenalty += penalty;
+    addReason(anomalyReasonCode(signal), "anomalyPenalty", penalty);
+  });
+
+  // Calculate final score
+  const score = clamp(
+    ownershipContinuity + historyCompleteness + repairHistory + disputePenalty + anomalyPenalty + config.baseScore,
+    0,
+    100,
+    "adjustment",
+    "SCORE"
+  );
+
+  // Determine risk category
+  let riskCategory: "low" | "medium" | "high";
+  if (score >= config.riskThresholds.low) {
+    riskCategory = "low";
+  } else if (score >= config.riskThresholds.medium) {
+    riskCategory = "medium";
+  } else {
+    riskCategory = "high";
+  }
+
+  return {
+    score,
+    riskCategory,
+    components: { ownershipContinuity, historyCompleteness, repairHistory, disputePenalty, anomalyPenalty },
+    reasons,
+  };
+}
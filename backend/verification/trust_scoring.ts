@@ -1,18 +1,39 @@
-import { api } from "encore.dev/api";
+import { api, APIError } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
+import { CronJob } from "encore.dev/cron";
+import { Subscription } from "encore.dev/pubsub";
+import { requireScope } from "./auth";
 import { verificationDB } from "./db";
+import { AnomalySeverity, AnomalyType, detectDeviceAnomalies } from "./anomaly_detection";
+import { getDeviceById } from "./devices";
+import { DeviceChangeType, deviceChangedTopic, publishDeviceChanged } from "./domain_events";
+import { getPartnerScoringModel, getScoringModelById, validateScoringModelConfig } from "./scoring_models";
+import {
+  computeTrustScore,
+  ScoringModel,
+  ScoringModelConfig,
+  STANDARD_SCORING_MODEL,
+  TrustScoreComponents,
+  TrustScoreInputs,
+  TrustScoreReason,
+} from "./trust_score_rules";
+import { validateDate, validateNumber, ValidationError } from "./validation";
 
-export interface TrustScoreComponents {
-  ownershipContinuity: number;
-  historyCompleteness: number;
-  repairHistory: number;
-  disputePenalty: number;
-}
+export { computeTrustScore } from "./trust_score_rules";
+export type { ComputedTrustScore, TrustScoreComponents, TrustScoreReason } from "./trust_score_rules";
+
+// Bump whenever the scoring rules change so stored history records which rules produced each score.
+export const TRUST_SCORE_ALGORITHM_VERSION = "1.3";
 
 export interface TrustScoreResult {
   deviceId: number;
   score: number;
   riskCategory: "low" | "medium" | "high";
   components: TrustScoreComponents;
+  reasons: TrustScoreReason[];
+  algorithmVersion: string;
+  // The scoring model that produced the score, as "<name>@<version>".
+  modelVersion: string;
   lastCalculated: Date;
 }
 
@@ -28,159 +49,140 @@ export interface CalculateTrustScoreResponse {
 
 // Calculates or recalculates the trust score for a device.
 export const calculateTrustScore = api<CalculateTrustScoreRequest, CalculateTrustScoreResponse>(
-  { expose: true, method: "POST", path: "/trust-score/calculate" },
+  { expose: true, method: "POST", path: "/trust-score/calculate", auth: true },
   async (req) => {
-    const { deviceId } = req;
+    requireScope(getAuthData()!, "write");
+    return recalculateTrustScore(req.deviceId);
+  }
+);
 
-    // Get device info
-    const device = await verificationDB.queryRow<{
-      id: number;
-      current_trust_score?: number;
-    }>`
-      SELECT id, current_trust_score FROM devices WHERE id = ${deviceId}
-    `;
+export async function loadTrustScoreInputs(deviceId: number): Promise<TrustScoreInputs> {
+  const ownership = await verificationDB.queryAll<{
+    transfer_date: Date;
+    is_current_owner: boolean;
+  }>`
+    SELECT transfer_date, is_current_owner 
+    FROM ownership_history 
+    WHERE device_id = ${deviceId} 
+    ORDER BY transfer_date DESC
+  `;
 
-    if (!device) {
-      throw new Error("Device not found");
-    }
+  const events = await verificationDB.queryAll<{
+    event_type: string;
+    verified: boolean;
+  }>`
+    SELECT event_type, verified 
+    FROM device_events 
+    WHERE device_id = ${deviceId}
+  `;
 
-    const previousScore = device.current_trust_score;
+  // Rejected reports carry no penalty
+  const reports = await verificationDB.queryAll<{
+    report_type: string;
+    status: string;
+    recovered_from_status: string | null;
+    created_at: Date;
+  }>`
+    SELECT report_type, status, recovered_from_status, created_at 
+    FROM reports 
+    WHERE device_id = ${deviceId} AND status <> 'rejected'
+  `;
 
-    // Calculate ownership continuity score (0-30 points)
-    const ownershipData = await verificationDB.queryAll<{
-      transfer_date: Date;
-      is_current_owner: boolean;
-    }>`
-      SELECT transfer_date, is_current_owner 
-      FROM ownership_history 
-      WHERE device_id = ${deviceId} 
-      ORDER BY transfer_date DESC
-    `;
+  return { ownership, events, reports, anomalies: await detectDeviceAnomalies(deviceId) };
+}
 
-    let ownershipContinuity = 0;
-    if (ownershipData.length > 0) {
-      const currentOwner = ownershipData.find(o => o.is_current_owner);
-      if (currentOwner) {
-        const daysSinceLastTransfer = Math.floor(
-          (Date.now() - new Date(currentOwner.transfer_date).getTime()) / (1000 * 60 * 60 * 24)
-        );
-        // More points for longer stable ownership, max 30 points
-        ownershipContinuity = Math.min(30, Math.floor(daysSinceLastTransfer / 30));
-      }
-      // Penalty for frequent ownership changes
-      if (ownershipData.length > 5) {
-        ownershipContinuity -= (ownershipData.length - 5) * 2;
-      }
-    }
-    ownershipContinuity = Math.max(0, ownershipContinuity);
+// Loads scoring inputs for many devices in a handful of queries. Anomalies come from the active
+// alerts kept current by the anomaly scan rather than being re-detected for every device.
+async function loadTrustScoreInputsForDevices(deviceIds: number[]): Promise<Map<number, TrustScoreInputs>> {
+  const inputs = new Map<number, TrustScoreInputs>(
+    deviceIds.map(id => [id, { ownership: [], events: [], reports: [], anomalies: [] }])
+  );
 
-    // Calculate history completeness score (0-25 points)
-    const eventsData = await verificationDB.queryAll<{
-      event_type: string;
-      verified: boolean;
-    }>`
-      SELECT event_type, verified 
-      FROM device_events 
-      WHERE device_id = ${deviceId}
-    `;
+  const ownership = await verificationDB.queryAll<{
+    device_id: number;
+    transfer_date: Date;
+    is_current_owner: boolean;
+  }>`
+    SELECT device_id, transfer_date, is_current_owner
+    FROM ownership_history
+    WHERE device_id = ANY(${deviceIds})
+    ORDER BY transfer_date DESC
+  `;
+  ownership.forEach(({ device_id, ...row }) => inputs.get(device_id)!.ownership.push(row));
 
-    let historyCompleteness = 0;
-    const requiredEvents = ['registration', 'purchase'];
-    const verifiedEvents = eventsData.filter(e => e.verified);
-    
-    // Base points for having required events
-    requiredEvents.forEach(eventType => {
-      if (verifiedEvents.some(e => e.event_type === eventType)) {
-        historyCompleteness += 8;
-      }
-    });
-    
-    // Additional points for other verified events
-    const additionalVerifiedEvents = verifiedEvents.filter(
-      e => !requiredEvents.includes(e.event_type)
-    ).length;
-    historyCompleteness += Math.min(9, additionalVerifiedEvents * 3);
-
-    // Calculate repair history score (0-20 points)
-    const repairEvents = eventsData.filter(e => e.event_type === 'repair');
-    let repairHistory = 10; // Start with neutral score
-    
-    repairEvents.forEach(repair => {
-      if (repair.verified) {
-        repairHistory += 2; // Verified repairs increase trust
-      } else {
-        repairHistory -= 3; // Unverified repairs decrease trust
-      }
-    });
-    repairHistory = Math.max(0, Math.min(20, repairHistory));
-
-    // Calculate dispute penalty (0 to -25 points)
-    const reportsData = await verificationDB.queryAll<{
-      report_type: string;
-      status: string;
-      created_at: Date;
-    }>`
-      SELECT report_type, status, created_at 
-      FROM reports 
-      WHERE device_id = ${deviceId}
-    `;
+  const events = await verificationDB.queryAll<{ device_id: number; event_type: string; verified: boolean }>`
+    SELECT device_id, event_type, verified
+    FROM device_events
+    WHERE device_id = ANY(${deviceIds})
+  `;
+  events.forEach(({ device_id, ...row }) => inputs.get(device_id)!.events.push(row));
 
-    let disputePenalty = 0;
-    reportsData.forEach(report => {
-      const daysSinceReport = Math.floor(
-        (Date.now() - new Date(report.created_at).getTime()) / (1000 * 60 * 60 * 24)
-      );
-      
-      let penalty = 0;
-      switch (report.report_type) {
-        case 'stolen':
-          penalty = report.status === 'verified' ? -25 : -15;
-          break;
-        case 'fraud':
-          penalty = report.status === 'verified' ? -20 : -10;
-          break;
-        case 'tampered':
-          penalty = report.status === 'verified' ? -15 : -8;
-          break;
-        default:
-          penalty = report.status === 'verified' ? -10 : -5;
-      }
-      
-      // Reduce penalty over time (but not completely)
-      if (daysSinceReport > 365) {
-        penalty = Math.floor(penalty * 0.5);
-      } else if (daysSinceReport > 180) {
-        penalty = Math.floor(penalty * 0.7);
-      }
-      
-      disputePenalty += penalty;
-    });
-
-    // Calculate final score
-    const finalScore = Math.max(0, Math.min(100, 
-      ownershipContinuity + historyCompleteness + repairHistory + disputePenalty + 25 // Base score of 25
-    ));
-
-    // Determine risk category
-    let riskCategory: "low" | "medium" | "high";
-    if (finalScore >= 80) {
-      riskCategory = "low";
-    } else if (finalScore >= 50) {
-      riskCategory = "medium";
-    } else {
-      riskCategory = "high";
-    }
+  const reports = await verificationDB.queryAll<{
+    device_id: number;
+    report_type: string;
+    status: string;
+    recovered_from_status: string | null;
+    created_at: Date;
+  }>`
+    SELECT device_id, report_type, status, recovered_from_status, created_at
+    FROM reports
+    WHERE device_id = ANY(${deviceIds}) AND status <> 'rejected'
+  `;
+  reports.forEach(({ device_id, ...row }) => inputs.get(device_id)!.reports.push(row));
+
+  const anomalies = await verificationDB.queryAll<{ device_id: number; type: AnomalyType; severity: AnomalySeverity }>`
+    SELECT device_id, anomaly_type AS type, severity
+    FROM anomaly_alerts
+    WHERE device_id = ANY(${deviceIds}) AND status IN ('open', 'acknowledged')
+  `;
+  anomalies.forEach(({ device_id, ...row }) => inputs.get(device_id)!.anomalies.push(row));
+
+  return inputs;
+}
+
+// Recomputes and stores a device's trust score under the standard model, appending the result
+// to trust_score_history when the score changed. The trigger records what prompted the recalculation.
+export async function recalculateTrustScore(
+  deviceId: number,
+  trigger: DeviceChangeType | "manual" = "manual"
+): Promise<CalculateTrustScoreResponse> {
+  // Get device info
+  const device = await verificationDB.queryRow<{
+    id: number;
+    current_trust_score?: number;
+  }>`
+    SELECT id, current_trust_score FROM devices WHERE id = ${deviceId}
+  `;
+
+  if (!device) {
+    throw APIError.notFound("Device not found");
+  }
+
+  const previousScore = device.current_trust_score;
+  const model = STANDARD_SCORING_MODEL;
+  const {
+    score: finalScore,
+    riskCategory,
+    components: { ownershipContinuity, historyCompleteness, repairHistory, disputePenalty, anomalyPenalty },
+    reasons,
+  } = computeTrustScore(await loadTrustScoreInputs(deviceId), model.config);
 
-    // Store the trust score
-    await verificationDB.exec`
+  const calculatedAt = new Date();
+
+  // Store the trust score, its history entry and the device's cached score together
+  const tx = await verificationDB.begin();
+  try {
+    await tx.exec`
       INSERT INTO trust_scores (
         device_id, score, risk_category, 
         ownership_continuity_score, history_completeness_score, 
-        repair_history_score, dispute_penalty, calculated_at
+        repair_history_score, dispute_penalty, anomaly_penalty, algorithm_version, model_version,
+        reasons, calculated_at
       ) VALUES (
         ${deviceId}, ${finalScore}, ${riskCategory},
         ${ownershipContinuity}, ${historyCompleteness},
-        ${repairHistory}, ${disputePenalty}, CURRENT_TIMESTAMP
+        ${repairHistory}, ${disputePenalty}, ${anomalyPenalty}, ${TRUST_SCORE_ALGORITHM_VERSION},
+        ${model.versionLabel}, ${JSON.stringify(reasons)}, ${calculatedAt}
       )
       ON CONFLICT (device_id) DO UPDATE SET
         score = EXCLUDED.score,
@@ -189,44 +191,134 @@ export const calculateTrustScore = api<CalculateTrustScoreRequest, CalculateTrus
         history_completeness_score = EXCLUDED.history_completeness_score,
         repair_history_score = EXCLUDED.repair_history_score,
         dispute_penalty = EXCLUDED.dispute_penalty,
+        anomaly_penalty = EXCLUDED.anomaly_penalty,
+        algorithm_version = EXCLUDED.algorithm_version,
+        model_version = EXCLUDED.model_version,
+        reasons = EXCLUDED.reasons,
         calculated_at = EXCLUDED.calculated_at
     `;
 
+    // Recalculations that leave the score where it was don't add to the history
+    const lastRecorded = await tx.queryRow<{ score: number }>`
+      SELECT score FROM trust_score_history
+      WHERE device_id = ${deviceId}
+      ORDER BY calculated_at DESC, id DESC
+      LIMIT 1
+    `;
+    if (lastRecorded?.score !== finalScore) {
+      await tx.exec`
+        INSERT INTO trust_score_history (
+          device_id, score, risk_category,
+          ownership_continuity_score, history_completeness_score,
+          repair_history_score, dispute_penalty, anomaly_penalty, algorithm_version, model_version,
+          trigger, calculated_at
+        ) VALUES (
+          ${deviceId}, ${finalScore}, ${riskCategory},
+          ${ownershipContinuity}, ${historyCompleteness},
+          ${repairHistory}, ${disputePenalty}, ${anomalyPenalty}, ${TRUST_SCORE_ALGORITHM_VERSION},
+          ${model.versionLabel}, ${trigger}, ${calculatedAt}
+        )
+      `;
+    }
+
     // Update device table
-    await verificationDB.exec`
+    await tx.exec`
       UPDATE devices 
       SET current_trust_score = ${finalScore}, risk_category = ${riskCategory}
       WHERE id = ${deviceId}
     `;
 
-    const components: TrustScoreComponents = {
-      ownershipContinuity,
-      historyCompleteness,
-      repairHistory,
-      disputePenalty,
-    };
+    await tx.commit();
+  } catch (error) {
+    await tx.rollback();
+    throw error;
+  }
 
-    const trustScore: TrustScoreResult = {
-      deviceId,
-      score: finalScore,
-      riskCategory,
-      components,
-      lastCalculated: new Date(),
-    };
+  const components: TrustScoreComponents = {
+    ownershipContinuity,
+    historyCompleteness,
+    repairHistory,
+    disputePenalty,
+    anomalyPenalty,
+  };
 
-    const response: CalculateTrustScoreResponse = {
-      trustScore,
-    };
+  const trustScore: TrustScoreResult = {
+    deviceId,
+    score: finalScore,
+    riskCategory,
+    components,
+    reasons,
+    algorithmVersion: TRUST_SCORE_ALGORITHM_VERSION,
+    modelVersion: model.versionLabel,
+    lastCalculated: calculatedAt,
+  };
+
+  const response: CalculateTrustScoreResponse = {
+    trustScore,
+  };
+
+  if (previousScore !== null && previousScore !== undefined) {
+    response.previousScore = previousScore;
+    response.scoreChange = finalScore - previousScore;
+  }
+
+  return response;
+}
 
-    if (previousScore !== null && previousScore !== undefined) {
-      response.previousScore = previousScore;
-      response.scoreChange = finalScore - previousScore;
+// Recomputes the trust score whenever a report, flag, transfer or lifecycle event is written.
+const _ = new Subscription(deviceChangedTopic, "recompute-trust-score", {
+  handler: async (event) => {
+    // The device may have been deleted since the event was published
+    if (!(await getDeviceById(event.deviceId))) {
+      return;
     }
+    await recalculateTrustScore(event.deviceId, event.changeType);
+  },
+});
+
+export interface RescoreDecayedDevicesResponse {
+  devicesQueued: number;
+}
+
+// Queues a re-score for every device with a report that has aged past a decay boundary
+// since its score was last calculated.
+export const rescoreDecayedDevices = api<void, RescoreDecayedDevicesResponse>(
+  { expose: false, method: "POST", path: "/internal/trust-score/rescore-decayed" },
+  async () => {
+    // Penalties change once the whole number of days since the report exceeds the boundary
+    const { decay } = STANDARD_SCORING_MODEL.config;
+    const partialAfter = `${decay.partialDays + 1} days`;
+    const halfAfter = `${decay.halfDays + 1} days`;
+
+    const devices = await verificationDB.queryAll<{ device_id: number }>`
+      SELECT DISTINCT r.device_id
+      FROM reports r
+      LEFT JOIN trust_scores ts ON ts.device_id = r.device_id
+      WHERE r.device_id IS NOT NULL
+        AND r.status <> 'rejected'
+        AND (
+          (r.created_at + ${partialAfter}::interval <= CURRENT_TIMESTAMP
+            AND (ts.calculated_at IS NULL OR ts.calculated_at < r.created_at + ${partialAfter}::interval))
+          OR
+          (r.created_at + ${halfAfter}::interval <= CURRENT_TIMESTAMP
+            AND (ts.calculated_at IS NULL OR ts.calculated_at < r.created_at + ${halfAfter}::interval))
+        )
+    `;
 
-    return response;
+    for (const device of devices) {
+      await publishDeviceChanged(device.device_id, "penalty_decay");
+    }
+
+    return { devicesQueued: devices.length };
   }
 );
 
+const __ = new CronJob("rescore-decayed-trust-scores", {
+  title: "Re-score devices whose report penalties have decayed",
+  schedule: "0 3 * * *",
+  endpoint: rescoreDecayedDevices,
+});
+
 export interface GetTrustScoreRequest {
   deviceId: number;
 }
@@ -235,46 +327,274 @@ export interface GetTrustScoreResponse {
   trustScore: TrustScoreResult | null;
 }
 
-// Gets the current trust score for a device.
+// Gets the current trust score for a device, under the calling partner's scoring model when
+// they have selected one.
 export const getTrustScore = api<GetTrustScoreRequest, GetTrustScoreResponse>(
   { expose: true, method: "GET", path: "/trust-score/:deviceId" },
   async (req) => {
-    const { deviceId } = req;
+    return { trustScore: await getTrustScoreForPartner(req.deviceId, getAuthData()?.partnerId) };
+  }
+);
+
+// Returns a device's trust score under the partner's scoring model. Partners on the standard
+// model get the stored score; others get a live calculation that is not persisted.
+export async function getTrustScoreForPartner(deviceId: number, partnerId?: number): Promise<TrustScoreResult | null> {
+  const model = await getPartnerScoringModel(partnerId);
 
-    const trustScoreData = await verificationDB.queryRow<{
-      device_id: number;
+  if (model.id !== undefined) {
+    if (!(await getDeviceById(deviceId))) {
+      return null;
+    }
+    const computed = computeTrustScore(await loadTrustScoreInputs(deviceId), model.config);
+    return {
+      deviceId,
+      ...computed,
+      algorithmVersion: TRUST_SCORE_ALGORITHM_VERSION,
+      modelVersion: model.versionLabel,
+      lastCalculated: new Date(),
+    };
+  }
+
+  const trustScoreData = await verificationDB.queryRow<{
+    device_id: number;
+    score: number;
+    risk_category: string;
+    ownership_continuity_score: number;
+    history_completeness_score: number;
+    repair_history_score: number;
+    dispute_penalty: number;
+    anomaly_penalty: number;
+    algorithm_version: string;
+    model_version: string;
+    reasons: TrustScoreReason[];
+    calculated_at: Date;
+  }>`
+    SELECT device_id, score, risk_category, ownership_continuity_score,
+           history_completeness_score, repair_history_score, dispute_penalty, anomaly_penalty,
+           algorithm_version, model_version, reasons, calculated_at
+    FROM trust_scores 
+    WHERE device_id = ${deviceId}
+  `;
+
+  if (!trustScoreData) {
+    return null;
+  }
+
+  return {
+    deviceId: trustScoreData.device_id,
+    score: trustScoreData.score,
+    riskCategory: trustScoreData.risk_category as "low" | "medium" | "high",
+    components: {
+      ownershipContinuity: trustScoreData.ownership_continuity_score,
+      historyCompleteness: trustScoreData.history_completeness_score,
+      repairHistory: trustScoreData.repair_history_score,
+      disputePenalty: trustScoreData.dispute_penalty,
+      anomalyPenalty: trustScoreData.anomaly_penalty,
+    },
+    reasons: trustScoreData.reasons,
+    algorithmVersion: trustScoreData.algorithm_version,
+    modelVersion: trustScoreData.model_version,
+    lastCalculated: trustScoreData.calculated_at,
+  };
+}
+
+export interface GetTrustScoreHistoryRequest {
+  deviceId: number;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export interface TrustScoreHistoryEntry {
+  score: number;
+  riskCategory: "low" | "medium" | "high";
+  components: TrustScoreComponents;
+  algorithmVersion: string;
+  modelVersion: string;
+  trigger: string;
+  calculatedAt: Date;
+}
+
+export interface GetTrustScoreHistoryResponse {
+  deviceId: number;
+  history: TrustScoreHistoryEntry[];
+}
+
+// Gets how a device's trust score changed over time, oldest first. Returns the most recent
+// calculations when there are more than the limit.
+export const getTrustScoreHistory = api<GetTrustScoreHistoryRequest, GetTrustScoreHistoryResponse>(
+  { expose: true, method: "GET", path: "/trust-score/:deviceId/history" },
+  async (req) => {
+    let from: Date | null = null;
+    let to: Date | null = null;
+    const limit = req.limit ?? 100;
+    try {
+      from = req.from ? validateDate(req.from, "From") : null;
+      to = req.to ? validateDate(req.to, "To") : null;
+      validateNumber(limit, "Limit", 1, 1000);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    const rows = await verificationDB.queryAll<{
       score: number;
       risk_category: string;
       ownership_continuity_score: number;
       history_completeness_score: number;
       repair_history_score: number;
       dispute_penalty: number;
+      anomaly_penalty: number;
+      algorithm_version: string;
+      model_version: string;
+      trigger: string;
       calculated_at: Date;
     }>`
-      SELECT device_id, score, risk_category, ownership_continuity_score,
-             history_completeness_score, repair_history_score, dispute_penalty,
-             calculated_at
-      FROM trust_scores 
-      WHERE device_id = ${deviceId}
+      SELECT score, risk_category, ownership_continuity_score, history_completeness_score,
+             repair_history_score, dispute_penalty, anomaly_penalty, algorithm_version, model_version,
+             trigger, calculated_at
+      FROM trust_score_history
+      WHERE device_id = ${req.deviceId}
+        AND (${from}::timestamp IS NULL OR calculated_at >= ${from})
+        AND (${to}::timestamp IS NULL OR calculated_at <= ${to})
+      ORDER BY calculated_at DESC, id DESC
+      LIMIT ${Math.floor(limit)}
     `;
 
-    if (!trustScoreData) {
-      return { trustScore: null };
+    return {
+      deviceId: req.deviceId,
+      history: rows.reverse().map(row => ({
+        score: row.score,
+        riskCategory: row.risk_category as "low" | "medium" | "high",
+        components: {
+          ownershipContinuity: row.ownership_continuity_score,
+          historyCompleteness: row.history_completeness_score,
+          repairHistory: row.repair_history_score,
+          disputePenalty: row.dispute_penalty,
+          anomalyPenalty: row.anomaly_penalty,
+        },
+        algorithmVersion: row.algorithm_version,
+        modelVersion: row.model_version,
+        trigger: row.trigger,
+        calculatedAt: row.calculated_at,
+      })),
+    };
+  }
+);
+
+export interface DryRunScoringModelRequest {
+  // A stored model to evaluate, or an unsaved candidate configuration.
+  modelId?: number;
+  config?: ScoringModelConfig;
+  sampleSize?: number;
+}
+
+export interface RiskCategoryShift {
+  from: "low" | "medium" | "high";
+  to: "low" | "medium" | "high";
+  count: number;
+}
+
+export interface DryRunDeviceResult {
+  deviceId: number;
+  currentScore: number;
+  candidateScore: number;
+  currentRiskCategory: "low" | "medium" | "high";
+  candidateRiskCategory: "low" | "medium" | "high";
+}
+
+export interface DryRunScoringModelResponse {
+  baselineVersion: string;
+  candidateVersion: string;
+  devicesScored: number;
+  averageScoreChange: number;
+  shifts: RiskCategoryShift[];
+  // Devices whose risk category would change, largest score change first.
+  changedDevices: DryRunDeviceResult[];
+}
+
+const MAX_DRY_RUN_SAMPLE = 500;
+
+// Re-scores a random sample of devices under a candidate model and compares the results with
+// the caller's current model, using each device's active anomaly alerts. Nothing is stored.
+export const dryRunScoringModel = api<DryRunScoringModelRequest, DryRunScoringModelResponse>(
+  { expose: true, method: "POST", path: "/scoring-models/dry-run", auth: true },
+  async (req) => {
+    const authData = getAuthData()!;
+    requireScope(authData, "admin");
+
+    const sampleSize = req.sampleSize ?? 100;
+    let candidate: ScoringModel;
+    try {
+      validateNumber(sampleSize, "Sample size", 1, MAX_DRY_RUN_SAMPLE);
+      if (req.config) {
+        validateScoringModelConfig(req.config);
+      } else if (req.modelId === undefined) {
+        throw new ValidationError("Either modelId or config is required");
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
     }
 
-    const trustScore: TrustScoreResult = {
-      deviceId: trustScoreData.device_id,
-      score: trustScoreData.score,
-      riskCategory: trustScoreData.risk_category as "low" | "medium" | "high",
-      components: {
-        ownershipContinuity: trustScoreData.ownership_continuity_score,
-        historyCompleteness: trustScoreData.history_completeness_score,
-        repairHistory: trustScoreData.repair_history_score,
-        disputePenalty: trustScoreData.dispute_penalty,
-      },
-      lastCalculated: trustScoreData.calculated_at,
-    };
+    if (req.config) {
+      candidate = { name: "candidate", version: 0, versionLabel: "candidate", config: req.config };
+    } else {
+      const stored = await getScoringModelById(req.modelId!);
+      if (!stored) {
+        throw APIError.notFound("Scoring model not found");
+      }
+      candidate = stored;
+    }
+
+    const baseline = await getPartnerScoringModel(authData.partnerId);
+
+    const devices = await verificationDB.queryAll<{ id: number }>`
+      SELECT id FROM devices ORDER BY random() LIMIT ${Math.floor(sampleSize)}
+    `;
+
+    const shiftCounts = new Map<string, RiskCategoryShift>();
+    const changedDevices: DryRunDeviceResult[] = [];
+    let totalChange = 0;
 
-    return { trustScore };
+    const sampleInputs = await loadTrustScoreInputsForDevices(devices.map(device => device.id));
+    for (const device of devices) {
+      const inputs = sampleInputs.get(device.id)!;
+      const current = computeTrustScore(inputs, baseline.config);
+      const next = computeTrustScore(inputs, candidate.config);
+      totalChange += next.score - current.score;
+
+      const key = `${current.riskCategory}->${next.riskCategory}`;
+      const shift = shiftCounts.get(key) ?? { from: current.riskCategory, to: next.riskCategory, count: 0 };
+      shift.count++;
+      shiftCounts.set(key, shift);
+
+      if (current.riskCategory !== next.riskCategory) {
+        changedDevices.push({
+          deviceId: device.id,
+          currentScore: current.score,
+          candidateScore: next.score,
+          currentRiskCategory: current.riskCategory,
+          candidateRiskCategory: next.riskCategory,
+        });
+      }
+    }
+
+    changedDevices.sort((a, b) =>
+      Math.abs(b.candidateScore - b.currentScore) - Math.abs(a.candidateScore - a.currentScore)
+    );
+
+    return {
+      baselineVersion: baseline.versionLabel,
+      candidateVersion: candidate.versionLabel,
+      devicesScored: devices.length,
+      averageScoreChange: devices.length > 0 ? Math.round((totalChange / devices.length) * 10) / 10 : 0,
+      shifts: [...shiftCounts.values()],
+      changedDevices: changedDevices.slice(0, 50),
+    };
   }
 );
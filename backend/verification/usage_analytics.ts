@@ -0,0 +1,437 @@
+import { api, APIError } from "encore.dev/api";
+import { CronJob } from "encore.dev/cron";
+import { getAuthData } from "~encore/auth";
+import { verificationDB } from "./db";
+import { requireScope } from "./auth";
+import { validateEnum, ValidationError } from "./validation";
+
+export type UsageRange = "24h" | "7d" | "30d" | "90d";
+
+const RANGE_HOURS: Record<UsageRange, number> = {
+  "24h": 24,
+  "7d": 24 * 7,
+  "30d": 24 * 30,
+  "90d": 24 * 90,
+};
+
+// Upper bounds (exclusive) of the response time histogram buckets; the final bucket is open-ended.
+const RESPONSE_TIME_BUCKETS_MS = [10, 25, 50, 100, 150, 200, 300, 500, 750, 1000, 2000, 5000];
+
+// Caps how many hours a single rollup run processes so a large backlog is worked off gradually.
+const MAX_ROLLUP_HOURS = 24 * 7;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface HourlyUsage {
+  partnerId: number;
+  hourStart: Date;
+  total: number;
+  found: number;
+  notFound: number;
+  errors: number;
+  histogram: number[];
+}
+
+interface DeviceUsage {
+  partnerId: number;
+  hourStart: Date;
+  brand: string;
+  model: string;
+  count: number;
+}
+
+export interface GetUsageAnalyticsRequest {
+  range?: UsageRange;
+}
+
+export interface UsageAnalyticsResponse {
+  range: UsageRange;
+  periodStart: Date;
+  periodEnd: Date;
+  totalVerifications: number;
+  found: number;
+  notFound: number;
+  errors: number;
+  foundRate: number;
+  responseTime: {
+    // Approximated from histogram buckets.
+    p50Ms?: number;
+    p95Ms?: number;
+  };
+  peakHour?: number; // hour of day, UTC
+  previousPeriod: {
+    totalVerifications: number;
+    foundRate: number;
+    p50Ms?: number;
+  };
+  timeline: Array<{
+    periodStart: Date;
+    verifications: number;
+    found: number;
+  }>;
+  brands: Array<{
+    brand: string;
+    count: number;
+    percentage: number;
+    models: Array<{
+      model: string;
+      count: number;
+    }>;
+  }>;
+}
+
+// Gets verification usage analytics for the authenticated partner over a time range.
+export const getUsageAnalytics = api<GetUsageAnalyticsRequest, UsageAnalyticsResponse>(
+  { expose: true, method: "GET", path: "/analytics/usage", auth: true },
+  async (req) => {
+    const authData = getAuthData()!;
+    requireScope(authData, "read");
+
+    const range = req.range ?? "7d";
+
+    try {
+      validateEnum(range, "Range", ["24h", "7d", "30d", "90d"] as const);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    const now = new Date();
+    const rangeMs = RANGE_HOURS[range] * HOUR_MS;
+    const periodStart = truncateToHour(new Date(now.getTime() - rangeMs));
+    const previousStart = new Date(periodStart.getTime() - rangeMs);
+
+    const state = await verificationDB.queryRow<{ rolled_up_until: Date }>`
+      SELECT rolled_up_until FROM usage_rollup_state WHERE id = 1
+    `;
+    // Hours before the watermark come from the rollup tables, the rest straight from the logs.
+    const watermark = state
+      ? new Date(Math.max(state.rolled_up_until.getTime(), previousStart.getTime()))
+      : previousStart;
+
+    const rolledUp = await verificationDB.queryAll<{
+      hour_start: Date;
+      total_count: number;
+      found_count: number;
+      not_found_count: number;
+      error_count: number;
+      response_time_histogram: number[];
+    }>`
+      SELECT hour_start, total_count, found_count, not_found_count, error_count, response_time_histogram
+      FROM verification_usage_hourly
+      WHERE partner_id = ${authData.partnerId}
+        AND hour_start >= ${previousStart} AND hour_start < ${watermark}
+    `;
+
+    const hourly: HourlyUsage[] = [
+      ...rolledUp.map(row => ({
+        partnerId: authData.partnerId,
+        hourStart: row.hour_start,
+        total: row.total_count,
+        found: row.found_count,
+        notFound: row.not_found_count,
+        errors: row.error_count,
+        histogram: row.response_time_histogram,
+      })),
+      ...await aggregateHourlyUsage(authData.partnerId, watermark, now),
+    ];
+
+    const deviceWatermark = new Date(Math.max(watermark.getTime(), periodStart.getTime()));
+    const rolledUpDevices = await verificationDB.queryAll<{
+      brand: string;
+      model: string;
+      verification_count: number;
+    }>`
+      SELECT brand, model, SUM(verification_count)::int as verification_count
+      FROM verification_usage_devices_hourly
+      WHERE partner_id = ${authData.partnerId}
+        AND hour_start >= ${periodStart} AND hour_start < ${deviceWatermark}
+      GROUP BY brand, model
+    `;
+
+    const devices = [
+      ...rolledUpDevices.map(row => ({ brand: row.brand, model: row.model, count: row.verification_count })),
+      ...await aggregateDeviceUsage(authData.partnerId, deviceWatermark, now),
+    ];
+
+    const current = hourly.filter(h => h.hourStart >= periodStart);
+    const previous = hourly.filter(h => h.hourStart < periodStart);
+    const currentSummary = summarize(current);
+    const previousSummary = summarize(previous);
+
+    return {
+      range,
+      periodStart,
+      periodEnd: now,
+      totalVerifications: currentSummary.total,
+      found: currentSummary.found,
+      notFound: currentSummary.notFound,
+      errors: currentSummary.errors,
+      foundRate: currentSummary.foundRate,
+      responseTime: {
+        p50Ms: currentSummary.p50Ms,
+        p95Ms: currentSummary.p95Ms,
+      },
+      peakHour: findPeakHour(current),
+      previousPeriod: {
+        totalVerifications: previousSummary.total,
+        foundRate: previousSummary.foundRate,
+        p50Ms: previousSummary.p50Ms,
+      },
+      timeline: buildTimeline(current, range === "24h" ? HOUR_MS : 24 * HOUR_MS),
+      brands: buildBrandBreakdown(devices),
+    };
+  }
+);
+
+// Rolls completed hours of verification_logs up into the hourly usage tables.
+export const rollupUsageAnalytics = api(
+  { expose: false, method: "POST", path: "/internal/analytics/rollup" },
+  async (): Promise<void> => {
+    const state = await verificationDB.queryRow<{ rolled_up_until: Date }>`
+      SELECT rolled_up_until FROM usage_rollup_state WHERE id = 1
+    `;
+
+    const currentHour = truncateToHour(new Date());
+    // Re-process the last rolled up hour to pick up any logs written as it closed.
+    const from = state
+      ? new Date(state.rolled_up_until.getTime() - HOUR_MS)
+      : new Date(currentHour.getTime() - RANGE_HOURS["90d"] * 2 * HOUR_MS);
+    const to = new Date(Math.min(currentHour.getTime(), from.getTime() + MAX_ROLLUP_HOURS * HOUR_MS));
+
+    if (from >= to) {
+      return;
+    }
+
+    const hourly = await aggregateHourlyUsage(null, from, to);
+    const devices = await aggregateDeviceUsage(null, from, to);
+
+    const tx = await verificationDB.begin();
+    try {
+      await tx.exec`
+        DELETE FROM verification_usage_hourly WHERE hour_start >= ${from} AND hour_start < ${to}
+      `;
+      await tx.exec`
+        DELETE FROM verification_usage_devices_hourly WHERE hour_start >= ${from} AND hour_start < ${to}
+      `;
+
+      for (const usage of hourly) {
+        await tx.exec`
+          INSERT INTO verification_usage_hourly (
+            partner_id, hour_start, total_count, found_count, not_found_count, error_count, response_time_histogram
+          ) VALUES (
+            ${usage.partnerId}, ${usage.hourStart}, ${usage.total}, ${usage.found},
+            ${usage.notFound}, ${usage.errors}, ${usage.histogram}
+          )
+        `;
+      }
+
+      for (const usage of devices) {
+        await tx.exec`
+          INSERT INTO verification_usage_devices_hourly (partner_id, hour_start, brand, model, verification_count)
+          VALUES (${usage.partnerId}, ${usage.hourStart}, ${usage.brand}, ${usage.model}, ${usage.count})
+        `;
+      }
+
+      await tx.exec`
+        INSERT INTO usage_rollup_state (id, rolled_up_until) VALUES (1, ${to})
+        ON CONFLICT (id) DO UPDATE SET rolled_up_until = ${to}, updated_at = CURRENT_TIMESTAMP
+      `;
+
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+  }
+);
+
+const _ = new CronJob("rollup-usage-analytics", {
+  title: "Roll up verification usage analytics",
+  every: "15m",
+  endpoint: rollupUsageAnalytics,
+});
+
+async function aggregateHourlyUsage(partnerId: number | null, from: Date, to: Date): Promise<HourlyUsage[]> {
+  const rows = await verificationDB.queryAll<{
+    partner_id: number;
+    hour_start: Date;
+    result_status: string;
+    bucket: number | null;
+    count: number;
+  }>`
+    SELECT partner_id, date_trunc('hour', created_at) as hour_start, result_status,
+           width_bucket(response_time_ms, ${RESPONSE_TIME_BUCKETS_MS}::int[]) as bucket,
+           COUNT(*)::int as count
+    FROM verification_logs
+    WHERE partner_id IS NOT NULL
+      AND (${partnerId}::bigint IS NULL OR partner_id = ${partnerId})
+      AND created_at >= ${from} AND created_at < ${to}
+    GROUP BY 1, 2, 3, 4
+  `;
+
+  const usage = new Map<string, HourlyUsage>();
+
+  for (const row of rows) {
+    const key = `${row.partner_id}:${row.hour_start.getTime()}`;
+    let entry = usage.get(key);
+    if (!entry) {
+      entry = {
+        partnerId: row.partner_id,
+        hourStart: row.hour_start,
+        total: 0,
+        found: 0,
+        notFound: 0,
+        errors: 0,
+        histogram: new Array(RESPONSE_TIME_BUCKETS_MS.length + 1).fill(0),
+      };
+      usage.set(key, entry);
+    }
+
+    entry.total += row.count;
+    if (row.result_status === "found") entry.found += row.count;
+    else if (row.result_status === "not_found") entry.notFound += row.count;
+    else entry.errors += row.count;
+
+    if (row.bucket !== null) {
+      entry.histogram[row.bucket] += row.count;
+    }
+  }
+
+  return Array.from(usage.values());
+}
+
+async function aggregateDeviceUsage(partnerId: number | null, from: Date, to: Date): Promise<DeviceUsage[]> {
+  const rows = await verificationDB.queryAll<{
+    partner_id: number;
+    hour_start: Date;
+    brand: string;
+    model: string;
+    count: number;
+  }>`
+    SELECT vl.partner_id, date_trunc('hour', vl.created_at) as hour_start,
+           COALESCE(d.brand, 'Unknown') as brand, COALESCE(d.model, 'Unknown') as model,
+           COUNT(*)::int as count
+    FROM verification_logs vl
+    JOIN devices d ON vl.device_id = d.id
+    WHERE vl.partner_id IS NOT NULL
+      AND (${partnerId}::bigint IS NULL OR vl.partner_id = ${partnerId})
+      AND vl.created_at >= ${from} AND vl.created_at < ${to}
+    GROUP BY 1, 2, 3, 4
+  `;
+
+  return rows.map(row => ({
+    partnerId: row.partner_id,
+    hourStart: row.hour_start,
+    brand: row.brand,
+    model: row.model,
+    count: row.count,
+  }));
+}
+
+function summarize(hours: HourlyUsage[]) {
+  const total = hours.reduce((sum, h) => sum + h.total, 0);
+  const found = hours.reduce((sum, h) => sum + h.found, 0);
+  const notFound = hours.reduce((sum, h) => sum + h.notFound, 0);
+  const errors = hours.reduce((sum, h) => sum + h.errors, 0);
+
+  const histogram = new Array(RESPONSE_TIME_BUCKETS_MS.length + 1).fill(0);
+  for (const h of hours) {
+    h.histogram.forEach((count, i) => histogram[i] += count);
+  }
+
+  return {
+    total,
+    found,
+    notFound,
+    errors,
+    foundRate: total > 0 ? Math.round((found / total) * 1000) / 10 : 0,
+    p50Ms: estimatePercentile(histogram, 0.5),
+    p95Ms: estimatePercentile(histogram, 0.95),
+  };
+}
+
+// Returns the upper bound of the bucket containing the requested percentile.
+function estimatePercentile(histogram: number[], percentile: number): number | undefined {
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+  if (total === 0) {
+    return undefined;
+  }
+
+  const target = total * percentile;
+  let cumulative = 0;
+
+  for (let i = 0; i < histogram.length; i++) {
+    cumulative += histogram[i];
+    if (cumulative >= target) {
+      return RESPONSE_TIME_BUCKETS_MS[Math.min(i, RESPONSE_TIME_BUCKETS_MS.length - 1)];
+    }
+  }
+
+  return RESPONSE_TIME_BUCKETS_MS[RESPONSE_TIME_BUCKETS_MS.length - 1];
+}
+
+function findPeakHour(hours: HourlyUsage[]): number | undefined {
+  const byHourOfDay = new Array(24).fill(0);
+  for (const h of hours) {
+    byHourOfDay[h.hourStart.getUTCHours()] += h.total;
+  }
+
+  const max = Math.max(...byHourOfDay);
+  return max > 0 ? byHourOfDay.indexOf(max) : undefined;
+}
+
+function buildTimeline(hours: HourlyUsage[], bucketMs: number): UsageAnalyticsResponse["timeline"] {
+  const buckets = new Map<number, { verifications: number; found: number }>();
+
+  for (const h of hours) {
+    const bucketStart = Math.floor(h.hourStart.getTime() / bucketMs) * bucketMs;
+    const bucket = buckets.get(bucketStart) || { verifications: 0, found: 0 };
+    bucket.verifications += h.total;
+    bucket.found += h.found;
+    buckets.set(bucketStart, bucket);
+  }
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([start, bucket]) => ({
+      periodStart: new Date(start),
+      ...bucket,
+    }));
+}
+
+function buildBrandBreakdown(
+  devices: Array<{ brand: string; model: string; count: number }>
+): UsageAnalyticsResponse["brands"] {
+  const brands = new Map<string, Map<string, number>>();
+
+  for (const device of devices) {
+    const models = brands.get(device.brand) || new Map<string, number>();
+    models.set(device.model, (models.get(device.model) || 0) + device.count);
+    brands.set(device.brand, models);
+  }
+
+  const total = devices.reduce((sum, d) => sum + d.count, 0);
+
+  return Array.from(brands.entries())
+    .map(([brand, models]) => {
+      const count = Array.from(models.values()).reduce((sum, c) => sum + c, 0);
+      return {
+        brand,
+        count,
+        percentage: total > 0 ? Math.round((count / total) * 100) : 0,
+        models: Array.from(models.entries())
+          .map(([model, modelCount]) => ({ model, count: modelCount }))
+          .sort((a, b) => b.count - a.count)
+          .slice(0, 5),
+      };
+    })
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 10);
+}
+
+function truncateToHour(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / HOUR_MS) * HOUR_MS);
+}
@@ -1,3 +1,5 @@
+import { DEVICE_STATUSES } from "./device_status";
+
 export class ValidationError extends Error {
   constructor(message: string) {
     super(message);
@@ -153,8 +155,7 @@ export function validateURL(url: string, fieldName = "URL"): void {
 }
 
 export function validateDeviceStatus(status: string): void {
-  const validStatuses = ["verified", "flagged", "reported", "stolen", "pending", "under_review"] as const;
-  validateEnum(status, "Status", validStatuses);
+  validateEnum(status, "Status", DEVICE_STATUSES);
 }
 
 export function validateTrustScore(score: number): void {
@@ -0,0 +1,201 @@
+import { api, APIError, Query } from "encore.dev/api";
+import { currentRequest } from "encore.dev";
+import { getAuthData } from "~encore/auth";
+import { isIP } from "net";
+import { verificationDB } from "./db";
+import { requireScope } from "./auth";
+import { incrementVerificationCount } from "./devices";
+import { getClientIp } from "./rate_limit_policy";
+import { validateDate, validatePagination, ValidationError } from "./validation";
+
+export type VerificationType = "single" | "batch" | "partner_api" | "marketplace_listing";
+export type VerificationResultStatus = "found" | "not_found" | "error";
+
+export interface VerificationLogEntry {
+  deviceId?: number;
+  verificationType: VerificationType;
+  identifier: string;
+  identifierType: string;
+  resultStatus: VerificationResultStatus;
+  responseTimeMs?: number;
+  metadata?: Record<string, unknown>;
+}
+
+// Records a device lookup in verification_logs, attributing it to the calling partner and client.
+// Successful lookups bump the device's verification_count in the same transaction.
+export async function logVerification(entry: VerificationLogEntry): Promise<void> {
+  const authData = getAuthData();
+  const meta = currentRequest();
+  const headers = meta?.type === "api-call" ? meta.headers : {};
+
+  const clientIp = getClientIp(headers);
+  const userAgent = headers["user-agent"];
+
+  const tx = await verificationDB.begin();
+  try {
+    await tx.exec`
+      INSERT INTO verification_logs (
+        partner_id, device_id, verification_type, identifier_used, identifier_type,
+        result_status, ip_address, user_agent, response_time_ms, metadata
+      ) VALUES (
+        ${authData?.partnerId ?? null}, ${entry.deviceId ?? null}, ${entry.verificationType},
+        ${entry.identifier.substring(0, 255)}, ${entry.identifierType}, ${entry.resultStatus},
+        ${clientIp && isIP(clientIp) ? clientIp : null}::inet,
+        ${(Array.isArray(userAgent) ? userAgent[0] : userAgent) ?? null},
+        ${entry.responseTimeMs ?? null},
+        ${entry.metadata ? JSON.stringify(entry.metadata) : null}::jsonb
+      )
+    `;
+
+    if (entry.deviceId && entry.resultStatus === "found") {
+      await incrementVerificationCount(entry.deviceId, tx);
+    }
+
+    await tx.commit();
+  } catch (error) {
+    await tx.rollback();
+    throw error;
+  }
+}
+
+export interface ListVerificationLogsRequest {
+  page?: Query<number>;
+  limit?: Query<number>;
+  resultStatus?: VerificationResultStatus;
+  identifierType?: Query<string>;
+  verificationType?: VerificationType;
+  search?: Query<string>;
+  from?: Query<string>;
+  to?: Query<string>;
+}
+
+export interface VerificationLog {
+  id: number;
+  timestamp: Date;
+  identifier: string;
+  identifierType: string;
+  verificationType: string;
+  result: VerificationResultStatus;
+  deviceId?: number;
+  deviceName?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  responseTimeMs?: number;
+}
+
+export interface ListVerificationLogsResponse {
+  logs: VerificationLog[];
+  total: number;
+  page: number;
+  limit: number;
+  summary: {
+    found: number;
+    notFound: number;
+    errors: number;
+  };
+}
+
+// Lists the authenticated partner's verification logs with filtering and pagination.
+export const listVerificationLogs = api<ListVerificationLogsRequest, ListVerificationLogsResponse>(
+  { expose: true, method: "GET", path: "/logs", auth: true },
+  async (req) => {
+    const authData = getAuthData()!;
+    requireScope(authData, "read");
+
+    const { page, limit } = validatePagination(req.page, req.limit);
+
+    let from: Date | null = null;
+    let to: Date | null = null;
+    try {
+      from = req.from ? validateDate(req.from, "From") : null;
+      to = req.to ? validateDate(req.to, "To") : null;
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    const search = req.search?.trim() ? `%${req.search.trim()}%` : null;
+    const resultStatus = req.resultStatus ?? null;
+    const identifierType = req.identifierType ?? null;
+    const verificationType = req.verificationType ?? null;
+
+    const summary = await verificationDB.queryRow<{
+      total: number;
+      found: number;
+      not_found: number;
+      errors: number;
+    }>`
+      SELECT
+        COUNT(*)::int as total,
+        COUNT(*) FILTER (WHERE vl.result_status = 'found')::int as found,
+        COUNT(*) FILTER (WHERE vl.result_status = 'not_found')::int as not_found,
+        COUNT(*) FILTER (WHERE vl.result_status = 'error')::int as errors
+      FROM verification_logs vl
+      LEFT JOIN devices d ON vl.device_id = d.id
+      WHERE vl.partner_id = ${authData.partnerId}
+        AND (${resultStatus}::text IS NULL OR vl.result_status = ${resultStatus})
+        AND (${identifierType}::text IS NULL OR vl.identifier_type = ${identifierType})
+        AND (${verificationType}::text IS NULL OR vl.verification_type = ${verificationType})
+        AND (${from}::timestamp IS NULL OR vl.created_at >= ${from})
+        AND (${to}::timestamp IS NULL OR vl.created_at <= ${to})
+        AND (${search}::text IS NULL OR vl.identifier_used ILIKE ${search}
+             OR d.device_name ILIKE ${search} OR host(vl.ip_address) LIKE ${search})
+    `;
+
+    const rows = await verificationDB.queryAll<{
+      id: number;
+      created_at: Date;
+      identifier_used: string;
+      identifier_type: string;
+      verification_type: string;
+      result_status: VerificationResultStatus;
+      device_id: number | null;
+      device_name: string | null;
+      ip_address: string | null;
+      user_agent: string | null;
+      response_time_ms: number | null;
+    }>`
+      SELECT vl.id, vl.created_at, vl.identifier_used, vl.identifier_type, vl.verification_type,
+             vl.result_status, vl.device_id, d.device_name, host(vl.ip_address) as ip_address,
+             vl.user_agent, vl.response_time_ms
+      FROM verification_logs vl
+      LEFT JOIN devices d ON vl.device_id = d.id
+      WHERE vl.partner_id = ${authData.partnerId}
+        AND (${resultStatus}::text IS NULL OR vl.result_status = ${resultStatus})
+        AND (${identifierType}::text IS NULL OR vl.identifier_type = ${identifierType})
+        AND (${verificationType}::text IS NULL OR vl.verification_type = ${verificationType})
+        AND (${from}::timestamp IS NULL OR vl.created_at >= ${from})
+        AND (${to}::timestamp IS NULL OR vl.created_at <= ${to})
+        AND (${search}::text IS NULL OR vl.identifier_used ILIKE ${search}
+             OR d.device_name ILIKE ${search} OR host(vl.ip_address) LIKE ${search})
+      ORDER BY vl.created_at DESC, vl.id DESC
+      LIMIT ${limit} OFFSET ${(page - 1) * limit}
+    `;
+
+    return {
+      logs: rows.map(row => ({
+        id: row.id,
+        timestamp: row.created_at,
+        identifier: row.identifier_used,
+        identifierType: row.identifier_type,
+        verificationType: row.verification_type,
+        result: row.result_status,
+        deviceId: row.device_id ?? undefined,
+        deviceName: row.device_name ?? undefined,
+        ipAddress: row.ip_address ?? undefined,
+        userAgent: row.user_agent ?? undefined,
+        responseTimeMs: row.response_time_ms ?? undefined,
+      })),
+      total: summary?.total ?? 0,
+      page,
+      limit,
+      summary: {
+        found: summary?.found ?? 0,
+        notFound: summary?.not_found ?? 0,
+        errors: summary?.errors ?? 0,
+      },
+    };
+  }
+);
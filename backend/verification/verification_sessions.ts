@@ -0,0 +1,120 @@
+import { api, APIError, Query } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
+import * as crypto from "crypto";
+import { canonicalJson } from "./canonical_json";
+import { verificationDB } from "./db";
+import type { VerifyDeviceResponse } from "./verify";
+
+export interface VerificationSnapshot {
+  verificationId: string;
+  identifier: string;
+  identifierType: string;
+  // The /verify response exactly as it was returned.
+  response: VerifyDeviceResponse;
+  snapshotHash: string;
+  createdAt: Date;
+}
+
+// Hashes a verification response. Dates are reduced to their JSON form first, so the hash of a
+// live response matches the hash of its stored snapshot.
+export function hashVerificationResponse(response: VerifyDeviceResponse): string {
+  return crypto
+    .createHash("sha256")
+    .update(canonicalJson(JSON.parse(JSON.stringify(response))), "utf8")
+    .digest("hex");
+}
+
+// Stores the response of a /verify call under its verificationId.
+export async function saveVerificationSnapshot(
+  response: VerifyDeviceResponse,
+  identifier: string,
+  identifierType: string
+): Promise<void> {
+  const { device, trustScore, verificationMetadata } = response;
+
+  await verificationDB.exec`
+    INSERT INTO verification_sessions (
+      verification_id, device_id, partner_id, identifier_used, identifier_type, device_status,
+      confidence, trust_score, risk_category, data_sources_checked, response, snapshot_hash,
+      created_at
+    ) VALUES (
+      ${verificationMetadata.verificationId}, ${device.id}, ${getAuthData()?.partnerId ?? null},
+      ${identifier.substring(0, 255)}, ${identifierType}, ${device.status},
+      ${verificationMetadata.confidence}, ${trustScore?.score ?? device.trustScore ?? null},
+      ${trustScore?.riskCategory ?? device.riskCategory ?? null}, ${verificationMetadata.dataSourcesChecked},
+      ${JSON.stringify(response)}, ${hashVerificationResponse(response)}, ${verificationMetadata.timestamp}
+    )
+  `;
+}
+
+interface VerificationSessionRow {
+  verification_id: string;
+  partner_id: number | null;
+  identifier_used: string;
+  identifier_type: string;
+  response: VerifyDeviceResponse;
+  snapshot_hash: string;
+  created_at: Date;
+}
+
+async function getVerificationSession(verificationId: string): Promise<VerificationSessionRow | null> {
+  return verificationDB.queryRow<VerificationSessionRow>`
+    SELECT verification_id, partner_id, identifier_used, identifier_type, response, snapshot_hash, created_at
+    FROM verification_sessions
+    WHERE verification_id = ${verificationId}
+  `;
+}
+
+function toSnapshot(row: VerificationSessionRow): VerificationSnapshot {
+  return {
+    verificationId: row.verification_id,
+    identifier: row.identifier_used,
+    identifierType: row.identifier_type,
+    response: row.response,
+    snapshotHash: row.snapshot_hash,
+    createdAt: row.created_at,
+  };
+}
+
+export async function getVerificationSnapshot(verificationId: string): Promise<VerificationSnapshot | null> {
+  const row = await getVerificationSession(verificationId);
+  return row ? toSnapshot(row) : null;
+}
+
+export interface GetVerificationRequest {
+  verificationId: string;
+  // A certificate issued for this verification, for holders checking what it attests.
+  certificateId?: Query<string>;
+}
+
+// Gets what a past verification showed, as it was shown at the time. Readable by the partner that
+// ran the verification, platform operators, and anyone holding a certificate issued for it.
+export const getVerification = api<GetVerificationRequest, VerificationSnapshot>(
+  { expose: true, method: "GET", path: "/verifications/:verificationId" },
+  async (req) => {
+    const row = await getVerificationSession(req.verificationId);
+    if (!row) {
+      throw APIError.notFound("Verification not found");
+    }
+
+    const authData = getAuthData();
+    const ranVerification = !!authData && row.partner_id !== null && row.partner_id === authData.partnerId;
+    if (!ranVerification && authData?.platformRole !== "operator" && !(await holdsCertificate(req))) {
+      // Not found rather than denied, so the endpoint doesn't confirm which IDs exist
+      throw APIError.notFound("Verification not found");
+    }
+
+    return toSnapshot(row);
+  }
+);
+
+async function holdsCertificate(req: GetVerificationRequest): Promise<boolean> {
+  if (!req.certificateId) {
+    return false;
+  }
+  const certificate = await verificationDB.queryRow<{ certificate_id: string }>`
+    SELECT certificate_id FROM certificates
+    WHERE certificate_id = ${req.certificateId} AND verification_id = ${req.verificationId}
+  `;
+  return !!certificate;
+}
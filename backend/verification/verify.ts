@@ -1,12 +1,23 @@
-import { api, APIError } from "encore.dev/api";
+import { api, APIError, ErrCode } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
+import { randomBytes } from "crypto";
 import { verificationDB } from "./db";
 import { validateString, validateEnum, ValidationError } from "./validation";
+import { logVerification } from "./verification_logs";
+import { DeviceStatus } from "./device_status";
+import { getDeviceByIdentifier } from "./devices";
+import { FederatedVerdict, federatedLookup } from "./federation";
+import { getTrustScoreForPartner, TrustScoreReason } from "./trust_scoring";
+import { mergeFederatedStatus } from "./status_transitions";
+import { saveVerificationSnapshot } from "./verification_sessions";
 
 export interface VerifyDeviceRequest {
   identifier: string;
   identifierType: "serial" | "imei";
   includeTrustScore?: boolean;
   includeFingerprint?: boolean;
+  // Also query the federated verification nodes. Defaults to true.
+  includeFederation?: boolean;
 }
 
 export interface DeviceInfo {
@@ -17,7 +28,10 @@ export interface DeviceInfo {
   model: string;
   brand: string;
   imageUrl?: string;
-  status: "clean" | "flagged" | "under_investigation";
+  // Our status, escalated when a federated node reports the device stolen or flagged.
+  status: DeviceStatus;
+  // "federation" when status comes from a node's verdict rather than our own records.
+  statusSource: "local" | "federation";
   lastVerified: Date;
   trustScore?: number;
   riskCategory?: "low" | "medium" | "high";
@@ -49,7 +63,12 @@ export interface TrustScoreInfo {
     historyCompleteness: number;
     repairHistory: number;
     disputePenalty: number;
+    anomalyPenalty: number;
   };
+  // Itemized point contributions, e.g. OWNERSHIP_STABLE_14_MONTHS +14.
+  reasons: TrustScoreReason[];
+  // Scoring model that produced the score, e.g. "standard@1".
+  modelVersion: string;
   lastCalculated: Date;
 }
 
@@ -67,6 +86,7 @@ export interface VerifyDeviceResponse {
   reportCount: number;
   trustScore?: TrustScoreInfo;
   fingerprint?: FingerprintInfo;
+  federation?: FederatedVerdict;
   verificationMetadata: {
     verificationId: string;
     timestamp: Date;
@@ -77,221 +97,267 @@ export interface VerifyDeviceResponse {
 
 // Verifies a device by serial number or IMEI with enhanced features.
 export const verify = api<VerifyDeviceRequest, VerifyDeviceResponse>(
-  { expose: true, method: "POST", path: "/verify" },
+  { expose: true, method: "POST", path: "/verify", tags: ["metered"] },
   async (req) => {
+    const startTime = Date.now();
     try {
-      validateString(req.identifier, "Identifier", 1, 100);
-      validateEnum(req.identifierType, "Identifier type", ["serial", "imei"] as const);
+      return await verifyDevice(req, startTime);
     } catch (error) {
-      if (error instanceof ValidationError) {
-        throw APIError.invalidArgument(error.message);
+      // Lookups that found nothing are logged as not_found where they're detected
+      if (!(error instanceof APIError && error.code === ErrCode.NotFound)) {
+        await logVerification({
+          verificationType: "single",
+          identifier: typeof req.identifier === "string" ? req.identifier : "",
+          identifierType: typeof req.identifierType === "string" ? req.identifierType.substring(0, 50) : "unknown",
+          resultStatus: "error",
+          responseTimeMs: Date.now() - startTime,
+          metadata: { error: error instanceof Error ? error.message : String(error) },
+        }).catch(logError => console.error("Failed to log verification error:", logError));
       }
       throw error;
     }
+  }
+);
 
-    const { identifier, identifierType, includeTrustScore = true, includeFingerprint = false } = req;
-    const verificationId = `ver_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-    // Find device by identifier
-    const device = await verificationDB.queryRow<{
-      id: number;
-      serial_number: string;
-      imei?: string;
-      device_name: string;
-      model: string;
-      brand: string;
-      image_url?: string;
-      status: string;
-      updated_at: Date;
-      current_trust_score?: number;
-      risk_category?: string;
-    }>`
-      SELECT id, serial_number, imei, device_name, model, brand, image_url, 
-             status, updated_at, current_trust_score, risk_category
-      FROM devices 
-      WHERE ${identifierType === 'serial' ? 'serial_number' : 'imei'} = ${identifier}
-    `;
+async function verifyDevice(req: VerifyDeviceRequest, startTime: number): Promise<VerifyDeviceResponse> {
+  try {
+    validateString(req.identifier, "Identifier", 1, 100);
+    validateEnum(req.identifierType, "Identifier type", ["serial", "imei"] as const);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw APIError.invalidArgument(error.message);
+    }
+    throw error;
+  }
+
+  const {
+    identifier,
+    identifierType,
+    includeTrustScore = true,
+    includeFingerprint = false,
+    includeFederation = true,
+  } = req;
+  // Random, so a verification's snapshot and certificate cannot be found by guessing its ID
+  const verificationId = `ver_${randomBytes(16).toString("base64url")}`;
+
+  // Find device by identifier
+  const device = await getDeviceByIdentifier(identifier, identifierType);
+
+  if (!device) {
+    // Other registries may know a device we don't, and a stolen verdict from one must not be lost
+    const federation = includeFederation
+      ? await federatedLookup({ requestId: verificationId, identifier, identifierType })
+      : undefined;
+
+    await logVerification({
+      verificationType: "single",
+      identifier,
+      identifierType,
+      resultStatus: "not_found",
+      responseTimeMs: Date.now() - startTime,
+      metadata: federation ? { verificationId, federatedVerdict: federation.verdict } : undefined,
+    });
 
-    if (!device) {
-      throw APIError.notFound("Device not found");
+    if (federation && (federation.verdict === "stolen" || federation.verdict === "flagged")) {
+      throw APIError.notFound(`Device not found in this registry, but a federated node reports it ${federation.verdict}`)
+        .withDetails({ federation });
     }
+    throw APIError.notFound("Device not found");
+  }
 
-    const dataSourcesChecked = ["stolen_database"];
+  const dataSourcesChecked = ["stolen_database"];
 
-    // Get ownership history
-    const ownershipHistory = await verificationDB.queryAll<{
-      owner_alias: string;
-      owner_type: string;
-      verification_level: string;
-      transfer_date: Date;
-      location_country?: string;
-      is_current_owner: boolean;
-    }>`
-      SELECT owner_alias, owner_type, verification_level, transfer_date, location_country, is_current_owner
-      FROM ownership_history 
-      WHERE device_id = ${device.id}
-      ORDER BY transfer_date DESC
-    `;
+  // Get ownership history
+  const ownershipHistory = await verificationDB.queryAll<{
+    owner_alias: string;
+    owner_type: string;
+    verification_level: string;
+    transfer_date: Date;
+    location_country?: string;
+    is_current_owner: boolean;
+  }>`
+    SELECT owner_alias, owner_type, verification_level, transfer_date, location_country, is_current_owner
+    FROM ownership_history 
+    WHERE device_id = ${device.id}
+    ORDER BY transfer_date DESC
+  `;
 
-    // Get device events
-    const events = await verificationDB.queryAll<{
-      id: number;
-      event_type: string;
-      event_description?: string;
-      event_date: Date;
-      provider_name?: string;
-      verified: boolean;
-    }>`
-      SELECT id, event_type, event_description, event_date, provider_name, verified
-      FROM device_events 
-      WHERE device_id = ${device.id}
-      ORDER BY event_date DESC
-    `;
+  // Get device events
+  const events = await verificationDB.queryAll<{
+    id: number;
+    event_type: string;
+    event_description?: string;
+    event_date: Date;
+    provider_name?: string;
+    verified: boolean;
+  }>`
+    SELECT id, event_type, event_description, event_date, provider_name, verified
+    FROM device_events 
+    WHERE device_id = ${device.id}
+    ORDER BY event_date DESC
+  `;
+
+  // Get report count
+  const reportResult = await verificationDB.queryRow<{ count: number }>`
+    SELECT COUNT(*) as count
+    FROM reports 
+    WHERE device_id = ${device.id}
+  `;
 
-    // Get report count
-    const reportResult = await verificationDB.queryRow<{ count: number }>`
-      SELECT COUNT(*) as count
-      FROM reports 
+  // Get trust score if requested
+  let trustScore: TrustScoreInfo | undefined;
+  if (includeTrustScore) {
+    const result = await getTrustScoreForPartner(device.id, getAuthData()?.partnerId);
+    if (result) {
+      trustScore = {
+        score: result.score,
+        riskCategory: result.riskCategory,
+        components: result.components,
+        reasons: result.reasons,
+        modelVersion: result.modelVersion,
+        lastCalculated: result.lastCalculated,
+      };
+      dataSourcesChecked.push("trust_scoring");
+    }
+  }
+
+  // Get fingerprint info if requested
+  let fingerprint: FingerprintInfo | undefined;
+  if (includeFingerprint) {
+    const fingerprintData = await verificationDB.queryRow<{
+      fingerprint_hash: string;
+      created_at: Date;
+    }>`
+      SELECT fingerprint_hash, created_at
+      FROM device_fingerprints 
       WHERE device_id = ${device.id}
     `;
 
-    // Get trust score if requested
-    let trustScore: TrustScoreInfo | undefined;
-    if (includeTrustScore) {
-      const trustScoreData = await verificationDB.queryRow<{
-        score: number;
-        risk_category: string;
-        ownership_continuity_score: number;
-        history_completeness_score: number;
-        repair_history_score: number;
-        dispute_penalty: number;
-        calculated_at: Date;
-      }>`
-        SELECT score, risk_category, ownership_continuity_score,
-               history_completeness_score, repair_history_score, 
-               dispute_penalty, calculated_at
-        FROM trust_scores 
-        WHERE device_id = ${device.id}
-      `;
-
-      if (trustScoreData) {
-        trustScore = {
-          score: trustScoreData.score,
-          riskCategory: trustScoreData.risk_category as "low" | "medium" | "high",
-          components: {
-            ownershipContinuity: trustScoreData.ownership_continuity_score,
-            historyCompleteness: trustScoreData.history_completeness_score,
-            repairHistory: trustScoreData.repair_history_score,
-            disputePenalty: trustScoreData.dispute_penalty,
-          },
-          lastCalculated: trustScoreData.calculated_at,
-        };
-        dataSourcesChecked.push("trust_scoring");
-      }
+    if (fingerprintData) {
+      const fingerprintAge = Math.floor(
+        (Date.now() - fingerprintData.created_at.getTime()) / (1000 * 60 * 60 * 24)
+      );
+      
+      fingerprint = {
+        fingerprintHash: fingerprintData.fingerprint_hash,
+        hasFingerprint: true,
+        fingerprintAge,
+      };
+      dataSourcesChecked.push("device_fingerprinting");
+    } else {
+      fingerprint = {
+        fingerprintHash: "",
+        hasFingerprint: false,
+      };
     }
+  }
 
-    // Get fingerprint info if requested
-    let fingerprint: FingerprintInfo | undefined;
-    if (includeFingerprint) {
-      const fingerprintData = await verificationDB.queryRow<{
-        fingerprint_hash: string;
-        created_at: Date;
-      }>`
-        SELECT fingerprint_hash, created_at
-        FROM device_fingerprints 
-        WHERE device_id = ${device.id}
-      `;
-
-      if (fingerprintData) {
-        const fingerprintAge = Math.floor(
-          (Date.now() - fingerprintData.created_at.getTime()) / (1000 * 60 * 60 * 24)
-        );
-        
-        fingerprint = {
-          fingerprintHash: fingerprintData.fingerprint_hash,
-          hasFingerprint: true,
-          fingerprintAge,
-        };
-        dataSourcesChecked.push("device_fingerprinting");
-      } else {
-        fingerprint = {
-          fingerprintHash: "",
-          hasFingerprint: false,
-        };
+  let federation: FederatedVerdict | undefined;
+  if (includeFederation) {
+    federation = await federatedLookup({ requestId: verificationId, identifier, identifierType, deviceId: device.id });
+    for (const result of federation.results) {
+      if (result.status === "success") {
+        dataSourcesChecked.push(`${result.nodeType}:${result.nodeName}`);
       }
     }
+  }
 
-    const currentOwner = ownershipHistory.find(owner => owner.is_current_owner);
-
-    // Calculate verification confidence
-    let confidence = 70; // Base confidence
-    
-    if (events.filter(e => e.verified).length > 2) confidence += 10;
-    if (trustScore && trustScore.score > 70) confidence += 15;
-    if (fingerprint?.hasFingerprint) confidence += 10;
-    if (ownershipHistory.length > 0) confidence += 5;
-    
-    confidence = Math.min(100, confidence);
-
-    // Log verification attempt
-    await verificationDB.exec`
-      INSERT INTO device_events (device_id, event_type, event_description, verified)
-      VALUES (${device.id}, 'verification_request', 
-              ${`Device verified via ${identifierType} (ID: ${verificationId})`}, true)
-    `;
+  const currentOwner = ownershipHistory.find(owner => owner.is_current_owner);
 
-    const deviceInfo: DeviceInfo = {
-      id: device.id,
-      serialNumber: device.serial_number,
-      imei: device.imei,
-      deviceName: device.device_name,
-      model: device.model,
-      brand: device.brand,
-      imageUrl: device.image_url,
-      status: device.status as "clean" | "flagged" | "under_investigation",
-      lastVerified: device.updated_at,
-    };
-
-    if (includeTrustScore && device.current_trust_score !== null) {
-      deviceInfo.trustScore = device.current_trust_score;
-      deviceInfo.riskCategory = device.risk_category as "low" | "medium" | "high";
-    }
+  // Calculate verification confidence
+  let confidence = 70; // Base confidence
+  
+  if (events.filter(e => e.verified).length > 2) confidence += 10;
+  if (trustScore && trustScore.score > 70) confidence += 15;
+  if (fingerprint?.hasFingerprint) confidence += 10;
+  if (ownershipHistory.length > 0) confidence += 5;
+  if (federation && federation.nodesResponded > 0) confidence += Math.min(10, federation.nodesResponded * 5);
+  // A node reporting the device stolen or flagged when our records say otherwise undermines the result
+  if (federation && federation.verdict !== "unknown" && federation.verdict !== "clean" && device.status !== federation.verdict) {
+    confidence -= 30;
+  }
+  
+  confidence = Math.max(0, Math.min(100, confidence));
+
+  // Log verification attempt
+  await verificationDB.exec`
+    INSERT INTO device_events (device_id, event_type, event_description, verified)
+    VALUES (${device.id}, 'verification_request', 
+            ${`Device verified via ${identifierType}`}, false)
+  `;
+
+  await logVerification({
+    deviceId: device.id,
+    verificationType: "single",
+    identifier,
+    identifierType,
+    resultStatus: "found",
+    responseTimeMs: Date.now() - startTime,
+    metadata: { verificationId },
+  });
 
-    return {
-      device: deviceInfo,
-      currentOwner: currentOwner ? {
-        ownerAlias: currentOwner.owner_alias,
-        ownerType: currentOwner.owner_type,
-        verificationLevel: currentOwner.verification_level as "basic" | "verified" | "business",
-        transferDate: currentOwner.transfer_date,
-        locationCountry: currentOwner.location_country,
-        isCurrentOwner: currentOwner.is_current_owner,
-      } : undefined,
-      ownershipHistory: ownershipHistory.map(owner => ({
-        ownerAlias: owner.owner_alias,
-        ownerType: owner.owner_type,
-        verificationLevel: owner.verification_level as "basic" | "verified" | "business",
-        transferDate: owner.transfer_date,
-        locationCountry: owner.location_country,
-        isCurrentOwner: owner.is_current_owner,
-      })),
-      events: events.map(event => ({
-        id: event.id,
-        eventType: event.event_type,
-        eventDescription: event.event_description,
-        eventDate: event.event_date,
-        providerName: event.provider_name,
-        verified: event.verified,
-      })),
-      reportCount: reportResult?.count || 0,
-      trustScore,
-      fingerprint,
-      verificationMetadata: {
-        verificationId,
-        timestamp: new Date(),
-        confidence,
-        dataSourcesChecked,
-      },
-    };
+  const status = mergeFederatedStatus(device.status as DeviceStatus, federation?.verdict ?? "unknown");
+
+  const deviceInfo: DeviceInfo = {
+    id: device.id,
+    serialNumber: device.serialNumber || "",
+    imei: device.imei,
+    deviceName: device.deviceName,
+    model: device.model,
+    brand: device.brand,
+    imageUrl: device.imageUrl,
+    status,
+    statusSource: status === device.status ? "local" : "federation",
+    lastVerified: device.updatedAt,
+  };
+
+  if (trustScore) {
+    deviceInfo.trustScore = trustScore.score;
+    deviceInfo.riskCategory = trustScore.riskCategory;
+  } else if (includeTrustScore && device.trustScore !== undefined) {
+    deviceInfo.trustScore = device.trustScore;
+    deviceInfo.riskCategory = device.riskCategory as "low" | "medium" | "high";
   }
-);
+
+  const response: VerifyDeviceResponse = {
+    device: deviceInfo,
+    currentOwner: currentOwner ? {
+      ownerAlias: currentOwner.owner_alias,
+      ownerType: currentOwner.owner_type,
+      verificationLevel: currentOwner.verification_level as "basic" | "verified" | "business",
+      transferDate: currentOwner.transfer_date,
+      locationCountry: currentOwner.location_country,
+      isCurrentOwner: currentOwner.is_current_owner,
+    } : undefined,
+    ownershipHistory: ownershipHistory.map(owner => ({
+      ownerAlias: owner.owner_alias,
+      ownerType: owner.owner_type,
+      verificationLevel: owner.verification_level as "basic" | "verified" | "business",
+      transferDate: owner.transfer_date,
+      locationCountry: owner.location_country,
+      isCurrentOwner: owner.is_current_owner,
+    })),
+    events: events.map(event => ({
+      id: event.id,
+      eventType: event.event_type,
+      eventDescription: event.event_description,
+      eventDate: event.event_date,
+      providerName: event.provider_name,
+      verified: event.verified,
+    })),
+    reportCount: reportResult?.count || 0,
+    trustScore,
+    fingerprint,
+    federation,
+    verificationMetadata: {
+      verificationId,
+      timestamp: new Date(),
+      confidence,
+      dataSourcesChecked,
+    },
+  };
+
+  await saveVerificationSnapshot(response, identifier, identifierType);
+
+  return response;
+}
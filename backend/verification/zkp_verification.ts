@@ -1,11 +1,147 @@
-import { api } from "encore.dev/api";
-import { verificationDB } from "./db";
+import { api, APIError } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
 import { createHash } from "crypto";
+import { requireScope } from "./auth";
+import { canonicalJson } from "./canonical_json";
+import { verificationDB } from "./db";
+import { DeviceStore } from "./devices";
+import {
+  assertValidCommitment,
+  normalizeCommitment,
+  SCHNORR_PROTOCOL,
+  SchnorrProof,
+  verifyKnowledgeProof,
+} from "./schnorr";
+import { validateEnum, validateNumber, validateString, ValidationError } from "./validation";
+
+export const ZKP_CLAIM_TYPES = ["ownership", "authenticity", "location"] as const;
+export type ZKPClaimType = typeof ZKP_CLAIM_TYPES[number];
+
+export const ZKP_PROOF_STATUSES = ["valid", "expired", "revoked", "superseded", "unverifiable"] as const;
+export type ZKPProofStatus = typeof ZKP_PROOF_STATUSES[number];
+
+// Claim type of the proof of possession submitted when a commitment is registered.
+const REGISTRATION_CLAIM = "registration";
+// Proofs must be submitted within this long of being generated, and may not be dated ahead
+// of our clock by more than the allowed skew.
+const PROOF_MAX_AGE_MS = 5 * 60 * 1000;
+const PROOF_CLOCK_SKEW_MS = 60 * 1000;
+// How long a recorded proof keeps proving its claim unless the owner asks for another period.
+const DEFAULT_PROOF_VALIDITY_DAYS = 30;
+const MAX_PROOF_VALIDITY_DAYS = 365;
+
+// Stored alongside each accepted proof so it can be re-verified later.
+interface StoredProof extends SchnorrProof {
+  protocol: string;
+  claimType: ZKPClaimType;
+}
+
+interface CurrentOwnerRow {
+  id: number;
+  owner_alias: string;
+  owner_commitment: string | null;
+  owner_commitment_bound_at: Date | null;
+  partner_id: number | null;
+}
+
+export interface RegisterOwnerCommitmentRequest {
+  deviceId: number;
+  // Y = g^x for the owner's secret key x; see schnorr.ts.
+  ownerCommitment: string;
+  // Proof of knowledge of x for the "registration" claim, so nobody can bind a key they don't hold.
+  proof: SchnorrProof;
+}
+
+export interface RegisterOwnerCommitmentResponse {
+  deviceId: number;
+  ownerAlias: string;
+  ownerCommitment: string;
+  boundAt: Date;
+}
+
+// Binds an owner's public commitment to the device's current ownership record. Each record is
+// bound once; a new owner binds their own commitment after the transfer. Only the partner that
+// recorded the ownership, which knows who the owner is, or a platform operator can bind it.
+export const registerOwnerCommitment = api<RegisterOwnerCommitmentRequest, RegisterOwnerCommitmentResponse>(
+  { expose: true, method: "POST", path: "/zkp/commitments", auth: true },
+  async (req) => {
+    const authData = getAuthData()!;
+    requireScope(authData, "write");
+
+    try {
+      validateString(req.ownerCommitment, "Owner commitment", 1, 512);
+      validateProofFreshness(req.proof);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    let ownerCommitment: string;
+    try {
+      ownerCommitment = normalizeCommitment(req.ownerCommitment);
+      assertValidCommitment(ownerCommitment);
+    } catch (error) {
+      throw APIError.invalidArgument(error instanceof Error ? error.message : String(error));
+    }
+
+    if (!verifyKnowledgeProof(ownerCommitment, { deviceId: req.deviceId, claimType: REGISTRATION_CLAIM }, req.proof)) {
+      throw APIError.invalidArgument("Proof of possession does not verify against the owner commitment");
+    }
+
+    const tx = await verificationDB.begin();
+    try {
+      const owner = await tx.queryRow<CurrentOwnerRow>`
+        SELECT id, owner_alias, owner_commitment, owner_commitment_bound_at, partner_id
+        FROM ownership_history
+        WHERE device_id = ${req.deviceId} AND is_current_owner = true
+        FOR UPDATE
+      `;
+      if (!owner) {
+        throw APIError.failedPrecondition("Device has no current owner");
+      }
+      if (owner.partner_id !== authData.partnerId && authData.platformRole !== "operator") {
+        throw APIError.permissionDenied("Only the partner that recorded the current ownership can bind its commitment");
+      }
+      if (owner.owner_commitment) {
+        throw APIError.failedPrecondition("An owner commitment is already bound to the current owner");
+      }
+
+      const bound = await tx.queryRow<{ owner_commitment_bound_at: Date }>`
+        UPDATE ownership_history
+        SET owner_commitment = ${ownerCommitment}, owner_commitment_bound_at = CURRENT_TIMESTAMP
+        WHERE id = ${owner.id}
+        RETURNING owner_commitment_bound_at
+      `;
+
+      await tx.exec`
+        INSERT INTO device_events (device_id, event_type, event_description, verified)
+        VALUES (${req.deviceId}, 'zkp_commitment_bound', ${`Owner commitment bound for ${owner.owner_alias}`}, false)
+      `;
+
+      await tx.commit();
+
+      return {
+        deviceId: req.deviceId,
+        ownerAlias: owner.owner_alias,
+        ownerCommitment,
+        boundAt: bound!.owner_commitment_bound_at,
+      };
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+  }
+);
 
 export interface ZKPProofRequest {
   deviceId: number;
-  ownerSecret: string; // In real implementation, this would be handled more securely
-  claimType: "ownership" | "authenticity" | "location";
+  claimType: ZKPClaimType;
+  // Generated by the owner with proveKnowledge; the owner's secret is never sent.
+  proof: SchnorrProof;
+  // Defaults to 30 days.
+  validForDays?: number;
 }
 
 export interface ZKPProofResponse {
@@ -13,93 +149,119 @@ export interface ZKPProofResponse {
   verificationHash: string;
   ownerCommitment: string;
   isValid: boolean;
+  expiresAt: Date;
 }
 
-// Generates a zero-knowledge proof for device ownership or authenticity.
+// Checks an owner's proof against the commitment bound to the device's current owner and
+// records it, superseding earlier proofs for the same claim. The returned verification hash
+// lets third parties verify the claim until it expires.
 export const generateZKProof = api<ZKPProofRequest, ZKPProofResponse>(
   { expose: true, method: "POST", path: "/zkp/generate-proof" },
   async (req) => {
-    const { deviceId, ownerSecret, claimType } = req;
-
-    // Check if device exists
-    const device = await verificationDB.queryRow<{
-      id: number;
-      serial_number: string;
-    }>`
-      SELECT id, serial_number FROM devices WHERE id = ${deviceId}
-    `;
-
-    if (!device) {
-      throw new Error("Device not found");
+    const { deviceId, claimType, proof } = req;
+    const validForDays = req.validForDays ?? DEFAULT_PROOF_VALIDITY_DAYS;
+
+    try {
+      validateEnum(claimType, "Claim type", ZKP_CLAIM_TYPES);
+      validateNumber(validForDays, "Valid for days", 1, MAX_PROOF_VALIDITY_DAYS);
+      validateProofFreshness(proof);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
     }
 
-    // Get current owner information
-    const currentOwner = await verificationDB.queryRow<{
-      owner_alias: string;
-      verification_level: string;
-    }>`
-      SELECT owner_alias, verification_level
-      FROM ownership_history
-      WHERE device_id = ${deviceId} AND is_current_owner = true
-    `;
-
-    if (!currentOwner) {
-      throw new Error("No current owner found for device");
+    const owner = await getCurrentOwner(deviceId);
+    if (!owner?.owner_commitment) {
+      throw APIError.failedPrecondition("No owner commitment is bound to this device");
     }
 
-    // Generate ZKP components (simplified implementation)
-    // In a real implementation, use a proper ZKP library like circomlib or snarkjs
-    
-    // Create owner commitment (hash of owner secret + device info)
-    const ownerCommitment = createHash('sha256')
-      .update(ownerSecret + device.serial_number + currentOwner.owner_alias)
-      .digest('hex');
+    if (!verifyKnowledgeProof(owner.owner_commitment, { deviceId, claimType }, proof)) {
+      throw APIError.invalidArgument("Proof does not verify against the device's owner commitment");
+    }
 
-    // Create proof hash (simplified - in real ZKP this would be much more complex)
-    const proofData = {
-      deviceId,
+    const storedProof: StoredProof = {
+      protocol: SCHNORR_PROTOCOL,
       claimType,
-      timestamp: Date.now(),
-      ownerCommitment,
-      deviceSerial: device.serial_number,
+      commitment: proof.commitment,
+      response: proof.response,
+      issuedAt: proof.issuedAt,
     };
 
     const proofHash = createHash('sha256')
-      .update(JSON.stringify(proofData))
+      .update(canonicalJson({ deviceId, ownerCommitment: owner.owner_commitment, proof: storedProof }))
       .digest('hex');
 
-    // Create verification hash (public verifiable component)
+    // Public handle for the proof
     const verificationHash = createHash('sha256')
       .update(proofHash + claimType + deviceId.toString())
       .digest('hex');
 
-    // Validate the proof (simplified validation)
-    const isValid = validateZKProof(ownerSecret, device.serial_number, currentOwner.owner_alias);
+    const expiresAt = new Date(Date.now() + validForDays * 24 * 60 * 60 * 1000);
+
+    const tx = await verificationDB.begin();
+    try {
+      // Locking the ownership record serialises proofs for the device, so exactly one proof per
+      // claim is left unsuperseded, and stops a transfer landing between the check and the insert.
+      const locked = await tx.queryRow<{ owner_commitment: string | null }>`
+        SELECT owner_commitment
+        FROM ownership_history
+        WHERE id = ${owner.id} AND is_current_owner = true
+        FOR UPDATE
+      `;
+      if (locked?.owner_commitment !== owner.owner_commitment) {
+        throw APIError.failedPrecondition("Device ownership changed while the proof was being recorded");
+      }
 
-    // Store the proof
-    await verificationDB.exec`
-      INSERT INTO zkp_proofs (device_id, proof_hash, verification_hash, owner_commitment)
-      VALUES (${deviceId}, ${proofHash}, ${verificationHash}, ${ownerCommitment})
-    `;
+      const inserted = await tx.queryRow<{ id: number }>`
+        INSERT INTO zkp_proofs (
+          device_id, proof_hash, verification_hash, owner_commitment, proof, claim_type, expires_at
+        )
+        VALUES (
+          ${deviceId}, ${proofHash}, ${verificationHash}, ${owner.owner_commitment},
+          ${JSON.stringify(storedProof)}, ${claimType}, ${expiresAt}
+        )
+        ON CONFLICT (proof_hash) WHERE proof IS NOT NULL DO NOTHING
+        RETURNING id
+      `;
+      if (!inserted) {
+        throw APIError.failedPrecondition("This proof has already been submitted");
+      }
 
-    // Log the ZKP generation event
-    await verificationDB.exec`
-      INSERT INTO device_events (device_id, event_type, event_description, verified)
-      VALUES (${deviceId}, 'zkp_generated', ${`ZKP generated for ${claimType} claim`}, true)
-    `;
+      await tx.exec`
+        UPDATE zkp_proofs
+        SET superseded_by = ${inserted.id}
+        WHERE device_id = ${deviceId}
+          AND claim_type = ${claimType}
+          AND id <> ${inserted.id}
+          AND superseded_by IS NULL
+      `;
+
+      await tx.exec`
+        INSERT INTO device_events (device_id, event_type, event_description, verified)
+        VALUES (${deviceId}, 'zkp_generated', ${`ZKP generated for ${claimType} claim`}, false)
+      `;
+
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
 
     return {
       proofHash,
       verificationHash,
-      ownerCommitment,
-      isValid,
+      ownerCommitment: owner.owner_commitment,
+      isValid: true,
+      expiresAt,
     };
   }
 );
 
 export interface VerifyZKPRequest {
   verificationHash: string;
-  claimType: "ownership" | "authenticity" | "location";
+  claimType: ZKPClaimType;
   deviceId?: number;
 }
 
@@ -109,45 +271,48 @@ export interface VerifyZKPResponse {
   claimType: string;
   proofTimestamp: Date;
   confidence: number;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  // Why the proof is not valid.
+  reason?: string;
+}
+
+interface ZKPProofRow {
+  id: number;
+  device_id: number;
+  proof_hash: string;
+  verification_hash: string;
+  owner_commitment: string;
+  proof: StoredProof | null;
+  claim_type: string | null;
+  expires_at: Date | null;
+  revoked_at: Date | null;
+  revocation_reason: string | null;
+  superseded_by: number | null;
+  verification_count: number;
+  last_verified_at: Date | null;
+  created_at: Date;
 }
 
-// Verifies a zero-knowledge proof without revealing private information.
+// Verifies a zero-knowledge proof without revealing private information. The stored proof is
+// re-checked and must be unexpired, unrevoked, the latest for its claim and made by the
+// device's current owner. Only the proof's own usage counters are updated; the device's history
+// and trust score are left alone.
 export const verifyZKProof = api<VerifyZKPRequest, VerifyZKPResponse>(
   { expose: true, method: "POST", path: "/zkp/verify-proof" },
   async (req) => {
     const { verificationHash, claimType, deviceId } = req;
 
-    // Find the ZKP proof
-    let zkpProof;
-    if (deviceId) {
-      zkpProof = await verificationDB.queryRow<{
-        device_id: number;
-        proof_hash: string;
-        verification_hash: string;
-        owner_commitment: string;
-        created_at: Date;
-      }>`
-        SELECT device_id, proof_hash, verification_hash, owner_commitment, created_at
-        FROM zkp_proofs
-        WHERE verification_hash = ${verificationHash} AND device_id = ${deviceId}
-        ORDER BY created_at DESC
-        LIMIT 1
-      `;
-    } else {
-      zkpProof = await verificationDB.queryRow<{
-        device_id: number;
-        proof_hash: string;
-        verification_hash: string;
-        owner_commitment: string;
-        created_at: Date;
-      }>`
-        SELECT device_id, proof_hash, verification_hash, owner_commitment, created_at
-        FROM zkp_proofs
-        WHERE verification_hash = ${verificationHash}
-        ORDER BY created_at DESC
-        LIMIT 1
-      `;
-    }
+    const zkpProof = await verificationDB.queryRow<ZKPProofRow>`
+      SELECT id, device_id, proof_hash, verification_hash, owner_commitment, proof, claim_type,
+             expires_at, revoked_at, revocation_reason, superseded_by, verification_count,
+             last_verified_at, created_at
+      FROM zkp_proofs
+      WHERE verification_hash = ${verificationHash}
+        AND (${deviceId ?? null}::bigint IS NULL OR device_id = ${deviceId ?? null})
+      ORDER BY created_at DESC
+      LIMIT 1
+    `;
 
     if (!zkpProof) {
       return {
@@ -156,22 +321,17 @@ export const verifyZKProof = api<VerifyZKPRequest, VerifyZKPResponse>(
         claimType,
         proofTimestamp: new Date(),
         confidence: 0,
+        reason: "Proof not found",
       };
     }
 
-    // Verify the proof integrity
-    const isValid = await validateZKProofIntegrity(zkpProof.verification_hash, zkpProof.proof_hash);
-    
-    // Calculate confidence based on proof age and device status
-    const proofAge = Date.now() - zkpProof.created_at.getTime();
-    const ageInDays = proofAge / (1000 * 60 * 60 * 24);
-    
-    let confidence = 100;
-    if (ageInDays > 30) {
-      confidence -= Math.min(50, ageInDays - 30); // Reduce confidence for old proofs
-    }
+    const owner = await getCurrentOwner(zkpProof.device_id);
+    const reason = checkStoredProof(zkpProof, claimType, owner?.owner_commitment ?? null);
+    const isValid = reason === undefined;
+
+    // Stale proofs are rejected by expiry above, so confidence only reflects the device's standing
+    let confidence = isValid ? 100 : 0;
 
-    // Check device status for additional confidence factors
     const device = await verificationDB.queryRow<{
       status: string;
       current_trust_score: number;
@@ -185,7 +345,7 @@ export const verifyZKProof = api<VerifyZKPRequest, VerifyZKPResponse>(
       } else if (device.status === 'under_investigation') {
         confidence -= 15;
       }
-      
+
       // Factor in trust score
       if (device.current_trust_score < 50) {
         confidence -= 20;
@@ -194,11 +354,13 @@ export const verifyZKProof = api<VerifyZKPRequest, VerifyZKPResponse>(
 
     confidence = Math.max(0, Math.min(100, confidence));
 
-    // Log the verification attempt
     await verificationDB.exec`
-      INSERT INTO device_events (device_id, event_type, event_description, verified)
-      VALUES (${zkpProof.device_id}, 'zkp_verified', 
-              ${`ZKP verification attempted for ${claimType} claim (confidence: ${confidence}%)`}, ${isValid})
+      UPDATE zkp_proofs
+      SET verification_count = verification_count + 1,
+          last_verified_at = CURRENT_TIMESTAMP,
+          last_verified_by_partner_id = ${getAuthData()?.partnerId ?? null},
+          last_verification_result = ${isValid}
+      WHERE id = ${zkpProof.id}
     `;
 
     return {
@@ -207,6 +369,89 @@ export const verifyZKProof = api<VerifyZKPRequest, VerifyZKPResponse>(
       claimType,
       proofTimestamp: zkpProof.created_at,
       confidence: Math.round(confidence),
+      expiresAt: zkpProof.expires_at ?? undefined,
+      revokedAt: zkpProof.revoked_at ?? undefined,
+      reason,
+    };
+  }
+);
+
+export interface RevokeZKProofRequest {
+  verificationHash: string;
+  // Proof of knowledge of the key the revoked proof was made with, for the claim
+  // "revoke:<verificationHash>", so a revocation can't be replayed against another proof.
+  proof: SchnorrProof;
+  reason?: string;
+}
+
+export interface RevokeZKProofResponse {
+  verificationHash: string;
+  deviceId: number;
+  claimType: string;
+  revokedAt: Date;
+}
+
+// Revokes a recorded proof. Only the owner who made it can revoke it, including after the
+// device has been transferred.
+export const revokeZKProof = api<RevokeZKProofRequest, RevokeZKProofResponse>(
+  { expose: true, method: "POST", path: "/zkp/proofs/:verificationHash/revoke" },
+  async (req) => {
+    const { verificationHash, proof, reason } = req;
+
+    try {
+      validateString(verificationHash, "Verification hash", 1, 128);
+      if (reason !== undefined) {
+        validateString(reason, "Reason", 1, 500);
+      }
+      validateProofFreshness(proof);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw APIError.invalidArgument(error.message);
+      }
+      throw error;
+    }
+
+    const zkpProof = await verificationDB.queryRow<{
+      id: number;
+      device_id: number;
+      owner_commitment: string;
+      claim_type: string;
+    }>`
+      SELECT id, device_id, owner_commitment, claim_type
+      FROM zkp_proofs
+      WHERE verification_hash = ${verificationHash} AND proof IS NOT NULL
+      ORDER BY created_at DESC
+      LIMIT 1
+    `;
+    if (!zkpProof) {
+      throw APIError.notFound("Proof not found");
+    }
+
+    const statement = { deviceId: zkpProof.device_id, claimType: revocationClaim(verificationHash) };
+    if (!verifyKnowledgeProof(zkpProof.owner_commitment, statement, proof)) {
+      throw APIError.permissionDenied("Revocation proof does not verify against the proof's owner commitment");
+    }
+
+    const revoked = await verificationDB.queryRow<{ revoked_at: Date }>`
+      UPDATE zkp_proofs
+      SET revoked_at = CURRENT_TIMESTAMP, revocation_reason = ${reason ?? null}
+      WHERE id = ${zkpProof.id} AND revoked_at IS NULL
+      RETURNING revoked_at
+    `;
+    if (!revoked) {
+      throw APIError.failedPrecondition("Proof has already been revoked");
+    }
+
+    await verificationDB.exec`
+      INSERT INTO device_events (device_id, event_type, event_description, verified)
+      VALUES (${zkpProof.device_id}, 'zkp_revoked', ${`ZKP revoked for ${zkpProof.claim_type} claim`}, false)
+    `;
+
+    return {
+      verificationHash,
+      deviceId: zkpProof.device_id,
+      claimType: zkpProof.claim_type,
+      revokedAt: revoked.revoked_at,
     };
   }
 );
@@ -222,6 +467,12 @@ export interface ZKPHistoryEntry {
   claimType: string;
   timestamp: Date;
   isValid: boolean;
+  status: ZKPProofStatus;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  revocationReason?: string;
+  verificationCount: number;
+  lastVerifiedAt?: Date;
 }
 
 export interface GetZKPHistoryResponse {
@@ -235,43 +486,33 @@ export const getZKPHistory = api<GetZKPHistoryRequest, GetZKPHistoryResponse>(
   async (req) => {
     const { deviceId } = req;
 
-    const proofs = await verificationDB.queryAll<{
-      id: number;
-      proof_hash: string;
-      verification_hash: string;
-      created_at: Date;
-    }>`
-      SELECT id, proof_hash, verification_hash, created_at
+    const proofs = await verificationDB.queryAll<ZKPProofRow>`
+      SELECT id, device_id, proof_hash, verification_hash, owner_commitment, proof, claim_type,
+             expires_at, revoked_at, revocation_reason, superseded_by, verification_count,
+             last_verified_at, created_at
       FROM zkp_proofs
       WHERE device_id = ${deviceId}
       ORDER BY created_at DESC
     `;
 
-    // Get associated events to determine claim types
-    const events = await verificationDB.queryAll<{
-      event_description: string;
-      event_date: Date;
-      verified: boolean;
-    }>`
-      SELECT event_description, event_date, verified
-      FROM device_events
-      WHERE device_id = ${deviceId} AND event_type = 'zkp_generated'
-      ORDER BY event_date DESC
-    `;
-
-    const proofHistory: ZKPHistoryEntry[] = proofs.map((proof, index) => {
-      const associatedEvent = events[index];
-      const claimType = associatedEvent?.event_description?.includes('ownership') ? 'ownership' :
-                       associatedEvent?.event_description?.includes('authenticity') ? 'authenticity' :
-                       associatedEvent?.event_description?.includes('location') ? 'location' : 'unknown';
+    const owner = await getCurrentOwner(deviceId);
 
+    // Proofs were verified when they were recorded, so only their lifecycle is checked here
+    const proofHistory: ZKPHistoryEntry[] = proofs.map(proof => {
+      const { status } = proofLifecycle(proof, owner?.owner_commitment ?? null);
       return {
         id: proof.id,
         proofHash: proof.proof_hash,
         verificationHash: proof.verification_hash,
-        claimType,
+        claimType: proof.claim_type ?? 'unknown',
         timestamp: proof.created_at,
-        isValid: associatedEvent?.verified || false,
+        isValid: status === 'valid',
+        status,
+        expiresAt: proof.expires_at ?? undefined,
+        revokedAt: proof.revoked_at ?? undefined,
+        revocationReason: proof.revocation_reason ?? undefined,
+        verificationCount: proof.verification_count,
+        lastVerifiedAt: proof.last_verified_at ?? undefined,
       };
     });
 
@@ -282,26 +523,106 @@ export const getZKPHistory = api<GetZKPHistoryRequest, GetZKPHistoryResponse>(
   }
 );
 
-// Simplified ZKP validation functions
-// In a real implementation, these would use proper cryptographic ZKP libraries
-
-function validateZKProof(ownerSecret: string, deviceSerial: string, ownerAlias: string): boolean {
-  // Simplified validation - in real ZKP this would involve complex cryptographic verification
-  const expectedHash = createHash('sha256')
-    .update(ownerSecret + deviceSerial + ownerAlias)
-    .digest('hex');
-  
-  // For demo purposes, consider valid if hash is properly formed
-  return expectedHash.length === 64 && /^[a-f0-9]+$/.test(expectedHash);
+async function getCurrentOwner(deviceId: number): Promise<CurrentOwnerRow | null> {
+  return verificationDB.queryRow<CurrentOwnerRow>`
+    SELECT id, owner_alias, owner_commitment, owner_commitment_bound_at, partner_id
+    FROM ownership_history
+    WHERE device_id = ${deviceId} AND is_current_owner = true
+  `;
+}
+
+// Confirms the caller acts for the device's current owner: the authenticated partner that recorded
+// the ownership, or whoever holds the owner's key, shown by a fresh proof for `claimType`. Aliases
+// are public and prove nothing. Returns the current owner's alias.
+export async function authenticateCurrentOwner(
+  store: DeviceStore,
+  deviceId: number,
+  claimType: string,
+  proof?: SchnorrProof
+): Promise<string> {
+  const owner = await store.queryRow<{ owner_alias: string; owner_commitment: string | null; partner_id: number | null }>`
+    SELECT owner_alias, owner_commitment, partner_id
+    FROM ownership_history
+    WHERE device_id = ${deviceId} AND is_current_owner = true
+  `;
+  if (!owner) {
+    throw APIError.failedPrecondition("Device has no current owner");
+  }
+
+  const authData = getAuthData();
+  if (authData && owner.partner_id !== null && owner.partner_id === authData.partnerId) {
+    return owner.owner_alias;
+  }
+
+  if (!proof) {
+    throw APIError.permissionDenied("A proof from the current owner's key is required");
+  }
+  try {
+    validateProofFreshness(proof);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw APIError.invalidArgument(error.message);
+    }
+    throw error;
+  }
+  if (!owner.owner_commitment || !verifyKnowledgeProof(owner.owner_commitment, { deviceId, claimType }, proof)) {
+    throw APIError.permissionDenied("Proof does not verify against the current owner's commitment");
+  }
+  return owner.owner_alias;
 }
 
-async function validateZKProofIntegrity(verificationHash: string, proofHash: string): Promise<boolean> {
-  // Simplified integrity check
-  // In real implementation, this would verify the cryptographic proof
-  
-  // Check if hashes are properly formatted
-  const isValidFormat = /^[a-f0-9]{64}$/.test(verificationHash) && /^[a-f0-9]{64}$/.test(proofHash);
-  
-  // Additional integrity checks could be added here
-  return isValidFormat;
+export function validateProofFreshness(proof: SchnorrProof): void {
+  if (!proof || typeof proof.commitment !== "string" || typeof proof.response !== "string") {
+    throw new ValidationError("Proof must include a commitment and a response");
+  }
+
+  const issuedAt = Date.parse(proof.issuedAt);
+  if (Number.isNaN(issuedAt)) {
+    throw new ValidationError("Proof issuedAt must be an ISO timestamp");
+  }
+  const age = Date.now() - issuedAt;
+  if (age > PROOF_MAX_AGE_MS || age < -PROOF_CLOCK_SKEW_MS) {
+    throw new ValidationError("Proof has expired or is dated in the future; generate a new one");
+  }
+}
+
+// Owners sign this claim to revoke a proof; dev/zkp_prove.ts builds the same string.
+function revocationClaim(verificationHash: string): string {
+  return `revoke:${verificationHash}`;
+}
+
+// Where a stored proof stands without re-running the proof check, and why it no longer holds.
+function proofLifecycle(row: ZKPProofRow, currentCommitment: string | null): { status: ZKPProofStatus; reason?: string } {
+  if (!row.proof) {
+    return { status: "unverifiable", reason: "Proof predates verifiable proofs and cannot be checked" };
+  }
+  if (row.revoked_at) {
+    const detail = row.revocation_reason ? `: ${row.revocation_reason}` : "";
+    return { status: "revoked", reason: `Proof was revoked by its owner${detail}` };
+  }
+  if (row.expires_at && row.expires_at.getTime() <= Date.now()) {
+    return { status: "expired", reason: `Proof expired at ${row.expires_at.toISOString()}` };
+  }
+  if (row.superseded_by !== null) {
+    return { status: "superseded", reason: "Proof was superseded by a newer proof for the same claim" };
+  }
+  if (row.owner_commitment !== currentCommitment) {
+    return { status: "superseded", reason: "Proof was made by a previous owner" };
+  }
+  return { status: "valid" };
+}
+
+// Returns why a stored proof no longer proves its claim, or undefined if it does.
+function checkStoredProof(row: ZKPProofRow, claimType: ZKPClaimType, currentCommitment: string | null): string | undefined {
+  const { reason } = proofLifecycle(row, currentCommitment);
+  if (reason) {
+    return reason;
+  }
+  if (row.claim_type !== claimType) {
+    return `Proof was made for a ${row.claim_type} claim`;
+  }
+  if (!verifyKnowledgeProof(row.owner_commitment, { deviceId: row.device_id, claimType }, row.proof!)) {
+    return "Proof does not verify";
+  }
+  return undefined;
 }
@@ -8,6 +8,7 @@ import { DeviceDetailsPage } from './pages/DeviceDetailsPage';
 import { ApiDashboardPage } from './pages/ApiDashboardPage';
 import { LifecyclePage } from './pages/LifecyclePage';
 import { ComparisonPage } from './pages/ComparisonPage';
+import { VerificationLinkPage } from './pages/VerificationLinkPage';
 
 export default function App() {
   return (
@@ -50,6 +51,11 @@ export default function App() {
                         <ComparisonPage />
                       </ErrorBoundary>
                     } />
+                    <Route path="/verify/:linkId" element={
+                      <ErrorBoundary>
+                        <VerificationLinkPage />
+                      </ErrorBoundary>
+                    } />
                   </Routes>
                 </main>
               </>
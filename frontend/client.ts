@@ -64,6 +64,11 @@ export class Client {
     }
 }
 
+/**
+ * Import the auth handler to be able to derive the auth type
+ */
+import type { auth as auth_auth } from "~backend/verification/auth";
+
 /**
  * ClientOptions allows you to override any default behaviour within the generated Encore client.
  */
@@ -77,11 +82,25 @@ export interface ClientOptions {
 
     /** Default RequestInit to be used for the client */
     requestInit?: Omit<RequestInit, "headers"> & { headers?: Record<string, string> }
+
+    /**
+     * Allows you to set the authentication data to be used for each
+     * request either by passing in a static object or by passing in
+     * a function which returns a new object for each request.
+     */
+    auth?: RequestType<typeof auth_auth> | AuthDataGenerator
 }
 
 /**
  * Import the endpoint handlers to derive the types for the client.
  */
+import {
+    createApiKey as api_verification_api_keys_createApiKey,
+    listApiKeys as api_verification_api_keys_listApiKeys,
+    revokeApiKey as api_verification_api_keys_revokeApiKey,
+    rotateApiKey as api_verification_api_keys_rotateApiKey,
+    updateApiKey as api_verification_api_keys_updateApiKey
+} from "~backend/verification/api_keys";
 import {
     batchUpdateBadges as api_verification_badge_lifecycle_batchUpdateBadges,
     createBadge as api_verification_badge_lifecycle_createBadge,
@@ -91,6 +110,11 @@ import {
     revokeBadge as api_verification_badge_lifecycle_revokeBadge
 } from "~backend/verification/badge_lifecycle";
 import { batchVerify as api_verification_batch_verify_batchVerify } from "~backend/verification/batch_verify";
+import {
+    getCertificatePdf as api_verification_certificates_getCertificatePdf,
+    issueCertificate as api_verification_certificates_issueCertificate
+} from "~backend/verification/certificates";
+import { compareDevices as api_verification_device_comparison_compareDevices } from "~backend/verification/device_comparison";
 import {
     createFingerprint as api_verification_device_fingerprinting_createFingerprint,
     verifyFingerprint as api_verification_device_fingerprinting_verifyFingerprint
@@ -108,7 +132,11 @@ import {
     getBadgeImage as api_verification_generate_badge_getBadgeImage,
     trackBadgeClick as api_verification_generate_badge_trackBadgeClick
 } from "~backend/verification/generate_badge";
-import { generateLink as api_verification_generate_link_generateLink } from "~backend/verification/generate_link";
+import {
+    generateLink as api_verification_generate_link_generateLink,
+    resolveVerificationLink as api_verification_generate_link_resolveVerificationLink,
+    revokeVerificationLink as api_verification_generate_link_revokeVerificationLink
+} from "~backend/verification/generate_link";
 import { getDevice as api_verification_get_device_getDevice } from "~backend/verification/get_device";
 import {
     decryptLawEnforcementReport as api_verification_law_enforcement_decryptLawEnforcementReport,
@@ -124,11 +152,20 @@ import {
     getVerificationAudit as api_verification_multi_node_verification_getVerificationAudit,
     multiNodeVerify as api_verification_multi_node_verification_multiNodeVerify
 } from "~backend/verification/multi_node_verification";
+import {
+    disableNode as api_verification_node_registry_disableNode,
+    enableNode as api_verification_node_registry_enableNode,
+    listNodes as api_verification_node_registry_listNodes,
+    registerNode as api_verification_node_registry_registerNode,
+    rotateNodeKey as api_verification_node_registry_rotateNodeKey,
+    setNodePriority as api_verification_node_registry_setNodePriority
+} from "~backend/verification/node_registry";
 import {
     createPartnerBadge as api_verification_partner_api_createPartnerBadge,
     getPartnerBadges as api_verification_partner_api_getPartnerBadges,
     partnerVerification as api_verification_partner_api_partnerVerification
 } from "~backend/verification/partner_api";
+import { getUsage as api_verification_rate_limit_getUsage } from "~backend/verification/rate_limit";
 import { report as api_verification_report_report } from "~backend/verification/report";
 import { search as api_verification_search_search } from "~backend/verification/search";
 import { seed as api_verification_seed_seed } from "~backend/verification/seed";
@@ -139,8 +176,11 @@ import {
 } from "~backend/verification/seller_dashboard";
 import {
     calculateTrustScore as api_verification_trust_scoring_calculateTrustScore,
-    getTrustScore as api_verification_trust_scoring_getTrustScore
+    getTrustScore as api_verification_trust_scoring_getTrustScore,
+    getTrustScoreHistory as api_verification_trust_scoring_getTrustScoreHistory
 } from "~backend/verification/trust_scoring";
+import { getUsageAnalytics as api_verification_usage_analytics_getUsageAnalytics } from "~backend/verification/usage_analytics";
+import { listVerificationLogs as api_verification_verification_logs_listVerificationLogs } from "~backend/verification/verification_logs";
 import { verify as api_verification_verify_verify } from "~backend/verification/verify";
 import {
     generateZKProof as api_verification_zkp_verification_generateZKProof,
@@ -160,11 +200,15 @@ export namespace verification {
             this.batchVerify = this.batchVerify.bind(this)
             this.calculateTrustScore = this.calculateTrustScore.bind(this)
             this.checkDeviceChanges = this.checkDeviceChanges.bind(this)
+            this.compareDevices = this.compareDevices.bind(this)
+            this.createApiKey = this.createApiKey.bind(this)
             this.createBadge = this.createBadge.bind(this)
             this.createFingerprint = this.createFingerprint.bind(this)
             this.createPartnerBadge = this.createPartnerBadge.bind(this)
             this.createSellerProfile = this.createSellerProfile.bind(this)
             this.decryptLawEnforcementReport = this.decryptLawEnforcementReport.bind(this)
+            this.disableNode = this.disableNode.bind(this)
+            this.enableNode = this.enableNode.bind(this)
             this.flagDevice = this.flagDevice.bind(this)
             this.generateBadge = this.generateBadge.bind(this)
             this.generateLink = this.generateLink.bind(this)
@@ -173,6 +217,7 @@ export namespace verification {
             this.getBadge = this.getBadge.bind(this)
             this.getBadgeImage = this.getBadgeImage.bind(this)
             this.getBadgeStats = this.getBadgeStats.bind(this)
+            this.getCertificatePdf = this.getCertificatePdf.bind(this)
             this.getDevice = this.getDevice.bind(this)
             this.getHistory = this.getHistory.bind(this)
             this.getLawEnforcementReports = this.getLawEnforcementReports.bind(this)
@@ -181,18 +226,33 @@ export namespace verification {
             this.getSellerDashboard = this.getSellerDashboard.bind(this)
             this.getStatus = this.getStatus.bind(this)
             this.getTrustScore = this.getTrustScore.bind(this)
+            this.getTrustScoreHistory = this.getTrustScoreHistory.bind(this)
+            this.getUsage = this.getUsage.bind(this)
+            this.getUsageAnalytics = this.getUsageAnalytics.bind(this)
             this.getVerificationAudit = this.getVerificationAudit.bind(this)
             this.getWatchedDevices = this.getWatchedDevices.bind(this)
             this.getZKPHistory = this.getZKPHistory.bind(this)
+            this.issueCertificate = this.issueCertificate.bind(this)
+            this.listApiKeys = this.listApiKeys.bind(this)
+            this.listNodes = this.listNodes.bind(this)
+            this.listVerificationLogs = this.listVerificationLogs.bind(this)
             this.multiNodeVerify = this.multiNodeVerify.bind(this)
             this.partnerVerification = this.partnerVerification.bind(this)
+            this.registerNode = this.registerNode.bind(this)
             this.report = this.report.bind(this)
+            this.resolveVerificationLink = this.resolveVerificationLink.bind(this)
+            this.revokeApiKey = this.revokeApiKey.bind(this)
             this.revokeBadge = this.revokeBadge.bind(this)
+            this.revokeVerificationLink = this.revokeVerificationLink.bind(this)
+            this.rotateApiKey = this.rotateApiKey.bind(this)
+            this.rotateNodeKey = this.rotateNodeKey.bind(this)
             this.search = this.search.bind(this)
             this.seed = this.seed.bind(this)
+            this.setNodePriority = this.setNodePriority.bind(this)
             this.submitLawEnforcementReport = this.submitLawEnforcementReport.bind(this)
             this.trackBadgeClick = this.trackBadgeClick.bind(this)
             this.unwatchDevice = this.unwatchDevice.bind(this)
+            this.updateApiKey = this.updateApiKey.bind(this)
             this.verify = this.verify.bind(this)
             this.verifyBlockchainProof = this.verifyBlockchainProof.bind(this)
             this.verifyFingerprint = this.verifyFingerprint.bind(this)
@@ -245,6 +305,21 @@ export namespace verification {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_device_watchers_checkDeviceChanges>
         }
 
+        public async compareDevices(params: RequestType<typeof api_verification_device_comparison_compareDevices>): Promise<ResponseType<typeof api_verification_device_comparison_compareDevices>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/devices/compare`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_device_comparison_compareDevices>
+        }
+
+        /**
+         * Issues a new API key for the authenticated partner.
+         */
+        public async createApiKey(params: RequestType<typeof api_verification_api_keys_createApiKey>): Promise<ResponseType<typeof api_verification_api_keys_createApiKey>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/partner/api-keys`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_api_keys_createApiKey>
+        }
+
         /**
          * Creates or updates a verified badge for an entity.
          */
@@ -290,6 +365,29 @@ export namespace verification {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_law_enforcement_decryptLawEnforcementReport>
         }
 
+        /**
+         * Stops querying a node during verification and health checks. The node keeps its history.
+         */
+        public async disableNode(params: RequestType<typeof api_verification_node_registry_disableNode>): Promise<ResponseType<typeof api_verification_node_registry_disableNode>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                reason: params.reason,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/nodes/${encodeURIComponent(params.nodeId)}/disable`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_node_registry_disableNode>
+        }
+
+        /**
+         * Returns a disabled node to federation lookups.
+         */
+        public async enableNode(params: { nodeId: number }): Promise<ResponseType<typeof api_verification_node_registry_enableNode>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/nodes/${encodeURIComponent(params.nodeId)}/enable`, {method: "POST", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_node_registry_enableNode>
+        }
+
         /**
          * Flags a device as suspicious or problematic.
          */
@@ -317,7 +415,7 @@ export namespace verification {
         }
 
         /**
-         * Generates a public verification link for a device.
+         * Generates a public verification link for a device. Links belong to the partner that created them.
          */
         public async generateLink(params: RequestType<typeof api_verification_generate_link_generateLink>): Promise<ResponseType<typeof api_verification_generate_link_generateLink>> {
             // Now make the actual call to the API
@@ -381,6 +479,15 @@ export namespace verification {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_badge_lifecycle_getBadgeStats>
         }
 
+        /**
+         * Renders a certificate as a PDF that includes its signature and verification instructions.
+         */
+        public async getCertificatePdf(params: { certificateId: string }): Promise<ResponseType<typeof api_verification_certificates_getCertificatePdf>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/certificates/${encodeURIComponent(params.certificateId)}/pdf`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_certificates_getCertificatePdf>
+        }
+
         /**
          * Gets detailed device information by ID.
          */
@@ -433,7 +540,7 @@ export namespace verification {
         }
 
         /**
-         * Gets all badges created by a partner.
+         * Gets all badges created by the authenticated partner.
          */
         public async getPartnerBadges(params: RequestType<typeof api_verification_partner_api_getPartnerBadges>): Promise<ResponseType<typeof api_verification_partner_api_getPartnerBadges>> {
             // Convert our params into the objects we need for the request
@@ -443,7 +550,7 @@ export namespace verification {
             })
 
             // Now make the actual call to the API
-            const resp = await this.baseClient.callTypedAPI(`/partner/${encodeURIComponent(params.partnerId)}/badges`, {query, method: "GET", body: undefined})
+            const resp = await this.baseClient.callTypedAPI(`/partner/badges`, {query, method: "GET", body: undefined})
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_partner_api_getPartnerBadges>
         }
 
@@ -474,6 +581,46 @@ export namespace verification {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_trust_scoring_getTrustScore>
         }
 
+        /**
+         * Gets how a device's trust score changed over time, oldest first. Returns the most recent
+         * calculations when there are more than the limit.
+         */
+        public async getTrustScoreHistory(params: RequestType<typeof api_verification_trust_scoring_getTrustScoreHistory>): Promise<ResponseType<typeof api_verification_trust_scoring_getTrustScoreHistory>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                from:  params.from,
+                limit: params.limit === undefined ? undefined : String(params.limit),
+                to:    params.to,
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/trust-score/${encodeURIComponent(params.deviceId)}/history`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_trust_scoring_getTrustScoreHistory>
+        }
+
+        /**
+         * Gets the authenticated partner's metered usage for the current billing month.
+         */
+        public async getUsage(): Promise<ResponseType<typeof api_verification_rate_limit_getUsage>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/partner/usage`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_rate_limit_getUsage>
+        }
+
+        /**
+         * Gets verification usage analytics for the authenticated partner over a time range.
+         */
+        public async getUsageAnalytics(params: RequestType<typeof api_verification_usage_analytics_getUsageAnalytics>): Promise<ResponseType<typeof api_verification_usage_analytics_getUsageAnalytics>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                range: params.range === undefined ? undefined : String(params.range),
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/analytics/usage`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_usage_analytics_getUsageAnalytics>
+        }
+
         /**
          * Gets verification audit logs for transparency.
          */
@@ -513,6 +660,67 @@ export namespace verification {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_zkp_verification_getZKPHistory>
         }
 
+        /**
+         * Issues a signed certificate for a completed verification. Only the partner that ran the
+         * verification, or a platform operator, can certify it. Issuing again for the same verification
+         * returns the original certificate.
+         */
+        public async issueCertificate(params: RequestType<typeof api_verification_certificates_issueCertificate>): Promise<ResponseType<typeof api_verification_certificates_issueCertificate>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/certificates`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_certificates_issueCertificate>
+        }
+
+        /**
+         * Lists the authenticated partner's API keys without revealing the keys themselves.
+         */
+        public async listApiKeys(params: RequestType<typeof api_verification_api_keys_listApiKeys>): Promise<ResponseType<typeof api_verification_api_keys_listApiKeys>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                includeRevoked: params.includeRevoked === undefined ? undefined : String(params.includeRevoked),
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/partner/api-keys`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_api_keys_listApiKeys>
+        }
+
+        /**
+         * Lists federation nodes with their rolling health record.
+         */
+        public async listNodes(params: RequestType<typeof api_verification_node_registry_listNodes>): Promise<ResponseType<typeof api_verification_node_registry_listNodes>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                includeDisabled: params.includeDisabled === undefined ? undefined : String(params.includeDisabled),
+                windowHours:     params.windowHours === undefined ? undefined : String(params.windowHours),
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/nodes`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_node_registry_listNodes>
+        }
+
+        /**
+         * Lists the authenticated partner's verification logs with filtering and pagination.
+         */
+        public async listVerificationLogs(params: RequestType<typeof api_verification_verification_logs_listVerificationLogs>): Promise<ResponseType<typeof api_verification_verification_logs_listVerificationLogs>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                from:             params.from,
+                identifierType:   params.identifierType,
+                limit:            params.limit === undefined ? undefined : String(params.limit),
+                page:             params.page === undefined ? undefined : String(params.page),
+                resultStatus:     params.resultStatus === undefined ? undefined : String(params.resultStatus),
+                search:           params.search,
+                to:               params.to,
+                verificationType: params.verificationType === undefined ? undefined : String(params.verificationType),
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/logs`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_verification_logs_listVerificationLogs>
+        }
+
         /**
          * Verifies a device across multiple independent nodes for enhanced reliability.
          */
@@ -531,6 +739,15 @@ export namespace verification {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_partner_api_partnerVerification>
         }
 
+        /**
+         * Registers a federation node and issues the key it should expect from this service.
+         */
+        public async registerNode(params: RequestType<typeof api_verification_node_registry_registerNode>): Promise<ResponseType<typeof api_verification_node_registry_registerNode>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/nodes`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_node_registry_registerNode>
+        }
+
         /**
          * Reports a device for suspicious activity.
          */
@@ -540,6 +757,25 @@ export namespace verification {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_report_report>
         }
 
+        /**
+         * Opens a verification link and returns the device report it shares, using up one of its views.
+         * A POST, so only an explicit open counts against the link and prefetches or retried GETs do not.
+         */
+        public async resolveVerificationLink(params: { linkId: string }): Promise<ResponseType<typeof api_verification_generate_link_resolveVerificationLink>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/verification-links/${encodeURIComponent(params.linkId)}/open`, {method: "POST", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_generate_link_resolveVerificationLink>
+        }
+
+        /**
+         * Revokes an API key immediately.
+         */
+        public async revokeApiKey(params: { keyId: number }): Promise<ResponseType<typeof api_verification_api_keys_revokeApiKey>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/partner/api-keys/${encodeURIComponent(params.keyId)}`, {method: "DELETE", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_api_keys_revokeApiKey>
+        }
+
         /**
          * Revokes verification badge for an entity.
          */
@@ -555,6 +791,34 @@ export namespace verification {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_badge_lifecycle_revokeBadge>
         }
 
+        /**
+         * Revokes a verification link. Only the partner that generated it, or a platform operator, can revoke it.
+         */
+        public async revokeVerificationLink(params: { linkId: string }): Promise<ResponseType<typeof api_verification_generate_link_revokeVerificationLink>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/verification-links/${encodeURIComponent(params.linkId)}/revoke`, {method: "POST", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_generate_link_revokeVerificationLink>
+        }
+
+        /**
+         * Replaces an API key with a fresh one carrying the same name, scopes and expiry, and revokes the old key.
+         */
+        public async rotateApiKey(params: { keyId: number }): Promise<ResponseType<typeof api_verification_api_keys_rotateApiKey>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/partner/api-keys/${encodeURIComponent(params.keyId)}/rotate`, {method: "POST", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_api_keys_rotateApiKey>
+        }
+
+        /**
+         * Issues a new key for a node; the previous key stops being sent immediately. Also used to give
+         * nodes that still share the FederationNodeToken their own key.
+         */
+        public async rotateNodeKey(params: { nodeId: number }): Promise<ResponseType<typeof api_verification_node_registry_rotateNodeKey>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/nodes/${encodeURIComponent(params.nodeId)}/rotate-key`, {method: "POST", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_node_registry_rotateNodeKey>
+        }
+
         /**
          * Searches for devices by name, model, or brand.
          */
@@ -579,6 +843,20 @@ export namespace verification {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_seed_seed>
         }
 
+        /**
+         * Moves a node to a different federation priority tier.
+         */
+        public async setNodePriority(params: RequestType<typeof api_verification_node_registry_setNodePriority>): Promise<ResponseType<typeof api_verification_node_registry_setNodePriority>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                priority: params.priority,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/nodes/${encodeURIComponent(params.nodeId)}/priority`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_node_registry_setNodePriority>
+        }
+
         /**
          * Submits a report to law enforcement databases with encryption.
          */
@@ -620,6 +898,22 @@ export namespace verification {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_device_watchers_unwatchDevice>
         }
 
+        /**
+         * Changes the name, scopes or expiry of an API key.
+         */
+        public async updateApiKey(params: RequestType<typeof api_verification_api_keys_updateApiKey>): Promise<ResponseType<typeof api_verification_api_keys_updateApiKey>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                expiresAt: params.expiresAt,
+                name:      params.name,
+                scopes:    params.scopes,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/partner/api-keys/${encodeURIComponent(params.keyId)}`, {method: "PATCH", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_verification_api_keys_updateApiKey>
+        }
+
         /**
          * Verifies a device by serial number or IMEI with enhanced features.
          */
@@ -922,6 +1216,12 @@ type CallParameters = Omit<RequestInit, "headers"> & {
 }
 
 
+// AuthDataGenerator is a function that returns a new instance of the authentication data required by this API
+export type AuthDataGenerator = () =>
+  | RequestType<typeof auth_auth>
+  | Promise<RequestType<typeof auth_auth> | undefined>
+  | undefined;
+
 // A fetcher is the prototype for the inbuilt Fetch function
 export type Fetcher = typeof fetch;
 
@@ -932,6 +1232,7 @@ class BaseClient {
     readonly fetcher: Fetcher
     readonly headers: Record<string, string>
     readonly requestInit: Omit<RequestInit, "headers"> & { headers?: Record<string, string> }
+    readonly authGenerator?: AuthDataGenerator
 
     constructor(baseURL: string, options: ClientOptions) {
         this.baseURL = baseURL
@@ -951,9 +1252,41 @@ class BaseClient {
         } else {
             this.fetcher = boundFetch
         }
+
+        // Setup an authentication data generator using the auth data token option
+        if (options.auth !== undefined) {
+            const auth = options.auth
+            if (typeof auth === "function") {
+                this.authGenerator = auth
+            } else {
+                this.authGenerator = () => auth
+            }
+        }
     }
 
     async getAuthData(): Promise<CallParameters | undefined> {
+        let authData: RequestType<typeof auth_auth> | undefined;
+
+        // If authorization data generator is present, call it and add the returned data to the request
+        if (this.authGenerator) {
+            const mayBePromise = this.authGenerator();
+            if (mayBePromise instanceof Promise) {
+                authData = await mayBePromise;
+            } else {
+                authData = mayBePromise;
+            }
+        }
+
+        if (authData) {
+            const data: CallParameters = {};
+
+            data.headers = makeRecord<string, string>({
+                authorization: authData.authorization,
+            });
+
+            return data;
+        }
+
         return undefined;
     }
 
@@ -3,6 +3,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { StatusBadge } from './StatusBadge';
 import type { SearchResult } from '~backend/verification/search';
+import type { DeviceStatus } from '~backend/verification/device_status';
 
 interface DeviceCardProps {
   device: SearchResult;
@@ -32,7 +33,7 @@ export function DeviceCard({ device }: DeviceCardProps) {
                 {device.brand} {device.model}
               </p>
               <div className="flex items-center justify-between">
-                <StatusBadge status={device.status as "clean" | "flagged" | "under_investigation"} />
+                <StatusBadge status={device.status as DeviceStatus} />
                 <Badge variant="outline" className="text-xs">
                   {device.serialNumber}
                 </Badge>
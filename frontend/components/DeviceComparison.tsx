@@ -160,8 +160,8 @@ export function DeviceComparison() {
                     </p>
                   </div>
                   <Badge variant={
-                    device.status === 'verified' ? 'default' :
-                    device.status === 'flagged' || device.status === 'reported' ? 'destructive' :
+                    device.status === 'clean' ? 'default' :
+                    device.status === 'flagged' || device.status === 'stolen' ? 'destructive' :
                     'secondary'
                   }>
                     {device.status}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Calendar, MapPin, Shield, AlertTriangle, Flag, MessageCircle, Eye, Fingerprint, QrCode } from 'lucide-react';
+import { Calendar, MapPin, Shield, AlertTriangle, Flag, MessageCircle, Eye, Fingerprint, QrCode, FileDown } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -11,6 +11,8 @@ import { TrustScoreDisplay } from './TrustScoreDisplay';
 import { WatchDeviceDialog } from './WatchDeviceDialog';
 import { BadgeGenerator } from './BadgeGenerator';
 import { VerificationBadge } from './VerificationBadge';
+import { useToast } from '@/components/ui/use-toast';
+import backend from '~backend/client';
 import type { VerifyDeviceResponse } from '~backend/verification/verify';
 
 interface DeviceVerificationResultProps {
@@ -20,6 +22,8 @@ interface DeviceVerificationResultProps {
 export function DeviceVerificationResult({ result }: DeviceVerificationResultProps) {
   const [showReportDialog, setShowReportDialog] = useState(false);
   const [showWatchDialog, setShowWatchDialog] = useState(false);
+  const [isIssuingCertificate, setIsIssuingCertificate] = useState(false);
+  const { toast } = useToast();
   const { device, currentOwner, ownershipHistory, events, reportCount, trustScore, fingerprint, verificationMetadata } = result;
 
   const formatDate = (date: Date) => {
@@ -44,6 +48,42 @@ export function DeviceVerificationResult({ result }: DeviceVerificationResultPro
     );
   };
 
+  const downloadFile = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadCertificate = async () => {
+    setIsIssuingCertificate(true);
+    try {
+      const certificate = await backend.verification.issueCertificate({
+        verificationId: verificationMetadata.verificationId,
+      });
+      const { certificateId } = certificate.attestation;
+      const rendered = await backend.verification.getCertificatePdf({ certificateId });
+
+      const bytes = Uint8Array.from(atob(rendered.pdf), c => c.charCodeAt(0));
+      downloadFile(new Blob([bytes], { type: rendered.contentType }), rendered.filename);
+      downloadFile(
+        new Blob([JSON.stringify(certificate, null, 2)], { type: 'application/json' }),
+        `${certificateId}.json`
+      );
+    } catch (error) {
+      console.error('Issue certificate error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to issue certificate",
+        variant: "destructive",
+      });
+    } finally {
+      setIsIssuingCertificate(false);
+    }
+  };
+
   const getConfidenceColor = (confidence: number) => {
     if (confidence >= 80) return 'text-green-600';
     if (confidence >= 60) return 'text-yellow-600';
@@ -76,6 +116,11 @@ export function DeviceVerificationResult({ result }: DeviceVerificationResultPro
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-4">
               <StatusBadge status={device.status} size="lg" />
+              {device.statusSource === 'federation' && (
+                <Badge variant="outline" className="text-sm">
+                  Reported by a federated registry
+                </Badge>
+              )}
               <VerificationBadge 
                 entityId={device.id} 
                 entityName={device.deviceName}
@@ -119,6 +164,15 @@ export function DeviceVerificationResult({ result }: DeviceVerificationResultPro
                 <p className="text-gray-600">
                   {formatDate(verificationMetadata.timestamp)}
                 </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleDownloadCertificate}
+                  disabled={isIssuingCertificate}
+                >
+                  <FileDown className="h-4 w-4 mr-2" />
+                  {isIssuingCertificate ? 'Issuing...' : 'Download Certificate'}
+                </Button>
               </div>
             </div>
           </div>
@@ -302,7 +356,7 @@ export function DeviceVerificationResult({ result }: DeviceVerificationResultPro
         <TabsContent value="trust" className="space-y-6">
           {/* Trust Score Display */}
           {trustScore && (
-            <TrustScoreDisplay trustScore={trustScore} />
+            <TrustScoreDisplay trustScore={trustScore} deviceId={device.id} />
           )}
         </TabsContent>
 
@@ -1,13 +1,20 @@
 import { Badge } from '@/components/ui/badge';
-import { CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
+import { CheckCircle, AlertTriangle, XCircle, Clock, ShieldAlert } from 'lucide-react';
+import type { DeviceStatus } from '~backend/verification/device_status';
 
 interface StatusBadgeProps {
-  status: "clean" | "flagged" | "under_investigation";
+  status: DeviceStatus;
   size?: "sm" | "lg";
 }
 
 export function StatusBadge({ status, size = "sm" }: StatusBadgeProps) {
   const config = {
+    pending: {
+      label: "Pending",
+      variant: "secondary" as const,
+      icon: Clock,
+      className: "bg-gray-100 text-gray-800 border-gray-200",
+    },
     clean: {
       label: "Clean",
       variant: "default" as const,
@@ -26,6 +33,12 @@ export function StatusBadge({ status, size = "sm" }: StatusBadgeProps) {
       icon: AlertTriangle,
       className: "bg-amber-100 text-amber-800 border-amber-200",
     },
+    stolen: {
+      label: "Stolen",
+      variant: "destructive" as const,
+      icon: ShieldAlert,
+      className: "bg-red-200 text-red-900 border-red-300",
+    },
   };
 
   const { label, icon: Icon, className } = config[status];
@@ -1,19 +1,32 @@
+import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Shield, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import backend from '~backend/client';
+import type { TrustScoreHistoryEntry } from '~backend/verification/trust_scoring';
 
 interface TrustScoreComponents {
   ownershipContinuity: number;
   historyCompleteness: number;
   repairHistory: number;
   disputePenalty: number;
+  anomalyPenalty?: number;
+}
+
+interface TrustScoreReason {
+  code: string;
+  component: string;
+  points: number;
+  count: number;
 }
 
 interface TrustScoreInfo {
   score: number;
   riskCategory: "low" | "medium" | "high";
   components: TrustScoreComponents;
+  reasons?: TrustScoreReason[];
+  modelVersion?: string;
   lastCalculated: Date;
 }
 
@@ -21,9 +34,34 @@ interface TrustScoreDisplayProps {
   trustScore: TrustScoreInfo;
   previousScore?: number;
   scoreChange?: number;
+  // When set, the score history for this device is loaded and charted.
+  deviceId?: number;
 }
 
-export function TrustScoreDisplay({ trustScore, previousScore, scoreChange }: TrustScoreDisplayProps) {
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 8;
+
+export function TrustScoreDisplay({ trustScore, previousScore, scoreChange, deviceId }: TrustScoreDisplayProps) {
+  const [history, setHistory] = useState<TrustScoreHistoryEntry[]>([]);
+
+  useEffect(() => {
+    if (deviceId === undefined) {
+      return;
+    }
+
+    loadHistory(deviceId);
+  }, [deviceId, trustScore.lastCalculated]);
+
+  const loadHistory = async (id: number) => {
+    try {
+      const response = await backend.verification.getTrustScoreHistory({ deviceId: id, limit: 100 });
+      setHistory(response.history);
+    } catch (error) {
+      console.error('Load trust score history error:', error);
+    }
+  };
+
   const getRiskColor = (category: string) => {
     switch (category) {
       case 'low':
@@ -59,6 +97,31 @@ export function TrustScoreDisplay({ trustScore, previousScore, scoreChange }: Tr
     });
   };
 
+  const getChartPoints = () => {
+    const first = new Date(history[0].calculatedAt).getTime();
+    const last = new Date(history[history.length - 1].calculatedAt).getTime();
+    const span = Math.max(1, last - first);
+
+    return history.map(entry => {
+      const x = CHART_PADDING + ((new Date(entry.calculatedAt).getTime() - first) / span) * (CHART_WIDTH - CHART_PADDING * 2);
+      const y = CHART_PADDING + (1 - entry.score / 100) * (CHART_HEIGHT - CHART_PADDING * 2);
+      return { x, y, entry };
+    });
+  };
+
+  const getThresholdY = (score: number) => {
+    return CHART_PADDING + (1 - score / 100) * (CHART_HEIGHT - CHART_PADDING * 2);
+  };
+
+  const formatReason = (reason: TrustScoreReason) => {
+    const label = reason.code.toLowerCase().split('_').join(' ');
+    return reason.count > 1 ? `${label} x${reason.count}` : label;
+  };
+
+  const formatPoints = (points: number) => {
+    return points > 0 ? `+${points}` : `${points}`;
+  };
+
   const getChangeIcon = () => {
     if (!scoreChange) return <Minus className="h-4 w-4" />;
     if (scoreChange > 0) return <TrendingUp className="h-4 w-4 text-green-600" />;
@@ -156,9 +219,81 @@ export function TrustScoreDisplay({ trustScore, previousScore, scoreChange }: Tr
                 </div>
               )}
             </div>
+
+            {trustScore.components.anomalyPenalty !== undefined && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-600">Anomaly Penalty</span>
+                  <span className={`text-sm font-medium ${trustScore.components.anomalyPenalty < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {trustScore.components.anomalyPenalty}
+                  </span>
+                </div>
+                {trustScore.components.anomalyPenalty < 0 && (
+                  <div className="text-xs text-red-600">
+                    Unusual lookup, transfer, listing or fingerprint activity detected
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </div>
 
+        {/* Itemized Reasons */}
+        {trustScore.reasons && trustScore.reasons.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-semibold text-sm text-gray-700">Why this score</h4>
+            <ul className="divide-y border rounded-lg">
+              {trustScore.reasons.map((reason) => (
+                <li key={reason.code} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <span className="text-gray-600 capitalize" title={reason.code}>{formatReason(reason)}</span>
+                  <span
+                    className={`font-mono font-medium ${
+                      reason.points > 0 ? 'text-green-600' : reason.points < 0 ? 'text-red-600' : 'text-gray-500'
+                    }`}
+                  >
+                    {formatPoints(reason.points)}
+                  </span>
+                </li>
+              ))}
+              <li className="flex items-center justify-between px-3 py-2 text-sm font-semibold">
+                <span>Total</span>
+                <span className="font-mono">{trustScore.score}</span>
+              </li>
+            </ul>
+          </div>
+        )}
+
+        {/* Score History */}
+        {history.length > 1 && (
+          <div className="space-y-2">
+            <h4 className="font-semibold text-sm text-gray-700">Score History</h4>
+            <svg
+              viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+              className="w-full h-40 border rounded-lg bg-white"
+              preserveAspectRatio="none"
+            >
+              <line x1={0} x2={CHART_WIDTH} y1={getThresholdY(80)} y2={getThresholdY(80)} stroke="#22c55e" strokeDasharray="4 4" strokeWidth={1} />
+              <line x1={0} x2={CHART_WIDTH} y1={getThresholdY(50)} y2={getThresholdY(50)} stroke="#eab308" strokeDasharray="4 4" strokeWidth={1} />
+              <polyline
+                fill="none"
+                stroke="#2563eb"
+                strokeWidth={2}
+                points={getChartPoints().map(p => `${p.x},${p.y}`).join(' ')}
+              />
+              {getChartPoints().map(({ x, y, entry }, index) => (
+                <circle key={index} cx={x} cy={y} r={3} fill="#2563eb">
+                  <title>{`${entry.score} on ${formatDate(entry.calculatedAt)} (${entry.trigger.replace('_', ' ')})`}</title>
+                </circle>
+              ))}
+            </svg>
+            <div className="flex justify-between text-xs text-gray-500">
+              <span>{formatDate(history[0].calculatedAt)}</span>
+              <span>{history.length} calculations</span>
+              <span>{formatDate(history[history.length - 1].calculatedAt)}</span>
+            </div>
+          </div>
+        )}
+
         {/* Risk Assessment */}
         <div className="p-4 rounded-lg bg-gray-50">
           <h4 className="font-semibold text-sm text-gray-700 mb-2">Risk Assessment</h4>
@@ -178,6 +313,7 @@ export function TrustScoreDisplay({ trustScore, previousScore, scoreChange }: Tr
         {/* Metadata */}
         <div className="text-xs text-gray-500 pt-2 border-t">
           Last calculated: {formatDate(trustScore.lastCalculated)}
+          {trustScore.modelVersion && <> &middot; Model {trustScore.modelVersion}</>}
         </div>
       </CardContent>
     </Card>
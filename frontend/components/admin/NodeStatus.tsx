@@ -0,0 +1,391 @@
+import { useState, useEffect } from 'react';
+import { Network, Plus, RefreshCw, Power, PowerOff, KeyRound, Copy, Zap } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { getPartnerApiKey, partnerBackend } from '@/lib/partnerClient';
+import type { NodeType, VerificationNode } from '~backend/verification/node_registry';
+
+const NODE_TYPE_LABELS: Record<NodeType, string> = {
+  stolen: 'Stolen Registry',
+  police: 'Police',
+  insurer: 'Insurer',
+  manufacturer: 'Manufacturer',
+};
+
+export function NodeStatus() {
+  const [nodes, setNodes] = useState<VerificationNode[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [showRegisterDialog, setShowRegisterDialog] = useState(false);
+  const [revealedKey, setRevealedKey] = useState<{ nodeName: string; apiKey: string } | null>(null);
+  const [registerForm, setRegisterForm] = useState({
+    nodeName: '',
+    nodeType: 'stolen' as NodeType,
+    endpointUrl: '',
+    healthUrl: '',
+    priority: '1',
+  });
+  const { toast } = useToast();
+  const hasPartnerKey = getPartnerApiKey() !== null;
+
+  useEffect(() => {
+    if (hasPartnerKey) {
+      loadNodes();
+    }
+  }, [hasPartnerKey]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const replaceNode = (node: VerificationNode) => {
+    setNodes(prev => prev
+      .map(existing => existing.id === node.id ? node : existing)
+      .sort((a, b) => a.priority - b.priority || a.id - b.id));
+  };
+
+  const loadNodes = async () => {
+    setIsLoading(true);
+    try {
+      const response = await partnerBackend().verification.listNodes({});
+      setNodes(response.nodes);
+    } catch (error) {
+      console.error('Load nodes error:', error);
+      showError(error, "Failed to load federation nodes");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const registerNode = async () => {
+    if (!registerForm.nodeName.trim() || !registerForm.endpointUrl.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a node name and endpoint URL",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const response = await partnerBackend().verification.registerNode({
+        nodeName: registerForm.nodeName.trim(),
+        nodeType: registerForm.nodeType,
+        endpointUrl: registerForm.endpointUrl.trim(),
+        healthUrl: registerForm.healthUrl.trim() || undefined,
+        priority: parseInt(registerForm.priority) || 1,
+      });
+
+      setNodes(prev => [...prev, response.node].sort((a, b) => a.priority - b.priority || a.id - b.id));
+      setRevealedKey({ nodeName: response.node.nodeName, apiKey: response.apiKey });
+      setRegisterForm({ nodeName: '', nodeType: 'stolen', endpointUrl: '', healthUrl: '', priority: '1' });
+      setShowRegisterDialog(false);
+    } catch (error) {
+      console.error('Register node error:', error);
+      showError(error, "Failed to register node");
+    }
+  };
+
+  const toggleNode = async (node: VerificationNode) => {
+    try {
+      const response = node.isActive
+        ? await partnerBackend().verification.disableNode({ nodeId: node.id })
+        : await partnerBackend().verification.enableNode({ nodeId: node.id });
+      replaceNode(response.node);
+      toast({
+        title: node.isActive ? "Node Disabled" : "Node Enabled",
+        description: `"${node.nodeName}" ${node.isActive ? 'will no longer be' : 'will now be'} queried during verification`,
+      });
+    } catch (error) {
+      console.error('Toggle node error:', error);
+      showError(error, "Failed to update node");
+    }
+  };
+
+  const changePriority = async (node: VerificationNode, value: string) => {
+    const priority = parseInt(value);
+    if (!priority || priority === node.priority) {
+      return;
+    }
+
+    try {
+      const response = await partnerBackend().verification.setNodePriority({ nodeId: node.id, priority });
+      replaceNode(response.node);
+    } catch (error) {
+      console.error('Set node priority error:', error);
+      showError(error, "Failed to change node priority");
+    }
+  };
+
+  const rotateKey = async (node: VerificationNode) => {
+    try {
+      const response = await partnerBackend().verification.rotateNodeKey({ nodeId: node.id });
+      replaceNode(response.node);
+      setRevealedKey({ nodeName: node.nodeName, apiKey: response.apiKey });
+    } catch (error) {
+      console.error('Rotate node key error:', error);
+      showError(error, "Failed to rotate node key");
+    }
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({
+      title: "Copied",
+      description: "Node key copied to clipboard",
+    });
+  };
+
+  const getHealthBadge = (node: VerificationNode) => {
+    if (!node.isActive) {
+      return <Badge variant="outline">Disabled</Badge>;
+    }
+    if (node.circuitOpen) {
+      return <Badge variant="destructive">Circuit Open</Badge>;
+    }
+    if (node.health.lastStatus === 'up') {
+      return <Badge className="bg-green-100 text-green-800">Up</Badge>;
+    }
+    if (node.health.lastStatus === 'down') {
+      return <Badge variant="destructive">Down</Badge>;
+    }
+    return <Badge variant="secondary">Unchecked</Badge>;
+  };
+
+  const getAvailabilityColor = (availability?: number) => {
+    if (availability === undefined) return 'text-gray-500';
+    if (availability >= 99) return 'text-green-600';
+    if (availability >= 95) return 'text-yellow-600';
+    return 'text-red-600';
+  };
+
+  if (!hasPartnerKey) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Network className="h-5 w-5" />
+            <span>Federation Nodes</span>
+          </CardTitle>
+          <CardDescription>
+            Sign in with an admin API key on the API Keys tab to manage federation nodes
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <Network className="h-5 w-5" />
+                <span>Federation Nodes</span>
+              </CardTitle>
+              <CardDescription>
+                Nodes queried during verification, in priority order, with their availability over the last 24 hours
+              </CardDescription>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" onClick={loadNodes} disabled={isLoading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <Dialog open={showRegisterDialog} onOpenChange={setShowRegisterDialog}>
+                <DialogTrigger asChild>
+                  <Button>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Register Node
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Register Federation Node</DialogTitle>
+                    <DialogDescription>
+                      The node will be queried during verification as soon as it is registered
+                    </DialogDescription>
+                  </DialogHeader>
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="node-name">Node Name</Label>
+                      <Input
+                        id="node-name"
+                        placeholder="e.g., Police Database Node"
+                        value={registerForm.nodeName}
+                        onChange={(e) => setRegisterForm(prev => ({ ...prev, nodeName: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="node-type">Node Type</Label>
+                      <Select
+                        value={registerForm.nodeType}
+                        onValueChange={(value: NodeType) => setRegisterForm(prev => ({ ...prev, nodeType: value }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(NODE_TYPE_LABELS) as NodeType[]).map(type => (
+                            <SelectItem key={type} value={type}>{NODE_TYPE_LABELS[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="endpoint-url">Lookup Endpoint URL</Label>
+                      <Input
+                        id="endpoint-url"
+                        placeholder="https://node.example.com/lookup"
+                        value={registerForm.endpointUrl}
+                        onChange={(e) => setRegisterForm(prev => ({ ...prev, endpointUrl: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="health-url">Health URL (optional)</Label>
+                      <Input
+                        id="health-url"
+                        placeholder="Defaults to /health on the endpoint's host"
+                        value={registerForm.healthUrl}
+                        onChange={(e) => setRegisterForm(prev => ({ ...prev, healthUrl: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="priority">Priority</Label>
+                      <Input
+                        id="priority"
+                        type="number"
+                        min={1}
+                        max={100}
+                        value={registerForm.priority}
+                        onChange={(e) => setRegisterForm(prev => ({ ...prev, priority: e.target.value }))}
+                      />
+                    </div>
+                  </div>
+                  <DialogFooter>
+                    <Button variant="outline" onClick={() => setShowRegisterDialog(false)}>
+                      Cancel
+                    </Button>
+                    <Button onClick={registerNode}>Register</Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {nodes.map((node) => (
+            <Card key={node.id} className={`p-4 ${node.isActive ? '' : 'opacity-60'}`}>
+              <div className="flex items-center justify-between">
+                <div className="space-y-2">
+                  <div className="flex items-center space-x-3">
+                    <h3 className="font-semibold">{node.nodeName}</h3>
+                    <Badge variant="outline">
+                      {NODE_TYPE_LABELS[node.nodeType as NodeType] ?? node.nodeType}
+                    </Badge>
+                    {getHealthBadge(node)}
+                  </div>
+                  <div className="text-sm text-gray-600 font-mono break-all">{node.endpointUrl}</div>
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600">
+                    <span className={getAvailabilityColor(node.health.availability)}>
+                      Availability: {node.health.availability !== undefined ? `${node.health.availability}%` : '—'}
+                    </span>
+                    <span className="flex items-center">
+                      <Zap className="h-3 w-3 mr-1" />
+                      Avg {node.health.averageLatencyMs ?? '—'} ms / p95 {node.health.p95LatencyMs ?? '—'} ms
+                    </span>
+                    <span>{node.health.checks} checks</span>
+                    {node.health.lastCheckedAt && (
+                      <span>Last checked: {node.health.lastCheckedAt.toLocaleString()}</span>
+                    )}
+                    <span>
+                      Key: {node.hasApiKey ? <code className="font-mono">{node.apiKeyFingerprint}…</code> : 'shared token'}
+                    </span>
+                  </div>
+                  {node.disabledReason && (
+                    <div className="text-sm text-gray-500">Disabled: {node.disabledReason}</div>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <div className="flex items-center space-x-1">
+                    <Label htmlFor={`priority-${node.id}`} className="text-sm text-gray-600">Priority</Label>
+                    <Input
+                      id={`priority-${node.id}`}
+                      type="number"
+                      min={1}
+                      max={100}
+                      className="w-16"
+                      defaultValue={node.priority}
+                      onBlur={(e) => changePriority(node, e.target.value)}
+                    />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => rotateKey(node)}
+                    title={node.hasApiKey ? "Rotate node key" : "Issue node key"}
+                  >
+                    <KeyRound className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => toggleNode(node)}
+                    className={node.isActive ? "text-red-600 hover:text-red-700" : ""}
+                    title={node.isActive ? "Disable node" : "Enable node"}
+                  >
+                    {node.isActive ? <PowerOff className="h-4 w-4" /> : <Power className="h-4 w-4" />}
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          ))}
+
+          {!isLoading && nodes.length === 0 && (
+            <div className="text-center py-8 text-gray-500">
+              No federation nodes registered yet.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={revealedKey !== null} onOpenChange={(open) => !open && setRevealedKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save the Node Key</DialogTitle>
+            <DialogDescription>
+              Configure "{revealedKey?.nodeName}" to accept this key as the bearer token on lookups.
+              It will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center space-x-2">
+            <code className="flex-1 text-sm bg-gray-100 px-2 py-1 rounded font-mono break-all">
+              {revealedKey?.apiKey}
+            </code>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => revealedKey && copyToClipboard(revealedKey.apiKey)}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedKey(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
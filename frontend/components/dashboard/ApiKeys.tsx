@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import { Key, Copy, Eye, EyeOff, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Key, Copy, Plus, Trash2, AlertTriangle, RefreshCw, LogOut } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,47 +9,66 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { useToast } from '@/components/ui/use-toast';
+import { getPartnerApiKey, setPartnerApiKey, partnerBackend } from '@/lib/partnerClient';
+import type { ApiKeyInfo } from '~backend/verification/api_keys';
+import type { ApiKeyScope } from '~backend/verification/auth';
 
-interface ApiKey {
-  id: string;
-  name: string;
-  key: string;
-  accessLevel: 'read' | 'write' | 'admin';
-  created: Date;
-  lastUsed?: Date;
-  isActive: boolean;
-}
+type AccessLevel = 'read' | 'write' | 'admin';
 
-export function ApiKeys() {
-  const [apiKeys, setApiKeys] = useState<ApiKey[]>([
-    {
-      id: '1',
-      name: 'Production API Key',
-      key: 'sk_live_1234567890abcdef',
-      accessLevel: 'read',
-      created: new Date('2024-01-01'),
-      lastUsed: new Date('2024-01-15'),
-      isActive: true,
-    },
-    {
-      id: '2',
-      name: 'Development Key',
-      key: 'sk_test_abcdef1234567890',
-      accessLevel: 'write',
-      created: new Date('2024-01-10'),
-      lastUsed: new Date('2024-01-14'),
-      isActive: true,
-    },
-  ]);
+const scopesForAccessLevel: Record<AccessLevel, ApiKeyScope[]> = {
+  read: ['read'],
+  write: ['read', 'write'],
+  admin: ['read', 'write', 'admin'],
+};
 
-  const [showKeys, setShowKeys] = useState<Record<string, boolean>>({});
+export function ApiKeys() {
+  const [partnerKey, setPartnerKey] = useState<string | null>(getPartnerApiKey());
+  const [partnerKeyInput, setPartnerKeyInput] = useState('');
+  const [apiKeys, setApiKeys] = useState<ApiKeyInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
   const [newKeyName, setNewKeyName] = useState('');
-  const [newKeyAccess, setNewKeyAccess] = useState<'read' | 'write' | 'admin'>('read');
+  const [newKeyAccess, setNewKeyAccess] = useState<AccessLevel>('read');
+  const [newKeyExpiry, setNewKeyExpiry] = useState('never');
   const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [revealedKey, setRevealedKey] = useState<{ name: string; apiKey: string } | null>(null);
   const { toast } = useToast();
 
-  const toggleKeyVisibility = (keyId: string) => {
-    setShowKeys(prev => ({ ...prev, [keyId]: !prev[keyId] }));
+  useEffect(() => {
+    if (partnerKey) {
+      loadApiKeys();
+    }
+  }, [partnerKey]);
+
+  const loadApiKeys = async () => {
+    setIsLoading(true);
+    try {
+      const response = await partnerBackend().verification.listApiKeys({});
+      setApiKeys(response.keys);
+    } catch (error) {
+      console.error('Load API keys error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load API keys",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const signIn = () => {
+    if (!partnerKeyInput.trim()) {
+      return;
+    }
+    setPartnerApiKey(partnerKeyInput.trim());
+    setPartnerKey(partnerKeyInput.trim());
+    setPartnerKeyInput('');
+  };
+
+  const signOut = () => {
+    setPartnerApiKey(null);
+    setPartnerKey(null);
+    setApiKeys([]);
   };
 
   const copyToClipboard = (text: string) => {
@@ -60,7 +79,7 @@ export function ApiKeys() {
     });
   };
 
-  const generateApiKey = () => {
+  const generateApiKey = async () => {
     if (!newKeyName.trim()) {
       toast({
         title: "Error",
@@ -70,32 +89,76 @@ export function ApiKeys() {
       return;
     }
 
-    const newKey: ApiKey = {
-      id: Date.now().toString(),
-      name: newKeyName.trim(),
-      key: `sk_${newKeyAccess}_${Math.random().toString(36).substr(2, 16)}`,
-      accessLevel: newKeyAccess,
-      created: new Date(),
-      isActive: true,
-    };
+    try {
+      const response = await partnerBackend().verification.createApiKey({
+        name: newKeyName.trim(),
+        scopes: scopesForAccessLevel[newKeyAccess],
+        expiryDays: newKeyExpiry === 'never' ? undefined : parseInt(newKeyExpiry),
+      });
 
-    setApiKeys(prev => [...prev, newKey]);
-    setNewKeyName('');
-    setNewKeyAccess('read');
-    setShowCreateDialog(false);
+      setApiKeys(prev => [response.key, ...prev]);
+      setRevealedKey({ name: response.key.name, apiKey: response.apiKey });
+      setNewKeyName('');
+      setNewKeyAccess('read');
+      setNewKeyExpiry('never');
+      setShowCreateDialog(false);
 
-    toast({
-      title: "API Key Created",
-      description: `New ${newKeyAccess} API key "${newKey.name}" has been created`,
-    });
+      toast({
+        title: "API Key Created",
+        description: `New ${newKeyAccess} API key "${response.key.name}" has been created`,
+      });
+    } catch (error) {
+      console.error('Create API key error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create API key",
+        variant: "destructive",
+      });
+    }
   };
 
-  const deleteApiKey = (keyId: string) => {
-    setApiKeys(prev => prev.filter(key => key.id !== keyId));
-    toast({
-      title: "API Key Deleted",
-      description: "The API key has been permanently deleted",
-    });
+  const rotateApiKey = async (apiKey: ApiKeyInfo) => {
+    try {
+      const response = await partnerBackend().verification.rotateApiKey({ keyId: apiKey.id });
+      setApiKeys(prev => [response.key, ...prev.filter(key => key.id !== apiKey.id)]);
+      setRevealedKey({ name: response.key.name, apiKey: response.apiKey });
+
+      toast({
+        title: "API Key Rotated",
+        description: `"${apiKey.name}" has been replaced and the old key revoked`,
+      });
+    } catch (error) {
+      console.error('Rotate API key error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to rotate API key",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const revokeApiKey = async (keyId: number) => {
+    try {
+      await partnerBackend().verification.revokeApiKey({ keyId });
+      setApiKeys(prev => prev.filter(key => key.id !== keyId));
+      toast({
+        title: "API Key Revoked",
+        description: "The API key has been permanently revoked",
+      });
+    } catch (error) {
+      console.error('Revoke API key error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke API key",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getAccessLevel = (scopes: ApiKeyScope[]): AccessLevel => {
+    if (scopes.includes('admin')) return 'admin';
+    if (scopes.includes('write')) return 'write';
+    return 'read';
   };
 
   const getAccessBadge = (level: string) => {
@@ -112,10 +175,39 @@ export function ApiKeys() {
     );
   };
 
-  const maskKey = (key: string) => {
-    return key.substring(0, 12) + '••••••••••••••••';
+  const maskKey = (keyPrefix: string) => {
+    return keyPrefix + '••••••••••••••••';
   };
 
+  if (!partnerKey) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Key className="h-5 w-5" />
+            <span>API Keys</span>
+          </CardTitle>
+          <CardDescription>
+            Enter an admin API key for your partner account to manage its keys
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="partner-key">Admin API Key</Label>
+            <Input
+              id="partner-key"
+              type="password"
+              placeholder="sk_live_..."
+              value={partnerKeyInput}
+              onChange={(e) => setPartnerKeyInput(e.target.value)}
+            />
+          </div>
+          <Button onClick={signIn}>Continue</Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <Card>
@@ -130,59 +222,79 @@ export function ApiKeys() {
                 Manage your API keys for accessing the STOLEN Verification API
               </CardDescription>
             </div>
-            <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
-              <DialogTrigger asChild>
-                <Button>
-                  <Plus className="h-4 w-4 mr-2" />
-                  Create API Key
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Create New API Key</DialogTitle>
-                  <DialogDescription>
-                    Generate a new API key for accessing the verification endpoints
-                  </DialogDescription>
-                </DialogHeader>
-                <div className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="key-name">Key Name</Label>
-                    <Input
-                      id="key-name"
-                      placeholder="e.g., Production API Key"
-                      value={newKeyName}
-                      onChange={(e) => setNewKeyName(e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="access-level">Access Level</Label>
-                    <Select value={newKeyAccess} onValueChange={(value: 'read' | 'write' | 'admin') => setNewKeyAccess(value)}>
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="read">Read Only - Verification requests only</SelectItem>
-                        <SelectItem value="write">Read/Write - Verification + flagging</SelectItem>
-                        <SelectItem value="admin">Admin - Full access including analytics</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </div>
-                <DialogFooter>
-                  <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
-                    Cancel
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" onClick={signOut}>
+                <LogOut className="h-4 w-4 mr-2" />
+                Switch Account
+              </Button>
+              <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+                <DialogTrigger asChild>
+                  <Button>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Create API Key
                   </Button>
-                  <Button onClick={generateApiKey}>Create Key</Button>
-                </DialogFooter>
-              </DialogContent>
-            </Dialog>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Create New API Key</DialogTitle>
+                    <DialogDescription>
+                      Generate a new API key for accessing the verification endpoints
+                    </DialogDescription>
+                  </DialogHeader>
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="key-name">Key Name</Label>
+                      <Input
+                        id="key-name"
+                        placeholder="e.g., Production API Key"
+                        value={newKeyName}
+                        onChange={(e) => setNewKeyName(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="access-level">Access Level</Label>
+                      <Select value={newKeyAccess} onValueChange={(value: AccessLevel) => setNewKeyAccess(value)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="read">Read Only - Verification requests only</SelectItem>
+                          <SelectItem value="write">Read/Write - Verification + flagging</SelectItem>
+                          <SelectItem value="admin">Admin - Full access including analytics</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="expiry">Expires</Label>
+                      <Select value={newKeyExpiry} onValueChange={setNewKeyExpiry}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="never">Never</SelectItem>
+                          <SelectItem value="30">In 30 days</SelectItem>
+                          <SelectItem value="90">In 90 days</SelectItem>
+                          <SelectItem value="365">In 1 year</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <DialogFooter>
+                    <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
+                      Cancel
+                    </Button>
+                    <Button onClick={generateApiKey}>Create Key</Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
         </CardHeader>
         <CardContent className="space-y-6">
           <Alert>
             <AlertTriangle className="h-4 w-4" />
             <AlertDescription>
-              Keep your API keys secure and never share them publicly. If a key is compromised, delete it immediately and create a new one.
+              Keep your API keys secure and never share them publicly. If a key is compromised, rotate or revoke it immediately.
             </AlertDescription>
           </Alert>
 
@@ -193,51 +305,53 @@ export function ApiKeys() {
                   <div className="space-y-2">
                     <div className="flex items-center space-x-3">
                       <h3 className="font-semibold">{apiKey.name}</h3>
-                      {getAccessBadge(apiKey.accessLevel)}
+                      {getAccessBadge(getAccessLevel(apiKey.scopes))}
                       {!apiKey.isActive && <Badge variant="outline">Inactive</Badge>}
                     </div>
                     <div className="flex items-center space-x-2">
                       <code className="text-sm bg-gray-100 px-2 py-1 rounded font-mono">
-                        {showKeys[apiKey.id] ? apiKey.key : maskKey(apiKey.key)}
+                        {maskKey(apiKey.keyPrefix)}
                       </code>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => toggleKeyVisibility(apiKey.id)}
-                      >
-                        {showKeys[apiKey.id] ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => copyToClipboard(apiKey.key)}
-                      >
-                        <Copy className="h-4 w-4" />
-                      </Button>
                     </div>
                     <div className="text-sm text-gray-600">
-                      Created: {apiKey.created.toLocaleDateString()}
+                      Created: {apiKey.createdAt.toLocaleDateString()}
                       {apiKey.lastUsed && (
                         <span className="ml-4">
                           Last used: {apiKey.lastUsed.toLocaleDateString()}
                         </span>
                       )}
+                      {apiKey.expiresAt && (
+                        <span className="ml-4">
+                          Expires: {apiKey.expiresAt.toLocaleDateString()}
+                        </span>
+                      )}
                     </div>
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => deleteApiKey(apiKey.id)}
-                    className="text-red-600 hover:text-red-700"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                  <div className="flex items-center space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => rotateApiKey(apiKey)}
+                      title="Rotate key"
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeApiKey(apiKey.id)}
+                      className="text-red-600 hover:text-red-700"
+                      title="Revoke key"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </div>
               </Card>
             ))}
           </div>
 
-          {apiKeys.length === 0 && (
+          {!isLoading && apiKeys.length === 0 && (
             <div className="text-center py-8 text-gray-500">
               No API keys created yet. Create your first API key to get started.
             </div>
@@ -245,6 +359,32 @@ export function ApiKeys() {
         </CardContent>
       </Card>
 
+      <Dialog open={revealedKey !== null} onOpenChange={(open) => !open && setRevealedKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Your API Key</DialogTitle>
+            <DialogDescription>
+              This is the only time "{revealedKey?.name}" will be shown. Store it somewhere safe.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center space-x-2">
+            <code className="flex-1 text-sm bg-gray-100 px-2 py-1 rounded font-mono break-all">
+              {revealedKey?.apiKey}
+            </code>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => revealedKey && copyToClipboard(revealedKey.apiKey)}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedKey(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* API Documentation */}
       <Card>
         <CardHeader>
@@ -290,9 +430,11 @@ export function ApiKeys() {
             <div>
               <h4 className="font-semibold mb-2">Rate Limits</h4>
               <ul className="text-sm text-gray-600 space-y-1">
-                <li>• Read keys: 1000 requests/hour</li>
-                <li>• Write keys: 500 requests/hour</li>
-                <li>• Admin keys: 2000 requests/hour</li>
+                <li>• Limits apply per partner across all keys, based on partner type</li>
+                <li>• Marketplace: 100 requests/10s, 10,000 requests/hour, 250,000 devices/month</li>
+                <li>• Insurer: 50 requests/10s, 5,000 requests/hour, 100,000 devices/month</li>
+                <li>• Other partners: 20 requests/10s, 2,000 requests/hour, 25,000 devices/month</li>
+                <li>• Exceeded limits return 429 with a Retry-After header</li>
                 <li>• Batch verification: 100 devices per request</li>
               </ul>
             </div>
@@ -12,6 +12,9 @@ import { StatusBadge } from '../StatusBadge';
 import backend from '~backend/client';
 import type { BatchVerifyResponse } from '~backend/verification/batch_verify';
 
+// Matches MAX_BATCH_ITEMS on the backend.
+const MAX_BATCH_DEVICES = 100;
+
 export function BatchVerification() {
   const [file, setFile] = useState<File | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -74,6 +77,9 @@ export function BatchVerification() {
       if (devices.length === 0) {
         throw new Error("No valid devices found in CSV file");
       }
+      if (devices.length > MAX_BATCH_DEVICES) {
+        throw new Error(`A batch can contain at most ${MAX_BATCH_DEVICES} devices`);
+      }
 
       // Simulate progress
       const progressInterval = setInterval(() => {
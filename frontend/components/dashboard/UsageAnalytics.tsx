@@ -1,36 +1,76 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { BarChart3, TrendingUp, Calendar, Activity } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { getPartnerApiKey, partnerBackend } from '@/lib/partnerClient';
+import type { UsageAnalyticsResponse, UsageRange } from '~backend/verification/usage_analytics';
 
 export function UsageAnalytics() {
-  const [timeRange, setTimeRange] = useState('7d');
+  const [timeRange, setTimeRange] = useState<UsageRange>('7d');
+  const [analytics, setAnalytics] = useState<UsageAnalyticsResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
 
-  // Mock data - in real app, this would come from API
-  const stats = {
-    totalVerifications: 1234,
-    successRate: 72.3,
-    avgResponseTime: 245,
-    peakHour: '14:00',
+  const hasPartnerKey = !!getPartnerApiKey();
+
+  useEffect(() => {
+    if (hasPartnerKey) {
+      loadAnalytics();
+    }
+  }, [timeRange]);
+
+  const loadAnalytics = async () => {
+    setIsLoading(true);
+    try {
+      const response = await partnerBackend().verification.getUsageAnalytics({ range: timeRange });
+      setAnalytics(response);
+    } catch (error) {
+      console.error('Load usage analytics error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load usage analytics",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
   };
 
-  const dailyData = [
-    { date: '2024-01-09', verifications: 45, found: 32 },
-    { date: '2024-01-10', verifications: 67, found: 48 },
-    { date: '2024-01-11', verifications: 89, found: 65 },
-    { date: '2024-01-12', verifications: 123, found: 89 },
-    { date: '2024-01-13', verifications: 156, found: 112 },
-    { date: '2024-01-14', verifications: 134, found: 97 },
-    { date: '2024-01-15', verifications: 178, found: 128 },
-  ];
+  const formatChange = (current: number, previous: number, unit = '%') => {
+    if (unit === '%' && previous === 0) {
+      return current > 0 ? 'No data for last period' : 'No change vs last period';
+    }
+    const change = unit === '%' ? ((current - previous) / previous) * 100 : current - previous;
+    const rounded = Math.round(change * 10) / 10;
+    return `${rounded >= 0 ? '+' : ''}${rounded}${unit} vs last period`;
+  };
 
-  const deviceTypes = [
-    { type: 'iPhone', count: 456, percentage: 37 },
-    { type: 'Samsung Galaxy', count: 234, percentage: 19 },
-    { type: 'Google Pixel', count: 123, percentage: 10 },
-    { type: 'OnePlus', count: 89, percentage: 7 },
-    { type: 'Other', count: 332, percentage: 27 },
-  ];
+  const formatPeriod = (periodStart: Date) => {
+    const date = new Date(periodStart);
+    return timeRange === '24h'
+      ? date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', timeZone: 'UTC' })
+      : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  };
+
+  if (!hasPartnerKey) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <BarChart3 className="h-5 w-5" />
+            <span>Usage Analytics</span>
+          </CardTitle>
+          <CardDescription>
+            Sign in with a partner API key on the API Keys tab to view your usage analytics
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  const timeline = analytics?.timeline ?? [];
+  const maxVerifications = Math.max(1, ...timeline.map(d => d.verifications));
 
   return (
     <div className="space-y-6">
@@ -46,7 +86,7 @@ export function UsageAnalytics() {
                 Monitor your API usage and performance metrics
               </CardDescription>
             </div>
-            <Select value={timeRange} onValueChange={setTimeRange}>
+            <Select value={timeRange} onValueChange={(value) => setTimeRange(value as UsageRange)}>
               <SelectTrigger className="w-32">
                 <SelectValue />
               </SelectTrigger>
@@ -60,109 +100,136 @@ export function UsageAnalytics() {
           </div>
         </CardHeader>
         <CardContent className="space-y-6">
-          {/* Key Metrics */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-            <div className="text-center p-4 bg-blue-50 rounded-lg">
-              <div className="flex items-center justify-center mb-2">
-                <Activity className="h-5 w-5 text-blue-600" />
+          {isLoading && !analytics && (
+            <div className="text-center py-8 text-gray-500">Loading analytics...</div>
+          )}
+
+          {analytics && (
+            <>
+            {/* Key Metrics */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              <div className="text-center p-4 bg-blue-50 rounded-lg">
+                <div className="flex items-center justify-center mb-2">
+                  <Activity className="h-5 w-5 text-blue-600" />
+                </div>
+                <div className="text-2xl font-bold text-blue-600">{analytics.totalVerifications.toLocaleString()}</div>
+                <div className="text-sm text-blue-700">Total Verifications</div>
+                <div className="text-xs text-blue-600 mt-1">
+                  {formatChange(analytics.totalVerifications, analytics.previousPeriod.totalVerifications)}
+                </div>
               </div>
-              <div className="text-2xl font-bold text-blue-600">{stats.totalVerifications.toLocaleString()}</div>
-              <div className="text-sm text-blue-700">Total Verifications</div>
-              <div className="text-xs text-blue-600 mt-1">+12% vs last period</div>
-            </div>
-            <div className="text-center p-4 bg-green-50 rounded-lg">
-              <div className="flex items-center justify-center mb-2">
-                <TrendingUp className="h-5 w-5 text-green-600" />
+              <div className="text-center p-4 bg-green-50 rounded-lg">
+                <div className="flex items-center justify-center mb-2">
+                  <TrendingUp className="h-5 w-5 text-green-600" />
+                </div>
+                <div className="text-2xl font-bold text-green-600">{analytics.foundRate}%</div>
+                <div className="text-sm text-green-700">Found Rate</div>
+                <div className="text-xs text-green-600 mt-1">
+                  {formatChange(analytics.foundRate, analytics.previousPeriod.foundRate, ' pts')}
+                </div>
               </div>
-              <div className="text-2xl font-bold text-green-600">{stats.successRate}%</div>
-              <div className="text-sm text-green-700">Success Rate</div>
-              <div className="text-xs text-green-600 mt-1">+2.1% vs last period</div>
-            </div>
-            <div className="text-center p-4 bg-purple-50 rounded-lg">
-              <div className="flex items-center justify-center mb-2">
-                <Activity className="h-5 w-5 text-purple-600" />
+              <div className="text-center p-4 bg-purple-50 rounded-lg">
+                <div className="flex items-center justify-center mb-2">
+                  <Activity className="h-5 w-5 text-purple-600" />
+                </div>
+                <div className="text-2xl font-bold text-purple-600">
+                  {analytics.responseTime.p50Ms !== undefined ? `${analytics.responseTime.p50Ms}ms` : '-'}
+                </div>
+                <div className="text-sm text-purple-700">Median Response Time</div>
+                <div className="text-xs text-purple-600 mt-1">
+                  {analytics.responseTime.p95Ms !== undefined ? `p95 ${analytics.responseTime.p95Ms}ms` : 'No timing data'}
+                </div>
               </div>
-              <div className="text-2xl font-bold text-purple-600">{stats.avgResponseTime}ms</div>
-              <div className="text-sm text-purple-700">Avg Response Time</div>
-              <div className="text-xs text-purple-600 mt-1">-15ms vs last period</div>
-            </div>
-            <div className="text-center p-4 bg-orange-50 rounded-lg">
-              <div className="flex items-center justify-center mb-2">
-                <Calendar className="h-5 w-5 text-orange-600" />
+              <div className="text-center p-4 bg-orange-50 rounded-lg">
+                <div className="flex items-center justify-center mb-2">
+                  <Calendar className="h-5 w-5 text-orange-600" />
+                </div>
+                <div className="text-2xl font-bold text-orange-600">
+                  {analytics.peakHour !== undefined ? `${analytics.peakHour.toString().padStart(2, '0')}:00` : '-'}
+                </div>
+                <div className="text-sm text-orange-700">Peak Usage Hour</div>
+                <div className="text-xs text-orange-600 mt-1">UTC timezone</div>
               </div>
-              <div className="text-2xl font-bold text-orange-600">{stats.peakHour}</div>
-              <div className="text-sm text-orange-700">Peak Usage Hour</div>
-              <div className="text-xs text-orange-600 mt-1">UTC timezone</div>
             </div>
-          </div>
 
-          {/* Daily Verification Chart */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg">Daily Verification Trends</CardTitle>
-              <CardDescription>Verification requests and success rates over time</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {dailyData.map((day, index) => {
-                  const successRate = Math.round((day.found / day.verifications) * 100);
-                  return (
-                    <div key={day.date} className="flex items-center space-x-4">
-                      <div className="w-20 text-sm text-gray-600">
-                        {new Date(day.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+            {/* Daily Verification Chart */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Daily Verification Trends</CardTitle>
+                <CardDescription>Verification requests and success rates over time</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {timeline.length === 0 && (
+                    <div className="text-center py-4 text-gray-500">No verifications in this period.</div>
+                  )}
+                  {timeline.map((day) => {
+                    const successRate = Math.round((day.found / day.verifications) * 100);
+                    return (
+                      <div key={new Date(day.periodStart).toISOString()} className="flex items-center space-x-4">
+                        <div className="w-20 text-sm text-gray-600">
+                          {formatPeriod(day.periodStart)}
+                        </div>
+                        <div className="flex-1">
+                          <div className="flex items-center justify-between mb-1">
+                            <span className="text-sm font-medium">{day.verifications} verifications</span>
+                            <span className="text-sm text-gray-600">{successRate}% success</span>
+                          </div>
+                          <div className="w-full bg-gray-200 rounded-full h-2">
+                            <div 
+                              className="bg-blue-600 h-2 rounded-full relative"
+                              style={{ width: `${(day.verifications / maxVerifications) * 100}%` }}
+                            >
+                              <div 
+                                className="bg-green-500 h-2 rounded-full absolute top-0 left-0"
+                                style={{ width: `${successRate}%` }}
+                              />
+                            </div>
+                          </div>
+                        </div>
                       </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Device Types */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Most Verified Device Types</CardTitle>
+                <CardDescription>Breakdown of device brands and models</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {analytics.brands.length === 0 && (
+                    <div className="text-center py-4 text-gray-500">No matched devices in this period.</div>
+                  )}
+                  {analytics.brands.map((device) => (
+                    <div key={device.brand} className="flex items-center space-x-4">
+                      <div className="w-24 text-sm font-medium">{device.brand}</div>
                       <div className="flex-1">
                         <div className="flex items-center justify-between mb-1">
-                          <span className="text-sm font-medium">{day.verifications} verifications</span>
-                          <span className="text-sm text-gray-600">{successRate}% success</span>
+                          <span className="text-sm text-gray-600">
+                            {device.count} verifications
+                            {device.models.length > 0 && ` · ${device.models.map(m => m.model).slice(0, 3).join(', ')}`}
+                          </span>
+                          <span className="text-sm font-medium">{device.percentage}%</span>
                         </div>
                         <div className="w-full bg-gray-200 rounded-full h-2">
                           <div 
-                            className="bg-blue-600 h-2 rounded-full relative"
-                            style={{ width: `${(day.verifications / Math.max(...dailyData.map(d => d.verifications))) * 100}%` }}
-                          >
-                            <div 
-                              className="bg-green-500 h-2 rounded-full absolute top-0 left-0"
-                              style={{ width: `${successRate}%` }}
-                            />
-                          </div>
+                            className="bg-blue-600 h-2 rounded-full"
+                            style={{ width: `${device.percentage}%` }}
+                          />
                         </div>
                       </div>
                     </div>
-                  );
-                })}
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Device Types */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg">Most Verified Device Types</CardTitle>
-              <CardDescription>Breakdown of device brands and models</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {deviceTypes.map((device) => (
-                  <div key={device.type} className="flex items-center space-x-4">
-                    <div className="w-24 text-sm font-medium">{device.type}</div>
-                    <div className="flex-1">
-                      <div className="flex items-center justify-between mb-1">
-                        <span className="text-sm text-gray-600">{device.count} devices</span>
-                        <span className="text-sm font-medium">{device.percentage}%</span>
-                      </div>
-                      <div className="w-full bg-gray-200 rounded-full h-2">
-                        <div 
-                          className="bg-blue-600 h-2 rounded-full"
-                          style={{ width: `${device.percentage}%` }}
-                        />
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+            </>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -1,100 +1,79 @@
 import { useState, useEffect } from 'react';
-import { FileText, Filter, Download, Search } from 'lucide-react';
+import { FileText, Download, Search, ChevronLeft, ChevronRight } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/components/ui/use-toast';
+import { getPartnerApiKey, partnerBackend } from '@/lib/partnerClient';
+import type {
+  ListVerificationLogsRequest,
+  VerificationLog,
+  VerificationResultStatus,
+} from '~backend/verification/verification_logs';
 
-interface VerificationLog {
-  id: number;
-  timestamp: Date;
-  identifier: string;
-  identifierType: 'serial' | 'imei';
-  result: 'found' | 'not_found' | 'error';
-  deviceName?: string;
-  ipAddress: string;
-}
+const PAGE_SIZE = 50;
+const EXPORT_PAGE_SIZE = 100;
+
+type LogFilters = Omit<ListVerificationLogsRequest, 'page' | 'limit'>;
 
 export function VerificationLogs() {
   const [logs, setLogs] = useState<VerificationLog[]>([]);
-  const [filteredLogs, setFilteredLogs] = useState<VerificationLog[]>([]);
+  const [total, setTotal] = useState(0);
+  const [summary, setSummary] = useState({ found: 0, notFound: 0, errors: 0 });
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [resultFilter, setResultFilter] = useState<string>('all');
   const [typeFilter, setTypeFilter] = useState<string>('all');
+  const { toast } = useToast();
 
-  // Mock data - in real app, this would come from API
-  useEffect(() => {
-    const mockLogs: VerificationLog[] = [
-      {
-        id: 1,
-        timestamp: new Date('2024-01-15T10:30:00'),
-        identifier: 'SN123456789',
-        identifierType: 'serial',
-        result: 'found',
-        deviceName: 'iPhone 14 Pro',
-        ipAddress: '192.168.1.100',
-      },
-      {
-        id: 2,
-        timestamp: new Date('2024-01-15T10:25:00'),
-        identifier: '987654321098765',
-        identifierType: 'imei',
-        result: 'found',
-        deviceName: 'Samsung Galaxy S23',
-        ipAddress: '192.168.1.101',
-      },
-      {
-        id: 3,
-        timestamp: new Date('2024-01-15T10:20:00'),
-        identifier: 'SN999999999',
-        identifierType: 'serial',
-        result: 'not_found',
-        ipAddress: '192.168.1.102',
-      },
-      {
-        id: 4,
-        timestamp: new Date('2024-01-15T10:15:00'),
-        identifier: 'SN456789123',
-        identifierType: 'serial',
-        result: 'found',
-        deviceName: 'Google Pixel 7',
-        ipAddress: '192.168.1.103',
-      },
-      {
-        id: 5,
-        timestamp: new Date('2024-01-15T10:10:00'),
-        identifier: 'INVALID123',
-        identifierType: 'serial',
-        result: 'error',
-        ipAddress: '192.168.1.104',
-      },
-    ];
-    setLogs(mockLogs);
-    setFilteredLogs(mockLogs);
-  }, []);
+  const hasPartnerKey = !!getPartnerApiKey();
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const getFilters = (): LogFilters => ({
+    search: searchTerm.trim() || undefined,
+    resultStatus: resultFilter !== 'all' ? resultFilter as VerificationResultStatus : undefined,
+    identifierType: typeFilter !== 'all' ? typeFilter : undefined,
+  });
 
   useEffect(() => {
-    let filtered = logs;
+    setPage(1);
+  }, [searchTerm, resultFilter, typeFilter]);
 
-    if (searchTerm) {
-      filtered = filtered.filter(log => 
-        log.identifier.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        log.deviceName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        log.ipAddress.includes(searchTerm)
-      );
+  useEffect(() => {
+    if (!hasPartnerKey) {
+      return;
     }
 
-    if (resultFilter !== 'all') {
-      filtered = filtered.filter(log => log.result === resultFilter);
-    }
+    const timeout = setTimeout(loadLogs, 300);
+    return () => clearTimeout(timeout);
+  }, [page, searchTerm, resultFilter, typeFilter]);
 
-    if (typeFilter !== 'all') {
-      filtered = filtered.filter(log => log.identifierType === typeFilter);
+  const loadLogs = async () => {
+    setIsLoading(true);
+    try {
+      const response = await partnerBackend().verification.listVerificationLogs({
+        ...getFilters(),
+        page,
+        limit: PAGE_SIZE,
+      });
+      setLogs(response.logs);
+      setTotal(response.total);
+      setSummary(response.summary);
+    } catch (error) {
+      console.error('Load verification logs error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load verification logs",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
     }
-
-    setFilteredLogs(filtered);
-  }, [logs, searchTerm, resultFilter, typeFilter]);
+  };
 
   const getResultBadge = (result: string) => {
     switch (result) {
@@ -109,28 +88,77 @@ export function VerificationLogs() {
     }
   };
 
-  const exportLogs = () => {
-    const csvContent = [
-      'Timestamp,Identifier,Type,Result,Device Name,IP Address',
-      ...filteredLogs.map(log => [
-        log.timestamp.toISOString(),
-        log.identifier,
-        log.identifierType,
-        log.result,
-        log.deviceName || '',
-        log.ipAddress,
-      ].join(','))
-    ].join('\n');
+  const escapeCsv = (value: string) => {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  };
+
+  const exportLogs = async () => {
+    setIsExporting(true);
+    try {
+      const filters = getFilters();
+      const allLogs: VerificationLog[] = [];
+
+      for (let exportPage = 1; ; exportPage++) {
+        const response = await partnerBackend().verification.listVerificationLogs({
+          ...filters,
+          page: exportPage,
+          limit: EXPORT_PAGE_SIZE,
+        });
+        allLogs.push(...response.logs);
+        if (allLogs.length >= response.total || response.logs.length === 0) {
+          break;
+        }
+      }
+
+      const csvContent = [
+        'Timestamp,Identifier,Type,Verification Type,Result,Device Name,IP Address,Response Time (ms)',
+        ...allLogs.map(log => [
+          new Date(log.timestamp).toISOString(),
+          log.identifier,
+          log.identifierType,
+          log.verificationType,
+          log.result,
+          log.deviceName || '',
+          log.ipAddress || '',
+          log.responseTimeMs?.toString() || '',
+        ].map(escapeCsv).join(','))
+      ].join('\n');
 
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'verification_logs.csv';
-    a.click();
-    URL.revokeObjectURL(url);
+      const blob = new Blob([csvContent], { type: 'text/csv' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'verification_logs.csv';
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Export verification logs error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to export verification logs",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
   };
 
+  if (!hasPartnerKey) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <FileText className="h-5 w-5" />
+            <span>Verification Logs</span>
+          </CardTitle>
+          <CardDescription>
+            Sign in with a partner API key on the API Keys tab to view your verification history
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <Card>
@@ -145,9 +173,9 @@ export function VerificationLogs() {
                 View and filter your verification request history
               </CardDescription>
             </div>
-            <Button variant="outline" onClick={exportLogs}>
+            <Button variant="outline" onClick={exportLogs} disabled={isExporting || total === 0}>
               <Download className="h-4 w-4 mr-2" />
-              Export CSV
+              {isExporting ? 'Exporting...' : 'Export CSV'}
             </Button>
           </div>
         </CardHeader>
@@ -189,24 +217,24 @@ export function VerificationLogs() {
           {/* Stats */}
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div className="text-center p-3 bg-blue-50 rounded-lg">
-              <div className="text-lg font-bold text-blue-600">{filteredLogs.length}</div>
+              <div className="text-lg font-bold text-blue-600">{total}</div>
               <div className="text-sm text-blue-700">Total Requests</div>
             </div>
             <div className="text-center p-3 bg-green-50 rounded-lg">
               <div className="text-lg font-bold text-green-600">
-                {filteredLogs.filter(log => log.result === 'found').length}
+                {summary.found}
               </div>
               <div className="text-sm text-green-700">Found</div>
             </div>
             <div className="text-center p-3 bg-gray-50 rounded-lg">
               <div className="text-lg font-bold text-gray-600">
-                {filteredLogs.filter(log => log.result === 'not_found').length}
+                {summary.notFound}
               </div>
               <div className="text-sm text-gray-700">Not Found</div>
             </div>
             <div className="text-center p-3 bg-red-50 rounded-lg">
               <div className="text-lg font-bold text-red-600">
-                {filteredLogs.filter(log => log.result === 'error').length}
+                {summary.errors}
               </div>
               <div className="text-sm text-red-700">Errors</div>
             </div>
@@ -227,10 +255,10 @@ export function VerificationLogs() {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200">
-                  {filteredLogs.map((log) => (
+                  {logs.map((log) => (
                     <tr key={log.id} className="hover:bg-gray-50">
                       <td className="px-4 py-2 text-sm text-gray-600">
-                        {log.timestamp.toLocaleString()}
+                        {new Date(log.timestamp).toLocaleString()}
                       </td>
                       <td className="px-4 py-2 text-sm font-mono">{log.identifier}</td>
                       <td className="px-4 py-2 text-sm">
@@ -241,7 +269,7 @@ export function VerificationLogs() {
                         {log.deviceName || <span className="text-gray-400">-</span>}
                       </td>
                       <td className="px-4 py-2 text-sm font-mono text-gray-600">
-                        {log.ipAddress}
+                        {log.ipAddress || <span className="text-gray-400">-</span>}
                       </td>
                     </tr>
                   ))}
@@ -250,11 +278,39 @@ export function VerificationLogs() {
             </div>
           </div>
 
-          {filteredLogs.length === 0 && (
+          {!isLoading && logs.length === 0 && (
             <div className="text-center py-8 text-gray-500">
               No verification logs found matching your filters.
             </div>
           )}
+
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-gray-600">
+                Page {page} of {totalPages}
+              </div>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(p => p - 1)}
+                  disabled={page <= 1 || isLoading}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(p => p + 1)}
+                  disabled={page >= totalPages || isLoading}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,25 @@
+import backend from '~backend/client';
+
+const PARTNER_API_KEY_STORAGE_KEY = 'stolen_partner_api_key';
+
+export function getPartnerApiKey(): string | null {
+  return localStorage.getItem(PARTNER_API_KEY_STORAGE_KEY);
+}
+
+export function setPartnerApiKey(apiKey: string | null) {
+  if (apiKey) {
+    localStorage.setItem(PARTNER_API_KEY_STORAGE_KEY, apiKey);
+  } else {
+    localStorage.removeItem(PARTNER_API_KEY_STORAGE_KEY);
+  }
+}
+
+// Returns a client that authenticates partner-only endpoints with the stored API key.
+export function partnerBackend() {
+  return backend.with({
+    auth: () => {
+      const apiKey = getPartnerApiKey();
+      return apiKey ? { authorization: `Bearer ${apiKey}` } : undefined;
+    },
+  });
+}
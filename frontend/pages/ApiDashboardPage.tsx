@@ -7,6 +7,7 @@ import { VerificationLogs } from '../components/dashboard/VerificationLogs';
 import { UsageAnalytics } from '../components/dashboard/UsageAnalytics';
 import { ApiKeys } from '../components/dashboard/ApiKeys';
 import { BadgeManagement } from '../components/admin/BadgeManagement';
+import { NodeStatus } from '../components/admin/NodeStatus';
 import { Shield, BarChart3, Key, FileText, Upload, Search, Award, Network } from 'lucide-react';
 
 export function ApiDashboardPage() {
@@ -221,15 +222,7 @@ export function ApiDashboardPage() {
           </TabsContent>
 
           <TabsContent value="multi-node">
-            <Card>
-              <CardHeader>
-                <CardTitle>Multi-Node Verification</CardTitle>
-                <CardDescription>This feature has been temporarily disabled</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <p className="text-muted-foreground">Multi-node verification is currently unavailable.</p>
-              </CardContent>
-            </Card>
+            <NodeStatus />
           </TabsContent>
 
           <TabsContent value="batch">
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { ArrowLeft, Link2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { DeviceVerificationResult } from '../components/DeviceVerificationResult';
+import backend from '~backend/client';
+import type { ResolveVerificationLinkResponse } from '~backend/verification/generate_link';
+
+export function VerificationLinkPage() {
+  const { linkId } = useParams<{ linkId: string }>();
+  const [result, setResult] = useState<ResolveVerificationLinkResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Opening a link uses up one of its views, so it only happens when the visitor asks for the report
+  const openLink = async () => {
+    if (!linkId) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await backend.verification.resolveVerificationLink({ linkId });
+      setResult(response);
+    } catch (err) {
+      console.error('Resolve verification link error:', err);
+      setError(err instanceof Error ? err.message : 'This verification link is not available');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="max-w-4xl mx-auto">
+        <div className="text-center py-8">
+          <p className="text-gray-600">Loading verification report...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!result && !error) {
+    return (
+      <div className="max-w-4xl mx-auto">
+        <Card>
+          <CardContent className="text-center py-8 space-y-4">
+            <Link2 className="h-8 w-8 mx-auto text-gray-400" />
+            <p className="font-medium text-gray-900">A verification report has been shared with you.</p>
+            <p className="text-gray-600">Opening it counts as one view of this link.</p>
+            <Button onClick={openLink}>View Verification Report</Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!result) {
+    return (
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Link to="/">
+          <Button variant="ghost" className="mb-4">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Verify a Device
+          </Button>
+        </Link>
+        <Card>
+          <CardContent className="text-center py-8 space-y-2">
+            <p className="font-medium text-gray-900">This verification link can't be opened.</p>
+            <p className="text-gray-600">{error}</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { link, report } = result;
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="text-center space-y-2">
+        <h1 className="text-3xl font-bold text-gray-900">
+          {report.device.deviceName}
+        </h1>
+        <p className="text-gray-600">
+          {report.device.brand} {report.device.model}
+        </p>
+        <p className="flex items-center justify-center space-x-2 text-sm text-gray-500">
+          <Link2 className="h-4 w-4" />
+          <span>
+            Shared verification report &middot; valid until {formatDate(link.expiresAt)}
+            {link.remainingUses !== undefined && ` · ${link.remainingUses} view${link.remainingUses === 1 ? '' : 's'} left`}
+          </span>
+        </p>
+      </div>
+
+      <DeviceVerificationResult result={report} />
+    </div>
+  );
+}
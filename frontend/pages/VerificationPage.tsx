@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Search, Smartphone, QrCode, Shield } from 'lucide-react';
+import { Search, Smartphone, QrCode } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -69,37 +69,6 @@ export function VerificationPage() {
     }
   };
 
-  const handleCalculateTrustScore = async () => {
-    if (!result?.device.id) return;
-
-    try {
-      await backend.verification.calculateTrustScore({
-        deviceId: result.device.id,
-      });
-      
-      // Refresh verification to get updated trust score
-      const response = await backend.verification.verify({
-        identifier: identifier.trim(),
-        identifierType,
-        includeTrustScore: true,
-        includeFingerprint,
-      });
-      setResult(response);
-
-      toast({
-        title: "Trust Score Updated",
-        description: "Trust score has been recalculated with latest data",
-      });
-    } catch (error) {
-      console.error('Trust score calculation error:', error);
-      toast({
-        title: "Error",
-        description: "Failed to calculate trust score",
-        variant: "destructive",
-      });
-    }
-  };
-
   return (
     <div className="max-w-4xl mx-auto space-y-8">
       <div className="text-center space-y-4">
@@ -193,12 +162,6 @@ export function VerificationPage() {
             <Button variant="secondary" onClick={handleSeedData} className="w-full">
               Load Sample Data (Demo)
             </Button>
-            {result && (
-              <Button variant="outline" onClick={handleCalculateTrustScore} className="w-full">
-                <Shield className="h-4 w-4 mr-2" />
-                Recalculate Trust Score
-              </Button>
-            )}
             <p className="text-sm text-gray-500 text-center">
               Click to add sample devices for testing. Try verifying "SN123456789" after seeding.
             </p>